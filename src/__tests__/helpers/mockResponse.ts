@@ -0,0 +1,22 @@
+/**
+ * Ett minimalt Express-svar för middlewaretester, som sparar status, headers och body
+ */
+export function createResponse() {
+  return {
+    statusCode: 200,
+    body: undefined as unknown,
+    headers: {} as Record<string, string>,
+    setHeader(name: string, value: string) {
+      this.headers[name] = value;
+      return this;
+    },
+    status(code: number) {
+      this.statusCode = code;
+      return this;
+    },
+    json(payload: unknown) {
+      this.body = payload;
+      return this;
+    }
+  };
+}
@@ -0,0 +1,99 @@
+import crypto from 'crypto';
+import { Request, Response } from 'express';
+import { ADMIN_SCOPES, parseAdminApiKeys, requireAdmin } from '../../middleware/adminAuth';
+import { supabase } from '../../services/supabaseService';
+import { createResponse } from '../helpers/mockResponse';
+
+jest.mock('../../services/supabaseService', () => ({
+  supabase: { auth: { getUser: jest.fn() } }
+}));
+
+const getUser = supabase.auth.getUser as jest.Mock;
+
+const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+
+async function run(middleware: ReturnType<typeof requireAdmin>, headers: Record<string, string> = {}) {
+  const res = createResponse();
+  const next = jest.fn();
+  const req = { headers, originalUrl: '/api/admin/test', ip: '127.0.0.1' } as unknown as Request;
+  await middleware(req, res as unknown as Response, next);
+  return { req, res, next };
+}
+
+describe('adminAuth', () => {
+  const originalKeys = process.env.ADMIN_API_KEYS;
+
+  beforeEach(() => {
+    getUser.mockReset();
+    process.env.ADMIN_API_KEYS = `monitor:${sha256('monitor-key')}:stats.read;ops:${sha256('ops-key')}:*`;
+  });
+
+  afterAll(() => {
+    process.env.ADMIN_API_KEYS = originalKeys;
+  });
+
+  describe('parseAdminApiKeys', () => {
+    it('should parse the scopes of each key and expand "*" to all scopes', () => {
+      const keys = parseAdminApiKeys(process.env.ADMIN_API_KEYS);
+      expect(keys.map(key => [key.name, key.scopes])).toEqual([
+        ['monitor', ['stats.read']],
+        ['ops', [...ADMIN_SCOPES]]
+      ]);
+    });
+
+    it('should skip entries with a plain key, unknown scopes or no scopes', () => {
+      const keys = parseAdminApiKeys([
+        'plain:not-a-hash:stats.read',
+        `unknown:${sha256('a')}:stats.read,everything`,
+        `empty:${sha256('b')}:`,
+        `valid:${sha256('c')}:cache.purge, database.reload`
+      ].join(';'));
+      expect(keys.map(key => [key.name, key.scopes])).toEqual([['valid', ['cache.purge', 'database.reload']]]);
+    });
+  });
+
+  describe('requireAdmin', () => {
+    it('should accept a key with the scope and put the key on the request', async () => {
+      const { req, next } = await run(requireAdmin('stats.read'), { 'x-admin-key': 'monitor-key' });
+      expect(next).toHaveBeenCalled();
+      expect(req.admin).toEqual({ type: 'apiKey', id: 'monitor', scopes: ['stats.read'] });
+      expect(getUser).not.toHaveBeenCalled();
+    });
+
+    it('should reject a key without the scope', async () => {
+      const { res, next } = await run(requireAdmin('stats.reset'), { 'x-admin-key': 'monitor-key' });
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(403);
+      expect(res.body).toMatchObject({ error: 'ADMIN_SCOPE_REQUIRED' });
+    });
+
+    it('should reject an unknown key and a request without credentials', async () => {
+      const unknown = await run(requireAdmin('stats.read'), { 'x-admin-key': 'guessed-key' });
+      expect(unknown.res.statusCode).toBe(401);
+      expect(unknown.res.body).toMatchObject({ error: 'INVALID_ADMIN_KEY' });
+
+      const missing = await run(requireAdmin('stats.read', 'successCode'));
+      expect(missing.res.statusCode).toBe(401);
+      expect(missing.res.body).toMatchObject({ success: false, error: 'ADMIN_AUTH_REQUIRED' });
+    });
+
+    it('should accept users with the admin role for every scope', async () => {
+      getUser.mockResolvedValue({
+        data: { user: { id: 'admin-1', email: null, app_metadata: { role: 'admin' } } },
+        error: null
+      });
+      const { req, next } = await run(requireAdmin('reports.moderate'), { authorization: 'Bearer token-1' });
+      expect(next).toHaveBeenCalled();
+      expect(req.admin).toMatchObject({ type: 'user', id: 'admin-1' });
+      expect(req.user).toMatchObject({ id: 'admin-1', role: 'admin' });
+    });
+
+    it('should reject users without the admin role', async () => {
+      getUser.mockResolvedValue({ data: { user: { id: 'user-1', email: null, app_metadata: {} } }, error: null });
+      const { res, next } = await run(requireAdmin('stats.read'), { authorization: 'Bearer token-1' });
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(403);
+      expect(res.body).toMatchObject({ error: 'ADMIN_REQUIRED' });
+    });
+  });
+});
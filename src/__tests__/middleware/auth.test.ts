@@ -0,0 +1,95 @@
+import { Request, Response } from 'express';
+import { AuthApiError, AuthRetryableFetchError } from '@supabase/supabase-js';
+import { authenticate, requireMatchingUser } from '../../middleware/auth';
+import { supabase } from '../../services/supabaseService';
+import { createResponse } from '../helpers/mockResponse';
+
+jest.mock('../../services/supabaseService', () => ({
+  supabase: { auth: { getUser: jest.fn() } }
+}));
+
+const getUser = supabase.auth.getUser as jest.Mock;
+
+async function run(middleware: ReturnType<typeof authenticate>, req: Partial<Request>) {
+  const res = createResponse();
+  const next = jest.fn();
+  const request = Object.assign(req, { headers: req.headers || {}, originalUrl: '/test' }) as Request;
+  await middleware(request, res as unknown as Response, next);
+  return { res, next };
+}
+
+describe('auth', () => {
+  beforeEach(() => {
+    getUser.mockReset();
+  });
+
+  describe('authenticate', () => {
+    it('should put the verified user on the request', async () => {
+      getUser.mockResolvedValue({ data: { user: { id: 'user-1', email: 'a@example.com' } }, error: null });
+      const req = { headers: { authorization: 'Bearer token-1' } } as Partial<Request>;
+      const { next } = await run(authenticate(), req);
+      expect(getUser).toHaveBeenCalledWith('token-1');
+      expect(next).toHaveBeenCalled();
+      expect(req.user).toEqual({ id: 'user-1', email: 'a@example.com', isAnonymous: false });
+    });
+
+    it('should require a token unless anonymous requests are allowed', async () => {
+      const { res, next } = await run(authenticate(), {});
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toMatchObject({ error: 'AUTH_REQUIRED' });
+
+      const req: Partial<Request> = {};
+      expect((await run(authenticate({ allowAnonymous: true }), req)).next).toHaveBeenCalled();
+      expect(req.user).toMatchObject({ id: 'anonymous', isAnonymous: true });
+    });
+
+    it('should reject an invalid token even when anonymous requests are allowed', async () => {
+      getUser.mockResolvedValue({ data: { user: null }, error: new AuthApiError('invalid JWT', 401, 'bad_jwt') });
+      const { res, next } = await run(
+        authenticate({ allowAnonymous: true, style: 'successMessage' }),
+        { headers: { authorization: 'Bearer expired' } }
+      );
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toEqual({ success: false, error: 'The access token is invalid or has expired' });
+    });
+
+    it('should reject a malformed Authorization header without calling Supabase', async () => {
+      const { res } = await run(authenticate(), { headers: { authorization: 'Basic dXNlcjpwYXNz' } });
+      expect(res.statusCode).toBe(401);
+      expect(res.body).toMatchObject({ error: 'INVALID_TOKEN' });
+      expect(getUser).not.toHaveBeenCalled();
+    });
+
+    it('should answer 503 when Supabase cannot be reached', async () => {
+      getUser.mockResolvedValue({ data: { user: null }, error: new AuthRetryableFetchError('fetch failed', 0) });
+      const { res } = await run(authenticate(), { headers: { authorization: 'Bearer token-1' } });
+      expect(res.statusCode).toBe(503);
+      expect(res.body).toMatchObject({ error: 'AUTH_UNAVAILABLE' });
+    });
+  });
+
+  describe('requireMatchingUser', () => {
+    const requireParamUser = requireMatchingUser(req => req.params.userId);
+    const user = { id: 'user-1', email: null, isAnonymous: false };
+
+    it('should accept the authenticated user and requests without a user id', async () => {
+      expect((await run(requireParamUser, { user, params: { userId: 'user-1' } })).next).toHaveBeenCalled();
+      expect((await run(requireParamUser, { user, params: {} })).next).toHaveBeenCalled();
+    });
+
+    it('should reject another user id', async () => {
+      const { res, next } = await run(requireParamUser, { user, params: { userId: 'user-2' } });
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(403);
+      expect(res.body).toEqual({ error: 'USER_MISMATCH', message: 'The userId does not match the authenticated user' });
+    });
+
+    it('should only let anonymous requests claim the anonymous user', async () => {
+      const anonymous = { id: 'anonymous', email: null, isAnonymous: true };
+      expect((await run(requireParamUser, { user: anonymous, params: { userId: 'anonymous' } })).next).toHaveBeenCalled();
+      expect((await run(requireParamUser, { user: anonymous, params: { userId: 'user-1' } })).res.statusCode).toBe(403);
+    });
+  });
+});
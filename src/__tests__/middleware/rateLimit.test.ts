@@ -0,0 +1,90 @@
+import { Request, Response } from 'express';
+import { getRateLimitRule, MemoryRateLimitStore, rateLimit, RateLimitStore } from '../../middleware/rateLimit';
+import { createResponse } from '../helpers/mockResponse';
+
+async function run(middleware: ReturnType<typeof rateLimit>, req: Partial<Request>) {
+  const res = createResponse();
+  const next = jest.fn();
+  await middleware({ originalUrl: '/test', ...req } as Request, res as unknown as Response, next);
+  return { res, next };
+}
+
+describe('rateLimit', () => {
+  const user = { id: 'user-1', email: null, isAnonymous: false };
+
+  beforeEach(() => {
+    process.env.RATE_LIMIT_VIDEO_PER_USER = '2';
+    process.env.RATE_LIMIT_VIDEO_PER_IP = '3';
+  });
+
+  afterEach(() => {
+    delete process.env.RATE_LIMIT_VIDEO_PER_USER;
+    delete process.env.RATE_LIMIT_VIDEO_PER_IP;
+  });
+
+  it('should read the limits from the environment', () => {
+    expect(getRateLimitRule('video')).toEqual({ windowMs: 60 * 60 * 1000, perUser: 2, perIp: 3 });
+    process.env.RATE_LIMIT_VIDEO_PER_USER = 'many';
+    expect(getRateLimitRule('video').perUser).toBe(30);
+  });
+
+  it('should answer 429 with RateLimit headers when the user limit is reached', async () => {
+    const limit = rateLimit('video', { style: 'successMessage', store: new MemoryRateLimitStore() });
+
+    const first = await run(limit, { user, ip: '10.0.0.1' });
+    expect(first.next).toHaveBeenCalled();
+    expect(first.res.headers).toMatchObject({ 'RateLimit-Limit': '2', 'RateLimit-Remaining': '1', 'RateLimit-Policy': '2;w=3600, 3;w=3600' });
+
+    await run(limit, { user, ip: '10.0.0.2' });
+    const blocked = await run(limit, { user, ip: '10.0.0.3' });
+    expect(blocked.next).not.toHaveBeenCalled();
+    expect(blocked.res.statusCode).toBe(429);
+    expect(Number(blocked.res.headers['Retry-After'])).toBeGreaterThan(0);
+    expect(blocked.res.body).toMatchObject({
+      success: false,
+      details: { endpointClass: 'video', scope: 'user', limit: 2, windowSeconds: 3600 }
+    });
+  });
+
+  it('should count anonymous requests per IP and keep the endpoint classes apart', async () => {
+    const store = new MemoryRateLimitStore();
+    const limitVideo = rateLimit('video', { store });
+    const limitLookup = rateLimit('lookup', { store });
+    const anonymous = { id: 'anonymous', email: null, isAnonymous: true };
+
+    for (let i = 0; i < 3; i++) {
+      expect((await run(limitVideo, { user: anonymous, ip: '10.0.0.1' })).next).toHaveBeenCalled();
+    }
+    const blocked = await run(limitVideo, { ip: '10.0.0.1' });
+    expect(blocked.res.statusCode).toBe(429);
+    expect(blocked.res.body).toMatchObject({ error: 'RATE_LIMITED', details: { scope: 'ip', limit: 3 } });
+
+    expect((await run(limitVideo, { ip: '10.0.0.2' })).next).toHaveBeenCalled();
+    expect((await run(limitLookup, { ip: '10.0.0.1' })).next).toHaveBeenCalled();
+  });
+
+  it('should let requests through when the store fails', async () => {
+    const store: RateLimitStore = {
+      increment: jest.fn().mockRejectedValue(new Error('connection refused')),
+      reset: jest.fn()
+    };
+    const { next } = await run(rateLimit('text', { store }), { ip: '10.0.0.1' });
+    expect(next).toHaveBeenCalled();
+  });
+
+  describe('MemoryRateLimitStore', () => {
+    it('should start a new window when the old one has expired', async () => {
+      const store = new MemoryRateLimitStore(2);
+      const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+      expect(await store.increment('a', 100)).toEqual({ count: 1, resetAt: 1100 });
+      expect(await store.increment('a', 100)).toEqual({ count: 2, resetAt: 1100 });
+      await store.increment('b', 100);
+
+      // The expired windows are removed when the store is full
+      now.mockReturnValue(1200);
+      expect(await store.increment('a', 100)).toEqual({ count: 1, resetAt: 1300 });
+      expect(store.size).toBe(1);
+      now.mockRestore();
+    });
+  });
+});
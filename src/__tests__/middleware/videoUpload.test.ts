@@ -0,0 +1,140 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express, { Request, Response } from 'express';
+import { claimVideoUpload, receiveVideoUpload } from '../../middleware/videoUpload';
+import { videoUploadService } from '../../services/videoUploadService';
+
+describe('receiveVideoUpload', () => {
+  let server: Server;
+  let baseUrl: string;
+  let received: { body: unknown; path?: string; exists?: boolean }[];
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.post('/upload', receiveVideoUpload({ style: 'successMessage' }), (req: Request, res: Response) => {
+      if (req.query.claim === 'true') {
+        claimVideoUpload(req);
+      }
+      received.push({
+        body: req.body,
+        path: req.videoUpload?.path,
+        exists: req.videoUpload ? fs.existsSync(req.videoUpload.path) : undefined
+      });
+      res.json({ success: true });
+    });
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    received = [];
+  });
+
+  // The file is removed after the response has been sent
+  const waitForRemoval = () => new Promise(resolve => setTimeout(resolve, 50));
+
+  it('should write a raw upload to the temp directory and read the fields from the query', async () => {
+    const response = await fetch(`${baseUrl}/upload?preferredLanguage=en&gtin=4006381333931`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'video/mp4' },
+      body: Buffer.alloc(1024, 1)
+    });
+
+    expect(response.status).toBe(200);
+    expect(received[0]).toMatchObject({
+      body: { preferredLanguage: 'en', gtin: '4006381333931', mimeType: 'video/mp4' },
+      exists: true
+    });
+    expect(received[0].path).toMatch(/koalens-videos.*-upload\.mp4$/);
+    await waitForRemoval();
+    expect(fs.existsSync(received[0].path!)).toBe(false);
+  });
+
+  it('should accept a multipart upload with the video in the video field', async () => {
+    const form = new FormData();
+    form.append('dietProfile', 'vegan');
+    form.append('video', new Blob([Buffer.alloc(512, 2)], { type: 'video/webm' }), 'clip.webm');
+
+    const response = await fetch(`${baseUrl}/upload?claim=true`, { method: 'POST', body: form });
+
+    expect(response.status).toBe(200);
+    expect(received[0]).toMatchObject({ body: { dietProfile: 'vegan', mimeType: 'video/webm' }, exists: true });
+    // A claimed file is left for the route to remove
+    await waitForRemoval();
+    expect(fs.existsSync(received[0].path!)).toBe(true);
+    fs.unlinkSync(received[0].path!);
+  });
+
+  it('should reject unsupported video types and uploads over 50MB', async () => {
+    const unsupported = await fetch(`${baseUrl}/upload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'video/x-msvideo' },
+      body: Buffer.alloc(10)
+    });
+    expect(unsupported.status).toBe(415);
+    expect(await unsupported.json()).toEqual({
+      success: false,
+      error: 'Unsupported video type: video/x-msvideo. Supported types: video/mp4, video/quicktime, video/webm'
+    });
+
+    const withoutType = await fetch(`${baseUrl}/upload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/octet-stream' },
+      body: Buffer.alloc(10)
+    });
+    expect(withoutType.status).toBe(415);
+
+    const tooLarge = new FormData();
+    tooLarge.append('video', new Blob([Buffer.alloc(50 * 1024 * 1024 + 1)], { type: 'video/mp4' }), 'clip.mp4');
+    const tooLargeResponse = await fetch(`${baseUrl}/upload`, { method: 'POST', body: tooLarge });
+    expect(tooLargeResponse.status).toBe(413);
+    expect(await tooLargeResponse.json()).toMatchObject({ error: 'Video file too large. Maximum size is 50MB' });
+    expect(received).toHaveLength(0);
+  });
+
+  it('should use a finished resumable upload named by uploadId', async () => {
+    const upload = await videoUploadService.create({ mimeType: 'video/mp4', length: 4 });
+    const post = (query = '') => fetch(`${baseUrl}/upload${query}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ uploadId: upload.id, preferredLanguage: 'sv' })
+    });
+
+    const unfinished = await post();
+    expect(unfinished.status).toBe(409);
+    expect(await unfinished.json()).toEqual({ success: false, error: 'The upload must be finished before it is analyzed' });
+
+    await videoUploadService.append(upload, 0, Readable.from([Buffer.alloc(4, 1)]));
+    await videoUploadService.finalize(upload);
+
+    // An unclaimed upload is kept, so a rejected request can be retried
+    expect((await post()).status).toBe(200);
+    expect(received[0]).toMatchObject({ body: { mimeType: 'video/mp4' }, path: upload.path, exists: true });
+    await waitForRemoval();
+    expect(fs.existsSync(upload.path)).toBe(true);
+
+    expect((await post('?claim=true')).status).toBe(200);
+    expect(videoUploadService.get(upload.id)).toBeNull();
+    expect((await post()).status).toBe(404);
+    fs.unlinkSync(upload.path);
+  });
+
+  it('should leave JSON requests to the legacy path', async () => {
+    const response = await fetch(`${baseUrl}/upload`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ base64Data: 'AAAA', mimeType: 'video/mp4' })
+    });
+
+    expect(response.status).toBe(200);
+    expect(received[0]).toEqual({ body: { base64Data: 'AAAA', mimeType: 'video/mp4' }, path: undefined, exists: undefined });
+  });
+});
@@ -0,0 +1,128 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import adminRoutes from '../../routes/adminRoutes';
+import { auditLog } from '../../services/auditLogService';
+import { productStore, StoredProduct } from '../../services/productStore';
+
+jest.mock('../../services/supabaseService', () => ({
+  supabase: { auth: { getUser: jest.fn() } }
+}));
+
+jest.mock('../../services/auditLogService', () => ({
+  auditLog: { record: jest.fn(), list: jest.fn() }
+}));
+
+jest.mock('../../services/analysisService', () => ({
+  __esModule: true,
+  default: { purgeCache: jest.fn() }
+}));
+
+jest.mock('../../services/imageProcessor', () => ({
+  imageProcessor: { purgeCache: jest.fn() }
+}));
+
+jest.mock('../../routes/videoAnalysis', () => ({
+  getVideoApiStats: jest.fn(),
+  resetVideoApiStats: jest.fn()
+}));
+
+// Produktregistret i en tillfällig katalog
+jest.mock('../../services/productStore', () => {
+  const actual = jest.requireActual('../../services/productStore');
+  const directory = jest.requireActual('fs').mkdtempSync(
+    jest.requireActual('path').join(jest.requireActual('os').tmpdir(), 'koalens-admin-products-')
+  );
+  return { ...actual, productStore: new actual.ProductStore(directory) };
+});
+
+const record = auditLog.record as jest.Mock;
+
+const GTIN = '04006381333931';
+
+const storedProduct: StoredProduct = {
+  gtin: GTIN,
+  productName: 'Havrekakor',
+  ingredients: [{ name: 'Havre', source: 'declared', isVegan: true, isUncertain: false, confidence: 0.98 }],
+  isVegan: true,
+  isUncertain: false,
+  confidence: 0.98,
+  dietProfile: 'vegan',
+  analysisType: 'text',
+  databaseVersion: 'abc123',
+  verifiedAt: '2025-01-01T00:00:00.000Z',
+  verifiedBy: 'user-1'
+};
+
+describe('adminRoutes products', () => {
+  let server: Server;
+  let baseUrl: string;
+  const previousKeys = process.env.ADMIN_API_KEYS;
+
+  beforeAll(async () => {
+    const sha256 = (value: string) => crypto.createHash('sha256').update(value).digest('hex');
+    process.env.ADMIN_API_KEYS = `ops:${sha256('ops-key')}:products.manage;monitor:${sha256('monitor-key')}:stats.read`;
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/admin', adminRoutes);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/admin/products`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(productStore['directory'], { recursive: true, force: true });
+    process.env.ADMIN_API_KEYS = previousKeys;
+  });
+
+  beforeEach(async () => {
+    record.mockClear();
+    await productStore.saveProduct(storedProduct);
+  });
+
+  const send = (method: string, gtin: string, body?: object, key = 'ops-key') => fetch(`${baseUrl}/${gtin}`, {
+    method,
+    headers: { 'Content-Type': 'application/json', 'X-Admin-Key': key },
+    ...(body ? { body: JSON.stringify(body) } : {})
+  });
+
+  it('should correct a product and keep the correction from later scans', async () => {
+    const response = await send('PATCH', GTIN, { ingredients: [{ name: 'Havre', isVegan: true }, { name: 'Smör', isVegan: false }] });
+    expect(response.status).toBe(200);
+    expect((await response.json() as any).product).toMatchObject({ isVegan: false, correctedBy: 'apiKey:ops' });
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({
+      action: 'products.correct',
+      target: GTIN,
+      success: true,
+      details: expect.objectContaining({ previous: expect.objectContaining({ isVegan: true, verifiedBy: 'user-1' }) })
+    }));
+
+    expect(await productStore.saveVerifiedProduct(storedProduct, 'user-2')).toBeUndefined();
+    expect(await productStore.getProduct(GTIN)).toMatchObject({ isVegan: false });
+  });
+
+  it('should delete a product and log it', async () => {
+    const response = await send('DELETE', GTIN);
+    expect(response.status).toBe(200);
+    expect(await productStore.getProduct(GTIN)).toBeNull();
+    expect(record).toHaveBeenCalledWith(expect.objectContaining({ action: 'products.delete', target: GTIN, success: true }));
+
+    const missing = await send('DELETE', GTIN);
+    expect(missing.status).toBe(404);
+    expect(await missing.json()).toMatchObject({ success: false, error: 'PRODUCT_NOT_FOUND' });
+    expect(record).toHaveBeenLastCalledWith(expect.objectContaining({ action: 'products.delete', success: false }));
+  });
+
+  it('should reject empty corrections, invalid barcodes and keys without the scope', async () => {
+    expect(await (await send('PATCH', GTIN, {})).json()).toMatchObject({ error: 'EMPTY_CORRECTION' });
+    expect(await (await send('DELETE', '123')).json()).toMatchObject({ error: 'INVALID_GTIN' });
+
+    const forbidden = await send('DELETE', GTIN, undefined, 'monitor-key');
+    expect(forbidden.status).toBe(403);
+    expect(await productStore.getProduct(GTIN)).not.toBeNull();
+  });
+});
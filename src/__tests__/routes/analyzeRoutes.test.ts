@@ -0,0 +1,144 @@
+import fs from 'fs';
+import { AddressInfo } from 'net';
+import { Server } from 'http';
+import express from 'express';
+import analyzeRoutes from '../../routes/analyzeRoutes';
+import analysisService from '../../services/analysisService';
+import { productStore, StoredProduct } from '../../services/productStore';
+import { supabase } from '../../services/supabaseService';
+import { AnalysisResult } from '../../utils/outputParser';
+
+jest.mock('../../services/supabaseService', () => ({
+  supabase: { auth: { getUser: jest.fn() } }
+}));
+
+jest.mock('../../services/counterService', () => ({
+  incrementCounter: jest.fn(),
+  getUsageInfo: jest.fn()
+}));
+
+jest.mock('../../services/analysisService', () => ({
+  __esModule: true,
+  default: {
+    analyzeText: jest.fn(),
+    analyzeIngredients: jest.fn(),
+    analyzeImage: jest.fn(),
+    analyzeStoredProduct: jest.fn()
+  }
+}));
+
+// Produktregistret i en tillfällig katalog
+jest.mock('../../services/productStore', () => {
+  const actual = jest.requireActual('../../services/productStore');
+  const directory = jest.requireActual('fs').mkdtempSync(
+    jest.requireActual('path').join(jest.requireActual('os').tmpdir(), 'koalens-route-products-')
+  );
+  return { ...actual, productStore: new actual.ProductStore(directory) };
+});
+
+const getUser = supabase.auth.getUser as jest.Mock;
+const mockedAnalysis = analysisService as jest.Mocked<typeof analysisService>;
+
+const GTIN = '04006381333931';
+
+function createResult(isVegan: boolean, ingredient: string): AnalysisResult {
+  return {
+    isVegan,
+    confidence: 0.9,
+    ingredientList: [ingredient],
+    nonVeganIngredients: isVegan ? [] : [ingredient],
+    reasoning: '',
+    ingredientVerdicts: [{ name: ingredient, isVegan, isUncertain: false, confidence: 0.9, trace: [] }],
+    dietProfile: 'vegan'
+  };
+}
+
+const storedProduct: StoredProduct = {
+  gtin: GTIN,
+  productName: null,
+  ingredients: [{ name: 'Socker', source: 'declared', isVegan: true, isUncertain: false, confidence: 0.9 }],
+  isVegan: true,
+  isUncertain: false,
+  confidence: 0.9,
+  dietProfile: 'vegan',
+  analysisType: 'text',
+  databaseVersion: '',
+  verifiedAt: '2025-01-01T00:00:00.000Z',
+  verifiedBy: 'user-1'
+};
+
+describe('analyzeRoutes and the product store', () => {
+  let server: Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api/analyze', analyzeRoutes);
+    server = app.listen(0);
+    await new Promise(resolve => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/api/analyze`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+    fs.rmSync(productStore['directory'], { recursive: true, force: true });
+  });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    getUser.mockImplementation(async (token: string) => ({
+      data: { user: { id: token.replace('token-', 'user-'), email: null } },
+      error: null
+    }));
+    mockedAnalysis.analyzeText.mockResolvedValue(createResult(false, 'Vassle'));
+    mockedAnalysis.analyzeImage.mockResolvedValue(createResult(false, 'Vassle'));
+    mockedAnalysis.analyzeStoredProduct.mockResolvedValue(createResult(true, 'Socker'));
+    await productStore.deleteProduct(GTIN);
+  });
+
+  const post = (route: string, body: object, token?: string) => fetch(`${baseUrl}/${route}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...(token ? { Authorization: `Bearer ${token}` } : {}) },
+    body: JSON.stringify({ gtin: GTIN, responseVersion: 2, ...body })
+  });
+
+  it('should only answer a request with the barcode alone from the store', async () => {
+    await productStore.saveProduct(storedProduct);
+
+    const repeatScan = await post('text', {});
+    expect(repeatScan.status).toBe(200);
+    expect((await repeatScan.json() as any).product).toMatchObject({ fromStore: true });
+    expect(mockedAnalysis.analyzeStoredProduct).toHaveBeenCalledTimes(1);
+
+    // Sent text and images are analyzed instead of being ignored
+    const withText = await post('text', { text: 'Vassle' });
+    expect(withText.status).toBe(200);
+    expect(mockedAnalysis.analyzeText).toHaveBeenCalledWith('Vassle', 'vegan', expect.anything());
+
+    const withImage = await post('image', { image: 'aGVq', mimeType: 'image/jpeg' });
+    expect(withImage.status).toBe(200);
+    expect(mockedAnalysis.analyzeImage).toHaveBeenCalledTimes(1);
+    expect(mockedAnalysis.analyzeStoredProduct).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not let anonymous analyses replace a stored product', async () => {
+    // An anonymous analysis is not saved at all
+    await post('text', { text: 'Vassle' });
+    expect(await productStore.getProduct(GTIN)).toBeNull();
+
+    await productStore.saveProduct(storedProduct);
+    await post('text', { text: 'Vassle' });
+    expect(await productStore.getProduct(GTIN)).toMatchObject({ isVegan: true, verifiedBy: 'user-1' });
+
+    // A newer analysis by a signed-in user replaces it
+    const correction = await post('text', { text: 'Vassle' }, 'token-2');
+    expect((await correction.json() as any).product).toMatchObject({ fromStore: false });
+    expect(await productStore.getProduct(GTIN)).toMatchObject({ isVegan: false, verifiedBy: 'user-2' });
+  });
+
+  it('should save a signed-in user\'s first scan of a barcode', async () => {
+    await post('image', { image: 'aGVq', mimeType: 'image/jpeg' }, 'token-3');
+    expect(await productStore.getProduct(GTIN)).toMatchObject({ analysisType: 'image', verifiedBy: 'user-3' });
+  });
+});
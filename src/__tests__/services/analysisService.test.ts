@@ -0,0 +1,83 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { AnalysisService } from '../../services/analysisService';
+import { AIServiceFactory } from '../../services/aiServiceFactory';
+import * as ingredientsDatabase from '../../utils/ingredientsDatabase';
+
+jest.mock('../../services/aiServiceFactory', () => ({
+  AIServiceFactory: { getService: jest.fn() }
+}));
+
+jest.mock('../../services/imageProcessor', () => ({
+  imageProcessor: {
+    compressImage: jest.fn(async (image: string) => image),
+    optimizeForOCR: jest.fn(async (image: string) => image),
+    enhanceIngredientList: jest.fn(async (image: string) => image),
+    purgeCache: jest.fn()
+  }
+}));
+
+jest.mock('../../utils/ingredientsDatabase', () => {
+  const actual = jest.requireActual('../../utils/ingredientsDatabase');
+  return {
+    ...actual,
+    getIngredientDataset: jest.fn(actual.getIngredientDataset),
+    onIngredientDatabaseReload: jest.fn(actual.onIngredientDatabaseReload)
+  };
+});
+
+describe('AnalysisService image cache', () => {
+  const generateContentFromMedia = jest.fn();
+  const previousCacheSetting = process.env.ENABLE_ANALYSIS_CACHE;
+  const getIngredientDataset = ingredientsDatabase.getIngredientDataset as jest.Mock;
+  const { getIngredientDataset: getActualDataset } = jest.requireActual('../../utils/ingredientsDatabase');
+  let directory: string;
+  let cwd: jest.SpyInstance;
+  let service: AnalysisService;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'koalens-analysis-'));
+    cwd = jest.spyOn(process, 'cwd').mockReturnValue(directory);
+    process.env.ENABLE_ANALYSIS_CACHE = 'true';
+    (AIServiceFactory.getService as jest.Mock).mockResolvedValue({ generateContentFromMedia });
+    generateContentFromMedia.mockReset().mockResolvedValue(JSON.stringify({
+      isVegan: true,
+      confidence: 0.9,
+      ingredientList: ['Socker', 'Salt'],
+      nonVeganIngredients: [],
+      reasoning: 'Alla ingredienser är växtbaserade'
+    }));
+    service = new AnalysisService();
+  });
+
+  afterEach(() => {
+    cwd.mockRestore();
+    getIngredientDataset.mockImplementation(getActualDataset);
+    process.env.ENABLE_ANALYSIS_CACHE = previousCacheSetting;
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  const cacheFiles = (): string[] => fs.readdirSync(path.join(directory, 'cache', 'analysis'));
+
+  it('should not use a result cached with another catalogue version', async () => {
+    await service.analyzeImage('aW1hZ2U=');
+    await service.analyzeImage('aW1hZ2U=');
+    expect(generateContentFromMedia).toHaveBeenCalledTimes(1);
+
+    const dataset = getActualDataset();
+    getIngredientDataset.mockReturnValue({ ...dataset, version: 'next' });
+    await service.analyzeImage('aW1hZ2U=');
+    expect(generateContentFromMedia).toHaveBeenCalledTimes(2);
+  });
+
+  it('should purge the cache when the ingredient database is reloaded', async () => {
+    await service.analyzeImage('aW1hZ2U=');
+    expect(cacheFiles()).toHaveLength(1);
+
+    const listeners = (ingredientsDatabase.onIngredientDatabaseReload as jest.Mock).mock.calls;
+    listeners[listeners.length - 1][0](ingredientsDatabase.getIngredientDataset());
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(cacheFiles()).toHaveLength(0);
+  });
+});
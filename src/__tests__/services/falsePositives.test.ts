@@ -0,0 +1,111 @@
+import { findBestMatch, validateIngredients } from '../../services/veganValidator';
+import { DEFINITELY_NON_VEGAN } from '../../constants/veganIngredients';
+import { checkIngredientStatus, getIngredientDataset } from '../../utils/ingredientsDatabase';
+
+// Kända falska träffar från delsträngsmatchning, samt sammansättningar som fortfarande ska hittas
+describe('ingredient matching false positives', () => {
+  const dataset = getIngredientDataset();
+  const statusOf = (name: string): string => {
+    const result = checkIngredientStatus(name, dataset);
+    return result.isVegan === false ? 'non-vegan' : result.isUncertain ? 'uncertain' : result.isVegan ? 'vegan' : 'unknown';
+  };
+
+  describe('checkIngredientStatus', () => {
+    it.each([
+      ['Arom', 'vegan'],
+      ['Naturlig arom', 'vegan'],
+      ['Romansallad', 'unknown'],
+      ['Rostad lök', 'unknown'],
+      ['Rostade hasselnötter', 'vegan'],
+      ['Äggplanta', 'vegan'],
+      ['Äggfri', 'unknown'],
+      ['Alpha-galaktosidas', 'vegan'],
+      ['Beta-galaktosidas', 'vegan'],
+      ['Esterar av fettsyror', 'vegan']
+    ])('should not flag %s', (name, expected) => {
+      expect(statusOf(name)).toBe(expected);
+    });
+
+    it.each([
+      ['Vasslepulver', 'Vassle'],
+      ['Vassleproteinkoncentrat', 'Vassle'],
+      ['Gelatinpulver', 'Gelatin'],
+      ['Fiskbuljong', 'Fisk'],
+      ['Honungssirap', 'Honung'],
+      ['Natriumkaseinat', 'Kaseinat'],
+      ['Kycklingfilé', 'Filé']
+    ])('should still flag the compound %s via %s', (name, matched) => {
+      const result = checkIngredientStatus(name, dataset);
+      expect(result.isVegan).toBe(false);
+      expect(result.matchedItem?.name).toBe(matched);
+    });
+
+    it('should still flag compounds with uncertain parts', () => {
+      const result = checkIngredientStatus('Lecitinpulver', dataset);
+      expect(result.isUncertain).toBe(true);
+      expect(result.matchedItem?.name).toBe('Lecitin');
+    });
+
+    it('should still match names that occur as separate words', () => {
+      expect(statusOf('Torkad fisk')).toBe('non-vegan');
+      expect(statusOf('Karmin (E120)')).toBe('non-vegan');
+    });
+
+    it.each([
+      ['Laktosfri mjölk', 'Mjölk'],
+      ['Ekologisk mjölk', 'Mjölk'],
+      ['Hel äggula', 'Äggula'],
+      ['Rökt lax', 'Lax'],
+      ['Riven ost', 'Ost']
+    ])('should flag %s via the exact-match term %s as a whole word', (name, matched) => {
+      const result = checkIngredientStatus(name, dataset);
+      expect(result.isVegan).toBe(false);
+      expect(result.matchedItem?.name).toBe(matched);
+    });
+  });
+
+  describe('validateIngredients', () => {
+    // Kända ingredienser, så att inga läsfelsheuristiker sänker konfidensen
+    const baseIngredients = ['vetemjöl', 'sojaprotein', 'rapsolja', 'palmolja', 'havredryck'];
+    const originalEnv = process.env.NODE_ENV;
+
+    afterEach(() => {
+      process.env.NODE_ENV = originalEnv;
+    });
+
+    it.each(['arom', 'romansallad', 'rostad lök', 'rostade hasselnötter', 'vegetabilisk olja', 'laktas', 'E105', 'E110', 'E1420', 'E1520'])(
+      'should not flag %s',
+      ingredient => {
+        const result = validateIngredients([...baseIngredients, ingredient]);
+        expect(result.nonVeganIngredients).not.toContain(ingredient);
+        expect(result.uncertainIngredients).not.toContain(ingredient);
+      }
+    );
+
+    it('should treat exact safe exceptions as vegan with full confidence', () => {
+      for (const ingredient of ['laktas', 'E1420', 'naturlig arom']) {
+        const result = validateIngredients([...baseIngredients, ingredient]);
+        expect(result.isVegan).toBe(true);
+        expect(result.confidence).toBe(1);
+      }
+    });
+
+    it('should only report animal indicators that occur as words or compound parts', () => {
+      process.env.NODE_ENV = 'development';
+      for (const ingredient of ['rostad lök', 'vegetabilisk olja', 'hasselnötter', 'romansallad']) {
+        expect(validateIngredients([...baseIngredients, ingredient]).reasoning)
+          .not.toContain(`${ingredient} innehåller en animalisk indikator`);
+      }
+      for (const ingredient of ['kyckling i bitar', 'torkad kyckling']) {
+        expect(validateIngredients([...baseIngredients, ingredient]).reasoning)
+          .toContain(`${ingredient} innehåller en animalisk indikator`);
+      }
+    });
+
+    it('should compare E-numbers exactly', () => {
+      expect(findBestMatch('e120', DEFINITELY_NON_VEGAN).similarity).toBe(1);
+      expect(findBestMatch('e1520', DEFINITELY_NON_VEGAN).match).toBeFalsy();
+      expect(findBestMatch('e105', DEFINITELY_NON_VEGAN).match).toBeFalsy();
+    });
+  });
+});
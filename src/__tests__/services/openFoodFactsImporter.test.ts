@@ -0,0 +1,186 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createProductFromOpenFoodFacts,
+  getExportFormat,
+  importOpenFoodFacts
+} from '../../services/openFoodFactsImporter';
+import { ProductStore, StoredProduct } from '../../services/productStore';
+
+describe('openFoodFactsImporter', () => {
+  let directory: string;
+  let store: ProductStore;
+
+  const oatCookies = {
+    code: '4006381333931',
+    product_name: 'Havrekakor',
+    ingredients_text_sv: 'Ingredienser: havre 60%, rapsolja. Kan innehålla spår av _mjölk_.',
+    last_modified_t: 1700000000
+  };
+  const milkChocolate = {
+    code: '96385074',
+    product_name_sv: 'Mjölkchoklad',
+    ingredients_text_sv: '_mjölk_pulver, xyzzyfoo',
+    last_modified_t: 1700000000
+  };
+  const unknown = {
+    code: '036000291452',
+    ingredients_text_en: 'rapeseed oil, xyzzyfoo',
+    last_modified_t: 1700000000
+  };
+
+  const writeExport = (name: string, records: object[]): string => {
+    const filePath = path.join(directory, name);
+    fs.writeFileSync(filePath, records.map(record => JSON.stringify(record)).join('\n'));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'koalens-off-'));
+    store = new ProductStore(path.join(directory, 'products'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  describe('createProductFromOpenFoodFacts', () => {
+    it('should store the declared ingredients with their database status and the traces', () => {
+      const product = createProductFromOpenFoodFacts('04006381333931', oatCookies);
+      expect(product).toMatchObject({
+        gtin: '04006381333931',
+        productName: 'Havrekakor',
+        isVegan: true,
+        isUncertain: false,
+        analysisType: 'import',
+        sourceLastModified: 1700000000
+      });
+      expect(product?.ingredients.map(ingredient => [ingredient.name, ingredient.source, ingredient.isVegan])).toEqual([
+        ['havre', 'declared', true],
+        ['rapsolja', 'declared', true],
+        ['mjölk', 'trace', null]
+      ]);
+    });
+
+    it('should decide a product with a non-vegan ingredient even if other ingredients are unknown', () => {
+      const product = createProductFromOpenFoodFacts('00000096385074', milkChocolate);
+      expect(product?.isVegan).toBe(false);
+      expect(product?.ingredients[0]).toMatchObject({ name: 'mjölkpulver', animalCategories: ['dairy'] });
+    });
+
+    it('should decide a vegan product made of common plant staples', () => {
+      const darkChocolate = {
+        code: '7310511210501',
+        product_name_sv: 'Mörk choklad 70%',
+        ingredients_text_sv: 'Ingredienser: kakaomassa, socker, kakaosmör, emulgeringsmedel (sojalecitin), ' +
+          'vaniljextrakt. Kan innehålla spår av _mjölk_ och hasselnötter.',
+        last_modified_t: 1700000000
+      };
+      const bread = { code: '7310511210518', ingredients_text_sv: 'Vetemjöl, vatten, rapsolja, jäst, salt, socker' };
+
+      expect(createProductFromOpenFoodFacts('07310511210501', darkChocolate)).toMatchObject({
+        isVegan: true,
+        isUncertain: false
+      });
+      expect(createProductFromOpenFoodFacts('07310511210518', bread)?.isVegan).toBe(true);
+      expect(createProductFromOpenFoodFacts('07310511210525', { ingredients_text_sv: 'socker, kakaosmör' })?.isVegan)
+        .toBe(true);
+    });
+
+    it('should not decide a product with unknown ingredients', () => {
+      expect(createProductFromOpenFoodFacts('00036000291452', unknown)).toBeNull();
+      expect(createProductFromOpenFoodFacts('00036000291452', { code: '036000291452' })).toBeNull();
+    });
+  });
+
+  it('should pick the export format from the file extension', () => {
+    expect(getExportFormat('products.jsonl')).toBe('jsonl');
+    expect(getExportFormat('en.openfoodfacts.org.products.csv')).toBe('csv');
+    expect(getExportFormat('products.xml')).toBeNull();
+  });
+
+  it('should import the products that the database can decide', async () => {
+    const filePath = writeExport('products.jsonl', [oatCookies, milkChocolate, unknown, { code: '1234', ingredients_text_sv: 'havre' }]);
+    fs.appendFileSync(filePath, '\nnot json\n');
+
+    expect(await importOpenFoodFacts(filePath, store)).toEqual({
+      read: 5,
+      imported: 2,
+      unchanged: 0,
+      verified: 0,
+      undecided: 1,
+      removed: 0,
+      skipped: 2
+    });
+    expect(await store.getProduct('04006381333931')).toMatchObject({ productName: 'Havrekakor', isVegan: true });
+    expect(await store.getProduct('00036000291452')).toBeNull();
+  });
+
+  it('should only process changed products when run again', async () => {
+    await importOpenFoodFacts(writeExport('first.jsonl', [oatCookies, milkChocolate]), store);
+    const changed = { ...oatCookies, ingredients_text_sv: 'havre, vassle', last_modified_t: 1700000100 };
+
+    const summary = await importOpenFoodFacts(writeExport('second.jsonl', [changed, milkChocolate]), store);
+    expect(summary).toMatchObject({ imported: 1, unchanged: 1 });
+    expect((await store.getProduct('04006381333931'))?.isVegan).toBe(false);
+
+    const forced = await importOpenFoodFacts(writeExport('third.jsonl', [changed, milkChocolate]), store, { force: true });
+    expect(forced).toMatchObject({ imported: 2, unchanged: 0 });
+  });
+
+  it('should reprocess products imported for another diet profile', async () => {
+    const filePath = writeExport('products.jsonl', [oatCookies]);
+    await importOpenFoodFacts(filePath, store);
+    const summary = await importOpenFoodFacts(filePath, store, { dietProfile: 'vegetarian' });
+    expect(summary).toMatchObject({ imported: 1, unchanged: 0 });
+    expect((await store.getProduct('04006381333931'))?.dietProfile).toBe('vegetarian');
+  });
+
+  it('should remove an earlier import that can no longer be decided', async () => {
+    await importOpenFoodFacts(writeExport('first.jsonl', [oatCookies]), store);
+    const changed = { ...oatCookies, ingredients_text_sv: 'havre, xyzzyfoo', last_modified_t: 1700000100 };
+    expect(await importOpenFoodFacts(writeExport('second.jsonl', [changed]), store)).toMatchObject({ undecided: 1, removed: 1 });
+    expect(await store.getProduct('04006381333931')).toBeNull();
+  });
+
+  it('should keep products verified by a scan', async () => {
+    const scanned: StoredProduct = {
+      gtin: '04006381333931',
+      productName: null,
+      ingredients: [{ name: 'Havre', source: 'declared', isVegan: true, isUncertain: false, confidence: 0.98 }],
+      isVegan: true,
+      isUncertain: false,
+      confidence: 0.98,
+      dietProfile: 'vegan',
+      analysisType: 'text',
+      databaseVersion: 'abc123',
+      verifiedAt: '2025-01-01T00:00:00.000Z'
+    };
+    await store.saveProduct(scanned);
+    expect(await importOpenFoodFacts(writeExport('products.jsonl', [oatCookies]), store)).toMatchObject({ verified: 1, imported: 0 });
+    expect(await store.getProduct('04006381333931')).toEqual(scanned);
+  });
+
+  it('should keep imported products that an admin corrected', async () => {
+    await importOpenFoodFacts(writeExport('products.jsonl', [oatCookies]), store);
+    const corrected = await store.correctProduct('04006381333931', { productName: 'Havrekakor' }, 'apiKey:ops');
+    expect(await importOpenFoodFacts(writeExport('products.jsonl', [oatCookies]), store, { force: true }))
+      .toMatchObject({ verified: 1, imported: 0 });
+    expect(await store.getProduct('04006381333931')).toEqual(corrected);
+  });
+
+  it('should read the tab-separated CSV export', async () => {
+    const filePath = path.join(directory, 'products.csv');
+    fs.writeFileSync(filePath, [
+      'code\tproduct_name\tingredients_text_sv\tingredients_text_en\tlast_modified_t',
+      '4006381333931\t"Havre" kakor\thavre, rapsolja\t\t1700000000'
+    ].join('\n'));
+
+    expect(await importOpenFoodFacts(filePath, store)).toMatchObject({ read: 1, imported: 1 });
+    expect(await store.getProduct('04006381333931')).toMatchObject({
+      productName: '"Havre" kakor',
+      sourceLastModified: 1700000000
+    });
+  });
+});
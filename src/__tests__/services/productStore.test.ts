@@ -0,0 +1,179 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  createProductFromAnalysis,
+  createProductFromVideoAnalysis,
+  ProductStore,
+  StoredProduct
+} from '../../services/productStore';
+import { AnalysisResult } from '../../utils/outputParser';
+
+describe('ProductStore', () => {
+  let directory: string;
+  let store: ProductStore;
+
+  const product: StoredProduct = {
+    gtin: '04006381333931',
+    productName: 'Havrekakor',
+    ingredients: [
+      { name: 'Havregryn', source: 'declared', isVegan: true, isUncertain: false, confidence: 0.98 },
+      { name: 'Mjölk', source: 'trace', isVegan: false, isUncertain: false, confidence: 0.98 }
+    ],
+    isVegan: true,
+    isUncertain: false,
+    confidence: 0.98,
+    dietProfile: 'vegan',
+    analysisType: 'video',
+    databaseVersion: 'abc123',
+    verifiedAt: '2025-01-01T00:00:00.000Z'
+  };
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'koalens-products-'));
+    store = new ProductStore(directory);
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it('should save and read a product by its gtin', async () => {
+    await store.saveProduct(product);
+    expect(await store.getProduct(product.gtin)).toEqual(product);
+    expect(fs.readdirSync(directory)).toEqual([`${product.gtin}.json`]);
+  });
+
+  it('should return null for unknown products', async () => {
+    expect(await store.getProduct('00000096385074')).toBeNull();
+  });
+
+  it('should replace the previous verification', async () => {
+    await store.saveProduct(product);
+    await store.saveProduct({ ...product, isVegan: false, verifiedAt: '2025-02-01T00:00:00.000Z' });
+    expect((await store.getProduct(product.gtin))?.isVegan).toBe(false);
+  });
+
+  it('should not mix up concurrent saves of the same product', async () => {
+    const versions = Array.from({ length: 10 }, (_, i) => ({ ...product, confidence: i / 10 }));
+    await Promise.all(versions.map(version => store.saveProduct(version)));
+
+    const saved = await store.getProduct(product.gtin);
+    expect(versions).toContainEqual(saved);
+    expect(fs.readdirSync(directory)).toEqual([`${product.gtin}.json`]);
+  });
+
+  it('should only reuse a product for the diet profile it was verified with', () => {
+    expect(store.isReusable(product, 'vegan')).toBe(true);
+    expect(store.isReusable(product, 'vegetarian')).toBe(false);
+    expect(store.isReusable({ ...product, ingredients: [product.ingredients[1]] }, 'vegan')).toBe(false);
+  });
+
+  it('should not fail the request when a product cannot be saved', async () => {
+    const brokenStore = new ProductStore(path.join(directory, `${product.gtin}.json`, 'nested'));
+    fs.writeFileSync(path.join(directory, `${product.gtin}.json`), '');
+    expect(await brokenStore.saveVerifiedProduct(product, 'user-1')).toBeUndefined();
+    expect(await store.saveVerifiedProduct(null, 'user-1')).toBeUndefined();
+  });
+
+  it('should let the latest signed-in verification replace the stored product', async () => {
+    expect(await store.saveVerifiedProduct(product, null)).toBeUndefined();
+    expect(await store.getProduct(product.gtin)).toBeNull();
+
+    expect(await store.saveVerifiedProduct(product, 'user-1')).toMatchObject({ fromStore: false });
+    expect(await store.saveVerifiedProduct({ ...product, isVegan: false }, 'user-2')).toMatchObject({ fromStore: false });
+    expect(await store.getProduct(product.gtin)).toMatchObject({ isVegan: false, verifiedBy: 'user-2' });
+
+    // Imported products are replaced by a scan too
+    await store.saveProduct({ ...product, analysisType: 'import' });
+    await store.saveVerifiedProduct(product, 'user-1');
+    expect(await store.getProduct(product.gtin)).toMatchObject({ analysisType: 'video', verifiedBy: 'user-1' });
+  });
+
+  it('should keep an admin correction until an admin changes it', async () => {
+    expect(await store.correctProduct(product.gtin, { productName: 'Kakor' }, 'apiKey:ops')).toBeNull();
+
+    await store.saveVerifiedProduct(product, 'user-1');
+    const corrected = await store.correctProduct(product.gtin, {
+      ingredients: [
+        { name: 'Havregryn', source: 'declared', isVegan: true },
+        { name: 'Smör', source: 'declared', isVegan: false },
+        { name: 'Mjölk', source: 'trace', isVegan: false }
+      ]
+    }, 'apiKey:ops');
+    expect(corrected).toMatchObject({
+      productName: 'Havrekakor',
+      isVegan: false,
+      isUncertain: false,
+      verifiedBy: 'user-1',
+      correctedBy: 'apiKey:ops'
+    });
+    expect(corrected?.ingredients[1]).toEqual({
+      name: 'Smör', source: 'declared', isVegan: false, isUncertain: false, confidence: 1
+    });
+
+    expect(await store.saveVerifiedProduct(product, 'user-2')).toBeUndefined();
+    expect(await store.getProduct(product.gtin)).toMatchObject({ isVegan: false, correctedBy: 'apiKey:ops' });
+  });
+
+  describe('createProductFromAnalysis', () => {
+    it('should store the declared verdicts and the trace ingredients', () => {
+      const result: AnalysisResult = {
+        isVegan: false,
+        confidence: 0.9,
+        ingredientList: ['Socker', 'Vassle'],
+        nonVeganIngredients: ['Vassle'],
+        reasoning: '',
+        ingredientVerdicts: [
+          { name: 'Socker', isVegan: true, isUncertain: false, confidence: 1, trace: [] },
+          { name: 'Vassle', isVegan: false, isUncertain: false, confidence: 1, trace: [] }
+        ],
+        traceIngredients: ['nötter'],
+        dietProfile: 'vegan',
+        databaseVersion: 'abc123'
+      };
+
+      const stored = createProductFromAnalysis('04006381333931', result);
+      expect(stored).toMatchObject({ gtin: '04006381333931', isVegan: false, isUncertain: false, analysisType: 'text' });
+      expect(stored?.ingredients.map(ingredient => [ingredient.name, ingredient.source, ingredient.isVegan])).toEqual([
+        ['Socker', 'declared', true],
+        ['Vassle', 'declared', false],
+        ['nötter', 'trace', null]
+      ]);
+    });
+
+    it('should not store results without ingredients', () => {
+      expect(createProductFromAnalysis('04006381333931', {
+        isVegan: null,
+        confidence: 0,
+        ingredientList: [],
+        nonVeganIngredients: [],
+        reasoning: ''
+      })).toBeNull();
+    });
+  });
+
+  it('should store every ingredient of a video analysis with its source', () => {
+    const stored = createProductFromVideoAnalysis('04006381333931', {
+      ingredients: [
+        { name: 'Havregryn', isVegan: true, isUncertain: false, confidence: 0.98, source: 'declared' },
+        { name: 'Mjölk', isVegan: false, isUncertain: false, confidence: 0.98, source: 'trace', animalCategories: ['dairy'] }
+      ],
+      isVegan: true,
+      isUncertain: false,
+      confidence: 0.98,
+      uncertainIngredients: [],
+      nonVeganIngredients: [],
+      dietProfile: 'vegan'
+    });
+    expect(stored?.analysisType).toBe('video');
+    expect(stored?.ingredients[1]).toEqual({
+      name: 'Mjölk',
+      source: 'trace',
+      isVegan: false,
+      isUncertain: false,
+      confidence: 0.98,
+      animalCategories: ['dairy']
+    });
+  });
+});
@@ -1,5 +1,6 @@
 // C:\Projects\koalens-backend\src\__tests__\services\veganValidator.test.ts
-import { validateIngredients, fuzzyMatch, testIngredient } from '@/services/veganValidator';
+import { validateIngredients, fuzzyMatch, findBestMatch, testIngredient } from '../../services/veganValidator';
+import { DEFINITELY_NON_VEGAN } from '../../constants/veganIngredients';
 
 describe('VeganValidator', () => {
   describe('fuzzyMatch', () => {
@@ -32,7 +33,32 @@ describe('VeganValidator', () => {
     });
   });
 
+  describe('findBestMatch', () => {
+    it('should report the catalogue ingredient, alias and language that matched', () => {
+      const german = findBestMatch('schellack', DEFINITELY_NON_VEGAN);
+      expect(german.matchedIngredient).toBe('Shellack');
+      expect(german.matchedAlias).toEqual({ name: 'schellack', language: 'de' });
+
+      const finnish = findBestMatch('mehiläisvaha', DEFINITELY_NON_VEGAN);
+      expect(finnish.matchedIngredient).toBe('Bivax');
+      expect(finnish.matchedAlias?.language).toBe('fi');
+    });
+
+    it('should report the ingredient but no alias for E-numbers', () => {
+      const result = findBestMatch('e904', DEFINITELY_NON_VEGAN);
+      expect(result.matchedIngredient).toBe('Shellack');
+      expect(result.matchedAlias).toBeUndefined();
+    });
+  });
+
   describe('validateIngredients', () => {
+    it('should recognise labels in other Nordic languages', () => {
+      const result = validateIngredients(['sukker', 'mælkepulver', 'hvetemel', 'kananmuna']);
+      expect(result.nonVeganIngredients).toEqual(['mælkepulver', 'kananmuna']);
+      const languages = result.debug?.fuzzyMatches?.map(match => match.language);
+      expect(languages).toEqual(expect.arrayContaining(['da', 'fi']));
+    });
+
     describe('Basic Ingredient Validation', () => {
       it('should identify single non-vegan ingredients', () => {
         const result = validateIngredients(['mjölk']);
@@ -64,9 +90,10 @@ describe('VeganValidator', () => {
 
     describe('Edge Cases', () => {
       it('should handle empty ingredients list', () => {
+        // En tom lista går inte att bedöma (regeln empty-ingredient-list)
         const result = validateIngredients([]);
-        expect(result.isVegan).toBe(true);
-        expect(result.confidence).toBe(1);
+        expect(result.isVegan).toBeNull();
+        expect(result.confidence).toBeLessThan(1);
       });
 
       it('should handle null or undefined values', () => {
@@ -132,20 +159,73 @@ describe('VeganValidator', () => {
         expect(result.debug?.fuzzyMatches).toBeDefined();
         expect(result.debug?.fuzzyMatches?.length).toBeGreaterThan(0);
         const match = result.debug?.fuzzyMatches?.[0];
-        expect(match?.ingredient).toBe('mjölk');
+        expect(match?.ingredient).toBe('mjolk'); // Normaliserad indata
+        expect(match?.matchedIngredient).toBe('Mjölk');
         expect(match?.similarity).toBeGreaterThan(0.8);
       });
 
       it('should provide appropriate confidence levels', () => {
+        // Korta listor kan vara ofullständigt lästa, så säkerheten begränsas till 0.7
         const result1 = validateIngredients(['mjölk']); // Definitivt inte veganskt
-        expect(result1.confidence).toBe(1.0);
+        expect(result1.confidence).toBe(0.7);
 
         const result2 = validateIngredients(['E471']); // Osäker ingrediens
-        expect(result2.confidence).toBeLessThan(1.0);
+        expect(result2.confidence).toBeLessThan(result1.confidence);
       });
     });
   });
 
+  describe('verdict trace', () => {
+    const baseIngredients = ['vetemjöl', 'sojaprotein', 'rapsolja', 'palmolja', 'havredryck'];
+
+    it('should record the rule that decided each ingredient', () => {
+      const result = validateIngredients([...baseIngredients, 'vassle']);
+      expect(result.ingredients.map(verdict => verdict.name)).toEqual([...baseIngredients, 'vassle']);
+
+      const whey = result.ingredients.find(verdict => verdict.name === 'vassle');
+      expect(whey?.isVegan).toBe(false);
+      expect(whey?.trace).toHaveLength(1);
+      expect(whey?.trace[0]).toMatchObject({ source: 'validator', rule: 'non-vegan-match', matchedItem: 'Vassle' });
+    });
+
+    it('should record the rules that changed the overall verdict', () => {
+      const result = validateIngredients([...baseIngredients, 'vassle']);
+      expect(result.trace.map(step => step.rule)).toEqual(['non-vegan-match']);
+      expect(result.trace[0]).toMatchObject({ isVegan: false, confidence: 0.9 });
+
+      expect(validateIngredients(baseIngredients).trace).toEqual([]);
+      expect(validateIngredients([]).trace.map(step => step.rule)).toEqual(['empty-ingredient-list']);
+    });
+  });
+
+  describe('diet profiles', () => {
+    const baseIngredients = ['vetemjöl', 'sojaprotein', 'rapsolja', 'palmolja', 'havredryck'];
+
+    it('should accept ingredients that the profile allows', () => {
+      const result = validateIngredients([...baseIngredients, 'vassle', 'lecitin', 'vasslepulver'], 'vegetarian');
+      expect(result.dietProfile).toBe('vegetarian');
+      expect(result.isVegan).toBe(true);
+      expect(result.nonVeganIngredients).toEqual([]);
+      expect(result.uncertainIngredients).toEqual([]);
+      expect(result.ingredients.find(verdict => verdict.name === 'vassle')?.trace[0])
+        .toMatchObject({ rule: 'diet-profile', isVegan: true, matchedItem: 'Vassle' });
+    });
+
+    it('should still flag ingredients that the profile does not allow', () => {
+      const result = validateIngredients([...baseIngredients, 'vassle', 'gelatin'], 'vegetarian');
+      expect(result.isVegan).toBe(false);
+      expect(result.nonVeganIngredients).toEqual(['gelatin']);
+      expect(result.reasoning).toContain('Följande ingredienser passar inte kostprofilen "vegetarian": gelatin.');
+    });
+
+    it('should default to the vegan profile', () => {
+      const result = validateIngredients([...baseIngredients, 'honung']);
+      expect(result.dietProfile).toBe('vegan');
+      expect(result.nonVeganIngredients).toEqual(['honung']);
+      expect(validateIngredients([...baseIngredients, 'honung'], 'honey-ok').isVegan).toBe(true);
+    });
+  });
+
   describe('testIngredient helper function', () => {
     it('should work with single ingredients', () => {
       const result = testIngredient('mjölk');
@@ -0,0 +1,41 @@
+import { VideoAnalysisService } from '../../services/videoAnalysisService';
+import { createVideoAnalysisResponse } from '../../utils/analysisResponse';
+
+jest.mock('../../services/geminiService', () => ({
+  __esModule: true,
+  default: {}
+}));
+
+describe('VideoAnalysisService', () => {
+  const service = new VideoAnalysisService();
+
+  // The text result runs through the same steps as in analyzeVideo
+  function analyzeText(text: string) {
+    return createVideoAnalysisResponse(service['enhanceAnalysisResult'](service['parseAnalysisResult'](text)));
+  }
+
+  it('should give a valid response for ingredients found by the regex fallback', () => {
+    const response = analyzeText(
+      'Resultat: "ingredients": [{ "name": "Socker", "isVegan": true, "confidence": 85 }, ' +
+      '{ "name": "Vassle", "isVegan": false }] och "isVegan": false'
+    );
+
+    expect(response.ingredients.map(ingredient => ingredient.name)).toEqual(['Socker', 'Vassle']);
+    expect(response.ingredients.every(ingredient => ingredient.source === 'declared')).toBe(true);
+    expect(response.ingredients[0].confidence).toBeLessThanOrEqual(1);
+    expect(response.nonVeganIngredients).toContain('Vassle');
+    expect(response.isVegan).toBe(false);
+  });
+
+  it('should give a valid response for the Gemini format found by the regex fallback', () => {
+    const response = analyzeText(
+      '"ingredientAnalysis": [{ "name": "Havre", "status": "vegansk", "confidence": 90 }, ' +
+      '{ "name": "Mono- och diglycerider", "status": "osäker" }], "overallStatus": "oklart"'
+    );
+
+    expect(response.ingredients).toHaveLength(2);
+    expect(response.ingredients.every(ingredient => ingredient.source === 'declared')).toBe(true);
+    expect(response.ingredients.every(ingredient => ingredient.confidence >= 0 && ingredient.confidence <= 1))
+      .toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+import { VideoJobService } from '../../services/videoJobService';
+import { deliverWebhook } from '../../utils/webhook';
+
+jest.mock('../../utils/webhook', () => ({
+  deliverWebhook: jest.fn().mockResolvedValue(true)
+}));
+
+describe('VideoJobService', () => {
+  beforeEach(() => {
+    (deliverWebhook as jest.Mock).mockClear();
+  });
+
+  it('should record each stage and the result of the task', async () => {
+    const service = new VideoJobService(1);
+    const job = service.create({ userId: 'user-1' }, async (onStage) => {
+      onStage('optimizing');
+      onStage('analyzing');
+      onStage('enhancing');
+      return { success: true };
+    });
+    expect(job.stage).not.toBe('done');
+
+    await service.idle();
+    expect(service.get(job.id)).toMatchObject({ stage: 'done', result: { success: true }, error: null });
+    expect(job.stages.map(entry => entry.stage)).toEqual(['queued', 'optimizing', 'analyzing', 'enhancing', 'done']);
+    expect(deliverWebhook).not.toHaveBeenCalled();
+  });
+
+  it('should run at most the given number of jobs at a time', async () => {
+    const service = new VideoJobService(1);
+    let release!: () => void;
+    const first = service.create({ userId: 'user-1' }, () => new Promise(resolve => { release = () => resolve('first'); }));
+    const second = service.create({ userId: 'user-1' }, async () => 'second');
+
+    expect(first.stage).toBe('queued');
+    expect(second.stage).toBe('queued');
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(second.stage).toBe('queued');
+
+    release();
+    await service.idle();
+    expect(first.result).toBe('first');
+    expect(second.result).toBe('second');
+  });
+
+  it('should turn new jobs away when the queue is full', async () => {
+    const service = new VideoJobService(1, undefined, 1);
+    let release!: () => void;
+    service.create({ userId: 'user-1' }, () => new Promise(resolve => { release = () => resolve('running'); }));
+    service.create({ userId: 'user-1' }, async () => 'queued');
+
+    expect(service.isFull()).toBe(true);
+    expect(() => service.create({ userId: 'user-1' }, async () => 'rejected'))
+      .toThrow(expect.objectContaining({ statusCode: 503, code: 'QUEUE_FULL' }));
+
+    release();
+    await service.idle();
+    expect(service.isFull()).toBe(false);
+  });
+
+  it('should notify the callback URL when a job fails', async () => {
+    const service = new VideoJobService(1);
+    const job = service.create({ userId: 'user-1', callbackUrl: 'https://example.com/hook' }, async () => {
+      throw new Error('Gemini unavailable');
+    });
+
+    await service.idle();
+    expect(job).toMatchObject({ stage: 'failed', error: 'Gemini unavailable' });
+    expect(deliverWebhook).toHaveBeenCalledWith('https://example.com/hook', {
+      jobId: job.id,
+      stage: 'failed',
+      result: null,
+      error: 'Gemini unavailable'
+    });
+  });
+
+  it('should find a job by requestId unless it has failed', async () => {
+    const service = new VideoJobService(1);
+    const failed = service.create({ userId: 'user-1', requestId: 'r1' }, async () => { throw new Error('x'); });
+    await service.idle();
+    expect(failed.stage).toBe('failed');
+    expect(service.findByRequestId('user-1', 'r1')).toBeNull();
+
+    const job = service.create({ userId: 'user-1', requestId: 'r1' }, async () => 'ok');
+    expect(service.findByRequestId('user-1', 'r1')).toBe(job);
+    expect(service.findByRequestId('user-2', 'r1')).toBeNull();
+    await service.idle();
+  });
+
+  it('should forget finished jobs after the retention time', async () => {
+    const service = new VideoJobService(1, 1000);
+    const job = service.create({ userId: 'user-1' }, async () => 'ok');
+    await service.idle();
+
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.parse(job.updatedAt) + 2000);
+    expect(service.get(job.id)).toBeNull();
+    now.mockRestore();
+  });
+});
@@ -0,0 +1,113 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { VideoUploadService } from '../../services/videoUploadService';
+
+const user = { id: 'user-1', email: null, isAnonymous: false };
+
+function chunk(size: number, fill: number): Readable {
+  return Readable.from([Buffer.alloc(size, fill)]);
+}
+
+describe('VideoUploadService', () => {
+  let service: VideoUploadService;
+  let paths: string[];
+
+  beforeEach(() => {
+    service = new VideoUploadService(60 * 1000);
+    paths = [];
+  });
+
+  afterEach(() => {
+    for (const filePath of paths) {
+      fs.rmSync(filePath, { force: true });
+    }
+  });
+
+  async function createUpload(length: number, owner = user) {
+    const upload = await service.create({ user: owner, mimeType: 'video/mp4', length });
+    paths.push(upload.path);
+    return upload;
+  }
+
+  it('should append chunks at the offset and finish the upload', async () => {
+    const upload = await createUpload(3000);
+    expect(upload.path).toMatch(/koalens-videos.*-chunked\.mp4$/);
+    expect(fs.statSync(upload.path).size).toBe(0);
+
+    await service.append(upload, 0, chunk(1000, 1));
+    await expect(service.append(upload, 0, chunk(1000, 2))).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'OFFSET_MISMATCH',
+      details: { offset: 1000 }
+    });
+    await expect(service.finalize(upload)).rejects.toMatchObject({ statusCode: 409, code: 'UPLOAD_INCOMPLETE' });
+
+    await service.append(upload, 1000, chunk(2000, 2));
+    expect(upload.offset).toBe(3000);
+    const finished = await service.finalize(upload);
+    expect(finished.finalized).toBe(true);
+    expect(fs.readFileSync(upload.path)).toEqual(Buffer.concat([Buffer.alloc(1000, 1), Buffer.alloc(2000, 2)]));
+    await expect(service.append(upload, 3000, chunk(1, 3))).rejects.toMatchObject({ code: 'UPLOAD_FINALIZED' });
+  });
+
+  it('should keep the bytes of an interrupted chunk so the client can resume', async () => {
+    const upload = await createUpload(2000);
+    const interrupted = new Readable({ read() {} });
+    interrupted.push(Buffer.alloc(600, 1));
+    setTimeout(() => interrupted.destroy(new Error('aborted')), 20);
+
+    await expect(service.append(upload, 0, interrupted)).rejects.toThrow('aborted');
+    expect(upload.offset).toBe(600);
+
+    await service.append(upload, 600, chunk(1400, 2));
+    expect(upload.offset).toBe(2000);
+  });
+
+  it('should reject a chunk that goes past the length and uploads over 50MB', async () => {
+    const upload = await createUpload(100);
+    await expect(service.append(upload, 0, chunk(101, 1))).rejects.toMatchObject({
+      statusCode: 413,
+      code: 'UPLOAD_LENGTH_EXCEEDED'
+    });
+    expect(upload.offset).toBeLessThanOrEqual(100);
+
+    await expect(service.create({ user, mimeType: 'video/mp4', length: 50 * 1024 * 1024 + 1 }))
+      .rejects.toMatchObject({ statusCode: 413, code: 'VIDEO_TOO_LARGE' });
+    await expect(service.create({ user, mimeType: 'video/x-msvideo', length: 100 }))
+      .rejects.toMatchObject({ statusCode: 415, code: 'UNSUPPORTED_VIDEO_TYPE' });
+  });
+
+  it('should only show a signed-in user their own uploads', async () => {
+    const own = await createUpload(10);
+    const anonymous = await createUpload(10, { id: 'anonymous', email: null, isAnonymous: true });
+    const other = { id: 'user-2', email: null, isAnonymous: false };
+
+    expect(service.get(own.id, user)).toBe(own);
+    expect(service.get(own.id, other)).toBeNull();
+    expect(service.get(own.id)).toBeNull();
+    expect(service.get(anonymous.id, other)).toBe(anonymous);
+  });
+
+  it('should remove abandoned uploads with their files, but not released ones', async () => {
+    const abandoned = await createUpload(10);
+    const released = await createUpload(10);
+    service.release(released.id);
+
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.parse(abandoned.expiresAt) + 1);
+    expect(service.get(abandoned.id, user)).toBeNull();
+    expect(await service.removeExpired()).toBe(0);
+    now.mockRestore();
+
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(fs.existsSync(abandoned.path)).toBe(false);
+    expect(fs.existsSync(released.path)).toBe(true);
+  });
+
+  it('should remove expired uploads in the cleanup sweep', async () => {
+    const upload = await createUpload(10);
+    const now = jest.spyOn(Date, 'now').mockReturnValue(Date.parse(upload.expiresAt) + 1);
+    expect(await service.removeExpired()).toBe(1);
+    now.mockRestore();
+    expect(fs.existsSync(upload.path)).toBe(false);
+  });
+});
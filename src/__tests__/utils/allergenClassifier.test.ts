@@ -0,0 +1,94 @@
+import {
+  classifyAllergens,
+  classifyIngredientAllergens,
+  extractTraceIngredients,
+  getAllergenLabel
+} from '../../utils/allergenClassifier';
+import { getIngredientDataset } from '../../utils/ingredientsDatabase';
+
+describe('allergenClassifier', () => {
+  const dataset = getIngredientDataset();
+  const allergensOf = (name: string): string[] =>
+    classifyIngredientAllergens(name, dataset).map(match => match.allergen);
+
+  describe('classifyIngredientAllergens', () => {
+    it.each([
+      ['Vetemjöl', ['gluten']],
+      ['Rostade hasselnötter', ['nuts']],
+      ['Skummjölkspulver', ['milk']],
+      ['Sojalecitin', ['soybeans']],
+      ['Jordnötsolja', ['peanuts']],
+      ['Sesamfrön', ['sesame']],
+      ['Räkor', ['crustaceans']],
+      ['Skaldjur', ['crustaceans', 'molluscs']],
+      ['Konserveringsmedel (E220)', ['sulphites']]
+    ])('should find the allergens in %s', (name, expected) => {
+      expect(allergensOf(name)).toEqual(expected);
+    });
+
+    it.each(['Fullkornsvetemjöl', 'Durumvete', 'Havregryn', 'Kornmalt', 'Kornmaltextrakt', 'Fullkornshavre'])(
+      'should find gluten in the cereal compound %s',
+      name => {
+        expect(allergensOf(name)).toEqual(['gluten']);
+      }
+    );
+
+    it.each(['Mjölksyra', 'Kakaosmör', 'Kokosgrädde', 'Laktitol', 'Romansallad', 'Rapsolja', 'Bovetemjöl', 'Majskorn'])(
+      'should not find allergens in %s',
+      name => {
+        expect(allergensOf(name)).toEqual([]);
+      }
+    );
+
+    it('should name the catalogue entry that contains the allergen', () => {
+      expect(classifyIngredientAllergens('Vasslepulver', dataset)).toEqual([
+        { allergen: 'milk', matchedItem: 'Vasslepulver' }
+      ]);
+    });
+  });
+
+  describe('classifyAllergens', () => {
+    it('should report trace-only allergens separately', () => {
+      const report = classifyAllergens([
+        { name: 'Vetemjöl' },
+        { name: 'Smör', source: 'declared' },
+        { name: 'mjölk', source: 'trace' },
+        { name: 'hasselnötter', source: 'trace' }
+      ], dataset);
+
+      expect(report.contains).toEqual(['gluten', 'milk']);
+      expect(report.mayContain).toEqual(['nuts']);
+      expect(report.detections).toContainEqual({
+        allergen: 'nuts',
+        ingredient: 'hasselnötter',
+        source: 'trace',
+        matchedItem: 'Hasselnötter'
+      });
+    });
+
+    it('should return an empty report for ingredients without allergens', () => {
+      expect(classifyAllergens([{ name: 'Socker' }, { name: 'Salt' }], dataset)).toEqual({
+        contains: [],
+        mayContain: [],
+        detections: []
+      });
+    });
+  });
+
+  describe('extractTraceIngredients', () => {
+    it('should split trace statements into ingredients', () => {
+      expect(extractTraceIngredients('Socker, vetemjöl. Kan innehålla spår av nötter, sesam och mjölk.'))
+        .toEqual(['nötter', 'sesam', 'mjölk']);
+      expect(extractTraceIngredients('Spår av: soja eller lupin')).toEqual(['soja', 'lupin']);
+      expect(extractTraceIngredients('May contain traces of peanuts and milk')).toEqual(['peanuts', 'milk']);
+    });
+
+    it('should return nothing without a trace statement', () => {
+      expect(extractTraceIngredients('Socker, vetemjöl, rapsolja')).toEqual([]);
+    });
+  });
+
+  it('should label allergens in Swedish', () => {
+    expect(getAllergenLabel('sulphites')).toBe('svaveldioxid och sulfiter');
+  });
+});
@@ -0,0 +1,122 @@
+import {
+  analysisResponseSchema,
+  createAnalysisResponse,
+  createVideoAnalysisResponse,
+  parseResponseVersion
+} from '../../utils/analysisResponse';
+import { AnalysisResult } from '../../utils/outputParser';
+import { VideoAnalysisResult } from '../../types/analysisTypes';
+
+describe('analysisResponse', () => {
+  const textResult: AnalysisResult = {
+    isVegan: null,
+    confidence: 0.6,
+    productName: 'Havrekakor',
+    ingredientList: ['havre', 'arom', 'kan innehålla spår av mjölk'],
+    nonVeganIngredients: [],
+    reasoning: 'Arom kan vara av animaliskt ursprung.',
+    imageQualityIssues: ['Texten är delvis suddig'],
+    ingredientVerdicts: [
+      { name: 'havre', isVegan: true, isUncertain: false, confidence: 1, trace: [] },
+      { name: 'arom', isVegan: null, isUncertain: true, confidence: 0.5, trace: [] }
+    ],
+    databaseVersion: 'abc123',
+    dietProfile: 'vegan',
+    tracePolicy: 'warn',
+    traceWarnings: ['mjölk'],
+    traceIngredients: ['mjölk']
+  };
+
+  const videoResult: VideoAnalysisResult = {
+    ingredients: [
+      { name: 'Havre', isVegan: true, isUncertain: false, confidence: 0.9, source: 'declared', reason: 'Spannmål' },
+      { name: 'Vassle', isVegan: false, isUncertain: false, confidence: 0.95, source: 'declared', animalCategories: ['dairy'] }
+    ],
+    isVegan: false,
+    isUncertain: false,
+    confidence: 0.95,
+    reasoning: 'Innehåller vassle.',
+    uncertainIngredients: [],
+    nonVeganIngredients: ['Vassle'],
+    videoProcessed: true
+  };
+
+  describe('parseResponseVersion', () => {
+    it('should default to version 1', () => {
+      expect(parseResponseVersion(undefined)).toBe(1);
+      expect(parseResponseVersion('')).toBe(1);
+    });
+
+    it('should accept numbers and strings', () => {
+      expect(parseResponseVersion(2)).toBe(2);
+      expect(parseResponseVersion('2')).toBe(2);
+      expect(parseResponseVersion(3)).toBeNull();
+      expect(parseResponseVersion('latest')).toBeNull();
+    });
+  });
+
+  describe('createAnalysisResponse', () => {
+    it('should list the declared ingredients with their verdicts and the traces separately', () => {
+      const response = createAnalysisResponse(textResult, 'image', { preferredLanguage: 'sv' });
+      expect(response.ingredients.map(ingredient => [ingredient.name, ingredient.source, ingredient.isVegan])).toEqual([
+        ['havre', 'declared', true],
+        ['arom', 'declared', null],
+        ['mjölk', 'trace', false]
+      ]);
+      expect(response).toMatchObject({
+        responseVersion: 2,
+        analysisType: 'image',
+        status: 'uncertain',
+        isUncertain: true,
+        productName: 'Havrekakor',
+        uncertainIngredients: ['arom'],
+        preferredLanguage: 'sv',
+        databaseVersion: 'abc123',
+        usageInfo: null,
+        product: null
+      });
+      expect(response.allergens.mayContain).toEqual(['milk']);
+    });
+
+    it('should explain an uncertain verdict', () => {
+      expect(createAnalysisResponse(textResult, 'image').uncertainReasons).toEqual([
+        'Innehåller ingredienser med osäkert ursprung: arom.',
+        'Texten är delvis suddig'
+      ]);
+      expect(createAnalysisResponse({ ...textResult, isVegan: true }, 'text').uncertainReasons).toEqual([]);
+    });
+
+    it('should reject a result that does not follow the schema', () => {
+      expect(() => createAnalysisResponse({ ...textResult, confidence: 2 }, 'text')).toThrow();
+    });
+  });
+
+  describe('createVideoAnalysisResponse', () => {
+    it('should fill in the fields that the video result leaves out', () => {
+      const response = createVideoAnalysisResponse(videoResult, { preferredLanguage: 'en' });
+      expect(response).toMatchObject({
+        analysisType: 'video',
+        status: 'non-vegan',
+        productName: null,
+        imageQualityIssues: [],
+        trace: [],
+        dietProfile: 'vegan',
+        tracePolicy: 'warn',
+        traceWarnings: [],
+        preferredLanguage: 'en'
+      });
+      expect(response.ingredients[0]).toEqual({
+        name: 'Havre',
+        source: 'declared',
+        isVegan: true,
+        isUncertain: false,
+        confidence: 0.9,
+        reason: 'Spannmål',
+        animalCategories: [],
+        trace: []
+      });
+      expect(response.allergens.contains).toEqual(['gluten', 'milk']);
+      expect(analysisResponseSchema.safeParse(response).success).toBe(true);
+    });
+  });
+});
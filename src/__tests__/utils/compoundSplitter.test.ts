@@ -0,0 +1,102 @@
+import { analyzeCompound, buildCatalogueTermMap, describeCompound, splitCompound } from '../../utils/compoundSplitter';
+import { IngredientData } from '../../utils/ingredientCatalogue';
+import { buildCompoundParts } from '../../utils/wordMatcher';
+import { checkIngredientStatus, getIngredientDataset } from '../../utils/ingredientsDatabase';
+import { normalizeString } from '../../utils/textNormalizer';
+
+describe('compoundSplitter', () => {
+  const entries: IngredientData[] = [
+    { name: 'Skummjölk', status: 'non-vegan', category: 'mejeri' },
+    { name: 'Mjölk', status: 'non-vegan', category: 'mejeri' },
+    { name: 'Äggvita', status: 'non-vegan', category: 'ägg' },
+    { name: 'Kycklingkött', status: 'non-vegan', category: 'kött', aliases: [{ name: 'kyckling', language: 'sv' }] },
+    { name: 'Lecitin', status: 'uncertain', category: 'tillsats' },
+    { name: 'Vetemjöl', status: 'vegan', category: 'livsmedel' }
+  ];
+  const parts = buildCompoundParts(entries.flatMap(entry => [entry.name, ...(entry.aliases || []).map(alias => alias.name)]));
+  const terms = buildCatalogueTermMap(entries);
+  const split = (word: string) => splitCompound(normalizeString(word), parts)?.map(segment => `${segment.text}${segment.linker ? `+${segment.linker}` : ''}`);
+  const analyze = (word: string) => analyzeCompound(normalizeString(word), parts, terms);
+
+  describe('splitCompound', () => {
+    it('should split on the linking morphemes -s- and -e-', () => {
+      expect(split('skummjölkspulver')).toEqual(['skummjolk+s', 'pulver']);
+      expect(split('äggvitepulver')).toEqual(['aggvit+e', 'pulver']);
+      expect(splitCompound('aggvitepulver', parts)?.[0].part).toBe('aggvita');
+    });
+
+    it('should prefer the split with the fewest parts', () => {
+      expect(split('kycklingbuljongpulver')).toEqual(['kyckling', 'buljong', 'pulver']);
+      expect(split('skummjölk')).toEqual(['skummjolk']);
+    });
+
+    it('should not split words with unknown parts', () => {
+      expect(split('äggplanta')).toBeUndefined();
+      expect(split('äggfri')).toBeUndefined();
+      expect(split('arom')).toBeUndefined();
+    });
+
+    it('should only allow a trailing linker or truncated part when the word continues', () => {
+      expect(split('mjölks')).toBeUndefined();
+      expect(splitCompound('mjolks', parts, { openEnd: true })).not.toBeNull();
+      expect(splitCompound('spulver', parts, { openStart: true })).not.toBeNull();
+    });
+  });
+
+  describe('analyzeCompound', () => {
+    it('should classify a compound from a non-vegan modifier', () => {
+      const analysis = analyze('kycklingbuljongpulver');
+      expect(analysis?.status).toBe('non-vegan');
+      expect(analysis?.trigger.role).toBe('modifier');
+      expect(analysis?.trigger.item?.name).toBe('Kycklingkött');
+      expect(describeCompound(analysis!)).toBe('förleden "kyckling" (Kycklingkött) är inte vegansk');
+    });
+
+    it('should explain with the head when it decides the verdict', () => {
+      const analysis = analyze('vetemjölsmjölk');
+      expect(analysis?.trigger.role).toBe('head');
+      expect(describeCompound(analysis!)).toBe('huvudleden "mjölk" är inte vegansk');
+    });
+
+    it('should read an animal part after a plant modifier as the plant-based variant', () => {
+      const analysis = analyze('havremjölkpulver');
+      expect(analysis?.status).toBe('vegan');
+      expect(analysis?.trigger.qualifiedBy).toBe('havre');
+      expect(analyze('sojalecitin')?.status).toBe('vegan');
+    });
+
+    it('should report uncertain parts', () => {
+      expect(analyze('lecitinpulver')?.status).toBe('uncertain');
+    });
+
+    it('should return null for single words and compounds of neutral parts', () => {
+      expect(analyze('mjölk')).toBeNull();
+      expect(analyze('sockersirap')).toBeNull();
+    });
+  });
+
+  describe('checkIngredientStatus', () => {
+    const dataset = getIngredientDataset();
+
+    it('should classify unseen compounds and explain which part triggered', () => {
+      const result = checkIngredientStatus('Kycklingbuljongpulver', dataset);
+      expect(result.isVegan).toBe(false);
+      expect(result.matchStrategy).toBe('compound');
+      expect(result.matchedItem?.name).toBe('Kycklingkött');
+      expect(result.compound?.parts.map(part => part.role)).toEqual(['modifier', 'modifier', 'head']);
+      expect(result.reason).toBe('Kycklingbuljongpulver är inte veganskt: förleden "kyckling" (Kycklingkött) är inte vegansk');
+    });
+
+    it('should keep catalogue rows ahead of the compound analysis', () => {
+      const result = checkIngredientStatus('Skummjölkspulver', dataset);
+      expect(result.matchStrategy).toBe('exact-name');
+      expect(result.compound).toBeUndefined();
+    });
+
+    it('should not let a compound soften an E-number', () => {
+      const result = checkIngredientStatus('Sojalecitin (E322)', dataset);
+      expect(result.isUncertain).toBe(true);
+      expect(checkIngredientStatus('Sojalecitin', dataset).isVegan).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,193 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { parseCsv, CsvValidationError } from '../../utils/csvReader';
+import { readIngredientCatalogue } from '../../utils/ingredientCatalogue';
+
+const COLUMNS = ['name', 'e_number', 'description'];
+
+function expectCsvErrors(content: string): CsvValidationError {
+  try {
+    parseCsv(content, COLUMNS);
+  } catch (error) {
+    expect(error).toBeInstanceOf(CsvValidationError);
+    return error as CsvValidationError;
+  }
+  throw new Error('Expected parseCsv to throw');
+}
+
+describe('csvReader', () => {
+  describe('parseCsv', () => {
+    it('should keep commas and quotes inside quoted fields', () => {
+      const rows = parseCsv(
+        'name,e_number,description\n' +
+        'Vetemjöl,,"Mjöl malet från vetekorn, vegetabiliskt"\n' +
+        'Karmin,E120,"Kallas även ""cochenille"""\n',
+        COLUMNS
+      );
+
+      expect(rows).toEqual([
+        { line: 2, values: { name: 'Vetemjöl', e_number: '', description: 'Mjöl malet från vetekorn, vegetabiliskt' } },
+        { line: 3, values: { name: 'Karmin', e_number: 'E120', description: 'Kallas även "cochenille"' } }
+      ]);
+    });
+
+    it('should handle a BOM and CRLF line endings', () => {
+      const rows = parseCsv('﻿name,e_number,description\r\nLecitin,E322,Kan vara från ägg\r\n', COLUMNS);
+      expect(rows).toHaveLength(1);
+      expect(rows[0].values.name).toBe('Lecitin');
+      expect(rows[0].values.description).toBe('Kan vara från ägg');
+    });
+
+    it('should report line numbers across multi-line fields and blank lines', () => {
+      const error = expectCsvErrors(
+        'name,e_number,description\n' +
+        'Honung,,"Producerad\nav bin"\n' +
+        '\n' +
+        'Talg,,Fett,från nötkreatur\n'
+      );
+      expect(error.errors).toEqual([{ line: 5, message: 'Expected 3 fields but found 4' }]);
+    });
+
+    it('should reject a wrong header row', () => {
+      const error = expectCsvErrors('"name,e_number,description"\n"Karmin,E120,Rött färgämne"\n');
+      expect(error.errors[0].line).toBe(1);
+    });
+
+    it('should report unterminated quotes', () => {
+      const error = expectCsvErrors('name,e_number,description\nKarmin,E120,"Rött färgämne\n');
+      expect(error.errors).toHaveLength(1);
+      expect(error.message).toContain('line');
+    });
+  });
+
+  describe('ingredient catalogue', () => {
+    const CATALOGUE_HEADER = 'name,e_number,status,category,animal,allergens,match,aliases,description\n';
+
+    function writeCatalogue(content: string): string {
+      const filePath = path.join(os.tmpdir(), `koalens-catalogue-${process.pid}.csv`);
+      fs.writeFileSync(filePath, CATALOGUE_HEADER + content);
+      return filePath;
+    }
+
+    function expectCatalogueErrors(content: string): CsvValidationError {
+      const filePath = writeCatalogue(content);
+      try {
+        readIngredientCatalogue(filePath);
+      } catch (error) {
+        expect(error).toBeInstanceOf(CsvValidationError);
+        return error as CsvValidationError;
+      } finally {
+        fs.unlinkSync(filePath);
+      }
+      throw new Error('Expected readIngredientCatalogue to throw');
+    }
+
+    it('should load ingredients.csv without errors', () => {
+      const entries = readIngredientCatalogue();
+      expect(entries.filter(entry => entry.status === 'non-vegan').length).toBeGreaterThan(0);
+      expect(entries.filter(entry => entry.status === 'uncertain').length).toBeGreaterThan(0);
+      expect(entries.filter(entry => entry.status === 'vegan').length).toBeGreaterThanOrEqual(300);
+    });
+
+    it('should parse aliases, categories and match modes', () => {
+      const entries = readIngredientCatalogue();
+      const karmin = entries.find(entry => entry.name === 'Karmin');
+      expect(karmin).toMatchObject({
+        eNumber: 'E120',
+        status: 'non-vegan',
+        category: 'insekt',
+        matchMode: 'contains',
+        aliases: expect.arrayContaining([
+          { name: 'karminsyra', language: 'sv' },
+          { name: 'carmine', language: 'en' }
+        ])
+      });
+      expect(entries.find(entry => entry.name === 'Ost')?.matchMode).toBe('exact');
+    });
+
+    it('should refuse duplicate names, aliases or E-numbers', () => {
+      const error = expectCatalogueErrors(
+        'Gelatin,E441,non-vegan,djurdel,meat,,contains,,Protein från djurvävnad\n' +
+        'Karmin,E120,non-vegan,insekt,insect,,contains,sv:cochenille,Rött färgämne\n' +
+        'GELATIN,,non-vegan,djurdel,meat,,contains,,Protein från djurvävnad\n' +
+        'Kochenill,e120,non-vegan,insekt,insect,,contains,de:Cochenille,Rött färgämne\n' +
+        'Shellack,E90,non-vegan,insekt,insect,,contains,,Hartssekret\n'
+      );
+      expect(error.errors).toEqual([
+        { line: 4, message: 'Duplicate name "GELATIN" (first defined on line 2)' },
+        { line: 5, message: 'Duplicate alias "Cochenille" (first defined on line 3)' },
+        { line: 5, message: 'Duplicate E-number e120 (first defined on line 3)' },
+        { line: 6, message: 'Invalid E-number "E90" for Shellack' }
+      ]);
+    });
+
+    it('should refuse unknown statuses, categories and match modes', () => {
+      const error = expectCatalogueErrors(
+        'Honung,,animal,bi,bee,,contains,,Producerad av bin\n' +
+        'Talg,,non-vegan,fett,meat,,contains,,Fett från nötkreatur\n' +
+        'Ost,,non-vegan,mejeri,dairy,,word,,Mejeriprodukt\n'
+      );
+      expect(error.errors).toEqual([
+        { line: 2, message: 'Invalid status "animal" for Honung' },
+        { line: 3, message: 'Invalid category "fett" for Talg' },
+        { line: 4, message: 'Invalid match mode "word" for Ost' }
+      ]);
+    });
+
+    it('should refuse aliases without a known language', () => {
+      const error = expectCatalogueErrors(
+        'Shellack,E904,non-vegan,insekt,insect,,contains,en:shellac|schellack,Hartssekret\n' +
+        'Honung,,non-vegan,bi,bee,,contains,xx:honey,Producerad av bin\n'
+      );
+      expect(error.errors.map(rowError => rowError.line)).toEqual([2, 3]);
+      expect(error.errors[0].message).toContain('Invalid alias "schellack" for Shellack');
+      expect(error.errors[1].message).toContain('Invalid alias "xx:honey" for Honung');
+    });
+
+    it('should parse animal categories', () => {
+      const entries = readIngredientCatalogue();
+      expect(entries.find(entry => entry.name === 'Vassle')?.animalCategories).toEqual(['dairy']);
+      expect(entries.find(entry => entry.name === 'Vitamin D3')?.animalCategories).toEqual(['meat', 'fish']);
+      expect(entries.find(entry => entry.name === 'Vetemjöl')?.animalCategories).toEqual([]);
+      expect(entries.filter(entry => entry.status === 'non-vegan').every(entry => entry.animalCategories?.length)).toBe(true);
+    });
+
+    it('should refuse unknown, missing or vegan animal categories', () => {
+      const error = expectCatalogueErrors(
+        'Honung,,non-vegan,bi,bees,,contains,,Producerad av bin\n' +
+        'Talg,,non-vegan,djurfett,,,contains,,Fett från nötkreatur\n' +
+        'Vetemjöl,,vegan,livsmedel,dairy,,contains,,Mjöl malet från vetekorn\n' +
+        'Lecitin,,uncertain,tillsats,,,contains,,Kan vara från soja eller ägg\n'
+      );
+      expect(error.errors).toEqual([
+        { line: 2, message: 'Invalid animal category "bees" for Honung' },
+        { line: 3, message: 'Missing animal category for non-vegan Talg' },
+        { line: 4, message: 'Vegan Vetemjöl cannot have animal categories' }
+      ]);
+    });
+
+    it('should parse allergens', () => {
+      const entries = readIngredientCatalogue();
+      expect(entries.find(entry => entry.name === 'Vetemjöl')?.allergens).toEqual(['gluten']);
+      expect(entries.find(entry => entry.name === 'Skaldjur')?.allergens).toEqual(['crustaceans', 'molluscs']);
+      expect(entries.find(entry => entry.name === 'Rapsolja')?.allergens).toEqual([]);
+    });
+
+    it('should refuse unknown allergens', () => {
+      const error = expectCatalogueErrors(
+        'Vetemjöl,,vegan,livsmedel,,wheat,contains,,Mjöl malet från vetekorn\n' +
+        'Skaldjur,,non-vegan,fisk,fish,crustaceans|shellfish,contains,,Kräftdjur och blötdjur\n'
+      );
+      expect(error.errors).toEqual([
+        { line: 2, message: 'Invalid allergen "wheat" for Vetemjöl' },
+        { line: 3, message: 'Invalid allergen "shellfish" for Skaldjur' }
+      ]);
+    });
+
+    it('should keep descriptions containing commas intact', () => {
+      const vetemjol = readIngredientCatalogue().find(item => item.name === 'Vetemjöl');
+      expect(vetemjol?.description).toBe('Mjöl malet från vetekorn, vegetabiliskt');
+    });
+  });
+});
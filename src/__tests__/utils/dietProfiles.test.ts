@@ -0,0 +1,60 @@
+import {
+  DIET_PROFILES,
+  describeAnimalCategories,
+  getCompoundProfileStatus,
+  getProfileStatus,
+  parseDietProfile
+} from '../../utils/dietProfiles';
+import { findCompound, getIngredientDataset } from '../../utils/ingredientsDatabase';
+
+describe('dietProfiles', () => {
+  describe('getProfileStatus', () => {
+    it.each([
+      ['non-vegan', ['bee'], 'honey-ok', 'vegan'],
+      ['non-vegan', ['bee'], 'vegan', 'non-vegan'],
+      ['non-vegan', ['dairy'], 'honey-ok', 'non-vegan'],
+      ['non-vegan', ['dairy'], 'lacto-ovo', 'vegan'],
+      ['non-vegan', ['egg'], 'vegetarian', 'vegan'],
+      ['non-vegan', ['meat'], 'vegetarian', 'non-vegan'],
+      ['non-vegan', ['fish'], 'vegetarian', 'non-vegan'],
+      ['non-vegan', ['fish'], 'pescetarian', 'vegan'],
+      ['non-vegan', ['insect'], 'pescetarian', 'non-vegan'],
+      ['uncertain', ['meat', 'fish'], 'pescetarian', 'uncertain'],
+      ['uncertain', ['dairy', 'egg'], 'vegetarian', 'vegan']
+    ] as const)('should give %s %j the status %s for %s', (status, categories, profile, expected) => {
+      expect(getProfileStatus(status, categories, profile)).toBe(expected);
+    });
+
+    it('should keep uncertain entries without animal categories uncertain', () => {
+      for (const profile of DIET_PROFILES) {
+        expect(getProfileStatus('uncertain', [], profile)).toBe('uncertain');
+      }
+    });
+  });
+
+  describe('getCompoundProfileStatus', () => {
+    const dataset = getIngredientDataset();
+
+    it('should let the strictest part decide for the profile', () => {
+      const compound = findCompound('kycklingbuljongpulver', dataset);
+      expect(compound).not.toBeNull();
+      expect(getCompoundProfileStatus(compound!, 'pescetarian')).toBe('non-vegan');
+      expect(getCompoundProfileStatus(findCompound('fiskbuljongpulver', dataset)!, 'pescetarian')).toBe('vegan');
+    });
+  });
+
+  describe('parseDietProfile', () => {
+    it('should default to vegan and refuse unknown profiles', () => {
+      expect(parseDietProfile(undefined)).toBe('vegan');
+      expect(parseDietProfile('')).toBe('vegan');
+      expect(parseDietProfile('pescetarian')).toBe('pescetarian');
+      expect(parseDietProfile('carnivore')).toBeNull();
+      expect(parseDietProfile(['vegan'])).toBeNull();
+    });
+  });
+
+  it('should describe animal categories in Swedish', () => {
+    expect(describeAnimalCategories(['dairy'])).toBe('mejeri');
+    expect(describeAnimalCategories(['dairy', 'egg', 'bee'])).toBe('mejeri, ägg och biprodukter');
+  });
+});
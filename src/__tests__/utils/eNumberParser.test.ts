@@ -0,0 +1,45 @@
+import { parseENumber, parseENumbers } from '../../utils/eNumberParser';
+
+describe('eNumberParser', () => {
+  describe('parseENumbers', () => {
+    it('should find every E-number in a string', () => {
+      expect(parseENumbers('emulgeringsmedel (E471, E322)').map(parsed => parsed.code)).toEqual(['E471', 'E322']);
+    });
+
+    it('should accept spacing, hyphen and case variants', () => {
+      const codes = parseENumbers('E 471, E-322, e330, e - 300').map(parsed => parsed.code);
+      expect(codes).toEqual(['E471', 'E322', 'E330', 'E300']);
+    });
+
+    it('should parse letter variants and Roman-numeral sub-classes', () => {
+      const [caramel, carotene, phosphate] = parseENumbers('färg (E150d, E160a(ii)), E450 (iii)');
+      expect(caramel).toMatchObject({ code: 'E150d', base: 'E150', variant: 'd', subclass: null });
+      expect(carotene).toMatchObject({ code: 'E160a(ii)', base: 'E160', variant: 'a', subclass: 'ii' });
+      expect(phosphate).toMatchObject({ code: 'E450(iii)', base: 'E450', variant: null, subclass: 'iii' });
+    });
+
+    it('should not take the first letter of a following word as a variant', () => {
+      expect(parseENumbers('E471och E322').map(parsed => parsed.code)).toEqual(['E471', 'E322']);
+      expect(parseENumbers('E330citronsyra').map(parsed => parsed.code)).toEqual(['E330']);
+    });
+
+    it('should ignore E-like text inside words and longer numbers', () => {
+      expect(parseENumbers('vete100, E12345, kaffe 200 g')).toEqual([]);
+    });
+
+    it('should report each code once with its position in the text', () => {
+      const parsed = parseENumbers('E322 (E 322), E471');
+      expect(parsed.map(item => [item.code, item.text, item.index])).toEqual([
+        ['E322', 'E322', 0],
+        ['E471', 'E471', 14]
+      ]);
+    });
+  });
+
+  describe('parseENumber', () => {
+    it('should only accept a string that is exactly one E-number', () => {
+      expect(parseENumber('e472a')?.code).toBe('E472a');
+      expect(parseENumber('Lecitin E322')).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,28 @@
+import { normalizeGtin } from '../../utils/gtin';
+
+describe('gtin', () => {
+  describe('normalizeGtin', () => {
+    it.each([
+      ['96385074', '00000096385074'],
+      ['036000291452', '00036000291452'],
+      ['4006381333931', '04006381333931'],
+      ['14006381333938', '14006381333938'],
+      ['400-6381 333931', '04006381333931']
+    ])('should normalize %s to %s', (value, expected) => {
+      expect(normalizeGtin(value)).toBe(expected);
+    });
+
+    it('should give UPC-A and EAN-13 codes of the same product the same key', () => {
+      expect(normalizeGtin('036000291452')).toBe(normalizeGtin('0036000291452'));
+    });
+
+    it.each(['4006381333932', '1234567', '40063813339310000', 'abc', ''])('should refuse %p', value => {
+      expect(normalizeGtin(value)).toBeNull();
+    });
+
+    it('should refuse values that are not strings', () => {
+      expect(normalizeGtin(4006381333931)).toBeNull();
+      expect(normalizeGtin(undefined)).toBeNull();
+    });
+  });
+});
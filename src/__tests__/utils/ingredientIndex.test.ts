@@ -0,0 +1,142 @@
+import { IngredientIndex } from '../../utils/ingredientIndex';
+import { IngredientData, loadVeganIngredients } from '../../utils/ingredientsDatabase';
+import { normalizeString } from '../../utils/textNormalizer';
+import { eNumberKey, parseENumbers } from '../../utils/eNumberParser';
+
+// Referensimplementation: den tidigare linjära sökningen i checkIngredientStatus
+// (utökad med alias, hela ord för poster med 'exact' och hela namnet för 'name')
+function containsWholeWord(text: string, term: string): boolean {
+  return term !== '' && new RegExp(`(^|[^a-z])${term.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^a-z])`).test(text);
+}
+
+function linearFind(list: IngredientData[], normalizedName: string, eNumbers: string[]): IngredientData | undefined {
+  return list.find(item =>
+    [item.name, ...(item.aliases || []).map(alias => alias.name)].some(term => item.matchMode === 'name'
+      ? normalizedName === normalizeString(term)
+      : item.matchMode === 'exact'
+        ? containsWholeWord(normalizedName, normalizeString(term))
+        : normalizedName.includes(normalizeString(term))) ||
+    (item.eNumber && eNumbers.includes(item.eNumber.toUpperCase()))
+  );
+}
+
+function extractENumbers(normalizedName: string): string[] {
+  return parseENumbers(normalizedName).map(parsed => eNumberKey(parsed.code));
+}
+
+describe('IngredientIndex', () => {
+  const sample: IngredientData[] = [
+    { name: 'Mjölk', eNumber: '' },
+    { name: 'Mjölkpulver' },
+    { name: 'Karmin', eNumber: 'E120' },
+    { name: 'Ost', matchMode: 'exact' },
+    { name: 'Olja', matchMode: 'name' },
+    { name: 'Lecitin', eNumber: 'e322' },
+    { name: 'Annat lecitin', eNumber: 'E322' },
+    { name: 'Honung', aliases: [{ name: 'honungsextrakt', language: 'sv' }, { name: 'Honig', language: 'de' }] }
+  ];
+  const index = new IngredientIndex(sample);
+
+  it('should return the first matching item in list order', () => {
+    // "mjolkpulver" innehåller både "mjolk" (index 0) och "mjolkpulver" (index 1)
+    const match = index.find(normalizeString('Mjölkpulver'));
+    expect(match?.item.name).toBe('Mjölk');
+    expect(match?.isExactName).toBe(false);
+    expect(match?.isNameMatch).toBe(true);
+  });
+
+  it('should report exact name matches', () => {
+    const match = index.find(normalizeString('KARMIN'));
+    expect(match?.item.name).toBe('Karmin');
+    expect(match?.isExactName).toBe(true);
+  });
+
+  it('should match E-numbers case-insensitively and prefer the earliest row', () => {
+    const match = index.find(normalizeString('Emulgeringsmedel E322'), ['E322']);
+    expect(match?.item.name).toBe('Lecitin');
+    expect(match?.isNameMatch).toBe(false);
+  });
+
+  it('should prefer an earlier E-number match over a later name match', () => {
+    const match = index.find(normalizeString('ost (E120)'), ['E120']);
+    expect(match?.item.name).toBe('Karmin');
+  });
+
+  it('should match the earliest row among several E-numbers', () => {
+    const match = index.find(normalizeString('Emulgeringsmedel (E322, E120)'), ['E322', 'E120']);
+    expect(match?.item.name).toBe('Karmin');
+  });
+
+  it('should match aliases and report the matched alias and language', () => {
+    const match = index.find(normalizeString('Honig'));
+    expect(match?.item.name).toBe('Honung');
+    expect(match?.matchedAlias).toEqual({ name: 'Honig', language: 'de' });
+    expect(match?.isExactName).toBe(true);
+  });
+
+  it('should report the primary name as Swedish', () => {
+    expect(index.find(normalizeString('Karmin'))?.matchedAlias).toEqual({ name: 'Karmin', language: 'sv' });
+    expect(index.find(normalizeString('E120'), ['E120'])?.matchedAlias).toBeUndefined();
+  });
+
+  it('should only match exact-mode items as whole words', () => {
+    expect(index.find(normalizeString('Ost'))?.item.name).toBe('Ost');
+    expect(index.find(normalizeString('Riven ost'))?.item.name).toBe('Ost');
+    expect(index.find(normalizeString('Ost (20 %)'))?.isExactName).toBe(false);
+    expect(index.find(normalizeString('Rostad lök'))).toBeNull();
+    expect(index.find(normalizeString('Osthyvel'))).toBeNull();
+  });
+
+  it('should only match name-mode items on the whole name', () => {
+    expect(index.find(normalizeString('Olja'))?.item.name).toBe('Olja');
+    expect(index.find(normalizeString('Vegetabilisk olja'))).toBeNull();
+  });
+
+  it('should return null when nothing matches', () => {
+    expect(index.find(normalizeString('Socker'))).toBeNull();
+  });
+
+  it('should look up exact names', () => {
+    expect(index.findExact('ost')?.name).toBe('Ost');
+    expect(index.findExact('os')).toBeUndefined();
+  });
+
+  describe('vegan list', () => {
+    const veganList = loadVeganIngredients();
+    const veganIndex = new IngredientIndex(veganList);
+
+    const queries = [
+      ...veganList.map(item => item.name),
+      ...veganList.filter(item => item.eNumber).map(item => `Tillsats ${item.eNumber}`),
+      'Okänd ingrediens',
+      'Vatten, socker, vetemjöl, rapsolja, salt, jäst',
+      'Emulgeringsmedel (E471, E322), aromer'
+    ].map(normalizeString);
+
+    it('should load the full vegan list', () => {
+      expect(veganList.length).toBeGreaterThanOrEqual(300);
+    });
+
+    it('should return the same item as a linear scan', () => {
+      for (const query of queries) {
+        const eNumbers = extractENumbers(query);
+        expect(veganIndex.find(query, eNumbers)?.item).toBe(linearFind(veganList, query, eNumbers));
+      }
+    });
+
+    it('should look up an ingredient in well under a millisecond', () => {
+      const rounds = 5;
+
+      const start = process.hrtime.bigint();
+      for (let round = 0; round < rounds; round++) {
+        for (const query of queries) {
+          veganIndex.find(query, extractENumbers(query));
+        }
+      }
+      const indexMs = Number(process.hrtime.bigint() - start) / 1e6;
+
+      // Under en millisekund per uppslagning, med god marginal
+      expect(indexMs / (rounds * queries.length)).toBeLessThan(1);
+    });
+  });
+});
@@ -0,0 +1,22 @@
+import { splitTextToIngredients } from '../../utils/ingredientText';
+
+describe('ingredientText', () => {
+  describe('splitTextToIngredients', () => {
+    it('should split on separators and remove the header', () => {
+      expect(splitTextToIngredients('Ingredienser: vetemjöl, socker; rapsolja och salt')).toEqual([
+        'vetemjöl',
+        'socker',
+        'rapsolja',
+        'salt'
+      ]);
+    });
+
+    it('should leave out "may contain" statements', () => {
+      expect(splitTextToIngredients('havre, socker\nKan innehålla spår av mjölk')).toEqual(['havre', 'socker']);
+    });
+
+    it('should return nothing for an empty text', () => {
+      expect(splitTextToIngredients('  ')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,190 @@
+import {
+  checkIngredientStatus,
+  getIngredientDataset,
+  reloadIngredientDatabase
+} from '../../utils/ingredientsDatabase';
+import {
+  DEFINITELY_NON_VEGAN,
+  POTENTIALLY_NON_VEGAN,
+  SAFE_EXCEPTIONS
+} from '../../constants/veganIngredients';
+
+describe('ingredientsDatabase', () => {
+  describe('versioning', () => {
+    it('should give the loaded dataset a short content hash', () => {
+      expect(getIngredientDataset().version).toMatch(/^[0-9a-f]{12}$/);
+    });
+
+    it('should report the database version on every status check', () => {
+      const { version } = getIngredientDataset();
+      expect(checkIngredientStatus('Karmin').databaseVersion).toBe(version);
+      expect(checkIngredientStatus('okänd ingrediens').databaseVersion).toBe(version);
+    });
+
+    it('should not keep an empty database after a failed first load', () => {
+      jest.isolateModules(() => {
+        const catalogue = jest.requireActual('../../utils/ingredientCatalogue');
+        const load = jest.fn()
+          .mockReturnValueOnce(null)
+          .mockReturnValueOnce([])
+          .mockImplementation(catalogue.loadIngredientCatalogue);
+        jest.doMock('../../utils/ingredientCatalogue', () => ({ ...catalogue, loadIngredientCatalogue: load }));
+        // Importen laddar databasen en gång (misslyckas här)
+        const database = require('../../utils/ingredientsDatabase');
+
+        expect(database.getIngredientDataset().entries).toHaveLength(0);
+        const loaded = database.getIngredientDataset();
+        expect(loaded.entries.length).toBeGreaterThan(0);
+        expect(database.getIngredientDataset()).toBe(loaded);
+        expect(load).toHaveBeenCalledTimes(3);
+      });
+      jest.dontMock('../../utils/ingredientCatalogue');
+    });
+
+    it('should keep the current dataset when a reload finds no changes', () => {
+      const before = getIngredientDataset();
+      const after = reloadIngredientDatabase();
+      expect(after).toBe(before);
+      expect(getIngredientDataset()).toBe(before);
+    });
+  });
+
+  describe('E-numbers', () => {
+    it('should return a per-code breakdown', () => {
+      const result = checkIngredientStatus('emulgeringsmedel (E471, E322)');
+      expect(result.isUncertain).toBe(true);
+      expect(result.matchStrategy).toBe('e-number');
+      expect(result.eNumbers.map(code => [code.code, code.isUncertain, code.resolvedBy, code.matchedItem?.eNumber])).toEqual([
+        ['E471', true, 'exact', 'E471'],
+        ['E322', true, 'exact', 'E322']
+      ]);
+    });
+
+    it('should let the strictest code decide the verdict', () => {
+      const result = checkIngredientStatus('färgämnen (E150d, E120)');
+      expect(result.isVegan).toBe(false);
+      expect(result.matchedItem?.name).toBe('Karmin');
+      expect(result.eNumbers.map(code => code.isVegan)).toEqual([true, false]);
+    });
+
+    it('should fall back to the parent code for sub-variants', () => {
+      const [carotene, monoglycerides] = checkIngredientStatus('E160a(ii), E471a').eNumbers;
+      expect(carotene).toMatchObject({ code: 'E160a(ii)', resolvedBy: 'parent', isVegan: true });
+      expect(carotene.matchedItem?.eNumber).toBe('E160a');
+      expect(monoglycerides).toMatchObject({ code: 'E471a', resolvedBy: 'parent', isUncertain: true });
+    });
+
+    it('should resolve a code without variant through its variants', () => {
+      const [result] = checkIngredientStatus('E472').eNumbers;
+      expect(result.resolvedBy).toBe('variants');
+      expect(result.isUncertain).toBe(true);
+      expect(result.matchedItem?.eNumber).toMatch(/^E472[a-f]$/);
+    });
+
+    it('should report unknown codes', () => {
+      const result = checkIngredientStatus('E121');
+      expect(result.matchStrategy).toBe('none');
+      expect(result.eNumbers).toEqual([{ code: 'E121', isVegan: null, isUncertain: false, resolvedBy: 'none', matchedItem: undefined }]);
+    });
+  });
+
+  describe('catalogue', () => {
+    it('should split the catalogue into status lists in file order', () => {
+      const dataset = getIngredientDataset();
+      expect(dataset.nonVegan.length + dataset.uncertain.length + dataset.vegan.length).toBe(dataset.entries.length);
+      expect(dataset.vegan).toEqual(dataset.entries.filter(entry => entry.status === 'vegan'));
+    });
+
+    it('should match aliases and exact-mode terms', () => {
+      const cochenille = checkIngredientStatus('Cochenille');
+      expect(cochenille.isVegan).toBe(false);
+      expect(cochenille.matchedItem?.name).toBe('Karmin');
+
+      expect(checkIngredientStatus('Ost').isVegan).toBe(false);
+      expect(checkIngredientStatus('Rostad lök').matchedItem?.name).not.toBe('Ost');
+    });
+
+    it('should match aliases in other languages and report the alias', () => {
+      const schellack = checkIngredientStatus('Schellack');
+      expect(schellack.matchedItem?.name).toBe('Shellack');
+      expect(schellack.matchedAlias).toEqual({ name: 'schellack', language: 'de' });
+
+      const shellac = checkIngredientStatus('Glazing agent: shellac');
+      expect(shellac.matchStrategy).toBe('name-substring');
+      expect(shellac.matchedAlias).toEqual({ name: 'shellac', language: 'en' });
+
+      const maelk = checkIngredientStatus('Mælk');
+      expect(maelk.isVegan).toBe(false);
+      expect(maelk.matchedAlias).toEqual({ name: 'mælk', language: 'da' });
+
+      expect(checkIngredientStatus('Karmin').matchedAlias).toEqual({ name: 'Karmin', language: 'sv' });
+    });
+
+    it('should not report an alias for E-number matches', () => {
+      const result = checkIngredientStatus('E904');
+      expect(result.matchStrategy).toBe('e-number');
+      expect(result.matchedItem?.name).toBe('Shellack');
+      expect(result.matchedAlias).toBeUndefined();
+    });
+
+    it('should derive the validator sets from the same catalogue', () => {
+      const { entries } = getIngredientDataset();
+      const termsFor = (status: string) => new Set(entries
+        .filter(entry => entry.status === status)
+        .flatMap(entry => [
+          entry.name,
+          ...(entry.aliases || []).map(alias => alias.name),
+          ...(entry.eNumber ? [entry.eNumber] : [])
+        ])
+        .map(term => term.toLowerCase()));
+
+      expect(DEFINITELY_NON_VEGAN).toEqual(termsFor('non-vegan'));
+      expect(POTENTIALLY_NON_VEGAN).toEqual(termsFor('uncertain'));
+      expect(SAFE_EXCEPTIONS).toEqual(termsFor('vegan'));
+    });
+
+    it('should give every catalogue term its own status in checkIngredientStatus', () => {
+      const dataset = getIngredientDataset();
+      const mismatches = dataset.entries
+        .filter(entry => {
+          const result = checkIngredientStatus(entry.name, dataset);
+          const status = result.isVegan === false ? 'non-vegan' : result.isUncertain ? 'uncertain' : 'vegan';
+          return status !== entry.status;
+        })
+        .map(entry => entry.name);
+
+      expect(mismatches).toEqual([]);
+    });
+  });
+
+  describe('diet profiles', () => {
+    const dataset = getIngredientDataset();
+
+    it('should default to the vegan profile and report animal categories', () => {
+      const result = checkIngredientStatus('Honung', dataset);
+      expect(result).toMatchObject({ isVegan: false, dietProfile: 'vegan', animalCategories: ['bee'] });
+    });
+
+    it('should accept ingredients whose animal categories the profile allows', () => {
+      expect(checkIngredientStatus('Honung', dataset, 'honey-ok')).toMatchObject({ isVegan: true, isUncertain: false });
+      expect(checkIngredientStatus('Vasslepulver', dataset, 'vegetarian').isVegan).toBe(true);
+      expect(checkIngredientStatus('Lecitin', dataset, 'lacto-ovo')).toMatchObject({ isVegan: true, isUncertain: false });
+      expect(checkIngredientStatus('Fiskbuljong', dataset, 'pescetarian').reason)
+        .toBe('Fiskbuljong passar kostprofilen "pescetarian": fisk är tillåtet');
+    });
+
+    it('should keep the status when a category is not allowed', () => {
+      expect(checkIngredientStatus('Gelatin', dataset, 'vegetarian').isVegan).toBe(false);
+      expect(checkIngredientStatus('Kycklingfilé', dataset, 'pescetarian').isVegan).toBe(false);
+      expect(checkIngredientStatus('E471', dataset, 'vegetarian').isUncertain).toBe(true);
+      expect(checkIngredientStatus('Maltol', dataset, 'pescetarian').isUncertain).toBe(true);
+    });
+
+    it('should judge every E-number against the profile', () => {
+      const result = checkIngredientStatus('Vassle, E120', dataset, 'vegetarian');
+      expect(result.isVegan).toBe(false);
+      expect(result.eNumbers.map(code => [code.code, code.isVegan])).toEqual([['E120', false]]);
+      expect(checkIngredientStatus('E322', dataset, 'lacto-ovo').eNumbers[0]).toMatchObject({ isVegan: true, isUncertain: false });
+    });
+  });
+});
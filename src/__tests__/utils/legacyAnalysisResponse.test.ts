@@ -0,0 +1,67 @@
+import { createAnalysisResponse } from '../../utils/analysisResponse';
+import { toLegacyMediaResponse, toLegacyTextResponse } from '../../utils/legacyAnalysisResponse';
+import { AnalysisResult } from '../../utils/outputParser';
+
+describe('legacyAnalysisResponse', () => {
+  const textResult: AnalysisResult = {
+    isVegan: null,
+    confidence: 0.6,
+    ingredientList: ['havre', 'arom'],
+    nonVeganIngredients: [],
+    reasoning: 'Arom kan vara av animaliskt ursprung.',
+    ingredientVerdicts: [
+      { name: 'havre', isVegan: true, isUncertain: false, confidence: 1, trace: [] },
+      { name: 'arom', isVegan: null, isUncertain: true, confidence: 0.5, trace: [] }
+    ],
+    databaseVersion: 'abc123',
+    dietProfile: 'vegan',
+    tracePolicy: 'warn',
+    traceWarnings: ['mjölk'],
+    traceIngredients: ['mjölk']
+  };
+
+  describe('toLegacyTextResponse', () => {
+    it('should return the analysis result of the text pipeline', () => {
+      const legacy = toLegacyTextResponse(createAnalysisResponse(textResult, 'text'));
+      expect(legacy).toMatchObject({
+        isVegan: null,
+        confidence: 0.6,
+        ingredientList: ['havre', 'arom'],
+        traceIngredients: ['mjölk'],
+        traceWarnings: ['mjölk'],
+        databaseVersion: 'abc123'
+      });
+      expect(legacy.ingredientVerdicts).toEqual(textResult.ingredientVerdicts);
+      expect(legacy).not.toHaveProperty('product');
+      expect(legacy).not.toHaveProperty('responseVersion');
+    });
+  });
+
+  describe('toLegacyMediaResponse', () => {
+    it('should build the format of the app result view', () => {
+      const legacy = toLegacyMediaResponse(createAnalysisResponse(textResult, 'image'));
+      expect(legacy).toMatchObject({
+        success: true,
+        status: 'uncertain',
+        veganIngredients: ['havre'],
+        traceIngredients: ['mjölk'],
+        problemIngredient: null,
+        product: null,
+        usageInfo: { analysesUsed: 0, analysesLimit: 10, remaining: 10, isPremium: false }
+      });
+      expect(legacy.ingredientList.map(ingredient => [ingredient.name, ingredient.status])).toEqual([
+        ['havre', 'vegan'],
+        ['arom', 'uncertain']
+      ]);
+      expect(legacy.watchedIngredients).toEqual([
+        expect.objectContaining({ name: 'mjölk', reason: 'Icke-vegansk (spårämne)' })
+      ]);
+    });
+
+    it('should keep the usage info of the analysis', () => {
+      const usageInfo = { analysesUsed: 3, analysesLimit: 10, remaining: 7, isPremium: false };
+      const legacy = toLegacyMediaResponse(createAnalysisResponse(textResult, 'image', { usageInfo }));
+      expect(legacy.usageInfo).toEqual(usageInfo);
+    });
+  });
+});
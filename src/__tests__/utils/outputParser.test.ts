@@ -0,0 +1,56 @@
+import outputParser from '../../utils/outputParser';
+
+describe('outputParser', () => {
+  const parse = (response: object) => outputParser.parseAnalysisResult(JSON.stringify(response));
+
+  it('should start the trace with the AI verdict', () => {
+    const result = parse({
+      isVegan: false,
+      confidence: 0.9,
+      ingredientList: ['Socker', 'Mjölk', 'Salt'],
+      nonVeganIngredients: ['Mjölk'],
+      reasoning: 'Innehåller mjölk.'
+    });
+
+    expect(result.trace).toEqual([
+      expect.objectContaining({ source: 'ai', rule: 'ai-response', isVegan: false, confidence: 0.9 })
+    ]);
+    expect(result.ingredientVerdicts?.map(verdict => [verdict.name, verdict.isVegan])).toEqual([
+      ['Socker', true],
+      ['Mjölk', false],
+      ['Salt', true]
+    ]);
+    expect(result.ingredientVerdicts?.[1].trace[0].rule).toBe('ai-non-vegan-ingredient');
+  });
+
+  it('should record sanity checks that change the verdict', () => {
+    const contradiction = parse({
+      isVegan: true,
+      confidence: 0.95,
+      ingredientList: ['Socker', 'Mjölk'],
+      nonVeganIngredients: ['Mjölk'],
+      reasoning: 'Ser vegansk ut.'
+    });
+    expect(contradiction.isVegan).toBe(false);
+    expect(contradiction.trace?.map(step => step.rule)).toEqual(['ai-response', 'non-vegan-ingredients-contradiction']);
+    expect(contradiction.trace?.[1]).toMatchObject({ source: 'sanity-check', isVegan: false, confidence: 0.7 });
+
+    const shortList = parse({
+      isVegan: true,
+      confidence: 0.95,
+      ingredientList: ['Socker'],
+      nonVeganIngredients: [],
+      reasoning: 'Ser vegansk ut.'
+    });
+    expect(shortList.trace?.map(step => step.rule)).toEqual(['ai-response', 'short-ingredient-list']);
+    expect(shortList.trace?.[1]).toMatchObject({ isVegan: true, confidence: 0.5 });
+    // Produktens justeringar ändrar inte AI:ns bedömning av ingrediensen
+    expect(shortList.ingredientVerdicts?.[0].confidence).toBe(0.95);
+  });
+
+  it('should record an unreadable response', () => {
+    const result = outputParser.parseAnalysisResult('inget JSON här');
+    expect(result.trace?.map(step => step.rule)).toEqual(['ai-response-unreadable']);
+    expect(result.ingredientVerdicts).toEqual([]);
+  });
+});
@@ -0,0 +1,115 @@
+import { Request, Response } from 'express';
+import { validateRequest } from '../../utils/requestValidation';
+import { textAnalysisRequestSchema, ANALYZE_ERROR_CODES } from '../../routes/analyzeSchemas';
+import { ingredientLookupRequestSchema, INGREDIENT_ERROR_CODES } from '../../routes/ingredientSchemas';
+import { ingredientReportSchema } from '../../routes/reportSchemas';
+import { reportListQuerySchema } from '../../routes/adminSchemas';
+import { productParamsSchema } from '../../routes/productSchemas';
+import { getOpenApiDocument } from '../../routes/openApiDocument';
+import { createResponse } from '../helpers/mockResponse';
+
+function runValidation(middleware: ReturnType<typeof validateRequest>, body: unknown) {
+  const req = { body, originalUrl: '/test' } as Request;
+  const res = createResponse();
+  const next = jest.fn();
+  middleware(req, res as unknown as Response, next);
+  return { req, res, next };
+}
+
+describe('requestValidation', () => {
+  describe('validateRequest', () => {
+    const validateText = validateRequest(
+      { body: textAnalysisRequestSchema },
+      { style: 'code', errorCodes: ANALYZE_ERROR_CODES }
+    );
+
+    it('should replace the body with the parsed values', () => {
+      const { req, next } = runValidation(validateText, {
+        text: 'havre, vatten',
+        dietProfile: '',
+        responseVersion: '2',
+        gtin: '400-6381 333931'
+      });
+      expect(next).toHaveBeenCalled();
+      expect(req.body).toEqual({
+        text: 'havre, vatten',
+        dietProfile: 'vegan',
+        tracePolicy: 'warn',
+        responseVersion: 2,
+        gtin: '04006381333931'
+      });
+    });
+
+    it('should replace the params and query with the parsed values', () => {
+      const validate = validateRequest(
+        { params: productParamsSchema, query: reportListQuerySchema },
+        { style: 'successCode' }
+      );
+      const req = { params: { gtin: '400-6381 333931' }, query: { limit: '10' }, originalUrl: '/test' } as unknown as Request;
+      const next = jest.fn();
+      validate(req, createResponse() as unknown as Response, next);
+
+      expect(next).toHaveBeenCalled();
+      expect(req.params).toEqual({ gtin: '04006381333931' });
+      expect(req.query).toEqual({ limit: 10, offset: 0 });
+    });
+
+    it('should answer with the error code of the field', () => {
+      const { res, next } = runValidation(validateText, { text: 'havre', tracePolicy: 'never' });
+      expect(next).not.toHaveBeenCalled();
+      expect(res.statusCode).toBe(400);
+      expect(res.body).toEqual({
+        error: 'INVALID_TRACE_POLICY',
+        message: 'Invalid tracePolicy: must be one of ignore, warn, uncertain'
+      });
+    });
+
+    it('should name the field in Zod messages', () => {
+      const { res } = runValidation(validateText, { ingredients: 'havre' });
+      expect(res.body).toEqual({
+        error: 'INVALID_CONTENT_FORMAT',
+        message: 'Invalid ingredients: Expected array, received string'
+      });
+    });
+
+    it('should use the error code and details of a refinement', () => {
+      const validateLookup = validateRequest(
+        { body: ingredientLookupRequestSchema },
+        { style: 'successCode', errorCodes: INGREDIENT_ERROR_CODES }
+      );
+      const { res } = runValidation(validateLookup, { names: ['havre', ' '] });
+      expect(res.body).toEqual({
+        success: false,
+        error: 'INVALID_NAME',
+        message: 'One or more ingredient names are invalid',
+        details: [{ index: 1, error: 'Ingredient name must be a non-empty string' }]
+      });
+      expect(runValidation(validateLookup, {}).res.body).toMatchObject({ error: 'MISSING_NAMES' });
+    });
+
+    it('should answer with only the message in the "successMessage" style', () => {
+      const validateReport = validateRequest({ body: ingredientReportSchema }, { style: 'successMessage' });
+      const { res } = runValidation(validateReport, { ingredient: 'vassle' });
+      expect(res.body).toEqual({ success: false, error: 'Missing or invalid required field: feedback' });
+    });
+  });
+
+  describe('OpenAPI document', () => {
+    it('should describe the routes with the paths they are mounted at', () => {
+      const document = getOpenApiDocument();
+      expect(document.openapi).toBe('3.1.0');
+      expect(Object.keys(document.paths || {})).toEqual(expect.arrayContaining([
+        '/analyze/text',
+        '/ai/analyze-image',
+        '/analyze-video',
+        '/counter/{userId}/{counterName}',
+        '/counters/{userId}/{counterName}/increment',
+        '/reports/ingredient',
+        '/ingredients/lookup',
+        '/products/{gtin}',
+        '/admin/reports/{id}'
+      ]));
+      expect(document.components?.schemas).toHaveProperty('AnalysisResponse');
+    });
+  });
+});
@@ -0,0 +1,78 @@
+import {
+  applyTracePolicy,
+  getTraceWarnings,
+  isMadeUncertainByTraces,
+  isTraceConcern,
+  parseTracePolicy,
+  TRACE_POLICIES
+} from '../../utils/tracePolicy';
+import { TraceableVerdict } from '../../utils/verdictTrace';
+
+describe('tracePolicy', () => {
+  describe('isMadeUncertainByTraces', () => {
+    it.each([
+      ['ignore', true, false],
+      ['warn', true, false],
+      ['uncertain', true, true],
+      ['uncertain', false, false],
+      ['uncertain', null, false]
+    ] as const)('should for %s and isVegan %s return %s', (policy, isVegan, expected) => {
+      expect(isMadeUncertainByTraces(isVegan, ['mjölk'], policy)).toBe(expected);
+    });
+
+    it('should not change anything without trace concerns', () => {
+      for (const policy of TRACE_POLICIES) {
+        expect(isMadeUncertainByTraces(true, [], policy)).toBe(false);
+      }
+    });
+  });
+
+  describe('applyTracePolicy', () => {
+    const veganVerdict = (isUncertain?: boolean): TraceableVerdict => ({
+      isVegan: true,
+      isUncertain,
+      confidence: 0.9,
+      trace: []
+    });
+
+    it('should make a vegan verdict uncertain and record the step', () => {
+      const verdict = veganVerdict(false);
+      expect(applyTracePolicy(verdict, ['mjölk'], 'uncertain')).toBe(true);
+      expect(verdict).toMatchObject({ isVegan: null, isUncertain: true, confidence: 0.5 });
+      expect(verdict.trace).toEqual([
+        expect.objectContaining({ source: 'sanity-check', rule: 'trace-policy-uncertain', isVegan: null })
+      ]);
+    });
+
+    it('should not add isUncertain to verdicts without it', () => {
+      const verdict = veganVerdict();
+      applyTracePolicy(verdict, ['mjölk'], 'uncertain');
+      expect(verdict.isVegan).toBeNull();
+      expect(verdict).not.toHaveProperty('isUncertain', true);
+    });
+
+    it('should leave the verdict alone for the other policies', () => {
+      for (const policy of ['ignore', 'warn'] as const) {
+        const verdict = veganVerdict(false);
+        expect(applyTracePolicy(verdict, ['mjölk'], policy)).toBe(false);
+        expect(verdict.isVegan).toBe(true);
+        expect(verdict.trace).toEqual([]);
+      }
+    });
+  });
+
+  it('should only warn about non-vegan and uncertain traces', () => {
+    expect(isTraceConcern(false, false)).toBe(true);
+    expect(isTraceConcern(null, true)).toBe(true);
+    expect(isTraceConcern(true, false)).toBe(false);
+    expect(isTraceConcern(null, false)).toBe(false);
+    expect(getTraceWarnings(['mjölk'], 'warn')).toEqual(['mjölk']);
+    expect(getTraceWarnings(['mjölk'], 'ignore')).toEqual([]);
+  });
+
+  it('should default to warn and refuse unknown policies', () => {
+    expect(parseTracePolicy(undefined)).toBe('warn');
+    expect(parseTracePolicy('uncertain')).toBe('uncertain');
+    expect(parseTracePolicy('strict')).toBeNull();
+  });
+});
@@ -0,0 +1,59 @@
+import { applyVerdictChange, startVerdictTrace, TraceableVerdict } from '../../utils/verdictTrace';
+
+describe('verdictTrace', () => {
+  const createVerdict = (): TraceableVerdict => ({ isVegan: true, isUncertain: false, confidence: 0.8 });
+
+  it('should start the trace with the current verdict', () => {
+    const verdict = createVerdict();
+    startVerdictTrace(verdict, { source: 'ai', rule: 'ai-status', reason: 'AI' });
+    expect(verdict.trace).toEqual([
+      { source: 'ai', rule: 'ai-status', isVegan: true, isUncertain: false, confidence: 0.8, reason: 'AI' }
+    ]);
+  });
+
+  it('should apply a change and record the values after it', () => {
+    const verdict = createVerdict();
+    startVerdictTrace(verdict, { source: 'ai', rule: 'ai-status', reason: 'AI' });
+
+    const changed = applyVerdictChange(verdict, { isVegan: false, confidence: 0.98 }, {
+      source: 'database',
+      rule: 'database-exact-name',
+      reason: 'Vassle är inte vegansk',
+      matchedItem: 'Vassle'
+    });
+
+    expect(changed).toBe(true);
+    expect(verdict).toMatchObject({ isVegan: false, isUncertain: false, confidence: 0.98 });
+    expect(verdict.trace?.map(step => step.source)).toEqual(['ai', 'database']);
+    expect(verdict.trace?.[1]).toMatchObject({ isVegan: false, confidence: 0.98, matchedItem: 'Vassle' });
+  });
+
+  it('should not record a step when nothing changes', () => {
+    const verdict = createVerdict();
+    startVerdictTrace(verdict, { source: 'ai', rule: 'ai-status', reason: 'AI' });
+
+    expect(applyVerdictChange(verdict, { isVegan: true, confidence: 0.8 }, {
+      source: 'sanity-check',
+      rule: 'short-ingredient-list',
+      reason: 'Kort lista'
+    })).toBe(false);
+    expect(verdict.trace).toHaveLength(1);
+  });
+
+  it('should treat a verdict without isUncertain as uncertain when isVegan is null', () => {
+    const verdict: TraceableVerdict = { isVegan: false, confidence: 0.5 };
+    applyVerdictChange(verdict, { isVegan: null }, { source: 'sanity-check', rule: 'low-confidence', reason: 'Låg' });
+    expect(verdict.trace?.[0].isUncertain).toBe(true);
+    expect(verdict).not.toHaveProperty('isUncertain');
+  });
+
+  it('should not share the trace array with a copied verdict', () => {
+    const original = createVerdict();
+    startVerdictTrace(original, { source: 'ai', rule: 'ai-status', reason: 'AI' });
+    const copy = { ...original };
+
+    applyVerdictChange(copy, { confidence: 0.5 }, { source: 'sanity-check', rule: 'image-quality', reason: 'Oskarp' });
+    expect(original.trace).toHaveLength(1);
+    expect(copy.trace).toHaveLength(2);
+  });
+});
@@ -0,0 +1,60 @@
+import { VideoAnalysisProgress, VideoAnalysisProgressReporter } from '../../utils/videoAnalysisProgress';
+
+describe('VideoAnalysisProgressReporter', () => {
+  it('should report each step with its stage and timings', () => {
+    const events: VideoAnalysisProgress[] = [];
+    const now = jest.spyOn(Date, 'now').mockReturnValue(1000);
+    const progress = new VideoAnalysisProgressReporter(event => events.push(event), 1000);
+
+    progress.start('sizeCheck');
+    now.mockReturnValue(1040);
+    progress.finish('sizeCheck', 'completed', { sizeMB: 4.2 });
+    progress.finish('optimization', 'skipped', { reason: 'small video' });
+    now.mockReturnValue(1100);
+    progress.start('gemini');
+    now.mockRestore();
+
+    expect(events).toEqual([
+      { step: 'sizeCheck', stage: 'optimizing', status: 'started', elapsedMs: 0 },
+      { step: 'sizeCheck', stage: 'optimizing', status: 'completed', elapsedMs: 40, durationMs: 40, details: { sizeMB: 4.2 } },
+      { step: 'optimization', stage: 'optimizing', status: 'skipped', elapsedMs: 40, details: { reason: 'small video' } },
+      { step: 'gemini', stage: 'analyzing', status: 'started', elapsedMs: 100 }
+    ]);
+  });
+
+  it('should send the parsed ingredients without the analysis details', () => {
+    const listener = jest.fn();
+    const progress = new VideoAnalysisProgressReporter(listener);
+    progress.start('functionCall');
+    progress.finish('functionCall', 'completed', undefined, [
+      { name: 'Mjölk', isVegan: false, isUncertain: false, confidence: 0.9, source: 'declared', reason: 'Animaliskt' }
+    ]);
+
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({
+      ingredients: [{ name: 'Mjölk', isVegan: false, isUncertain: false, source: 'declared' }]
+    }));
+  });
+
+  it('should end a step only once and fail the started steps', () => {
+    const listener = jest.fn();
+    const progress = new VideoAnalysisProgressReporter(listener);
+    progress.start('gemini');
+    progress.finish('gemini', 'completed');
+    progress.finish('gemini', 'failed');
+    progress.finish('functionCall', 'failed');
+    progress.start('enhance');
+    progress.failStarted({ error: 'boom' });
+
+    expect(listener.mock.calls.map(([event]) => `${event.step}:${event.status}`)).toEqual([
+      'gemini:started', 'gemini:completed', 'enhance:started', 'enhance:failed'
+    ]);
+    expect(listener).toHaveBeenLastCalledWith(expect.objectContaining({ details: { error: 'boom' } }));
+  });
+
+  it('should not let a failing listener stop the analysis', () => {
+    const progress = new VideoAnalysisProgressReporter(() => {
+      throw new Error('client gone');
+    });
+    expect(() => progress.start('sizeCheck')).not.toThrow();
+  });
+});
@@ -0,0 +1,42 @@
+import { buildCompoundParts, containsWord, splitsIntoParts } from '../../utils/wordMatcher';
+import { normalizeString } from '../../utils/textNormalizer';
+
+describe('wordMatcher', () => {
+  const parts = buildCompoundParts(['Vassle', 'Honung', 'Ägg', 'Esterar av fettsyror']);
+
+  it('should build parts from single-word catalogue terms and common compound parts', () => {
+    expect(parts.has('vassle')).toBe(true);
+    expect(parts.has('agg')).toBe(true);
+    expect(parts.has('esterar av fettsyror')).toBe(false);
+    expect(parts.has('pulver')).toBe(true);
+    expect(parts.has('fri')).toBe(false);
+  });
+
+  it('should split segments into known parts, with a linking s between parts', () => {
+    expect(splitsIntoParts('proteinkoncentrat', parts)).toBe(true);
+    expect(splitsIntoParts('honungssirap', parts)).toBe(true);
+    expect(splitsIntoParts('planta', parts)).toBe(false);
+    expect(splitsIntoParts('a', parts)).toBe(false);
+  });
+
+  it('should match whole words and compound parts', () => {
+    expect(containsWord('rom', 'rom', parts)).toBe(true);
+    expect(containsWord('lax och rom', 'rom', parts)).toBe(true);
+    expect(containsWord('vasslepulver', 'vassle', parts)).toBe(true);
+    expect(containsWord('vassleproteinkoncentrat', 'vassle', parts)).toBe(true);
+    expect(containsWord('sotvasslepulver', 'vassle', parts)).toBe(false);
+    expect(containsWord(normalizeString('Honungssirap'), 'honung', parts)).toBe(true);
+  });
+
+  it('should not match accidental substrings', () => {
+    expect(containsWord('arom', 'rom', parts)).toBe(false);
+    expect(containsWord('romansallad', 'rom', parts)).toBe(false);
+    expect(containsWord('rostad lok', 'ost', parts)).toBe(false);
+    expect(containsWord('vegetabilisk olja', 'get', parts)).toBe(false);
+    expect(containsWord(normalizeString('äggfri'), 'agg', parts)).toBe(false);
+  });
+
+  it('should check every occurrence of the term', () => {
+    expect(containsWord('arom och rom', 'rom', parts)).toBe(true);
+  });
+});
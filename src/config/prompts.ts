@@ -90,6 +90,82 @@ Svara uteslutande i följande JSON-format utan inledande eller avslutande text:
 `
 };
 
+// Image analysis prompt templates (photo of the packaging)
+export const IMAGE_ANALYSIS_PROMPTS = {
+  // Swedish template
+  sv: `Du är en expertanalytiker för veganska produkter. Bilden visar en produktförpackning. Läs av ingredienslistan och bedöm med precision om produkten är vegansk eller inte.
+
+INSTRUKTIONER:
+1. Hitta ingredienslistan på förpackningen ("Ingredienser:", "Innehåll:", "Ingredients:" eller liknande).
+2. Lista varje ingrediens för sig, översatt till svenska om listan är på ett annat språk. Behåll E-nummer.
+3. Ta INTE med ingredienser som bara nämns i "kan innehålla spår av"-meningar i ingredientList.
+4. Om texten är svårläst, suddig, beskuren eller reflekterar, beskriv problemen i imageQualityIssues och sänk confidence.
+
+REFERENSGUIDE:
+- ICKE-VEGANSKA INGREDIENSER inkluderar: mjölk, ost, smör, grädde, vassle, yoghurt, ägg, gelatin, honung, löpe, kasein, laktos, bivax, lanolin, och karmin (E120).
+- OSÄKRA INGREDIENSER som kan vara både animaliska eller vegetabiliska inkluderar: E471, lecitin (kan vara från ägg eller soja), naturlig arom, glycerin, och vissa vitaminer (särskilt D3).
+
+SVARSFORMAT:
+Svara uteslutande i följande JSON-format utan inledande eller avslutande text:
+{
+  "isVegan": boolean eller null (om osäker),
+  "confidence": nummer mellan 0.0 och 1.0,
+  "productName": "Produktens namn om det syns, annars tom sträng",
+  "ingredientList": ["ingrediens1", "ingrediens2", ...],
+  "nonVeganIngredients": ["icke-vegansk ingrediens1", ...],
+  "reasoning": "Detaljerat resonemang med analys av kritiska ingredienser",
+  "extractedFrom": "Ingredienslistan ordagrant som den står på förpackningen, inklusive eventuell 'kan innehålla spår av'-mening",
+  "imageQualityIssues": ["problem1", ...]
+}
+`,
+
+  // English template
+  en: `You are an expert vegan product analyst. The image shows product packaging. Read the ingredient list and precisely determine if the product is vegan or not.
+
+INSTRUCTIONS:
+1. Find the ingredient list on the packaging ("Ingredients:", "Ingredienser:", "Innehåll:" or similar).
+2. List each ingredient separately, in English. Keep E-numbers.
+3. Do NOT include ingredients that are only mentioned in "may contain traces of" statements in ingredientList.
+4. If the text is hard to read, blurry, cut off or has glare, describe the problems in imageQualityIssues and lower the confidence.
+
+REFERENCE GUIDE:
+- NON-VEGAN INGREDIENTS include: milk, cheese, butter, cream, whey, yogurt, eggs, gelatin, honey, rennet, casein, lactose, beeswax, lanolin, and carmine (E120).
+- UNCERTAIN INGREDIENTS that can be either animal or plant-based include: E471, lecithin (can be from eggs or soy), natural flavor, glycerin, and certain vitamins (especially D3).
+
+RESPONSE FORMAT:
+Reply exclusively in the following JSON format without any introductory or concluding text:
+{
+  "isVegan": boolean or null (if uncertain),
+  "confidence": number between 0.0 and 1.0,
+  "productName": "Name of the product if visible, otherwise empty string",
+  "ingredientList": ["ingredient1", "ingredient2", ...],
+  "nonVeganIngredients": ["non-vegan ingredient1", ...],
+  "reasoning": "Detailed reasoning with analysis of critical ingredients",
+  "extractedFrom": "The ingredient list verbatim as printed on the packaging, including any 'may contain traces of' statement",
+  "imageQualityIssues": ["issue1", ...]
+}
+`,
+
+  // Second attempt on an enhanced (brighter, higher contrast) image when the first attempt was unreadable
+  enhanced: `Du är en expertanalytiker för veganska produkter. Bilden visar en produktförpackning och har förbättrats för bättre läsbarhet eftersom ett tidigare försök inte kunde läsa ingredienslistan.
+
+Läs ingredienslistan noggrant, ord för ord. Gissa inte ingredienser som inte går att läsa; sätt hellre isVegan till null och en låg confidence. Ta inte med ingredienser som bara nämns i "kan innehålla spår av"-meningar i ingredientList.
+
+SVARSFORMAT:
+Svara uteslutande i följande JSON-format utan inledande eller avslutande text:
+{
+  "isVegan": boolean eller null (om osäker),
+  "confidence": nummer mellan 0.0 och 1.0,
+  "productName": "Produktens namn om det syns, annars tom sträng",
+  "ingredientList": ["ingrediens1", "ingrediens2", ...],
+  "nonVeganIngredients": ["icke-vegansk ingrediens1", ...],
+  "reasoning": "Resonemang med analys av kritiska ingredienser",
+  "extractedFrom": "Ingredienslistan ordagrant som den står på förpackningen, inklusive eventuell 'kan innehålla spår av'-mening",
+  "imageQualityIssues": ["problem1", ...]
+}
+`
+};
+
 // Add new template loader function
 export function loadTextAnalysisPrompts(manager: any): void {
   // Load text analysis templates for different languages and formats
@@ -99,4 +175,11 @@ export function loadTextAnalysisPrompts(manager: any): void {
   
   // Update the default template with the enhanced Swedish version
   manager.addTemplate('ingredientsAnalysis', TEXT_ANALYSIS_PROMPTS.sv);
+}
+
+// Load the image analysis templates
+export function loadImageAnalysisPrompts(manager: any): void {
+  manager.addTemplate('imageAnalysis_sv', IMAGE_ANALYSIS_PROMPTS.sv);
+  manager.addTemplate('imageAnalysis_en', IMAGE_ANALYSIS_PROMPTS.en);
+  manager.addTemplate('imageAnalysis_enhanced', IMAGE_ANALYSIS_PROMPTS.enhanced);
 }
\ No newline at end of file
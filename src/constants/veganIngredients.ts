@@ -1,91 +1,23 @@
 // C:\Projects\koalens-backend\src\constants\veganIngredients.ts
+import {
+  IngredientAlias,
+  IngredientDataset,
+  IngredientStatus,
+  getIngredientDataset,
+  onIngredientDatabaseReload
+} from '../utils/ingredientsDatabase';
+import { getCatalogueTerms, getIngredientNames } from '../utils/ingredientCatalogue';
+import { normalizeString } from '../utils/textNormalizer';
+
+// DEFINITELY_NON_VEGAN, POTENTIALLY_NON_VEGAN och SAFE_EXCEPTIONS härleds från
+// ingredienskatalogen (src/data/ingredients.csv) så att validateIngredients och
+// checkIngredientStatus alltid klassificerar ingredienser på samma sätt.
 
 // Ingredienser som definitivt INTE är veganska
-export const DEFINITELY_NON_VEGAN = new Set([
-    // Mejeriprodukter
-    'vassle', 'vasslepulver', 'vassleprotein',
-    'kärnmjölk', 'kärnmjölkspulver',
-    'mjölk', 'mjölkpulver', 'mjölkprotein', 'mjölkfett',
-    'ost', 'ostpulver', 'parmesanost', 'cheddarost', 'mozzarella',
-    'kasein', 'kaseinat',
-    'laktos', 'laktalbumin', 'laktoglobulin',
-    'grädde', 'gräddpulver', 'vispgrädde', 'matlagningsgrädde',
-    'smör', 'smörolja', 'animaliskt smörfett', 'ghee',
-    'yoghurt', 'yoghurtpulver', 'grekisk yoghurt',
-    'kefir', 'kvarg', 'ricotta',
-    'kondenserad mjölk', 'kondenserad', 'crème fraiche',
-    'mascarpone', 'cottage cheese',
-  
-    // Äggprodukter
-    'ägg', 'äggpulver', 'äggalbumin', 'äggula', 'äggvita',
-    'torkad äggvita', 'maräng', 'majonnäs', 'aioli',
-    'äggersättning med ägg', 'lysozym', 'ovalbumin',
-  
-    // Honung och biprodukter
-    'honung', 'bivax', 'propolis', 'royal jelly', 'kunglig gelé',
-    'bipollen', 'honungsextrakt',
-  
-    // Kött och köttprodukter
-    'kött', 'köttextrakt', 'köttbuljong', 'köttfond',
-    'nötkött', 'fläskkött', 'kycklingkött', 'lammkött',
-    'bacon', 'skinka', 'korv', 'salami', 'chorizo',
-    'gelatin', 'kollagen', 'benmjöl', 'köttprotein',
-    'kalvkött', 'vilt', 'anka', 'gås', 'kalkon',
-    'leverpastej', 'paté', 'sylta',
-  
-    // Fisk och skaldjur
-    'fisk', 'fisksås', 'fiskolja', 'fiskmjöl',
-    'skaldjur', 'räkor', 'hummer', 'krabba', 'musslor',
-    'tonfisk', 'lax', 'ansjovis', 'sardeller',
-    'kaviar', 'rom', 'surimi', 'krabbkött',
-    'sillextrakt', 'ostron', 'kammusslor', 'bläckfisk',
-  
-    // Animaliska tillsatser
-    'karmin', 'karminsyra', 'cochenille', 'e120',
-    'isinglass', 'husbloss',
-    'lanolin', 'ullfett',
-    'shellack', 'skellack',
-    'elastin', 'keratin',
-    'pepsin', 'löpe', 'kymosin',
-    'benkol', 'benaska', 'benmärg',
-    'animaliskt kol', 'animalisk gelatin'
-  ]);
+export const DEFINITELY_NON_VEGAN = new Set<string>();
   
   // Ingredienser som KAN vara icke-veganska och kräver extra granskning
-  export const POTENTIALLY_NON_VEGAN = new Set([
-    // E-nummer som kan vara animaliska
-    'e470', 'e471', 'e472', 'e473', 'e474', 'e475', 
-    'e476', 'e477', 'e478', 'e479', 'e481', 'e482', 
-    'e483', 'e484', 'e485', 'e542', 'e631', 'e635',
-    'e904', 'e920', 'e1105',
-    
-    // Tillsatser och vitaminer
-    'glycerin', 'glycerol',
-    'lecitin', 'e322',
-    'mono', 'diglycerider', 'monoglycerider', 'diglycerider',
-    'stearinsyra', 'stearater',
-    'vitamin d3', 'kolekalciferol',
-    'omega-3', 'dha', 'epa',
-    'd-vitamin', 'a-vitamin', 'a-palmitat',
-    
-    // Enzymer och proteiner
-    'enzym', 'enzymer',
-    'löpe', 'löpeenzym',
-    'protein', 'proteinhydrolysat',
-    'aminosyror', 'l-cystin', 'cystein',
-    'hydrolyserat protein',
-    
-    // Fetter och oljor
-    'fett', 'matfett',
-    'olja', 'fettsyror',
-    'stearin', 'stearinsyra',
-    
-    // Övriga
-    'emulgeringsmedel', 'emulgator',
-    'stabiliseringsmedel', 'stabilisator',
-    'klargöringsmedel', 'klarningsmedel',
-    'antioxidationsmedel', 'konserveringsmedel'
-  ]);
+  export const POTENTIALLY_NON_VEGAN = new Set<string>();
   
   // Ord som indikerar animaliskt ursprung
   export const ANIMAL_INDICATORS = new Set([
@@ -119,52 +51,46 @@ export const DEFINITELY_NON_VEGAN = new Set([
   ]);
   
   // Kända säkra undantag - ingredienser som kan låta icke-veganska men är veganska
-  export const SAFE_EXCEPTIONS = new Set([
-    // Syror och vinäger
-    'mjölksyra', 'citronsyra',
-    'äppelcidervinäger', 'balsamvinäger',
-    'vinäger', 'ättika',
-    'vinsyra', 'askorbinsyra',
-    'senap', 'mustard',
-    
-    // Växtbaserade mjölk och mejeri
-    'kokosmjölk', 'kokosgrädde', 'kokosdryck',
-    'sojamjölk', 'sojadryck', 'sojagrädde',
-    'havremjölk', 'havredryck', 'havregrädde',
-    'mandelmjölk', 'mandeldryck',
-    'rismjölk', 'risdryck',
-    'cashewmjölk', 'nötmjölk',
-    'sojaost', 'vegansk ost',
-    'växtgrädde', 'växtbaserad grädde',
-    'växtmjölk', 'växtdryck',
-    'växtost', 'vegansk färskost',
-    
-    // Växtbaserade smör och oljor
-    'jordnötssmör', 'mandelsmör',
-    'kakaosmör', 'sheasmör',
-    'margarin', 'vegetabiliskt margarin',
-    'kokosfett', 'palmolja',
-    'rapsolja', 'olivolja',
-    
-    // Växtbaserade produkter
-    'köttväxter', 'växtfärs',
-    'växtbaserad', 'växtbaserat',
-    'vegetabilisk', 'vegetabiliskt',
-    'ärtprotein', 'sojaprotein',
-    'havreprotein', 'veteprotein',
-    'seitan', 'tempeh', 'tofu',
-    // Added common vegan staples
-    'vetemjöl', 'wheat flour',
-    'jäst', 'yeast',
-    'jästextrakt', 'yeast extract',
-    'arom', 'naturlig arom',
-    
-    // Grönsaker och frukter som kan misstas
-    'äggplanta',
-    'kokosfett', 'kokoskött',
-    'jackfrukt', 'svampprotein',
-    
-    // E-nummer som är säkert veganska
-    'e300', 'e301', 'e302', 'e330', 'e440',
-    'e406', 'e410', 'e412', 'e415', 'e417'
-  ]);
\ No newline at end of file
+  export const SAFE_EXCEPTIONS = new Set<string>();
+
+  /**
+   * Katalogpost och namn/alias (med språk) som en term i mängderna ovan kommer från.
+   * alias saknas för E-nummer.
+   */
+  export interface CatalogueTermSource {
+    ingredient: string;
+    alias?: IngredientAlias;
+  }
+
+  // Ursprung per normaliserad term
+  export const CATALOGUE_TERMS = new Map<string, CatalogueTermSource>();
+
+  /**
+   * Fyll en mängd med namn, alias och E-nummer (gemener) för alla poster med given status.
+   * Mängden uppdateras på plats så att befintliga referenser ser den nya katalogen.
+   */
+  function fillFromCatalogue(target: Set<string>, dataset: IngredientDataset, status: IngredientStatus): void {
+    target.clear();
+    dataset.entries
+      .filter(entry => entry.status === status)
+      .forEach(entry => getCatalogueTerms(entry).forEach(term => target.add(term)));
+  }
+
+  function refreshFromCatalogue(dataset: IngredientDataset): void {
+    fillFromCatalogue(DEFINITELY_NON_VEGAN, dataset, 'non-vegan');
+    fillFromCatalogue(POTENTIALLY_NON_VEGAN, dataset, 'uncertain');
+    fillFromCatalogue(SAFE_EXCEPTIONS, dataset, 'vegan');
+
+    CATALOGUE_TERMS.clear();
+    dataset.entries.forEach(entry => {
+      getIngredientNames(entry).forEach(alias => {
+        CATALOGUE_TERMS.set(normalizeString(alias.name), { ingredient: entry.name, alias });
+      });
+      if (entry.eNumber) {
+        CATALOGUE_TERMS.set(normalizeString(entry.eNumber), { ingredient: entry.name });
+      }
+    });
+  }
+
+  refreshFromCatalogue(getIngredientDataset());
+  onIngredientDatabaseReload(refreshFromCatalogue);
@@ -0,0 +1,25 @@
+-- Granskningslogg för admin-API:t (/api/admin)
+CREATE TABLE IF NOT EXISTS public.admin_audit_log (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  action TEXT NOT NULL, -- t.ex. stats.reset, cache.purge, reports.moderate
+  actor_type TEXT NOT NULL, -- apiKey eller user
+  actor_id TEXT NOT NULL, -- Nyckelns namn eller användarens ID
+  target TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  success BOOLEAN NOT NULL,
+  ip TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS admin_audit_log_created_at_idx ON public.admin_audit_log (created_at DESC);
+
+-- Endast backend (service role) får läsa och skriva loggen
+ALTER TABLE public.admin_audit_log ENABLE ROW LEVEL SECURITY;
+
+-- Moderering av ingrediensrapporter
+ALTER TABLE public.ingredient_reports
+  ADD COLUMN IF NOT EXISTS moderation_note TEXT,
+  ADD COLUMN IF NOT EXISTS moderated_by TEXT,
+  ADD COLUMN IF NOT EXISTS moderated_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS ingredient_reports_status_idx ON public.ingredient_reports (status);
@@ -0,0 +1,162 @@
+/**
+ * Behörighet för admin-API:t (/api/admin).
+ *
+ * En förfrågan godkänns antingen med en API-nyckel i huvudet "X-Admin-Key" eller med en
+ * Supabase-åtkomsttoken för en användare med rollen "admin" (app_metadata.role, som bara
+ * kan sättas med service role-nyckeln).
+ *
+ * API-nycklarna konfigureras i ADMIN_API_KEYS som semikolonseparerade poster
+ * "<namn>:<sha256-hash av nyckeln>:<scope>,<scope>", där scope "*" ger alla behörigheter.
+ * Bara hashen lagras, så en läckt konfiguration avslöjar inga nycklar.
+ * Admin-användare har alla behörigheter.
+ */
+import crypto from 'crypto';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { logger } from '../utils/logger';
+import { formatRequestValidationError, ValidationErrorStyle } from '../utils/requestValidation';
+import { getBearerToken, verifyAccessToken } from './auth';
+
+export const ADMIN_SCOPES = [
+  'stats.read',
+  'stats.reset',
+  'cache.purge',
+  'database.reload',
+  'reports.moderate',
+  'products.manage',
+  'audit.read'
+] as const;
+
+export type AdminScope = typeof ADMIN_SCOPES[number];
+
+// Rollen i app_metadata som ger åtkomst till admin-API:t
+export const ADMIN_ROLE = 'admin';
+
+export const ADMIN_KEY_HEADER = 'x-admin-key';
+
+export interface AdminApiKey {
+  name: string;
+  hash: Buffer; // sha256 av nyckeln
+  scopes: AdminScope[];
+}
+
+/**
+ * Vem som utför en admin-åtgärd; sparas i granskningsloggen
+ */
+export interface AdminPrincipal {
+  type: 'apiKey' | 'user';
+  id: string; // Nyckelns namn eller användarens ID
+  scopes: readonly AdminScope[];
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      admin?: AdminPrincipal;
+    }
+  }
+}
+
+/**
+ * Tolka ADMIN_API_KEYS. Felaktiga poster loggas och hoppas över.
+ */
+export function parseAdminApiKeys(value: string | undefined): AdminApiKey[] {
+  const keys: AdminApiKey[] = [];
+  for (const entry of (value || '').split(';').map(part => part.trim()).filter(Boolean)) {
+    const [name, hash, scopeList, ...rest] = entry.split(':').map(part => part.trim());
+    const scopes = (scopeList || '').split(',').map(scope => scope.trim()).filter(Boolean);
+    const unknownScopes = scopes.filter(scope => scope !== '*' && !ADMIN_SCOPES.includes(scope as AdminScope));
+
+    if (!name || !/^[0-9a-f]{64}$/i.test(hash || '') || scopes.length === 0 || unknownScopes.length > 0 || rest.length > 0) {
+      logger.error('Ignoring invalid ADMIN_API_KEYS entry', { name: name || null, unknownScopes });
+      continue;
+    }
+
+    keys.push({
+      name,
+      hash: Buffer.from(hash, 'hex'),
+      scopes: scopes.includes('*') ? [...ADMIN_SCOPES] : scopes as AdminScope[]
+    });
+  }
+  return keys;
+}
+
+// Tolkade nycklar; tolkas om när miljövariabeln ändras
+let cachedKeys: { source: string | undefined; keys: AdminApiKey[] } | null = null;
+
+function getAdminApiKeys(): AdminApiKey[] {
+  const source = process.env.ADMIN_API_KEYS;
+  if (!cachedKeys || cachedKeys.source !== source) {
+    cachedKeys = { source, keys: parseAdminApiKeys(source) };
+  }
+  return cachedKeys.keys;
+}
+
+/**
+ * Hitta den konfigurerade nyckeln som matchar klientens nyckel
+ */
+export function findAdminApiKey(key: string): AdminApiKey | null {
+  const hash = crypto.createHash('sha256').update(key).digest();
+  return getAdminApiKeys().find(candidate => crypto.timingSafeEqual(candidate.hash, hash)) || null;
+}
+
+/**
+ * Kräv en admin-nyckel eller admin-användare med behörigheten scope.
+ * Den godkända avsändaren läggs på req.admin.
+ */
+export function requireAdmin(scope: AdminScope, style: ValidationErrorStyle = 'code'): RequestHandler {
+  const reject = (res: Response, status: number, code: string, message: string) => {
+    res.status(status).json(formatRequestValidationError({ code, message }, style));
+  };
+
+  return (async (req: Request, res: Response, next: NextFunction) => {
+    let principal: AdminPrincipal;
+
+    const adminKey = req.headers[ADMIN_KEY_HEADER];
+    if (typeof adminKey === 'string' && adminKey !== '') {
+      const key = findAdminApiKey(adminKey);
+      if (!key) {
+        logger.warn('Rejected an unknown admin key', { url: req.originalUrl, ip: req.ip });
+        reject(res, 401, 'INVALID_ADMIN_KEY', 'The admin key is not valid');
+        return;
+      }
+      principal = { type: 'apiKey', id: key.name, scopes: key.scopes };
+    } else if (req.headers.authorization) {
+      const token = getBearerToken(req);
+      if (!token) {
+        reject(res, 401, 'INVALID_TOKEN', 'The Authorization header must have the format "Bearer <token>"');
+        return;
+      }
+
+      try {
+        const user = await verifyAccessToken(token);
+        if (!user) {
+          reject(res, 401, 'INVALID_TOKEN', 'The access token is invalid or has expired');
+          return;
+        }
+        if (user.role !== ADMIN_ROLE) {
+          logger.warn('Rejected a non-admin user on an admin endpoint', { url: req.originalUrl, userId: user.id });
+          reject(res, 403, 'ADMIN_REQUIRED', 'The user does not have the admin role');
+          return;
+        }
+        req.user = user;
+        principal = { type: 'user', id: user.id, scopes: ADMIN_SCOPES };
+      } catch (error: any) {
+        logger.error('Could not verify admin access token', { url: req.originalUrl, error: error.message });
+        reject(res, 503, 'AUTH_UNAVAILABLE', 'The access token could not be verified, try again later');
+        return;
+      }
+    } else {
+      reject(res, 401, 'ADMIN_AUTH_REQUIRED', 'An admin key (X-Admin-Key) or an admin access token is required');
+      return;
+    }
+
+    if (!principal.scopes.includes(scope)) {
+      logger.warn('Admin request lacks the required scope', { url: req.originalUrl, admin: principal.id, scope });
+      reject(res, 403, 'ADMIN_SCOPE_REQUIRED', `The admin key does not have the scope "${scope}"`);
+      return;
+    }
+
+    req.admin = principal;
+    next();
+  }) as RequestHandler;
+}
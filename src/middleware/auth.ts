@@ -0,0 +1,153 @@
+/**
+ * Autentisering med Supabase-åtkomsttoken ("Authorization: Bearer <token>").
+ *
+ * authenticate verifierar token och lägger den verifierade användaren på req.user.
+ * Anonyma förfrågningar (utan token) tillåts bara där routen uttryckligen väljer det.
+ * requireMatchingUser avvisar förfrågningar där klientens användar-ID inte är den
+ * verifierade användarens.
+ */
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { isAuthRetryableFetchError } from '@supabase/supabase-js';
+import { supabase } from '../services/supabaseService';
+import { logger } from '../utils/logger';
+import { formatRequestValidationError, ValidationErrorStyle } from '../utils/requestValidation';
+
+// Användar-ID för förfrågningar utan token
+export const ANONYMOUS_USER_ID = 'anonymous';
+
+export interface AuthenticatedUser {
+  id: string;
+  email: string | null;
+  isAnonymous: boolean;
+  role?: string; // app_metadata.role, t.ex. "admin" (se middleware/adminAuth)
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      user?: AuthenticatedUser;
+    }
+  }
+}
+
+export interface AuthenticateOptions {
+  allowAnonymous?: boolean; // Förfrågningar utan token körs som anonym användare
+  style?: ValidationErrorStyle; // Felsvarets format, som routerns övriga fel (standard: "code")
+}
+
+const ANONYMOUS_USER: AuthenticatedUser = {
+  id: ANONYMOUS_USER_ID,
+  email: null,
+  isAnonymous: true
+};
+
+/**
+ * Token i Authorization-huvudet, eller null om huvudet saknas eller har fel format
+ */
+export function getBearerToken(req: Request): string | null {
+  const match = req.headers.authorization?.match(/^Bearer\s+(\S+)\s*$/i);
+  return match ? match[1] : null;
+}
+
+/**
+ * Verifiera en åtkomsttoken mot Supabase Auth
+ * @returns Användaren, eller null om token är ogiltig eller har gått ut
+ * @throws Om Supabase inte kan nås
+ */
+export async function verifyAccessToken(token: string): Promise<AuthenticatedUser | null> {
+  const { data, error } = await supabase.auth.getUser(token);
+  if (error) {
+    // Supabase kunde inte nås; token kan vara giltig
+    if (isAuthRetryableFetchError(error)) {
+      throw error;
+    }
+    return null;
+  }
+  if (!data.user) {
+    return null;
+  }
+  const role = data.user.app_metadata?.role;
+  return {
+    id: data.user.id,
+    email: data.user.email || null,
+    isAnonymous: false,
+    ...(typeof role === 'string' ? { role } : {})
+  };
+}
+
+/**
+ * Användar-ID för förfrågan: den verifierade användaren, annars "anonymous"
+ */
+export function getUserId(req: Request): string {
+  return req.user?.id ?? ANONYMOUS_USER_ID;
+}
+
+/**
+ * Verifiera åtkomsttoken och lägg användaren på req.user
+ */
+export function authenticate(options: AuthenticateOptions = {}): RequestHandler {
+  const style = options.style || 'code';
+  const reject = (res: Response, status: number, code: string, message: string) => {
+    res.status(status).json(formatRequestValidationError({ code, message }, style));
+  };
+
+  return (async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.headers.authorization) {
+      if (options.allowAnonymous) {
+        req.user = ANONYMOUS_USER;
+        next();
+        return;
+      }
+      reject(res, 401, 'AUTH_REQUIRED', 'An access token is required (Authorization: Bearer <token>)');
+      return;
+    }
+
+    const token = getBearerToken(req);
+    if (!token) {
+      reject(res, 401, 'INVALID_TOKEN', 'The Authorization header must have the format "Bearer <token>"');
+      return;
+    }
+
+    try {
+      const user = await verifyAccessToken(token);
+      if (!user) {
+        logger.warn('Rejected an invalid access token', { url: req.originalUrl });
+        reject(res, 401, 'INVALID_TOKEN', 'The access token is invalid or has expired');
+        return;
+      }
+      req.user = user;
+      next();
+    } catch (error: any) {
+      logger.error('Could not verify access token', { url: req.originalUrl, error: error.message });
+      reject(res, 503, 'AUTH_UNAVAILABLE', 'The access token could not be verified, try again later');
+    }
+  }) as RequestHandler;
+}
+
+/**
+ * Avvisa förfrågan om klienten anger ett annat användar-ID än den verifierade användarens.
+ * En anonym förfrågan får bara ange "anonymous".
+ * @param getClaimedUserId Användar-ID:t som klienten skickade (body eller URL), om något
+ */
+export function requireMatchingUser(
+  getClaimedUserId: (req: Request) => unknown,
+  style: ValidationErrorStyle = 'code'
+): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const claimedUserId = getClaimedUserId(req);
+    const userId = getUserId(req);
+    if (claimedUserId !== undefined && claimedUserId !== null && claimedUserId !== '' && claimedUserId !== userId) {
+      logger.warn('User id does not match the authenticated user', {
+        url: req.originalUrl,
+        userId,
+        claimedUserId
+      });
+      res.status(403).json(formatRequestValidationError({
+        code: 'USER_MISMATCH',
+        message: 'The userId does not match the authenticated user'
+      }, style));
+      return;
+    }
+    next();
+  };
+}
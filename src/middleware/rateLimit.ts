@@ -0,0 +1,204 @@
+/**
+ * Rate limiting per verifierad användare och per IP-adress.
+ *
+ * Varje endpointklass (video, bild, text, uppslag, uppladdning) har egna hinkar med ett fast
+ * tidsfönster. En inloggad användare räknas både i sin användarhink och i IP-hinken
+ * (som har en högre gräns, eftersom flera användare kan dela adress); anonyma
+ * förfrågningar räknas bara per IP. Användaren hämtas från req.user, så
+ * authenticate måste köras före rateLimit för att användarhinken ska gälla.
+ *
+ * Svaren har RateLimit-huvuden för den hink som ligger närmast sin gräns, och en
+ * förfrågan över gränsen får 429 med Retry-After och felkoden RATE_LIMITED.
+ */
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { logger } from '../utils/logger';
+import { formatRequestValidationError, ValidationErrorStyle } from '../utils/requestValidation';
+
+export type RateLimitClass = 'video' | 'image' | 'text' | 'lookup' | 'upload';
+
+export interface RateLimitRule {
+  windowMs: number;
+  perUser: number; // Förfrågningar per fönster för en inloggad användare
+  perIp: number; // Förfrågningar per fönster från en IP-adress
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Standardgränser; kan ändras med RATE_LIMIT_<KLASS>_PER_USER, _PER_IP och _WINDOW_SECONDS
+export const DEFAULT_RATE_LIMITS: Record<RateLimitClass, RateLimitRule> = {
+  video: { windowMs: HOUR_MS, perUser: 30, perIp: 60 },
+  image: { windowMs: HOUR_MS, perUser: 60, perIp: 120 },
+  text: { windowMs: HOUR_MS, perUser: 120, perIp: 240 },
+  lookup: { windowMs: 60 * 1000, perUser: 120, perIp: 300 },
+  upload: { windowMs: HOUR_MS, perUser: 30, perIp: 60 } // Nya återupptagbara videouppladdningar, inte delarna
+};
+
+/**
+ * Räknarens värde i det aktuella fönstret
+ */
+export interface RateLimitHit {
+  count: number;
+  resetAt: number; // När fönstret tar slut (ms sedan epoch)
+}
+
+/**
+ * Lagring för räknarna. Gränssnittet motsvarar INCR + PEXPIRE, så en
+ * Redis-kompatibel lagring kan dela räknarna mellan flera maskiner.
+ */
+export interface RateLimitStore {
+  /**
+   * Öka räknaren för nyckeln; ett nytt fönster på windowMs startar om det gamla har gått ut
+   */
+  increment(key: string, windowMs: number): Promise<RateLimitHit>;
+  reset(key: string): Promise<void>;
+}
+
+/**
+ * Räknare i minnet; gäller bara den egna processen
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private readonly windows = new Map<string, RateLimitHit>();
+
+  // Utgångna fönster rensas när så här många nycklar finns
+  constructor(private readonly pruneThreshold = 10000) {}
+
+  async increment(key: string, windowMs: number): Promise<RateLimitHit> {
+    const now = Date.now();
+    let hit = this.windows.get(key);
+    if (!hit || hit.resetAt <= now) {
+      if (this.windows.size >= this.pruneThreshold) {
+        this.prune(now);
+      }
+      hit = { count: 0, resetAt: now + windowMs };
+      this.windows.set(key, hit);
+    }
+    hit.count++;
+    return { ...hit };
+  }
+
+  async reset(key: string): Promise<void> {
+    this.windows.delete(key);
+  }
+
+  get size(): number {
+    return this.windows.size;
+  }
+
+  private prune(now: number): void {
+    for (const [key, hit] of this.windows) {
+      if (hit.resetAt <= now) {
+        this.windows.delete(key);
+      }
+    }
+  }
+}
+
+export const defaultRateLimitStore: RateLimitStore = new MemoryRateLimitStore();
+
+export interface RateLimitOptions {
+  style?: ValidationErrorStyle; // Felsvarets format, som routerns övriga fel (standard: "code")
+  store?: RateLimitStore;
+}
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isInteger(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Gränserna för en endpointklass, med eventuella värden från miljövariablerna
+ */
+export function getRateLimitRule(endpointClass: RateLimitClass): RateLimitRule {
+  const defaults = DEFAULT_RATE_LIMITS[endpointClass];
+  const prefix = `RATE_LIMIT_${endpointClass.toUpperCase()}`;
+  return {
+    windowMs: envNumber(`${prefix}_WINDOW_SECONDS`, defaults.windowMs / 1000) * 1000,
+    perUser: envNumber(`${prefix}_PER_USER`, defaults.perUser),
+    perIp: envNumber(`${prefix}_PER_IP`, defaults.perIp)
+  };
+}
+
+interface BucketState {
+  scope: 'user' | 'ip';
+  limit: number;
+  count: number;
+  remaining: number;
+  resetAt: number;
+}
+
+/**
+ * Begränsa antalet förfrågningar per användare och IP-adress för en endpointklass.
+ * Om lagringen inte svarar släpps förfrågan igenom (och felet loggas).
+ */
+export function rateLimit(endpointClass: RateLimitClass, options: RateLimitOptions = {}): RequestHandler {
+  const style = options.style || 'code';
+  const store = options.store || defaultRateLimitStore;
+
+  return (async (req: Request, res: Response, next: NextFunction) => {
+    if (process.env.RATE_LIMIT_ENABLED === 'false') {
+      next();
+      return;
+    }
+
+    const rule = getRateLimitRule(endpointClass);
+    const buckets: { scope: BucketState['scope']; key: string; limit: number }[] = [];
+    if (req.user && !req.user.isAnonymous) {
+      buckets.push({ scope: 'user', key: `${endpointClass}:user:${req.user.id}`, limit: rule.perUser });
+    }
+    buckets.push({ scope: 'ip', key: `${endpointClass}:ip:${req.ip || 'unknown'}`, limit: rule.perIp });
+
+    let states: BucketState[];
+    try {
+      const hits = await Promise.all(buckets.map(bucket => store.increment(bucket.key, rule.windowMs)));
+      states = buckets.map((bucket, index) => ({
+        scope: bucket.scope,
+        limit: bucket.limit,
+        count: hits[index].count,
+        remaining: Math.max(0, bucket.limit - hits[index].count),
+        resetAt: hits[index].resetAt
+      }));
+    } catch (error: any) {
+      logger.error('Rate limit store failed, allowing the request', { endpointClass, error: error.message });
+      next();
+      return;
+    }
+
+    const exceeded = states.find(state => state.count > state.limit);
+    const reported = exceeded || states.reduce((lowest, state) => (state.remaining < lowest.remaining ? state : lowest));
+    const windowSeconds = Math.round(rule.windowMs / 1000);
+    const resetSeconds = Math.max(0, Math.ceil((reported.resetAt - Date.now()) / 1000));
+
+    res.setHeader('RateLimit-Policy', states.map(state => `${state.limit};w=${windowSeconds}`).join(', '));
+    res.setHeader('RateLimit-Limit', String(reported.limit));
+    res.setHeader('RateLimit-Remaining', String(reported.remaining));
+    res.setHeader('RateLimit-Reset', String(resetSeconds));
+
+    if (!exceeded) {
+      next();
+      return;
+    }
+
+    logger.warn('Rate limit exceeded', {
+      url: req.originalUrl,
+      endpointClass,
+      scope: exceeded.scope,
+      userId: req.user?.id,
+      ip: req.ip,
+      count: exceeded.count,
+      limit: exceeded.limit
+    });
+    res.setHeader('Retry-After', String(resetSeconds));
+    res.status(429).json(formatRequestValidationError({
+      code: 'RATE_LIMITED',
+      message: `Too many ${endpointClass} requests, try again in ${Math.max(1, Math.ceil(resetSeconds / 60))} min`,
+      details: {
+        endpointClass,
+        scope: exceeded.scope,
+        limit: exceeded.limit,
+        windowSeconds,
+        retryAfterSeconds: resetSeconds,
+        resetAt: new Date(exceeded.resetAt).toISOString()
+      }
+    }, style));
+  }) as RequestHandler;
+}
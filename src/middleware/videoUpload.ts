@@ -0,0 +1,220 @@
+/**
+ * Videouppladdning som multipart/form-data eller rå binärdata.
+ *
+ * Videon strömmas direkt till den temporära katalogen (koalens-videos, som
+ * TempFileCleaner rensar) i stället för att hållas i minnet som base64 i JSON.
+ * Filen kontrolleras med VideoValidator och läggs på req.videoUpload, och
+ * mimeType sätts i req.body så att routens schema validerar förfrågan som vanligt.
+ *
+ * - multipart/form-data: videon i fältet "video", övriga fält som i JSON-kroppen
+ * - video/* (eller application/octet-stream med ?mimeType=): kroppen är videon och
+ *   övriga fält skickas i query-strängen
+ * - JSON med uploadId: en avslutad återupptagbar uppladdning (se VideoUploadService)
+ *
+ * Andra förfrågningar (JSON med base64Data) släpps igenom oförändrade. Filen tas
+ * bort när svaret har skickats, om inte routen tar över den med claimVideoUpload;
+ * en återupptagbar uppladdning finns då kvar tills den går ut.
+ */
+import fs from 'fs';
+import path from 'path';
+import multer from 'multer';
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandling';
+import { TempFileCleaner } from '../utils/tempFileCleaner';
+import { VideoValidator } from '../utils/videoValidator';
+import { createVideoUploadPath, removeVideoUpload, videoTooLargeError, writeVideoStream } from '../utils/videoFiles';
+import { formatRequestValidationError, ValidationErrorStyle } from '../utils/requestValidation';
+import { videoUploadService } from '../services/videoUploadService';
+
+export const VIDEO_UPLOAD_FIELD = 'video';
+
+export interface VideoUpload {
+  path: string;
+  mimeType: string;
+  size: number;
+  claimed: boolean; // Routen tar bort filen själv (se claimVideoUpload)
+  uploadId?: string; // Den återupptagbara uppladdningen som filen kommer från
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      videoUpload?: VideoUpload;
+    }
+  }
+}
+
+export interface VideoUploadOptions {
+  style?: ValidationErrorStyle; // Felsvarets format, som routerns övriga fel (standard: "code")
+}
+
+/**
+ * Ta över ansvaret för att ta bort den uppladdade filen, t.ex. när analysen
+ * fortsätter efter svaret (videojobb)
+ * @returns Filens sökväg, eller undefined om förfrågan inte hade någon uppladdning
+ */
+export function claimVideoUpload(req: Request): string | undefined {
+  if (!req.videoUpload) {
+    return undefined;
+  }
+  req.videoUpload.claimed = true;
+  if (req.videoUpload.uploadId) {
+    videoUploadService.release(req.videoUpload.uploadId);
+  }
+  return req.videoUpload.path;
+}
+
+const multipartUpload = multer({
+  storage: multer.diskStorage({
+    destination: (_req, _file, callback) => {
+      fs.mkdirSync(TempFileCleaner.TEMP_DIR, { recursive: true });
+      callback(null, TempFileCleaner.TEMP_DIR);
+    },
+    filename: (_req, file, callback) => {
+      try {
+        callback(null, path.basename(createVideoUploadPath(file.mimetype)));
+      } catch (error: any) {
+        callback(error, '');
+      }
+    }
+  }),
+  limits: { fileSize: VideoValidator.MAX_VIDEO_SIZE, files: 1, fields: 20 }
+}).single(VIDEO_UPLOAD_FIELD);
+
+/**
+ * Ta emot en multipart-förfrågan; textfälten hamnar i req.body
+ */
+async function receiveMultipart(req: Request, res: Response): Promise<VideoUpload | null> {
+  await new Promise<void>((resolve, reject) => {
+    multipartUpload(req, res, (error?: unknown) => {
+      if (error instanceof multer.MulterError) {
+        reject(error.code === 'LIMIT_FILE_SIZE'
+          ? videoTooLargeError()
+          : new AppError(`Invalid upload: ${error.message}`, 400, 'INVALID_UPLOAD'));
+      } else if (error) {
+        reject(error);
+      } else {
+        resolve();
+      }
+    });
+  });
+
+  // multer skapar req.body utan prototyp
+  req.body = { ...req.body };
+  if (!req.file) {
+    return null;
+  }
+  req.body.mimeType = req.body.mimeType || req.file.mimetype;
+  return { path: req.file.path, mimeType: req.file.mimetype, size: req.file.size, claimed: false };
+}
+
+/**
+ * Ta emot en rå uppladdning; fälten läses från query-strängen
+ */
+async function receiveRaw(req: Request): Promise<VideoUpload> {
+  const contentLength = Number(req.headers['content-length']);
+  if (contentLength > VideoValidator.MAX_VIDEO_SIZE) {
+    throw videoTooLargeError();
+  }
+
+  const fields: Record<string, string> = {};
+  for (const [name, value] of Object.entries(req.query)) {
+    if (typeof value === 'string') {
+      fields[name] = value;
+    }
+  }
+  const mimeType = req.is('application/octet-stream')
+    ? (fields.mimeType || '').toLowerCase()
+    : (req.headers['content-type'] || '').split(';')[0].trim().toLowerCase();
+
+  const filePath = createVideoUploadPath(mimeType);
+  const size = await writeVideoStream(req, filePath, VideoValidator.MAX_VIDEO_SIZE);
+  req.body = { ...fields, mimeType };
+  return { path: filePath, mimeType, size, claimed: false };
+}
+
+/**
+ * Hämta den avslutade återupptagbara uppladdningen som JSON-kroppen pekar ut
+ */
+function receiveFinishedUpload(req: Request, uploadId: string): VideoUpload {
+  const upload = videoUploadService.get(uploadId, req.user);
+  if (!upload) {
+    throw new AppError('Upload not found', 404, 'UPLOAD_NOT_FOUND');
+  }
+  if (!upload.finalized) {
+    throw new AppError('The upload must be finished before it is analyzed', 409, 'UPLOAD_NOT_FINISHED');
+  }
+  req.body.mimeType = req.body.mimeType || upload.mimeType;
+  return { path: upload.path, mimeType: upload.mimeType, size: upload.length, claimed: false, uploadId: upload.id };
+}
+
+/**
+ * Ta emot en uppladdad video och kontrollera den med VideoValidator.
+ * Felsvaren har koderna VIDEO_TOO_LARGE (413), UNSUPPORTED_VIDEO_TYPE (415),
+ * INVALID_UPLOAD och INVALID_VIDEO (400), och för uploadId UPLOAD_NOT_FOUND (404)
+ * och UPLOAD_NOT_FINISHED (409).
+ */
+export function receiveVideoUpload(options: VideoUploadOptions = {}): RequestHandler {
+  const style = options.style || 'code';
+
+  return (async (req: Request, res: Response, next: NextFunction) => {
+    const isMultipart = !!req.is('multipart/form-data');
+    const uploadId = typeof req.body?.uploadId === 'string' ? req.body.uploadId : null;
+    if (!isMultipart && !req.is(['video/*', 'application/octet-stream']) && !uploadId) {
+      next();
+      return;
+    }
+
+    const startTime = Date.now();
+    let upload: VideoUpload | null = null;
+    try {
+      if (isMultipart) {
+        upload = await receiveMultipart(req, res);
+      } else if (uploadId) {
+        // Videon kontrollerades när uppladdningen avslutades
+        upload = receiveFinishedUpload(req, uploadId);
+      } else {
+        upload = await receiveRaw(req);
+      }
+      if (upload && !upload.uploadId) {
+        try {
+          await VideoValidator.validate(upload.path);
+        } catch (error: any) {
+          throw new AppError(error.message, 400, 'INVALID_VIDEO');
+        }
+      }
+    } catch (error: any) {
+      if (upload && !upload.uploadId) {
+        await removeVideoUpload(upload.path);
+      }
+      const appError = error instanceof AppError
+        ? error
+        : new AppError('The video could not be received', 500, 'UPLOAD_FAILED');
+      logger.warn('Video upload rejected', { url: req.originalUrl, code: appError.code, error: error.message });
+      res.status(appError.statusCode).json(formatRequestValidationError({
+        code: appError.code,
+        message: appError.message
+      }, style));
+      return;
+    }
+
+    if (upload) {
+      const received = upload;
+      req.videoUpload = received;
+      res.on('close', () => {
+        if (!received.claimed && !received.uploadId) {
+          void removeVideoUpload(received.path);
+        }
+      });
+      logger.info('Video upload received', {
+        url: req.originalUrl,
+        kind: isMultipart ? 'multipart' : received.uploadId ? 'resumable' : 'raw',
+        mimeType: received.mimeType,
+        sizeBytes: received.size,
+        uploadMs: Date.now() - startTime
+      });
+    }
+    next();
+  }) as RequestHandler;
+}
@@ -0,0 +1,281 @@
+/**
+ * Admin-API:t (/api/admin): statistik, cachetömning, omladdning av
+ * ingrediensdatabasen, moderering av ingrediensrapporter och rättning av
+ * sparade produkter.
+ *
+ * Varje anrop kräver en admin-nyckel eller admin-användare med rätt behörighet
+ * (se middleware/adminAuth) och sparas i granskningsloggen.
+ */
+import { Router, Request, Response, RequestHandler } from 'express';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandling';
+import { CsvValidationError } from '../utils/csvReader';
+import { getIngredientDataset, reloadIngredientDatabase } from '../utils/ingredientsDatabase';
+import { formatRequestValidationError, validateRequest } from '../utils/requestValidation';
+import { requireAdmin } from '../middleware/adminAuth';
+import { auditLog } from '../services/auditLogService';
+import { supabase } from '../services/supabaseService';
+import analysisService from '../services/analysisService';
+import { productStore, StoredProduct } from '../services/productStore';
+import { imageProcessor } from '../services/imageProcessor';
+import { getVideoApiStats, resetVideoApiStats } from './videoAnalysis';
+import {
+  ADMIN_ERROR_CODES,
+  AdminCache,
+  auditLogQuerySchema,
+  AuditLogQuery,
+  cachePurgeRequestSchema,
+  CachePurgeRequest,
+  productCorrectionSchema,
+  ProductCorrectionRequest,
+  reportListQuerySchema,
+  ReportListQuery,
+  reportModerationSchema,
+  ReportModeration,
+  reportParamsSchema
+} from './adminSchemas';
+import { ProductParams, productParamsSchema } from './productSchemas';
+
+const router = Router();
+
+const validationOptions = { style: 'successCode' as const, errorCodes: ADMIN_ERROR_CODES };
+
+interface AdminActionResult {
+  body: Record<string, unknown>; // Svaret, utöver success: true
+  details?: Record<string, unknown>; // Sparas i granskningsloggen
+}
+
+/**
+ * Kör en admin-åtgärd och spara utfallet (lyckat eller inte) i granskningsloggen
+ * @param action Åtgärdens namn i loggen
+ * @param getTarget Det åtgärden gäller, t.ex. ett rapport-ID
+ */
+function adminAction(
+  action: string,
+  run: (req: Request) => Promise<AdminActionResult>,
+  getTarget: (req: Request) => string | null = () => null
+): RequestHandler {
+  return (async (req: Request, res: Response) => {
+    const entry = { action, actor: req.admin!, target: getTarget(req), ip: req.ip };
+    try {
+      const result = await run(req);
+      await auditLog.record({ ...entry, details: result.details, success: true });
+      res.status(200).json({ success: true, ...result.body });
+    } catch (error: any) {
+      const appError = error instanceof AppError
+        ? error
+        : new AppError(error.message || 'The admin action failed', 500, 'ADMIN_ACTION_FAILED');
+      logger.error(`Admin action ${action} failed`, { error: error.message, stack: error.stack });
+      await auditLog.record({ ...entry, details: { error: appError.message }, success: false });
+      res.status(appError.statusCode).json(formatRequestValidationError({
+        code: appError.code,
+        message: appError.message,
+        details: appError.details
+      }, 'successCode'));
+    }
+  }) as RequestHandler;
+}
+
+/**
+ * GET /api/admin/stats
+ * Usage statistics of the video endpoint, the loaded ingredient database and the process
+ */
+router.get('/stats', requireAdmin('stats.read', 'successCode'), adminAction('stats.read', async () => {
+  const dataset = getIngredientDataset();
+  const memory = process.memoryUsage();
+  return {
+    body: {
+      stats: {
+        video: getVideoApiStats(),
+        ingredientDatabase: {
+          version: dataset.version,
+          loadedAt: dataset.loadedAt,
+          nonVegan: dataset.nonVegan.length,
+          uncertain: dataset.uncertain.length,
+          vegan: dataset.vegan.length
+        },
+        process: {
+          uptime: process.uptime(),
+          memoryRss: memory.rss,
+          heapUsed: memory.heapUsed
+        }
+      }
+    }
+  };
+}));
+
+/**
+ * POST /api/admin/stats/reset
+ * Reset the usage statistics (and the deduplication cache) of the video endpoint
+ */
+router.post('/stats/reset', requireAdmin('stats.reset', 'successCode'), adminAction('stats.reset', async () => {
+  const previous = getVideoApiStats();
+  resetVideoApiStats();
+  return {
+    body: { message: 'Statistics reset successfully' },
+    details: { requestsReceived: previous.requestsReceived, requestsProcessed: previous.requestsProcessed }
+  };
+}));
+
+/**
+ * POST /api/admin/cache/purge
+ * Remove cached analysis results and processed images
+ */
+router.post('/cache/purge', requireAdmin('cache.purge', 'successCode'), validateRequest(
+  { body: cachePurgeRequestSchema },
+  validationOptions
+), adminAction('cache.purge', async (req) => {
+  const { caches } = req.body as CachePurgeRequest;
+  const purge: Record<AdminCache, () => Promise<number>> = {
+    analysis: () => analysisService.purgeCache(),
+    images: () => imageProcessor.purgeCache()
+  };
+
+  const removed: Partial<Record<AdminCache, number>> = {};
+  for (const cache of new Set(caches)) {
+    removed[cache] = await purge[cache]();
+  }
+  return { body: { removed }, details: { removed } };
+}));
+
+/**
+ * POST /api/admin/database/reload
+ * Reload the ingredient database; an invalid catalogue keeps the current database
+ */
+router.post('/database/reload', requireAdmin('database.reload', 'successCode'), adminAction('database.reload', async () => {
+  const previousVersion = getIngredientDataset().version;
+  try {
+    const dataset = reloadIngredientDatabase();
+    const result = { previousVersion, version: dataset.version, changed: dataset.version !== previousVersion };
+    return { body: result, details: result };
+  } catch (error: any) {
+    if (error instanceof CsvValidationError) {
+      throw new AppError(error.message, 422, 'INVALID_CATALOGUE', error.errors.slice(0, 20));
+    }
+    throw error;
+  }
+}));
+
+/**
+ * GET /api/admin/reports
+ * List ingredient reports, newest first, optionally with a given status
+ */
+router.get('/reports', requireAdmin('reports.moderate', 'successCode'), validateRequest(
+  { query: reportListQuerySchema },
+  validationOptions
+), adminAction('reports.list', async (req) => {
+  const { status, limit, offset } = req.query as unknown as ReportListQuery;
+  let query = supabase
+    .from('ingredient_reports')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .range(offset, offset + limit - 1);
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Database error while listing reports: ${error.message}`);
+  }
+  return { body: { reports: data || [] }, details: { status: status ?? null, count: data?.length ?? 0 } };
+}));
+
+/**
+ * PATCH /api/admin/reports/:id
+ * Set the moderation status (and an optional note) of an ingredient report
+ */
+router.patch('/reports/:id', requireAdmin('reports.moderate', 'successCode'), validateRequest(
+  { params: reportParamsSchema, body: reportModerationSchema },
+  validationOptions
+), adminAction('reports.moderate', async (req) => {
+  const { status, note } = req.body as ReportModeration;
+  const { data, error } = await supabase
+    .from('ingredient_reports')
+    .update({
+      status,
+      ...(note !== undefined ? { moderation_note: note } : {}),
+      moderated_by: `${req.admin!.type}:${req.admin!.id}`,
+      moderated_at: new Date().toISOString()
+    })
+    .eq('id', req.params.id)
+    .select();
+
+  if (error) {
+    throw new Error(`Database error while updating the report: ${error.message}`);
+  }
+  if (!data || data.length === 0) {
+    throw new AppError(`No report has the id ${req.params.id}`, 404, 'REPORT_NOT_FOUND');
+  }
+  return { body: { report: data[0] }, details: { status, note: note ?? null } };
+}, req => req.params.id));
+
+/**
+ * Den sparade produkten för streckkoden
+ * @throws AppError (404) om ingen produkt finns
+ */
+async function getStoredProduct(gtin: string): Promise<StoredProduct> {
+  const product = await productStore.getProduct(gtin);
+  if (!product) {
+    throw new AppError(`No product is stored for the gtin ${gtin}`, 404, 'PRODUCT_NOT_FOUND');
+  }
+  return product;
+}
+
+/**
+ * PATCH /api/admin/products/:gtin
+ * Correct the stored ingredients or name of a product; the correction is kept
+ * until an admin changes or deletes the product
+ */
+router.patch('/products/:gtin', requireAdmin('products.manage', 'successCode'), validateRequest(
+  { params: productParamsSchema, body: productCorrectionSchema },
+  validationOptions
+), adminAction('products.correct', async (req) => {
+  const { gtin } = req.params as ProductParams;
+  const correction = req.body as ProductCorrectionRequest;
+  const previous = await getStoredProduct(gtin);
+  const product = await productStore.correctProduct(gtin, correction, `${req.admin!.type}:${req.admin!.id}`);
+  if (!product) {
+    throw new AppError(`No product is stored for the gtin ${gtin}`, 404, 'PRODUCT_NOT_FOUND');
+  }
+  return {
+    body: { product },
+    details: {
+      previous: { isVegan: previous.isVegan, verifiedBy: previous.verifiedBy ?? null, analysisType: previous.analysisType },
+      isVegan: product.isVegan,
+      correction
+    }
+  };
+}, req => req.params.gtin));
+
+/**
+ * DELETE /api/admin/products/:gtin
+ * Delete a stored product, so the next scan of the barcode is analyzed again
+ */
+router.delete('/products/:gtin', requireAdmin('products.manage', 'successCode'), validateRequest(
+  { params: productParamsSchema },
+  validationOptions
+), adminAction('products.delete', async (req) => {
+  const { gtin } = req.params as ProductParams;
+  const product = await getStoredProduct(gtin);
+  await productStore.deleteProduct(gtin);
+  return {
+    body: { product },
+    details: { isVegan: product.isVegan, verifiedBy: product.verifiedBy ?? null, analysisType: product.analysisType }
+  };
+}, req => req.params.gtin));
+
+/**
+ * GET /api/admin/audit-log
+ * List admin audit log entries, newest first
+ */
+router.get('/audit-log', requireAdmin('audit.read', 'successCode'), validateRequest(
+  { query: auditLogQuerySchema },
+  validationOptions
+), adminAction('audit.read', async (req) => {
+  const { limit, offset } = req.query as unknown as AuditLogQuery;
+  const entries = await auditLog.list(limit, offset);
+  return { body: { entries }, details: { limit, offset } };
+}));
+
+export default router;
@@ -0,0 +1,289 @@
+/**
+ * Scheman för adminroutern (/api/admin)
+ */
+import { OpenAPIRegistry, ResponseConfig } from '@asteasolutions/zod-to-openapi';
+import { jsonRequest, jsonResponse, z } from '../utils/openApi';
+// Bara typen: middleware/adminAuth läser Supabase-konfigurationen när den laddas
+import type { AdminScope } from '../middleware/adminAuth';
+import { errorResponse } from './requestSchemas';
+import { productParamsSchema, storedProductSchema } from './productSchemas';
+
+// Statusar för en ingrediensrapport; nya rapporter får "new" av databasen
+export const REPORT_STATUSES = ['new', 'reviewing', 'resolved', 'rejected'] as const;
+
+export type ReportStatus = typeof REPORT_STATUSES[number];
+
+// Cacher som kan tömmas
+export const ADMIN_CACHES = ['analysis', 'images'] as const;
+
+export type AdminCache = typeof ADMIN_CACHES[number];
+
+const MAX_PAGE_SIZE = 200;
+
+const pageQuery = {
+  limit: z.coerce.number().int().min(1).max(MAX_PAGE_SIZE).default(50),
+  offset: z.coerce.number().int().min(0).default(0)
+};
+
+export const cachePurgeRequestSchema = z.object({
+  caches: z.array(z.enum(ADMIN_CACHES)).min(1).default([...ADMIN_CACHES])
+    .openapi({ description: 'Caches to purge (default: all)' })
+}).openapi('CachePurgeRequest');
+
+export type CachePurgeRequest = z.output<typeof cachePurgeRequestSchema>;
+
+export const reportListQuerySchema = z.object({
+  status: z.enum(REPORT_STATUSES).optional().openapi({ description: 'Only reports with this status' }),
+  ...pageQuery
+});
+
+export type ReportListQuery = z.output<typeof reportListQuerySchema>;
+
+export const reportParamsSchema = z.object({
+  id: z.string().trim().min(1, 'Invalid id: a report id is required')
+});
+
+export const reportModerationSchema = z.object({
+  status: z.enum(REPORT_STATUSES),
+  note: z.string().trim().max(2000).optional().openapi({ description: 'Moderator note, stored with the report' })
+}).openapi('ReportModeration');
+
+export type ReportModeration = z.output<typeof reportModerationSchema>;
+
+export const productCorrectionSchema = z.object({
+  productName: z.string().trim().min(1).max(200).nullable().optional(),
+  ingredients: z.array(z.object({
+    name: z.string().trim().min(1).max(200),
+    source: z.enum(['declared', 'trace']).default('declared'),
+    isVegan: z.boolean().nullable().openapi({ description: 'null for an ingredient of uncertain origin' })
+  })).min(1).optional().openapi({
+    description: 'The corrected ingredient list; the verdict is derived from the declared ingredients'
+  })
+}).refine(
+  correction => correction.productName !== undefined || correction.ingredients !== undefined,
+  { message: 'Invalid correction: productName or ingredients is required', params: { code: 'EMPTY_CORRECTION' } }
+).openapi('ProductCorrection');
+
+export type ProductCorrectionRequest = z.output<typeof productCorrectionSchema>;
+
+export const auditLogQuerySchema = z.object({
+  ...pageQuery
+});
+
+export type AuditLogQuery = z.output<typeof auditLogQuerySchema>;
+
+export const ADMIN_ERROR_CODES: Record<string, string> = {
+  caches: 'INVALID_CACHE',
+  status: 'INVALID_STATUS',
+  note: 'INVALID_NOTE',
+  id: 'INVALID_ID',
+  gtin: 'INVALID_GTIN',
+  productName: 'INVALID_PRODUCT_NAME',
+  ingredients: 'INVALID_INGREDIENTS',
+  limit: 'INVALID_PAGINATION',
+  offset: 'INVALID_PAGINATION'
+};
+
+export const adminStatsSchema = z.object({
+  video: z.object({
+    requestsReceived: z.number(),
+    requestsProcessed: z.number(),
+    requestsFailed: z.number(),
+    totalProcessingTimeMs: z.number(),
+    averageProcessingTimeMs: z.number(),
+    lastRequestTimestamp: z.string(),
+    duplicateRequestsBlocked: z.number(),
+    ingredientCorrections: z.number(),
+    recentRequestsCount: z.number(),
+    uptime: z.number()
+  }),
+  ingredientDatabase: z.object({
+    version: z.string(),
+    loadedAt: z.string(),
+    nonVegan: z.number(),
+    uncertain: z.number(),
+    vegan: z.number()
+  }),
+  process: z.object({
+    uptime: z.number(),
+    memoryRss: z.number(),
+    heapUsed: z.number()
+  })
+}).openapi('AdminStats');
+
+export const ingredientReportRecordSchema = z.object({
+  id: z.union([z.string(), z.number()]),
+  ingredient_name: z.string(),
+  feedback_text: z.string(),
+  product_id: z.string().nullable(),
+  is_vegan_at_report_time: z.boolean().nullable(),
+  user_id: z.string(),
+  client_timestamp: z.string().nullable(),
+  status: z.string(),
+  moderation_note: z.string().nullable().optional(),
+  moderated_by: z.string().nullable().optional(),
+  moderated_at: z.string().nullable().optional()
+}).passthrough().openapi('IngredientReportRecord');
+
+// Admin ser också vem som verifierade eller rättade produkten
+export const adminProductSchema = storedProductSchema.extend({
+  verifiedBy: z.string().optional(),
+  correctedBy: z.string().optional()
+}).openapi('AdminStoredProduct');
+
+export const auditLogRecordSchema = z.object({
+  id: z.string(),
+  action: z.string().openapi({ example: 'cache.purge' }),
+  actor_type: z.enum(['apiKey', 'user']),
+  actor_id: z.string(),
+  target: z.string().nullable(),
+  details: z.record(z.unknown()),
+  success: z.boolean(),
+  ip: z.string().nullable(),
+  created_at: z.string()
+}).openapi('AuditLogRecord');
+
+const ADMIN_SECURITY: Record<string, string[]>[] = [{ adminKey: [] }, { bearerAuth: [] }];
+
+function success(shape: z.ZodRawShape, description: string): ResponseConfig {
+  return jsonResponse(z.object({ success: z.literal(true), ...shape }), description);
+}
+
+/**
+ * Felsvaren från behörighetskontrollen
+ */
+function adminErrorResponses(scope: AdminScope): Record<number, ResponseConfig> {
+  return {
+    401: errorResponse('successCode', 'Missing or invalid admin key or access token (ADMIN_AUTH_REQUIRED, INVALID_ADMIN_KEY, INVALID_TOKEN)'),
+    403: errorResponse('successCode', `Not an admin, or the admin key lacks the scope "${scope}" (ADMIN_REQUIRED, ADMIN_SCOPE_REQUIRED)`),
+    500: errorResponse('successCode', 'The action failed')
+  };
+}
+
+/**
+ * Registrera adminrouterns anrop i OpenAPI-dokumentet
+ */
+export function registerAdminPaths(registry: OpenAPIRegistry): void {
+  registry.registerComponent('securitySchemes', 'adminKey', {
+    type: 'apiKey',
+    in: 'header',
+    name: 'X-Admin-Key',
+    description: 'Admin API key; each key is limited to the scopes it is configured with'
+  });
+
+  const common = { tags: ['Admin'], security: ADMIN_SECURITY };
+
+  registry.registerPath({
+    ...common,
+    method: 'get',
+    path: '/admin/stats',
+    summary: 'Get API usage statistics',
+    responses: { 200: success({ stats: adminStatsSchema }, 'Current statistics'), ...adminErrorResponses('stats.read') }
+  });
+
+  registry.registerPath({
+    ...common,
+    method: 'post',
+    path: '/admin/stats/reset',
+    summary: 'Reset the API usage statistics',
+    responses: { 200: success({ message: z.string() }, 'The statistics were reset'), ...adminErrorResponses('stats.reset') }
+  });
+
+  registry.registerPath({
+    ...common,
+    method: 'post',
+    path: '/admin/cache/purge',
+    summary: 'Purge the analysis and image caches',
+    request: { body: { ...jsonRequest(cachePurgeRequestSchema), required: false } },
+    responses: {
+      200: success({ removed: z.record(z.number()) }, 'Number of removed entries per cache'),
+      400: errorResponse('successCode', 'Unknown cache (INVALID_CACHE)'),
+      ...adminErrorResponses('cache.purge')
+    }
+  });
+
+  registry.registerPath({
+    ...common,
+    method: 'post',
+    path: '/admin/database/reload',
+    summary: 'Reload the ingredient database from the catalogue',
+    responses: {
+      200: success({
+        previousVersion: z.string().nullable(),
+        version: z.string(),
+        changed: z.boolean()
+      }, 'The loaded database version'),
+      422: errorResponse('successCode', 'The catalogue is invalid; the current database is kept (INVALID_CATALOGUE)'),
+      ...adminErrorResponses('database.reload')
+    }
+  });
+
+  registry.registerPath({
+    ...common,
+    method: 'get',
+    path: '/admin/reports',
+    summary: 'List ingredient reports for moderation, newest first',
+    request: { query: reportListQuerySchema },
+    responses: {
+      200: success({ reports: z.array(ingredientReportRecordSchema) }, 'The reports'),
+      400: errorResponse('successCode', 'Invalid filter (INVALID_STATUS, INVALID_PAGINATION)'),
+      ...adminErrorResponses('reports.moderate')
+    }
+  });
+
+  registry.registerPath({
+    ...common,
+    method: 'patch',
+    path: '/admin/reports/{id}',
+    summary: 'Set the moderation status of an ingredient report',
+    request: { params: reportParamsSchema, body: jsonRequest(reportModerationSchema) },
+    responses: {
+      200: success({ report: ingredientReportRecordSchema }, 'The updated report'),
+      400: errorResponse('successCode', 'Invalid moderation (INVALID_STATUS, INVALID_NOTE)'),
+      404: errorResponse('successCode', 'No report has the id (REPORT_NOT_FOUND)'),
+      ...adminErrorResponses('reports.moderate')
+    }
+  });
+
+  registry.registerPath({
+    ...common,
+    method: 'patch',
+    path: '/admin/products/{gtin}',
+    summary: 'Correct the stored ingredients or name of a product',
+    description: 'A corrected product is no longer replaced by new analyses or imports.',
+    request: { params: productParamsSchema, body: jsonRequest(productCorrectionSchema) },
+    responses: {
+      200: success({ product: adminProductSchema }, 'The corrected product'),
+      400: errorResponse('successCode', 'Invalid correction (INVALID_GTIN, INVALID_PRODUCT_NAME, INVALID_INGREDIENTS, EMPTY_CORRECTION)'),
+      404: errorResponse('successCode', 'No product is stored for the gtin (PRODUCT_NOT_FOUND)'),
+      ...adminErrorResponses('products.manage')
+    }
+  });
+
+  registry.registerPath({
+    ...common,
+    method: 'delete',
+    path: '/admin/products/{gtin}',
+    summary: 'Delete a stored product',
+    request: { params: productParamsSchema },
+    responses: {
+      200: success({ product: adminProductSchema }, 'The deleted product'),
+      400: errorResponse('successCode', 'Invalid gtin (INVALID_GTIN)'),
+      404: errorResponse('successCode', 'No product is stored for the gtin (PRODUCT_NOT_FOUND)'),
+      ...adminErrorResponses('products.manage')
+    }
+  });
+
+  registry.registerPath({
+    ...common,
+    method: 'get',
+    path: '/admin/audit-log',
+    summary: 'List admin audit log entries, newest first',
+    request: { query: auditLogQuerySchema },
+    responses: {
+      200: success({ entries: z.array(auditLogRecordSchema) }, 'The audit log entries'),
+      400: errorResponse('successCode', 'Invalid pagination (INVALID_PAGINATION)'),
+      ...adminErrorResponses('audit.read')
+    }
+  });
+}
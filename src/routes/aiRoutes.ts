@@ -1,7 +1,13 @@
 import express from 'express';
-import { Request, Response } from 'express';
+import { Request, Response, NextFunction } from 'express';
 import analysisService from '../services/analysisService';
 import { logger } from '../utils/logger';
+import { validateRequest } from '../utils/requestValidation';
+import { rateLimit } from '../middleware/rateLimit';
+import { ANALYSIS_RESPONSE_VERSION, createAnalysisResponse } from '../utils/analysisResponse';
+import { toLegacyTextResponse } from '../utils/legacyAnalysisResponse';
+import analyzeRoutes from './analyzeRoutes';
+import { AiTextAnalysisRequest, aiTextAnalysisRequestSchema, ANALYZE_ERROR_CODES } from './analyzeSchemas';
 
 const router = express.Router();
 
@@ -27,15 +33,22 @@ router.post('/test-endpoint', (req: Request, res: Response) => {
  * Redirect /api/ai/analyze-image to /api/analyze/image
  * This maintains backward compatibility with frontend
  */
-// router.post('/analyze-image', ...); // ROUTE REMOVED
+router.post('/analyze-image', (req: Request, res: Response, next: NextFunction) => {
+  logger.info('Request received at /api/ai/analyze-image - forwarding to /api/analyze/image');
+  req.url = '/image'; // Path within analyzeRoutes
+  analyzeRoutes(req, res, next);
+});
 
 /**
  * Redirect /api/ai/analyze-text to /api/analyze/text
  * This maintains backward compatibility with frontend
  */
-router.post('/analyze-text', async (req: Request, res: Response) => {
+router.post('/analyze-text', rateLimit('text'), validateRequest(
+  { body: aiTextAnalysisRequestSchema },
+  { style: 'code', errorCodes: ANALYZE_ERROR_CODES }
+), async (req: Request, res: Response) => {
   try {
-    const { ingredients, text } = req.body;
+    const { ingredients, text, dietProfile, tracePolicy, responseVersion } = req.body as AiTextAnalysisRequest;
     
     // Log the redirect for monitoring
     logger.info('Processing request from /api/ai/analyze-text', {
@@ -56,9 +69,9 @@ router.post('/analyze-text', async (req: Request, res: Response) => {
     // Process request using the analysis service directly
     let result;
     if (ingredients && Array.isArray(ingredients)) {
-      result = await analysisService.analyzeIngredients(ingredients);
+      result = await analysisService.analyzeIngredients(ingredients, dietProfile, tracePolicy);
     } else if (text && typeof text === 'string') {
-      result = await analysisService.analyzeText(text);
+      result = await analysisService.analyzeText(text, dietProfile, tracePolicy);
     } else {
       res.status(400).json({
         error: 'INVALID_CONTENT_FORMAT',
@@ -67,7 +80,8 @@ router.post('/analyze-text', async (req: Request, res: Response) => {
       return;
     }
     
-    res.json(result);
+    const response = createAnalysisResponse(result, 'text');
+    res.json(responseVersion === ANALYSIS_RESPONSE_VERSION ? response : toLegacyTextResponse(response));
     
   } catch (error: any) {
     logger.error('Error in AI text analysis endpoint', { 
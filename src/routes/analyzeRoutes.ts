@@ -2,9 +2,21 @@ import express, { Request, Response, RequestHandler } from 'express';
 import analysisService from '../services/analysisService';
 import { logger } from '../utils/logger';
 import { AnalysisResult } from '../utils/outputParser';
-import { incrementCounter } from '../services/counterService';
-import { imageProcessor } from '../services/imageProcessor';
+import { validateRequest } from '../utils/requestValidation';
+import { ANONYMOUS_USER_ID, authenticate, getUserId, requireMatchingUser } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { createProductFromAnalysis, productStore, toProductReference } from '../services/productStore';
+import { getUsageInfo, incrementCounter } from '../services/counterService';
 import { performance } from 'perf_hooks';
+import { ANALYSIS_RESPONSE_VERSION, createAnalysisResponse } from '../utils/analysisResponse';
+import { toLegacyMediaResponse, toLegacyTextResponse } from '../utils/legacyAnalysisResponse';
+import {
+  ANALYZE_ERROR_CODES,
+  ImageAnalysisRequest,
+  imageAnalysisRequestSchema,
+  TextAnalysisRequest,
+  textAnalysisRequestSchema
+} from './analyzeSchemas';
 
 const router = express.Router();
 
@@ -12,12 +24,16 @@ const router = express.Router();
  * Endpoint for analyzing ingredient text
  * POST /api/analyze/text
  */
-router.post('/text', (async (req: Request, res: Response) => {
+router.post('/text', authenticate({ allowAnonymous: true }), rateLimit('text'), validateRequest(
+  { body: textAnalysisRequestSchema },
+  { style: 'code', errorCodes: ANALYZE_ERROR_CODES }
+), requireMatchingUser(req => req.body.userId), (async (req: Request, res: Response) => {
   const startTime = Date.now();
-  const userId = req.body.userId || 'anonymous';
+  const userId = getUserId(req);
   
   try {
-    const { ingredients, text } = req.body;
+    const { ingredients, text, dietProfile, tracePolicy, responseVersion, gtin } = req.body as TextAnalysisRequest;
+    const hasGtin = gtin !== undefined;
     
     // Track analysis request
     await incrementCounter(userId, 'text_analysis_requests');
@@ -25,12 +41,13 @@ router.post('/text', (async (req: Request, res: Response) => {
       userId,
       hasIngredients: !!ingredients,
       hasText: !!text,
+      hasGtin,
       ingredientsLength: ingredients?.length || 0,
       textLength: text?.length || 0
     });
     
-    // Validate request content
-    if (!ingredients && !text) {
+    // Validate request content (a barcode alone can be answered from the product store)
+    if (!ingredients && !text && !hasGtin) {
       logger.warn('Missing content in analysis request', { userId });
       res.status(400).json({
         error: 'MISSING_CONTENT',
@@ -40,14 +57,30 @@ router.post('/text', (async (req: Request, res: Response) => {
     }
     
     let result: AnalysisResult;
+    // Only a barcode alone is answered from the store; sent ingredients or text are always analyzed
+    const storedProduct = gtin && !ingredients && !text ? await productStore.getProduct(gtin) : null;
     
+    // Answer a repeat scan from the product store without calling the AI service
+    if (storedProduct && productStore.isReusable(storedProduct, dietProfile)) {
+      result = await analysisService.analyzeStoredProduct(storedProduct, dietProfile, tracePolicy);
+      result.product = toProductReference(storedProduct, true);
+    }
+    // Only a barcode, but no stored product to answer from
+    else if (!ingredients && !text) {
+      logger.info('No stored product for gtin', { userId, gtin });
+      res.status(404).json({
+        error: 'PRODUCT_NOT_FOUND',
+        message: 'No stored product for this gtin; provide ingredients or text to analyze it'
+      });
+      return;
+    }
     // Handle structured ingredients list
-    if (ingredients && Array.isArray(ingredients)) {
-      result = await analysisService.analyzeIngredients(ingredients);
+    else if (ingredients && Array.isArray(ingredients)) {
+      result = await analysisService.analyzeIngredients(ingredients, dietProfile, tracePolicy);
     } 
     // Handle unstructured text
     else if (text && typeof text === 'string') {
-      result = await analysisService.analyzeText(text);
+      result = await analysisService.analyzeText(text, dietProfile, tracePolicy);
     } 
     // Invalid request format
     else {
@@ -64,6 +97,16 @@ router.post('/text', (async (req: Request, res: Response) => {
       return;
     }
     
+    // Save a new analysis of a barcode scan for repeat scans (signed-in users only)
+    if (gtin && !result.product) {
+      result.product = await productStore.saveVerifiedProduct(
+        createProductFromAnalysis(gtin, result),
+        userId !== ANONYMOUS_USER_ID ? userId : null
+      );
+    }
+    
+    const response = createAnalysisResponse(result, 'text');
+    
     // Calculate processing time
     const processingTime = Date.now() - startTime;
     
@@ -72,6 +115,10 @@ router.post('/text', (async (req: Request, res: Response) => {
       userId,
       isVegan: result.isVegan,
       confidence: result.confidence,
+      dietProfile,
+      tracePolicy,
+      gtin,
+      fromProductStore: result.product?.fromStore === true,
       ingredientCount: result.ingredientList.length,
       nonVeganCount: result.nonVeganIngredients.length,
       processingTime
@@ -86,7 +133,7 @@ router.post('/text', (async (req: Request, res: Response) => {
       await incrementCounter(userId, 'uncertain_products_found');
     }
     
-    res.json(result);
+    res.json(responseVersion === ANALYSIS_RESPONSE_VERSION ? response : toLegacyTextResponse(response));
   } catch (error: any) {
     // Calculate processing time even for errors
     const processingTime = Date.now() - startTime;
@@ -113,8 +160,127 @@ router.post('/text', (async (req: Request, res: Response) => {
 /**
  * Endpoint for analyzing images
  * POST /api/analyze/image
+ *
+ * Used by older app builds and devices that cannot record video. The response
+ * has the same format as POST /api/video/analyze-video.
  */
-// router.post('/image', ...); // ROUTE REMOVED
+router.post('/image', authenticate({ allowAnonymous: true }), rateLimit('image'), validateRequest(
+  { body: imageAnalysisRequestSchema },
+  { style: 'code', errorCodes: ANALYZE_ERROR_CODES }
+), requireMatchingUser(req => req.body.userId), (async (req: Request, res: Response) => {
+  const startTime = performance.now();
+  const userId = getUserId(req);
+  
+  try {
+    const body = req.body as ImageAnalysisRequest;
+    const { mimeType, preferredLanguage, dietProfile, tracePolicy, responseVersion, gtin } = body;
+    const image = body.image || body.base64Data;
+    const hasGtin = gtin !== undefined;
+    
+    // Track analysis request
+    await incrementCounter(userId, 'image_analysis_requests');
+    logger.info('Image analysis request received', { 
+      userId,
+      hasImage: !!image,
+      hasGtin,
+      mimeType,
+      preferredLanguage,
+      imageLength: image ? image.length : 0
+    });
+    
+    let result: AnalysisResult;
+    // Only a barcode alone is answered from the store; a sent image is always analyzed
+    const storedProduct = gtin && !image ? await productStore.getProduct(gtin) : null;
+    
+    // Answer a repeat scan from the product store without an image
+    if (storedProduct && productStore.isReusable(storedProduct, dietProfile)) {
+      result = await analysisService.analyzeStoredProduct(storedProduct, dietProfile, tracePolicy);
+      result.product = toProductReference(storedProduct, true);
+    } else {
+      // Only a barcode, but no stored product to answer from
+      if (!image && gtin) {
+        logger.info('No stored product for gtin', { userId, gtin });
+        res.status(404).json({
+          error: 'PRODUCT_NOT_FOUND',
+          message: 'No stored product for this gtin; provide an image to analyze it'
+        });
+        return;
+      }
+
+      if (!image) {
+        logger.warn('Missing image in analysis request', { userId });
+        res.status(400).json({
+          error: 'MISSING_IMAGE',
+          message: 'No image provided for analysis'
+        });
+        return;
+      }
+
+      // Accept data URLs as well as plain base64
+      const imageBase64 = image.replace(/^data:image\/[\w.+-]+;base64,/, '');
+      result = await analysisService.analyzeImage(imageBase64, preferredLanguage, dietProfile, tracePolicy);
+
+      // Save a new analysis of a barcode scan for repeat scans (signed-in users only)
+      if (gtin) {
+        result.product = await productStore.saveVerifiedProduct(
+          createProductFromAnalysis(gtin, result, 'image'),
+          userId !== ANONYMOUS_USER_ID ? userId : null
+        );
+      }
+    }
+    
+    const response = createAnalysisResponse(result, 'image', {
+      preferredLanguage,
+      usageInfo: userId !== ANONYMOUS_USER_ID ? await getUsageInfo(userId) : undefined
+    });
+    
+    const processingTime = Math.round(performance.now() - startTime);
+    logger.info('Image analysis completed', {
+      userId,
+      isVegan: result.isVegan,
+      confidence: result.confidence,
+      dietProfile,
+      tracePolicy,
+      gtin,
+      fromProductStore: result.product?.fromStore === true,
+      ingredientCount: result.ingredientList.length,
+      nonVeganCount: result.nonVeganIngredients.length,
+      processingTime
+    });
+    
+    // Track analysis results
+    if (result.isVegan === true) {
+      await incrementCounter(userId, 'vegan_products_found');
+    } else if (result.isVegan === false) {
+      await incrementCounter(userId, 'non_vegan_products_found');
+    } else {
+      await incrementCounter(userId, 'uncertain_products_found');
+    }
+    
+    // Version 1 has the same format as the video endpoint
+    res.json(responseVersion === ANALYSIS_RESPONSE_VERSION ? response : {
+      success: true,
+      result: toLegacyMediaResponse(response)
+    });
+  } catch (error: any) {
+    const processingTime = Math.round(performance.now() - startTime);
+    
+    logger.error('Error in image analysis endpoint', { 
+      userId,
+      error: error.message, 
+      stack: error.stack,
+      processingTime
+    });
+    
+    // Track error
+    await incrementCounter(userId, 'image_analysis_errors');
+    
+    res.status(500).json({
+      error: 'IMAGE_ANALYSIS_ERROR',
+      message: `An error occurred during image analysis: ${error.message}`
+    });
+  }
+}) as RequestHandler);
 
 /**
  * Endpoint for analyzing videos
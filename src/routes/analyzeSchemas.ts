@@ -0,0 +1,117 @@
+/**
+ * Scheman för analysroutrarna (/api/analyze och omdirigeringarna i /api/ai)
+ */
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { jsonRequest, jsonResponse, z } from '../utils/openApi';
+import { analysisResponseSchema } from '../utils/analysisResponse';
+import { legacyMediaEnvelopeSchema, legacyTextResponseSchema } from '../utils/legacyAnalysisResponse';
+import {
+  authErrorResponses,
+  COMMON_ERROR_CODES,
+  dietProfileSchema,
+  errorResponse,
+  optionalGtinSchema,
+  OPTIONAL_BEARER_AUTH,
+  rateLimitErrorResponse,
+  responseVersionSchema,
+  tracePolicySchema,
+  userIdSchema
+} from './requestSchemas';
+
+export const textAnalysisRequestSchema = z.object({
+  ingredients: z.array(z.string()).optional().openapi({ description: 'Structured ingredient list' }),
+  text: z.string().optional().openapi({ description: 'Unstructured ingredient text' }),
+  gtin: optionalGtinSchema.openapi({ description: 'Barcode; a stored product answers a repeat scan without analysis' }),
+  userId: userIdSchema.optional(),
+  dietProfile: dietProfileSchema,
+  tracePolicy: tracePolicySchema,
+  responseVersion: responseVersionSchema
+}).openapi('TextAnalysisRequest', { description: 'At least one of ingredients, text or gtin is required' });
+
+export type TextAnalysisRequest = z.output<typeof textAnalysisRequestSchema>;
+
+// /api/ai/analyze-text har ingen produktlagring
+export const aiTextAnalysisRequestSchema = textAnalysisRequestSchema
+  .omit({ gtin: true, userId: true })
+  .openapi('AiTextAnalysisRequest', { description: 'At least one of ingredients or text is required' });
+
+export type AiTextAnalysisRequest = z.output<typeof aiTextAnalysisRequestSchema>;
+
+export const imageAnalysisRequestSchema = z.object({
+  image: z.string().optional().openapi({ description: 'Base64-encoded image or data URL' }),
+  base64Data: z.string().optional().openapi({ description: 'Alias of image' }),
+  mimeType: z.string()
+    .startsWith('image/', 'Invalid mimeType: Must be an image type (image/*)')
+    .optional(),
+  preferredLanguage: z.string().default('sv'),
+  gtin: optionalGtinSchema.openapi({ description: 'Barcode; a stored product answers a repeat scan without an image' }),
+  userId: userIdSchema.optional(),
+  dietProfile: dietProfileSchema,
+  tracePolicy: tracePolicySchema,
+  responseVersion: responseVersionSchema
+}).openapi('ImageAnalysisRequest', { description: 'An image is required unless gtin identifies a stored product' });
+
+export type ImageAnalysisRequest = z.output<typeof imageAnalysisRequestSchema>;
+
+export const ANALYZE_ERROR_CODES: Record<string, string> = {
+  ...COMMON_ERROR_CODES,
+  ingredients: 'INVALID_CONTENT_FORMAT',
+  text: 'INVALID_CONTENT_FORMAT',
+  image: 'MISSING_IMAGE',
+  base64Data: 'MISSING_IMAGE',
+  mimeType: 'INVALID_MIME_TYPE'
+};
+
+const textAnalysisResponse = jsonResponse(
+  z.union([legacyTextResponseSchema, analysisResponseSchema]),
+  'Analysis result in the requested response version'
+);
+
+const imageAnalysisResponse = jsonResponse(
+  z.union([legacyMediaEnvelopeSchema, analysisResponseSchema]),
+  'Analysis result in the requested response version'
+);
+
+/**
+ * Registrera analysroutrarnas anrop i OpenAPI-dokumentet
+ */
+export function registerAnalyzePaths(registry: OpenAPIRegistry): void {
+  for (const path of ['/analyze/text', '/ai/analyze-text']) {
+    const isAlias = path.startsWith('/ai');
+    registry.registerPath({
+      method: 'post',
+      path,
+      tags: ['Analysis'],
+      summary: isAlias ? 'Analyze ingredient text (alias without barcode support)' : 'Analyze ingredient text',
+      ...(isAlias ? {} : { security: OPTIONAL_BEARER_AUTH }),
+      request: { body: jsonRequest(isAlias ? aiTextAnalysisRequestSchema : textAnalysisRequestSchema) },
+      responses: {
+        200: textAnalysisResponse,
+        400: errorResponse('code', 'Invalid request (MISSING_CONTENT, INVALID_DIET_PROFILE, ...)'),
+        ...(isAlias ? {} : authErrorResponses('code')),
+        ...(isAlias ? {} : { 404: errorResponse('code', 'Only a gtin was given and no product is stored for it') }),
+        ...rateLimitErrorResponse('code'),
+        500: errorResponse('code', 'Analysis failed')
+      }
+    });
+  }
+
+  for (const path of ['/analyze/image', '/ai/analyze-image']) {
+    registry.registerPath({
+      method: 'post',
+      path,
+      tags: ['Analysis'],
+      summary: path.startsWith('/ai') ? 'Analyze an ingredient image (alias)' : 'Analyze an ingredient image',
+      security: OPTIONAL_BEARER_AUTH,
+      request: { body: jsonRequest(imageAnalysisRequestSchema) },
+      responses: {
+        200: imageAnalysisResponse,
+        400: errorResponse('code', 'Invalid request (MISSING_IMAGE, INVALID_MIME_TYPE, ...)'),
+        ...authErrorResponses('code'),
+        404: errorResponse('code', 'Only a gtin was given and no product is stored for it'),
+        ...rateLimitErrorResponse('code'),
+        500: errorResponse('code', 'Analysis failed')
+      }
+    });
+  }
+}
@@ -1,25 +1,26 @@
 // src/routes/counterRoutes.ts
 import express, { Request, Response, RequestHandler } from 'express';
 import { getCounter, incrementCounter, checkCounterLimit } from '../services/counterService';
+import { validateRequest } from '../utils/requestValidation';
+import { authenticate, requireMatchingUser } from '../middleware/auth';
+import { COUNTER_ERROR_CODES, CounterIncrement, counterIncrementSchema, counterParamsSchema } from './counterSchemas';
 
 const router = express.Router();
 
+// Räknarna tillhör en användare; bara användaren själv får läsa och öka dem
+router.use(authenticate());
+
 /**
  * Hämta en räknare för en användare
  * GET /api/counters/:userId/:counterName
  */
-router.get('/:userId/:counterName', (async (req: Request, res: Response) => {
+router.get('/:userId/:counterName', validateRequest(
+  { params: counterParamsSchema },
+  { style: 'code', errorCodes: COUNTER_ERROR_CODES }
+), requireMatchingUser(req => req.params.userId), (async (req: Request, res: Response) => {
   try {
     const { userId, counterName } = req.params;
     
-    if (!userId || !counterName) {
-      res.status(400).json({ 
-        error: 'INVALID_PARAMS', 
-        message: 'Användar-ID och räknarnamn krävs'
-      });
-      return;
-    }
-    
     const counter = await getCounter(userId, counterName);
     res.status(200).json(counter);
   } catch (error) {
@@ -35,18 +36,13 @@ router.get('/:userId/:counterName', (async (req: Request, res: Response) => {
  * Öka en räknare för en användare
  * POST /api/counters/:userId/:counterName/increment
  */
-router.post('/:userId/:counterName/increment', (async (req: Request, res: Response) => {
+router.post('/:userId/:counterName/increment', validateRequest(
+  { params: counterParamsSchema, body: counterIncrementSchema },
+  { style: 'code', errorCodes: COUNTER_ERROR_CODES }
+), requireMatchingUser(req => req.params.userId), (async (req: Request, res: Response) => {
   try {
     const { userId, counterName } = req.params;
-    const { increment = 1 } = req.body;
-    
-    if (!userId || !counterName) {
-      res.status(400).json({ 
-        error: 'INVALID_PARAMS', 
-        message: 'Användar-ID och räknarnamn krävs'
-      });
-      return;
-    }
+    const { increment } = req.body as CounterIncrement;
     
     const counter = await incrementCounter(userId, counterName, increment);
     res.status(200).json(counter);
@@ -63,18 +59,13 @@ router.post('/:userId/:counterName/increment', (async (req: Request, res: Respon
  * Kontrollera om en användare har nått sin räknargräns
  * GET /api/counters/:userId/:counterName/limit
  */
-router.get('/:userId/:counterName/limit', (async (req: Request, res: Response) => {
+router.get('/:userId/:counterName/limit', validateRequest(
+  { params: counterParamsSchema },
+  { style: 'code', errorCodes: COUNTER_ERROR_CODES }
+), requireMatchingUser(req => req.params.userId), (async (req: Request, res: Response) => {
   try {
     const { userId, counterName } = req.params;
     
-    if (!userId || !counterName) {
-      res.status(400).json({ 
-        error: 'INVALID_PARAMS', 
-        message: 'Användar-ID och räknarnamn krävs'
-      });
-      return;
-    }
-    
     const limitInfo = await checkCounterLimit(userId, counterName);
     res.status(200).json(limitInfo);
   } catch (error) {
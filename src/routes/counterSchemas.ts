@@ -0,0 +1,89 @@
+/**
+ * Scheman för räknarroutern (/api/counter och /api/counters)
+ */
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { jsonRequest, jsonResponse, z } from '../utils/openApi';
+import { authErrorResponses, BEARER_AUTH, errorResponse } from './requestSchemas';
+
+const INVALID_PARAMS_MESSAGE = 'Användar-ID och räknarnamn krävs';
+
+export const counterParamsSchema = z.object({
+  userId: z.string().min(1, INVALID_PARAMS_MESSAGE).openapi({ description: 'Must be the authenticated user' }),
+  counterName: z.string().min(1, INVALID_PARAMS_MESSAGE).openapi({ example: 'analysis_count' })
+});
+
+export const counterIncrementSchema = z.object({
+  increment: z.number().int().positive().default(1)
+}).openapi('CounterIncrement');
+
+export type CounterIncrement = z.output<typeof counterIncrementSchema>;
+
+export const COUNTER_ERROR_CODES: Record<string, string> = {
+  userId: 'INVALID_PARAMS',
+  counterName: 'INVALID_PARAMS',
+  increment: 'INVALID_INCREMENT'
+};
+
+export const counterInfoSchema = z.object({
+  counter_id: z.string(),
+  user_id: z.string(),
+  counter_name: z.string(),
+  value: z.number(),
+  limit: z.number(),
+  remaining: z.number(),
+  is_limited: z.boolean(),
+  has_reached_limit: z.boolean(),
+  reset_frequency: z.enum(['daily', 'weekly', 'monthly', 'never']),
+  last_reset: z.string(),
+  next_reset: z.string().nullable()
+}).openapi('CounterInfo');
+
+export const counterLimitSchema = z.object({
+  hasReachedLimit: z.boolean(),
+  value: z.number(),
+  limit: z.number(),
+  remaining: z.number()
+}).openapi('CounterLimit');
+
+/**
+ * Registrera räknarrouterns anrop i OpenAPI-dokumentet
+ * @param basePath Sökvägen routern är monterad på (routern finns under två namn)
+ */
+export function registerCounterPaths(registry: OpenAPIRegistry, basePath: string): void {
+  const counterPath = `${basePath}/{userId}/{counterName}`;
+  const errors = {
+    400: errorResponse('code', 'Invalid parameters (INVALID_PARAMS, INVALID_INCREMENT)'),
+    ...authErrorResponses('code'),
+    500: errorResponse('code', 'The counter could not be read or updated')
+  };
+
+  registry.registerPath({
+    method: 'get',
+    path: counterPath,
+    tags: ['Counters'],
+    security: BEARER_AUTH,
+    summary: 'Get a usage counter',
+    request: { params: counterParamsSchema },
+    responses: { 200: jsonResponse(counterInfoSchema, 'The counter'), ...errors }
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: `${counterPath}/increment`,
+    tags: ['Counters'],
+    security: BEARER_AUTH,
+    summary: 'Increment a usage counter',
+    request: { params: counterParamsSchema, body: { ...jsonRequest(counterIncrementSchema), required: false } },
+    responses: { 200: jsonResponse(counterInfoSchema, 'The updated counter'), ...errors }
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: `${counterPath}/limit`,
+    tags: ['Counters'],
+    security: BEARER_AUTH,
+    summary: 'Check whether a usage counter has reached its limit',
+    request: { params: counterParamsSchema },
+    responses: { 200: jsonResponse(counterLimitSchema, 'The limit status'), ...errors }
+  });
+}
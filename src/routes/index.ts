@@ -7,6 +7,9 @@ import reportRoutes from './reportRoutes';
 import videoAnalysisRoutes from './videoAnalysis';
 import testGeminiRoutes from './testGemini';
 import ingredientCheckRoutes from './ingredientCheck';
+import productRoutes from './productRoutes';
+import adminRoutes from './adminRoutes';
+import { getOpenApiDocument } from './openApiDocument';
 import { logger } from '../utils/logger';
 import { Request, Response, NextFunction } from 'express';
 
@@ -25,8 +28,13 @@ router.get('/', (_req, res) => {
     endpoints: {
       video: '/video/analyze-video',
       alternateVideo: '/analyze-video',  // New alternate endpoint
+      image: '/analyze/image',
       test: process.env.ENABLE_TEST_ROUTES === 'true' ? '/test' : 'disabled',
-      ingredients: '/ingredients/check-e304'
+      ingredients: '/ingredients/ingredient',
+      ingredientLookup: '/ingredients/lookup',
+      products: '/products/:gtin',
+      admin: '/admin',
+      openApi: '/openapi.json'
     }
   });
 });
@@ -42,6 +50,11 @@ router.get('/health', (_req, res) => {
   });
 });
 
+// Machine-readable API description, generated from the route schemas
+router.get('/openapi.json', (_req, res) => {
+  res.json(getOpenApiDocument());
+});
+
 // Enhanced logging for mounted routes
 logger.info('Mounting KoaLens API routes:');
 logger.info('- /analyze (analyzeRoutes) - Legacy analyze endpoints');
@@ -50,6 +63,8 @@ logger.info('- /counter (counterRoutes) - Usage counters');
 logger.info('- /reports (reportRoutes) - Reporting functionality');
 logger.info('- /video (videoAnalysisRoutes) - Video analysis endpoints');
 logger.info('- /ingredients (ingredientCheckRoutes) - Ingredient checking endpoints');
+logger.info('- /products (productRoutes) - Product store lookups by barcode');
+logger.info('- /admin (adminRoutes) - Admin statistics, caches, database and report moderation');
 
 // Mount the routes
 router.use('/analyze', analyzeRoutes);
@@ -58,6 +73,8 @@ router.use('/counter', counterRoutes);
 router.use('/reports', reportRoutes);
 router.use('/video', videoAnalysisRoutes);
 router.use('/ingredients', ingredientCheckRoutes);
+router.use('/products', productRoutes);
+router.use('/admin', adminRoutes);
 
 // Add alias route for counters (plural) to match mobile app expectations
 router.use('/counters', counterRoutes);
@@ -1,21 +1,98 @@
 import express from 'express';
-import { checkIngredientStatus } from '../utils/ingredientsDatabase';
+import {
+  checkIngredientStatus,
+  getIngredientDataset,
+  IngredientDataset
+} from '../utils/ingredientsDatabase';
+import { DietProfile } from '../utils/dietProfiles';
+import { classifyIngredientAllergens } from '../utils/allergenClassifier';
 import { logger } from '../utils/logger';
+import { validateRequest } from '../utils/requestValidation';
+import { rateLimit } from '../middleware/rateLimit';
+import {
+  INGREDIENT_ERROR_CODES,
+  IngredientLookupRequest,
+  ingredientLookupRequestSchema,
+  IngredientLookupResult,
+  IngredientLookupStatus,
+  IngredientQuery,
+  ingredientQuerySchema
+} from './ingredientSchemas';
 
 const router = express.Router();
 
-// Existing endpoints...
+/**
+ * Översätt isVegan/isUncertain till en status för API:t
+ */
+function toLookupStatus(isVegan: boolean | null, isUncertain: boolean): IngredientLookupStatus {
+  if (isVegan === false) {
+    return 'non-vegan';
+  }
+  if (isUncertain) {
+    return 'uncertain';
+  }
+  return isVegan === true ? 'vegan' : 'unknown';
+}
+
+/**
+ * Slå upp en ingrediens i databasen och formatera resultatet för API:t.
+ * Statusen gäller kostprofilen (för andra profiler än vegan: "passar profilen").
+ */
+function lookupIngredient(name: string, dataset: IngredientDataset, dietProfile: DietProfile): IngredientLookupResult {
+  const result = checkIngredientStatus(name, dataset, dietProfile);
+
+  return {
+    query: name,
+    status: toLookupStatus(result.isVegan, result.isUncertain),
+    isVegan: result.isVegan,
+    isUncertain: result.isUncertain,
+    matchStrategy: result.matchStrategy,
+    animalCategories: result.animalCategories,
+    allergens: classifyIngredientAllergens(name, dataset).map(match => match.allergen),
+    matchedItem: result.matchedItem
+      ? {
+          name: result.matchedItem.name,
+          eNumber: result.matchedItem.eNumber || null,
+          description: result.matchedItem.description || null
+        }
+      : null,
+    matchedAlias: result.matchedAlias || null,
+    eNumbers: result.eNumbers.map(eNumber => ({
+      code: eNumber.code,
+      status: toLookupStatus(eNumber.isVegan, eNumber.isUncertain),
+      resolvedBy: eNumber.resolvedBy,
+      matchedItem: eNumber.matchedItem
+        ? { name: eNumber.matchedItem.name, eNumber: eNumber.matchedItem.eNumber || null }
+        : null
+    })),
+    compound: result.compound
+      ? {
+          word: result.compound.word,
+          parts: result.compound.parts.map(part => ({
+            text: part.text,
+            part: part.part,
+            linker: part.linker,
+            role: part.role,
+            status: part.status || 'unknown',
+            matchedItem: part.item?.name || null
+          })),
+          trigger: result.compound.trigger.part
+        }
+      : null,
+    reason: result.reason || null
+  };
+}
 
 /**
  * Endpoint to check E304 directly
  */
 router.get('/check-e304', (_req, res) => {
   logger.info('Running direct check for E304');
-  
+
   // First check the exact E304 string
   const e304Result = checkIngredientStatus('E304');
   logger.info(`E304 exact check result: ${JSON.stringify(e304Result)}`);
-  
+
   // Check a few variations
   const variations = ['e304', 'E-304', 'Askorbylplamitat', 'E304 additive'];
   const results = variations.map(variation => {
@@ -23,7 +100,7 @@ router.get('/check-e304', (_req, res) => {
     logger.info(`${variation} check result: ${JSON.stringify(result)}`);
     return { variation, result };
   });
-  
+
   res.json({
     message: 'E304 check completed, see logs for details',
     e304Result,
@@ -32,30 +109,62 @@ router.get('/check-e304', (_req, res) => {
 });
 
 /**
- * GET /ingredient - Check the status of a single ingredient.
- * Query parameter: ?name=<ingredient_name>
+ * GET /api/ingredients/ingredient - Check the status of a single ingredient.
+ * Query parameters: ?name=<ingredient_name>&dietProfile=<profile> (dietProfile is optional, default vegan)
  */
-router.get('/ingredient', (_req: express.Request, _res: express.Response) => {
-  // Entire logic commented out as it was unused and causing errors
-  /*
-  const ingredientName = _req.query.name as string;
-
-  // If no ingredient name is provided, return an error
-  if (!ingredientName) {
-    return _res.status(400).json({
-      error: 'No ingredient name provided'
-    });
-  }
-  
-  const result = checkIngredientStatus(ingredientName);
-  logger.info(`${ingredientName} check result: ${JSON.stringify(result)}`);
-  
-  _res.json({
-    message: 'Ingredient check completed',
-    ingredientName,
+router.get('/ingredient', rateLimit('lookup', { style: 'successCode' }), validateRequest(
+  { query: ingredientQuerySchema },
+  { style: 'successCode', errorCodes: INGREDIENT_ERROR_CODES }
+), (req: express.Request, res: express.Response) => {
+  const { name, dietProfile } = req.query as unknown as IngredientQuery;
+
+  const dataset = getIngredientDataset();
+  const result = lookupIngredient(name, dataset, dietProfile);
+  logger.debug('Ingredient lookup completed', {
+    query: result.query,
+    status: result.status,
+    matchStrategy: result.matchStrategy
+  });
+
+  res.json({
+    success: true,
+    databaseVersion: dataset.version,
+    dietProfile,
     result
   });
-  */
 });
 
-export default router; 
\ No newline at end of file
+/**
+ * POST /api/ingredients/lookup - Check the status of a batch of ingredients.
+ * Request Body: {
+ *   names: string[] // Required, 1-300 ingredient names
+ *   dietProfile?: string // Optional, default "vegan"
+ * }
+ */
+router.post('/lookup', rateLimit('lookup', { style: 'successCode' }), validateRequest(
+  { body: ingredientLookupRequestSchema },
+  { style: 'successCode', errorCodes: INGREDIENT_ERROR_CODES }
+), (req: express.Request, res: express.Response) => {
+  const { names, dietProfile } = req.body as IngredientLookupRequest;
+
+  const startTime = Date.now();
+  const dataset = getIngredientDataset();
+  const results = names.map(name => lookupIngredient(name, dataset, dietProfile));
+
+  logger.info('Batch ingredient lookup completed', {
+    count: results.length,
+    dietProfile,
+    matched: results.filter(result => result.matchStrategy !== 'none').length,
+    processingTimeMs: Date.now() - startTime
+  });
+
+  res.json({
+    success: true,
+    databaseVersion: dataset.version,
+    dietProfile,
+    count: results.length,
+    results
+  });
+});
+
+export default router;
\ No newline at end of file
@@ -0,0 +1,167 @@
+/**
+ * Scheman för ingrediensroutern (/api/ingredients)
+ */
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { jsonRequest, jsonResponse, z } from '../utils/openApi';
+import { ANIMAL_CATEGORIES, EU_ALLERGENS, INGREDIENT_LANGUAGES } from '../utils/ingredientCatalogue';
+import { DIET_PROFILES } from '../utils/dietProfiles';
+import { COMMON_ERROR_CODES, dietProfileSchema, errorResponse, rateLimitErrorResponse } from './requestSchemas';
+
+// Maximalt antal namn i ett batch-anrop
+const MAX_BATCH_SIZE = 300;
+// Maximal längd på ett enskilt ingrediensnamn
+const MAX_NAME_LENGTH = 200;
+
+const INVALID_NAME_MESSAGE = 'Ingredient name must be a non-empty string';
+const MISSING_NAMES_MESSAGE = 'Request body must contain a non-empty "names" array';
+
+// Längden gäller namnet som det skickades; det tolkade namnet är trimmat
+export const ingredientNameSchema = z.string({ errorMap: () => ({ message: INVALID_NAME_MESSAGE }) })
+  .max(MAX_NAME_LENGTH, `Ingredient name exceeds maximum length of ${MAX_NAME_LENGTH} characters`)
+  .trim()
+  .min(1, INVALID_NAME_MESSAGE)
+  .openapi({ example: 'vassle' });
+
+export const ingredientQuerySchema = z.object({
+  name: ingredientNameSchema,
+  dietProfile: dietProfileSchema
+});
+
+export type IngredientQuery = z.output<typeof ingredientQuerySchema>;
+
+/**
+ * Felmeddelandet för ett ogiltigt ingrediensnamn, eller null om namnet är giltigt
+ */
+function getNameError(name: unknown): string | null {
+  const result = ingredientNameSchema.safeParse(name);
+  return result.success ? null : result.error.issues[0].message;
+}
+
+export const ingredientNamesSchema = z.array(z.unknown(), { errorMap: () => ({ message: MISSING_NAMES_MESSAGE }) })
+  .superRefine((names, ctx) => {
+    if (names.length === 0) {
+      ctx.addIssue({ code: 'custom', message: MISSING_NAMES_MESSAGE, params: { code: 'MISSING_NAMES' } });
+      return;
+    }
+    if (names.length > MAX_BATCH_SIZE) {
+      ctx.addIssue({
+        code: 'custom',
+        message: `A batch may contain at most ${MAX_BATCH_SIZE} names (received ${names.length})`,
+        params: { code: 'BATCH_TOO_LARGE' }
+      });
+      return;
+    }
+    const invalidNames = names
+      .map((name, index) => ({ index, error: getNameError(name) }))
+      .filter(entry => entry.error !== null);
+    if (invalidNames.length > 0) {
+      ctx.addIssue({
+        code: 'custom',
+        message: 'One or more ingredient names are invalid',
+        params: { code: 'INVALID_NAME', details: invalidNames }
+      });
+    }
+  })
+  .transform(names => (names as string[]).map(name => name.trim()))
+  .openapi({ type: 'array', items: { type: 'string', minLength: 1, maxLength: MAX_NAME_LENGTH }, minItems: 1, maxItems: MAX_BATCH_SIZE });
+
+export const ingredientLookupRequestSchema = z.object({
+  names: ingredientNamesSchema,
+  dietProfile: dietProfileSchema
+}).openapi('IngredientLookupRequest');
+
+export type IngredientLookupRequest = z.output<typeof ingredientLookupRequestSchema>;
+
+export const INGREDIENT_ERROR_CODES: Record<string, string> = {
+  ...COMMON_ERROR_CODES,
+  name: 'INVALID_NAME',
+  names: 'MISSING_NAMES'
+};
+
+const lookupStatusSchema = z.enum(['vegan', 'non-vegan', 'uncertain', 'unknown']);
+
+export type IngredientLookupStatus = z.infer<typeof lookupStatusSchema>;
+
+export const ingredientLookupResultSchema = z.object({
+  query: z.string(),
+  status: lookupStatusSchema,
+  isVegan: z.boolean().nullable(),
+  isUncertain: z.boolean(),
+  matchStrategy: z.enum(['exact-name', 'name-substring', 'e-number', 'compound', 'none']),
+  animalCategories: z.array(z.enum(ANIMAL_CATEGORIES)), // Animaliskt ursprung enligt de matchade katalogposterna
+  allergens: z.array(z.enum(EU_ALLERGENS)), // EU-allergener i namnet, oberoende av kostprofilen
+  matchedItem: z.object({
+    name: z.string(),
+    eNumber: z.string().nullable(),
+    description: z.string().nullable()
+  }).nullable(),
+  matchedAlias: z.object({
+    name: z.string(),
+    language: z.enum(INGREDIENT_LANGUAGES)
+  }).nullable(),
+  eNumbers: z.array(z.object({
+    code: z.string(),
+    status: lookupStatusSchema,
+    resolvedBy: z.enum(['exact', 'parent', 'variants', 'none']),
+    matchedItem: z.object({
+      name: z.string(),
+      eNumber: z.string().nullable()
+    }).nullable()
+  })),
+  compound: z.object({
+    word: z.string(),
+    parts: z.array(z.object({
+      text: z.string(),
+      part: z.string(),
+      linker: z.string().nullable(),
+      role: z.enum(['modifier', 'head']),
+      status: lookupStatusSchema,
+      matchedItem: z.string().nullable()
+    })),
+    trigger: z.string() // Leden (grundform) som avgjorde klassificeringen
+  }).nullable(),
+  reason: z.string().nullable()
+}).openapi('IngredientLookupResult');
+
+export type IngredientLookupResult = z.infer<typeof ingredientLookupResultSchema>;
+
+const lookupResponseFields = {
+  success: z.literal(true),
+  databaseVersion: z.string(),
+  dietProfile: z.enum(DIET_PROFILES)
+};
+
+/**
+ * Registrera ingrediensrouterns anrop i OpenAPI-dokumentet
+ */
+export function registerIngredientPaths(registry: OpenAPIRegistry): void {
+  registry.registerPath({
+    method: 'get',
+    path: '/ingredients/ingredient',
+    tags: ['Ingredients'],
+    summary: 'Check the status of a single ingredient',
+    request: { query: ingredientQuerySchema },
+    responses: {
+      200: jsonResponse(z.object({ ...lookupResponseFields, result: ingredientLookupResultSchema }), 'The ingredient status'),
+      400: errorResponse('successCode', 'Invalid request (INVALID_NAME, INVALID_DIET_PROFILE)'),
+      ...rateLimitErrorResponse('successCode')
+    }
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/ingredients/lookup',
+    tags: ['Ingredients'],
+    summary: 'Check the status of a batch of ingredients',
+    request: { body: jsonRequest(ingredientLookupRequestSchema) },
+    responses: {
+      200: jsonResponse(z.object({
+        ...lookupResponseFields,
+        count: z.number().int(),
+        results: z.array(ingredientLookupResultSchema)
+      }), 'The ingredient statuses, in request order'),
+      400: errorResponse('successCode', 'Invalid request (MISSING_NAMES, BATCH_TOO_LARGE, INVALID_NAME, INVALID_DIET_PROFILE)'),
+      ...rateLimitErrorResponse('successCode')
+    }
+  });
+}
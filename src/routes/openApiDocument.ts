@@ -0,0 +1,53 @@
+/**
+ * OpenAPI 3.1-dokument för API:t, genererat från routrarnas Zod-scheman.
+ * Serveras på GET /api/openapi.json.
+ */
+import { OpenAPIRegistry, OpenApiGeneratorV31 } from '@asteasolutions/zod-to-openapi';
+import { registerAnalyzePaths } from './analyzeSchemas';
+import { registerVideoPaths } from './videoSchemas';
+import { registerCounterPaths } from './counterSchemas';
+import { registerReportPaths } from './reportSchemas';
+import { registerIngredientPaths } from './ingredientSchemas';
+import { registerProductPaths } from './productSchemas';
+import { registerAdminPaths } from './adminSchemas';
+
+const API_VERSION = '1.1.0';
+
+let cachedDocument: ReturnType<OpenApiGeneratorV31['generateDocument']> | null = null;
+
+/**
+ * Bygg dokumentet; schemana ändras inte under körning, så det byggs en gång
+ */
+export function getOpenApiDocument() {
+  if (cachedDocument) {
+    return cachedDocument;
+  }
+
+  const registry = new OpenAPIRegistry();
+  registry.registerComponent('securitySchemes', 'bearerAuth', {
+    type: 'http',
+    scheme: 'bearer',
+    bearerFormat: 'JWT',
+    description: 'Supabase access token of the signed-in user'
+  });
+  registerAnalyzePaths(registry);
+  registerVideoPaths(registry);
+  // Räknarroutern är monterad under båda namnen
+  registerCounterPaths(registry, '/counter');
+  registerCounterPaths(registry, '/counters');
+  registerReportPaths(registry);
+  registerIngredientPaths(registry);
+  registerProductPaths(registry);
+  registerAdminPaths(registry);
+
+  cachedDocument = new OpenApiGeneratorV31(registry.definitions).generateDocument({
+    openapi: '3.1.0',
+    info: {
+      title: 'KoaLens API',
+      version: API_VERSION,
+      description: 'Ingredient analysis for vegan and other diet profiles'
+    },
+    servers: [{ url: '/api' }]
+  });
+  return cachedDocument;
+}
@@ -0,0 +1,35 @@
+import { Router, Request, Response, RequestHandler } from 'express';
+import { productStore, toPublicProduct } from '../services/productStore';
+import { validateRequest } from '../utils/requestValidation';
+import { rateLimit } from '../middleware/rateLimit';
+import { ProductParams, productParamsSchema } from './productSchemas';
+
+const router = Router();
+
+/**
+ * GET /api/products/:gtin
+ * Hämta en produkts senast verifierade ingredienslista och bedömning
+ */
+router.get('/:gtin', rateLimit('lookup', { style: 'successMessage' }), validateRequest(
+  { params: productParamsSchema },
+  { style: 'successMessage' }
+), (async (req: Request, res: Response) => {
+  const { gtin } = req.params as ProductParams;
+
+  const product = await productStore.getProduct(gtin);
+  if (!product) {
+    res.status(404).json({
+      success: false,
+      error: 'Product not found',
+      gtin
+    });
+    return;
+  }
+
+  res.status(200).json({
+    success: true,
+    product: toPublicProduct(product)
+  });
+}) as RequestHandler);
+
+export default router;
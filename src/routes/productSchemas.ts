@@ -0,0 +1,57 @@
+/**
+ * Scheman för produktroutern (/api/products)
+ */
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { jsonResponse, z } from '../utils/openApi';
+import { ANIMAL_CATEGORIES } from '../utils/ingredientCatalogue';
+import { DIET_PROFILES } from '../utils/dietProfiles';
+import { errorResponse, gtinSchema, rateLimitErrorResponse } from './requestSchemas';
+
+export const productParamsSchema = z.object({
+  gtin: gtinSchema
+});
+
+export type ProductParams = z.output<typeof productParamsSchema>;
+
+export const storedProductSchema = z.object({
+  gtin: z.string().openapi({ description: 'GTIN-14' }),
+  productName: z.string().nullable(),
+  ingredients: z.array(z.object({
+    name: z.string(),
+    source: z.enum(['declared', 'trace']),
+    isVegan: z.boolean().nullable(),
+    isUncertain: z.boolean(),
+    confidence: z.number(),
+    animalCategories: z.array(z.enum(ANIMAL_CATEGORIES)).optional()
+  })),
+  isVegan: z.boolean().nullable(),
+  isUncertain: z.boolean(),
+  confidence: z.number(),
+  dietProfile: z.enum(DIET_PROFILES),
+  analysisType: z.enum(['text', 'image', 'video', 'import']),
+  databaseVersion: z.string(),
+  verifiedAt: z.string(),
+  sourceLastModified: z.number().optional()
+}).openapi('StoredProduct');
+
+/**
+ * Registrera produktrouterns anrop i OpenAPI-dokumentet
+ */
+export function registerProductPaths(registry: OpenAPIRegistry): void {
+  registry.registerPath({
+    method: 'get',
+    path: '/products/{gtin}',
+    tags: ['Products'],
+    summary: 'Get the last verified ingredients and verdict of a product',
+    request: { params: productParamsSchema },
+    responses: {
+      200: jsonResponse(z.object({ success: z.literal(true), product: storedProductSchema }), 'The stored product'),
+      400: errorResponse('successMessage', 'Invalid gtin'),
+      404: jsonResponse(
+        z.object({ success: z.literal(false), error: z.string(), gtin: z.string() }),
+        'No product is stored for the gtin'
+      ),
+      ...rateLimitErrorResponse('successMessage')
+    }
+  });
+}
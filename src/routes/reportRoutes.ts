@@ -1,61 +1,40 @@
 import { Router, Request, Response, RequestHandler } from 'express';
 import { logger } from '../utils/logger';
 import { supabase } from '../services/supabaseService'; // Import Supabase client
-
-// Define the structure for the incoming ingredient report data
-interface IngredientReport {
-  ingredient: string;
-  feedback: string;
-  productId?: string; // Optional: ID of the product/analysis
-  isVegan?: boolean; // Optional: Product status at time of report
-  userId?: string; // Optional: User ID (or 'anonymous')
-  timestamp?: string; // Optional: Client-provided timestamp (ISO 8601 format expected)
-}
+import { normalizeGtin } from '../utils/gtin';
+import { validateRequest } from '../utils/requestValidation';
+import { authenticate, getUserId, requireMatchingUser } from '../middleware/auth';
+import { IngredientReport, ingredientReportSchema } from './reportSchemas';
 
 const router = Router();
 
 /**
- * POST /api/report/ingredient
+ * POST /api/reports/ingredient
  * Endpoint for receiving and storing ingredient feedback reports from users.
  */
-router.post('/ingredient', (async (req: Request, res: Response) => {
+router.post('/ingredient', authenticate({ allowAnonymous: true, style: 'successMessage' }), validateRequest(
+  { body: ingredientReportSchema },
+  { style: 'successMessage' }
+), requireMatchingUser(req => req.body.userId, 'successMessage'), (async (req: Request, res: Response) => {
   const reportData = req.body as IngredientReport;
   
   logger.debug('Received raw ingredient report data', { rawData: reportData });
 
   try {
-    // 1. Validate required fields
-    if (!reportData.ingredient || typeof reportData.ingredient !== 'string' || reportData.ingredient.trim() === '') {
-      logger.warn('Ingredient report rejected: Missing or invalid ingredient field', { reportData });
-      res.status(400).json({ 
-        success: false, 
-        error: 'Missing or invalid required field: ingredient' 
-      });
-      return;
-    }
-    
-    if (!reportData.feedback || typeof reportData.feedback !== 'string' || reportData.feedback.trim() === '') {
-      logger.warn('Ingredient report rejected: Missing or invalid feedback field', { reportData });
-       res.status(400).json({ 
-        success: false, 
-        error: 'Missing or invalid required field: feedback' 
-      });
-       return;
-    }
-
-    // 2. Prepare data for Supabase insertion
+    // 1. Prepare data for Supabase insertion (the fields are validated by ingredientReportSchema)
     const reportToInsert = {
-      ingredient_name: reportData.ingredient.trim(),
-      feedback_text: reportData.feedback.trim(),
-      product_id: reportData.productId || null,
-      is_vegan_at_report_time: reportData.isVegan !== undefined ? reportData.isVegan : null,
-      user_id: reportData.userId || 'anonymous', // Uses DB default if null/undefined
+      ingredient_name: reportData.ingredient,
+      feedback_text: reportData.feedback,
+      // Barcodes are stored as GTIN-14, the same key as in the product store
+      product_id: normalizeGtin(reportData.productId) || reportData.productId || null,
+      is_vegan_at_report_time: reportData.isVegan ?? null,
+      user_id: getUserId(req), // The authenticated user, or 'anonymous'
       // Attempt to parse client timestamp, otherwise leave null for DB default
       client_timestamp: reportData.timestamp ? new Date(reportData.timestamp).toISOString() : null
       // 'status' will use the default 'new' from the database
     };
 
-    // 3. Insert data into Supabase
+    // 2. Insert data into Supabase
     logger.info('Attempting to insert ingredient report into Supabase...', { report: reportToInsert });
     const { error: insertError } = await supabase
       .from('ingredient_reports')
@@ -77,7 +56,7 @@ router.post('/ingredient', (async (req: Request, res: Response) => {
         userId: reportToInsert.user_id
     });
 
-    // 4. Send success response
+    // 3. Send success response
     res.status(200).json({ 
       success: true, 
       message: 'Ingredient report received and saved successfully.' 
@@ -85,7 +64,7 @@ router.post('/ingredient', (async (req: Request, res: Response) => {
     return;
 
   } catch (error: any) {
-    // 5. Handle errors (including validation and Supabase errors)
+    // 4. Handle errors (including Supabase errors)
     logger.error('Error processing ingredient report', { 
       error: error.message,
       stack: error.stack,
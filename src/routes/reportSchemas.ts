@@ -0,0 +1,50 @@
+/**
+ * Scheman för rapportroutern (/api/reports)
+ */
+import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import { jsonRequest, jsonResponse, z } from '../utils/openApi';
+import { authErrorResponses, errorResponse, OPTIONAL_BEARER_AUTH, userIdSchema } from './requestSchemas';
+
+/**
+ * Ett obligatoriskt textfält som inte får vara tomt
+ */
+function requiredText(field: string) {
+  const message = `Missing or invalid required field: ${field}`;
+  return z.string({ errorMap: () => ({ message }) })
+    .trim()
+    .min(1, message);
+}
+
+export const ingredientReportSchema = z.object({
+  ingredient: requiredText('ingredient'),
+  feedback: requiredText('feedback'),
+  productId: z.string().nullish().openapi({ description: 'Id of the product or analysis, or its barcode' }),
+  isVegan: z.boolean().nullish().openapi({ description: 'Product status at the time of the report' }),
+  userId: userIdSchema.nullish(),
+  timestamp: z.string()
+    .refine(value => !isNaN(Date.parse(value)), 'Invalid timestamp: must be an ISO 8601 date')
+    .nullish()
+    .openapi({ description: 'Client timestamp (ISO 8601)' })
+}).openapi('IngredientReport');
+
+export type IngredientReport = z.output<typeof ingredientReportSchema>;
+
+/**
+ * Registrera rapportrouterns anrop i OpenAPI-dokumentet
+ */
+export function registerReportPaths(registry: OpenAPIRegistry): void {
+  registry.registerPath({
+    method: 'post',
+    path: '/reports/ingredient',
+    tags: ['Reports'],
+    summary: 'Report a wrongly classified ingredient',
+    security: OPTIONAL_BEARER_AUTH,
+    request: { body: jsonRequest(ingredientReportSchema) },
+    responses: {
+      200: jsonResponse(z.object({ success: z.literal(true), message: z.string() }), 'The report was saved'),
+      400: errorResponse('successMessage', 'Invalid report'),
+      ...authErrorResponses('successMessage'),
+      500: errorResponse('successMessage', 'The report could not be saved')
+    }
+  });
+}
@@ -0,0 +1,121 @@
+/**
+ * Gemensamma fält- och felscheman för routrarnas Zod-scheman.
+ * Fälten tolkas på samma sätt som tidigare i routrarna: ett tomt värde ger standardvärdet.
+ */
+import { ZodTypeAny } from 'zod';
+import { ResponseConfig } from '@asteasolutions/zod-to-openapi';
+import { jsonResponse, z } from '../utils/openApi';
+import { ValidationErrorStyle } from '../utils/requestValidation';
+import { DEFAULT_DIET_PROFILE, DIET_PROFILES, INVALID_DIET_PROFILE_MESSAGE, parseDietProfile } from '../utils/dietProfiles';
+import { DEFAULT_TRACE_POLICY, INVALID_TRACE_POLICY_MESSAGE, parseTracePolicy, TRACE_POLICIES } from '../utils/tracePolicy';
+import {
+  ANALYSIS_RESPONSE_VERSION,
+  DEFAULT_RESPONSE_VERSION,
+  INVALID_RESPONSE_VERSION_MESSAGE,
+  parseResponseVersion
+} from '../utils/analysisResponse';
+import { INVALID_GTIN_MESSAGE, normalizeGtin } from '../utils/gtin';
+
+export const dietProfileSchema = z.preprocess(
+  value => parseDietProfile(value) ?? value,
+  z.enum(DIET_PROFILES, { errorMap: () => ({ message: INVALID_DIET_PROFILE_MESSAGE }) })
+).openapi({ description: 'Diet profile to compute the verdict against', default: DEFAULT_DIET_PROFILE });
+
+export const tracePolicySchema = z.preprocess(
+  value => parseTracePolicy(value) ?? value,
+  z.enum(TRACE_POLICIES, { errorMap: () => ({ message: INVALID_TRACE_POLICY_MESSAGE }) })
+).openapi({ description: 'How "may contain" ingredients affect the verdict', default: DEFAULT_TRACE_POLICY });
+
+export const responseVersionSchema = z.preprocess(
+  value => parseResponseVersion(value) ?? value,
+  z.union([z.literal(1), z.literal(ANALYSIS_RESPONSE_VERSION)], {
+    errorMap: () => ({ message: INVALID_RESPONSE_VERSION_MESSAGE })
+  })
+).openapi({ description: 'Response format; 1 is the legacy format of the endpoint', default: DEFAULT_RESPONSE_VERSION });
+
+/**
+ * Streckkod; mellanslag och bindestreck ignoreras och värdet normaliseras till GTIN-14
+ */
+export const gtinSchema = z.string({ errorMap: () => ({ message: INVALID_GTIN_MESSAGE }) })
+  .refine(value => normalizeGtin(value) !== null, INVALID_GTIN_MESSAGE)
+  .transform(value => normalizeGtin(value) as string)
+  .openapi({ description: 'EAN-8, UPC-A, EAN-13 or GTIN-14 barcode', example: '7310865004703' });
+
+// Ett tomt värde betyder att streckkod saknas
+export const optionalGtinSchema = z.preprocess(
+  value => (value === '' || value === null ? undefined : value),
+  gtinSchema.optional()
+);
+
+// Felkoder för de gemensamma fälten
+export const COMMON_ERROR_CODES: Record<string, string> = {
+  dietProfile: 'INVALID_DIET_PROFILE',
+  tracePolicy: 'INVALID_TRACE_POLICY',
+  responseVersion: 'INVALID_RESPONSE_VERSION',
+  gtin: 'INVALID_GTIN'
+};
+
+export const codeErrorResponseSchema = z.object({
+  error: z.string().openapi({ example: 'INVALID_DIET_PROFILE' }),
+  message: z.string(),
+  details: z.unknown().optional()
+}).openapi('ErrorResponse');
+
+export const successCodeErrorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string().openapi({ example: 'INVALID_NAME' }),
+  message: z.string(),
+  details: z.unknown().optional()
+}).openapi('CodedFailureResponse');
+
+export const successMessageErrorResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string()
+}).openapi('FailureResponse');
+
+const ERROR_RESPONSE_SCHEMAS: Record<ValidationErrorStyle, ZodTypeAny> = {
+  code: codeErrorResponseSchema,
+  successCode: successCodeErrorResponseSchema,
+  successMessage: successMessageErrorResponseSchema
+};
+
+/**
+ * Ett felsvar i routerns format
+ */
+export function errorResponse(style: ValidationErrorStyle, description: string): ResponseConfig {
+  return jsonResponse(ERROR_RESPONSE_SCHEMAS[style], description);
+}
+
+// Säkerhetskrav i OpenAPI-dokumentet (se middleware/auth)
+export const BEARER_AUTH: Record<string, string[]>[] = [{ bearerAuth: [] }];
+export const OPTIONAL_BEARER_AUTH: Record<string, string[]>[] = [{ bearerAuth: [] }, {}];
+
+/**
+ * Felsvaren från autentiseringen, i routerns format
+ */
+export function authErrorResponses(style: ValidationErrorStyle): Record<number, ResponseConfig> {
+  return {
+    401: errorResponse(style, 'Missing, malformed or invalid access token (AUTH_REQUIRED, INVALID_TOKEN)'),
+    403: errorResponse(style, 'The userId is not the authenticated user (USER_MISMATCH)')
+  };
+}
+
+export const userIdSchema = z.string().openapi({
+  description: 'Must be the authenticated user, or "anonymous" without an access token'
+});
+
+export const RETRY_AFTER_HEADER = {
+  'Retry-After': { description: 'Seconds until the limit resets', schema: { type: 'integer' as const } }
+};
+
+/**
+ * Svaret när en gräns i middleware/rateLimit har nåtts, i routerns format
+ */
+export function rateLimitErrorResponse(style: ValidationErrorStyle): Record<number, ResponseConfig> {
+  return {
+    429: {
+      ...errorResponse(style, 'Too many requests (RATE_LIMITED); details says which limit was reached'),
+      headers: RETRY_AFTER_HEADER
+    }
+  };
+}
@@ -1,19 +1,37 @@
 import { Router, Request, Response, RequestHandler } from 'express';
 import { logger } from '../utils/logger';
 import { VideoAnalysisService } from '../services/videoAnalysisService';
+import { VideoAnalysisProgressListener } from '../utils/videoAnalysisProgress';
 import { checkIngredientStatus } from "../utils/ingredientsDatabase";
+import { ANALYSIS_RESPONSE_VERSION, createVideoAnalysisResponse } from '../utils/analysisResponse';
+import { toLegacyMediaResponse } from '../utils/legacyAnalysisResponse';
+import { AppError } from '../utils/errorHandling';
+import { formatRequestValidationError, validateRequest } from '../utils/requestValidation';
+import { removeVideoUpload } from '../utils/videoFiles';
+import { requireAdmin } from '../middleware/adminAuth';
+import { ANONYMOUS_USER_ID, authenticate } from '../middleware/auth';
+import { rateLimit } from '../middleware/rateLimit';
+import { claimVideoUpload, receiveVideoUpload } from '../middleware/videoUpload';
+import { createProductFromVideoAnalysis, productStore, StoredProduct, toProductReference } from '../services/productStore';
+import { auditLog } from '../services/auditLogService';
+import { VideoJob, videoJobService } from '../services/videoJobService';
+import { VideoUploadSession, videoUploadService } from '../services/videoUploadService';
+import {
+  IngredientSuggestion,
+  ingredientSuggestionSchema,
+  VideoAnalysisRequest,
+  videoAnalysisRequestSchema,
+  videoJobParamsSchema,
+  VideoJobRequest,
+  videoJobRequestSchema,
+  VideoUploadCreateRequest,
+  videoUploadCreateSchema,
+  videoUploadParamsSchema
+} from './videoSchemas';
 // import { checkUserLimit } from '../services/supabaseService'; // Removed unused import
 // import { z } from 'zod'; // Removed unused import
 import { VideoAnalysisResult } from '../types/analysisTypes'; // Keep VideoAnalysisResult as it's used in mock data
 
-// Local type definition for request
-interface MediaAnalysisRequest {
-  base64Data: string;
-  mimeType: string;
-  preferredLanguage?: string;
-  requestId?: string; // Added for deduplication
-}
-
 const router = Router();
 
 // Request deduplication cache
@@ -35,6 +53,33 @@ const apiStats = {
 
 const videoAnalysisService = new VideoAnalysisService();
 
+/**
+ * Current API usage statistics (also served by /api/admin/stats)
+ */
+export function getVideoApiStats() {
+  return {
+    ...apiStats,
+    recentRequestsCount: recentRequests.size,
+    uptime: process.uptime()
+  };
+}
+
+/**
+ * Reset the API usage statistics and the deduplication cache
+ */
+export function resetVideoApiStats(): void {
+  apiStats.requestsReceived = 0;
+  apiStats.requestsProcessed = 0;
+  apiStats.requestsFailed = 0;
+  apiStats.totalProcessingTimeMs = 0;
+  apiStats.averageProcessingTimeMs = 0;
+  apiStats.lastRequestTimestamp = new Date().toISOString();
+  apiStats.duplicateRequestsBlocked = 0;
+  apiStats.ingredientCorrections = 0;
+
+  recentRequests.clear();
+}
+
 /**
  * Clean up old request entries from the deduplication cache
  */
@@ -60,21 +105,16 @@ function cleanupOldRequests(): void {
 
 /**
  * GET /api/video/stats
- * Get API usage statistics for monitoring
+ * Get API usage statistics for monitoring (admin only, see also /api/admin/stats)
  */
-router.get('/stats', (async (_req: Request, res: Response) => {
+router.get('/stats', requireAdmin('stats.read', 'successMessage'), (async (req: Request, res: Response) => {
   try {
-    // Check for admin authorization in production
-    // TODO: Add proper auth mechanism
-    
+    await auditLog.record({ action: 'stats.read', actor: req.admin!, target: 'video', success: true, ip: req.ip });
+
     // Return the current statistics
     res.status(200).json({
       success: true,
-      stats: {
-        ...apiStats,
-        recentRequestsCount: recentRequests.size,
-        uptime: process.uptime()
-      }
+      stats: getVideoApiStats()
     });
   } catch (error: any) {
     logger.error('Error retrieving API stats', { error });
@@ -87,25 +127,12 @@ router.get('/stats', (async (_req: Request, res: Response) => {
 
 /**
  * POST /api/video/reset-stats
- * Reset API usage statistics (admin only)
+ * Reset API usage statistics (admin only, see also /api/admin/stats/reset)
  */
-router.post('/reset-stats', (async (_req, res) => {
+router.post('/reset-stats', requireAdmin('stats.reset', 'successMessage'), (async (req: Request, res: Response) => {
   try {
-    // Check for admin authorization in production
-    // TODO: Add proper auth mechanism
-    
-    // Reset statistics
-    apiStats.requestsReceived = 0;
-    apiStats.requestsProcessed = 0;
-    apiStats.requestsFailed = 0;
-    apiStats.totalProcessingTimeMs = 0;
-    apiStats.averageProcessingTimeMs = 0;
-    apiStats.lastRequestTimestamp = new Date().toISOString();
-    apiStats.duplicateRequestsBlocked = 0;
-    apiStats.ingredientCorrections = 0;
-    
-    // Clear request cache
-    recentRequests.clear();
+    resetVideoApiStats();
+    await auditLog.record({ action: 'stats.reset', actor: req.admin!, target: 'video', success: true, ip: req.ip });
     
     res.status(200).json({
       success: true,
@@ -120,19 +147,171 @@ router.post('/reset-stats', (async (_req, res) => {
   }
 }) as RequestHandler);
 
+/**
+ * A validated request, with the path of the video when it was uploaded as a file,
+ * and the signed-in user who may save the analysis to the product store (null when anonymous)
+ */
+type VideoAnalysisInput = VideoAnalysisRequest & { videoFile?: string; verifiedBy: string | null };
+
+/**
+ * The validated request of a video analysis endpoint
+ */
+function getVideoAnalysisInput(req: Request, body: VideoAnalysisRequest = req.body): VideoAnalysisInput {
+  return {
+    ...body,
+    videoFile: req.videoUpload?.path,
+    verifiedBy: req.user && !req.user.isAnonymous ? req.user.id : null
+  };
+}
+
+/**
+ * Answer 429 if a request with the same requestId arrived within the dedupe window,
+ * otherwise remember the requestId
+ * @returns Whether the request was rejected
+ */
+function rejectDuplicateRequest(requestId: string | undefined, res: Response): boolean {
+  if (!requestId) {
+    return false;
+  }
+  const now = Date.now();
+  
+  if (recentRequests.has(requestId) && 
+      now - recentRequests.get(requestId)! < DEDUPE_WINDOW_MS) {
+    logger.warn('Detected duplicate request within dedupe window', { requestId });
+    apiStats.duplicateRequestsBlocked++;
+    res.status(429).json({
+      success: false,
+      error: 'Duplicate request, analysis already in progress',
+      retryAfterMs: DEDUPE_WINDOW_MS - (now - recentRequests.get(requestId)!)
+    });
+    return true;
+  }
+  
+  // Store request ID with timestamp
+  recentRequests.set(requestId, now);
+  
+  // Clean up old entries if cache is too large
+  if (recentRequests.size > MAX_CACHE_SIZE) {
+    cleanupOldRequests();
+  }
+  return false;
+}
+
+/**
+ * The stored product that answers a repeat scan of the barcode, or null if the video must be analyzed.
+ * Only a barcode alone is answered from the store; a sent video is always analyzed.
+ */
+async function findReusableProduct(request: VideoAnalysisInput): Promise<StoredProduct | null> {
+  const hasVideo = !!request.base64Data || !!request.videoFile;
+  const storedProduct = request.gtin && !hasVideo ? await productStore.getProduct(request.gtin) : null;
+  return storedProduct !== null && productStore.isReusable(storedProduct, request.dietProfile) ? storedProduct : null;
+}
+
+/**
+ * The required field missing from the request, or null. No video is needed for a repeat scan.
+ */
+function getMissingVideoField(request: VideoAnalysisInput, storedProduct: StoredProduct | null): string | null {
+  if (storedProduct) {
+    return null;
+  }
+  if (!request.base64Data && !request.videoFile) {
+    return 'base64Data';
+  }
+  return request.mimeType ? null : 'mimeType';
+}
+
+/**
+ * Analyze the video, or answer a repeat scan from the stored product, and build the response body.
+ * Shared by the synchronous endpoint, the progress stream and video jobs.
+ * An uploaded video file is removed when the analysis is done.
+ * @param onProgress Called when a step of the video analysis starts or ends
+ */
+async function runVideoAnalysis(
+  request: VideoAnalysisInput,
+  storedProduct: StoredProduct | null,
+  onProgress?: VideoAnalysisProgressListener
+): Promise<object> {
+  const startTime = Date.now();
+  const { base64Data, videoFile, mimeType, preferredLanguage, requestId, dietProfile, tracePolicy, responseVersion, gtin, verifiedBy } = request;
+
+  // Process the video with VideoAnalysisService, or the stored product for a repeat scan
+  let result: VideoAnalysisResult;
+  try {
+    result = storedProduct
+      ? videoAnalysisService.analyzeStoredProduct(storedProduct, dietProfile, tracePolicy)
+      : await videoAnalysisService.analyzeVideo(
+          videoFile ? { filePath: videoFile } : { base64Data: base64Data! },
+          mimeType!,
+          preferredLanguage || 'sv', // Default to Swedish if not provided
+          dietProfile,
+          tracePolicy,
+          onProgress
+        );
+  } finally {
+    if (videoFile) {
+      await removeVideoUpload(videoFile);
+    }
+  }
+  if (storedProduct) {
+    result.product = toProductReference(storedProduct, true);
+  } else if (gtin) {
+    // Save the new analysis for repeat scans (signed-in users only)
+    result.product = await productStore.saveVerifiedProduct(createProductFromVideoAnalysis(gtin, result), verifiedBy);
+  }
+  
+  const processingTime = (Date.now() - startTime) / 1000;
+  logger.info('Video analysis completed by service', { 
+    processingTimeSec: processingTime.toFixed(2),
+    ingredientCount: result.ingredients.length,
+    isVegan: result.isVegan,
+    isUncertain: result.isUncertain,
+    requestId: requestId || 'not-provided'
+  });
+  
+  // Version 1 is the format expected by older app builds
+  const response = createVideoAnalysisResponse(result, { preferredLanguage });
+  const transformedResult = toLegacyMediaResponse(response);
+  const responseBody = responseVersion === ANALYSIS_RESPONSE_VERSION
+    ? response
+    : { success: true, result: transformedResult };
+  
+  // Update success statistics
+  apiStats.requestsProcessed++;
+  const processingTimeMs = Date.now() - startTime;
+  apiStats.totalProcessingTimeMs += processingTimeMs;
+  apiStats.averageProcessingTimeMs = apiStats.totalProcessingTimeMs / apiStats.requestsProcessed;
+  
+  // Logga exakt vilken respons som skickas till klienten (eller sparas i jobbet)
+  logger.info('Sending analysis response to client', {
+    responseData: JSON.stringify(responseBody),
+    isVegan: transformedResult.isVegan,
+    isUncertain: transformedResult.isUncertain,
+    status: transformedResult.status,
+    ingredientCount: transformedResult.ingredientList?.length || 0,
+    veganCount: transformedResult.veganIngredients?.length || 0,
+    nonVeganCount: transformedResult.nonVeganIngredients?.length || 0, 
+    uncertainCount: transformedResult.uncertainIngredients?.length || 0,
+    problemIngredient: transformedResult.problemIngredient,
+    confidence: transformedResult.confidence,
+    traceIngredients: transformedResult.traceIngredients,
+    databaseVersion: transformedResult.databaseVersion
+  });
+  
+  return responseBody;
+}
+
 /**
  * Helper function to process video analysis requests
  * This is extracted to avoid code duplication between the endpoints
  */
 async function processVideoAnalysisRequest(req: Request, res: Response): Promise<void> {
-  const startTime = Date.now();
-  
   // Ny loggning för att se exakt vad som kommer in i begäran
   logger.info('Video analysis request details', { 
     bodyKeys: req.body ? Object.keys(req.body) : [],
     bodySize: req.body ? JSON.stringify(req.body).length : 0,
     hasBase64Data: !!req.body?.base64Data,
     hasMimeType: !!req.body?.mimeType,
+    uploadSizeBytes: req.videoUpload?.size,
     headers: {
       accept: req.headers['accept'],
       'content-length': req.headers['content-length'],
@@ -149,198 +328,54 @@ async function processVideoAnalysisRequest(req: Request, res: Response): Promise
   apiStats.lastRequestTimestamp = new Date().toISOString();
   
   try {
-    const { base64Data, mimeType, preferredLanguage, requestId } = req.body as MediaAnalysisRequest;
+    const request = getVideoAnalysisInput(req);
+    const { base64Data, mimeType, preferredLanguage, requestId, dietProfile, tracePolicy, gtin } = request;
+
+    // A repeat scan of a stored product is answered without a video
+    const storedProduct = await findReusableProduct(request);
+    const isRepeatScan = storedProduct !== null;
     
     // Validate required fields
-    if (!base64Data) {
-      logger.warn('Video analysis request missing base64Data field');
-      apiStats.requestsFailed++;
-      res.status(400).json({
-        success: false,
-        error: 'Missing required field: base64Data'
-      });
-      return;
-    }
-    
-    if (!mimeType) {
-      logger.warn('Video analysis request missing mimeType field');
-      apiStats.requestsFailed++;
-      res.status(400).json({
-        success: false,
-        error: 'Missing required field: mimeType'
-      });
-      return;
-    }
-    
-    // Validate mimeType format
-    if (!mimeType.startsWith('video/')) {
-      logger.warn(`Invalid mimeType received: ${mimeType}`);
+    const missingField = getMissingVideoField(request, storedProduct);
+    if (missingField) {
+      logger.warn(`Video analysis request missing ${missingField} field`);
       apiStats.requestsFailed++;
       res.status(400).json({
         success: false,
-        error: 'Invalid mimeType: Must be a video type (video/*)'
+        error: `Missing required field: ${missingField}`
       });
       return;
     }
     
     // Check for duplicate requests if requestId is provided
-    if (requestId) {
-      const now = Date.now();
-      
-      if (recentRequests.has(requestId) && 
-          now - recentRequests.get(requestId)! < DEDUPE_WINDOW_MS) {
-        logger.warn('Detected duplicate request within dedupe window', { requestId });
-        apiStats.duplicateRequestsBlocked++;
-        res.status(429).json({
-          success: false,
-          error: 'Duplicate request, analysis already in progress',
-          retryAfterMs: DEDUPE_WINDOW_MS - (now - recentRequests.get(requestId)!)
-        });
-        return;
-      }
-      
-      // Store request ID with timestamp
-      recentRequests.set(requestId, now);
-      
-      // Clean up old entries if cache is too large
-      if (recentRequests.size > MAX_CACHE_SIZE) {
-        cleanupOldRequests();
-      }
+    if (rejectDuplicateRequest(requestId, res)) {
+      return;
     }
     
     logger.info('Video analysis request received', { 
       mimeType,
       preferredLanguage,
-      dataSize: base64Data.length,
+      dietProfile,
+      tracePolicy,
+      gtin,
+      isRepeatScan,
+      dataSize: base64Data?.length || 0,
+      uploadSizeBytes: req.videoUpload?.size,
       requestId: requestId || 'not-provided',
       endpoint: req.originalUrl // Log which endpoint was used
     });
     
-    // Process the video with VideoAnalysisService
-    const result = await videoAnalysisService.analyzeVideo(
-      base64Data,
-      mimeType,
-      preferredLanguage || 'sv' // Default to Swedish if not provided
-    );
-    
-    const processingTime = (Date.now() - startTime) / 1000;
-    logger.info('Video analysis completed by service', { 
-      processingTimeSec: processingTime.toFixed(2),
-      ingredientCount: result.ingredients.length,
-      isVegan: result.isVegan,
-      isUncertain: result.isUncertain,
-      requestId: requestId || 'not-provided'
-    });
-    
-    // Transform the result to the format expected by the frontend
-    const declaredIngredients = result.ingredients.filter(ing => ing.source === 'declared');
-    const traceIngredients = result.ingredients.filter(ing => ing.source === 'trace');
-
-    // --- Build watchedIngredients list --- 
-    // TODO: Replace this placeholder with actual user watched keywords logic
-    const userWatchedKeywords = ["vete", "jordnöt", "mjölk"]; // Placeholder for keywords
-    const watchedIngredientsList: any[] = []; // Explicitly type if possible later
-
-    for (const ingredient of result.ingredients) { // Iterate ALL ingredients
-        const lowerCaseName = ingredient.name.toLowerCase();
-        const isWatched = userWatchedKeywords.some(keyword => lowerCaseName.includes(keyword.toLowerCase()));
-
-        if (isWatched) {
-            watchedIngredientsList.push({
-                name: ingredient.name, 
-                // Status and color reflect the ingredient's actual status, not just non-vegan/uncertain
-                status: ingredient.isUncertain 
-                  ? 'uncertain' 
-                  : (ingredient.isVegan === null ? 'unknown' : (ingredient.isVegan ? 'vegan' : 'non-vegan')),
-                statusColor: ingredient.isUncertain 
-                  ? '#FFBF00' 
-                  : (ingredient.isVegan === null ? 'grey' : (ingredient.isVegan ? '#90EE90' : '#FF6347')),
-                // Reason and Description are adjusted based on source
-                reason: ingredient.source === 'trace' 
-                    ? (ingredient.isUncertain ? 'Potentiellt icke-vegansk (spårämne)' : 'Icke-vegansk (spårämne)') 
-                    : (ingredient.isUncertain ? 'Potentiellt icke-vegansk' : (ingredient.isVegan === false ? 'Icke-vegansk' : 'Vegansk')), // Add reason for vegan too
-                description: ingredient.source === 'trace'
-                    ? `Detta ämne nämns endast i "kan innehålla spår av"-varningen.`
-                    : (ingredient.isUncertain 
-                        ? 'Denna ingrediens kan vara antingen växt- eller djurbaserad.'
-                        : (ingredient.isVegan === false ? 'Denna ingrediens är av animaliskt ursprung.' : 'Denna ingrediens är vegansk.')) // Add description for vegan too
-            });
-        }
-    }
-    // --- End Build watchedIngredients list --- 
-
-    const transformedResult = {
-      success: true,
-      status: result.isVegan === null 
-        ? (result.isUncertain ? 'uncertain' : 'unknown') 
-        : (result.isVegan ? 'vegan' : 'non-vegan'),
-      isVegan: result.isVegan,
-      isUncertain: result.isUncertain,
-      confidence: result.confidence,
-      ingredientList: declaredIngredients.map((ingredient) => ({
-        name: ingredient.name,
-        status: ingredient.isUncertain 
-          ? 'uncertain' 
-          : (ingredient.isVegan === null ? 'unknown' : (ingredient.isVegan ? 'vegan' : 'non-vegan')),
-        statusColor: ingredient.isUncertain 
-          ? '#FFBF00' 
-          : (ingredient.isVegan === null ? 'grey' : (ingredient.isVegan ? '#90EE90' : '#FF6347')),
-        description: ingredient.isUncertain 
-          ? `Ingrediensen "${ingredient.name}" kan vara vegansk eller icke-vegansk.`
-          : (ingredient.isVegan === null ? `Status okänd för "${ingredient.name}".` : (ingredient.isVegan ? `Ingrediensen "${ingredient.name}" är vegansk.` : `Ingrediensen "${ingredient.name}" är inte vegansk.`))
-      })),
-      watchedIngredients: watchedIngredientsList,
-      veganIngredients: declaredIngredients
-        .filter(ingredient => ingredient.isVegan === true)
-        .map(ingredient => ingredient.name),
-      nonVeganIngredients: result.nonVeganIngredients,
-      uncertainIngredients: result.uncertainIngredients,
-      problemIngredient: declaredIngredients.find(ingredient => ingredient.isVegan === false && !ingredient.isUncertain)?.name || null,
-      uncertainReasons: result.uncertainReasons || [],
-      reasoning: result.reasoning || '',
-      usageInfo: result.usageInfo || {
-        analysesUsed: 0,
-        analysesLimit: 10,
-        remaining: 10,
-        isPremium: false
-      },
-      traceIngredients: traceIngredients.map(ingredient => ingredient.name)
-    };
+    // runVideoAnalysis removes the uploaded file, also if the client disconnects first
+    claimVideoUpload(req);
+    const responseBody = await runVideoAnalysis(request, storedProduct);
     
     // Remove the requestId from the deduplication cache after successful processing
     if (requestId) {
       recentRequests.delete(requestId);
     }
     
-    // Update success statistics
-    apiStats.requestsProcessed++;
-    const processingTimeMs = Date.now() - startTime;
-    apiStats.totalProcessingTimeMs += processingTimeMs;
-    apiStats.averageProcessingTimeMs = apiStats.totalProcessingTimeMs / apiStats.requestsProcessed;
-    
-    // Logga exakt vilken respons som skickas till klienten
-    logger.info('Sending analysis response to client', {
-      responseData: JSON.stringify({
-        success: true,
-        result: transformedResult
-      }),
-      isVegan: transformedResult.isVegan,
-      isUncertain: transformedResult.isUncertain,
-      status: transformedResult.status,
-      ingredientCount: transformedResult.ingredientList?.length || 0,
-      veganCount: transformedResult.veganIngredients?.length || 0,
-      nonVeganCount: transformedResult.nonVeganIngredients?.length || 0, 
-      uncertainCount: transformedResult.uncertainIngredients?.length || 0,
-      problemIngredient: transformedResult.problemIngredient,
-      confidence: transformedResult.confidence,
-      traceIngredients: transformedResult.traceIngredients
-    });
-    
-    // Return the analysis result in the format expected by the frontend
-    res.status(200).json({
-      success: true,
-      result: transformedResult
-    });
+    // Return the analysis result in the requested format
+    res.status(200).json(responseBody);
   } catch (error: any) {
     logger.error('Error processing video analysis', { 
       error: error.message,
@@ -362,14 +397,13 @@ async function processVideoAnalysisRequest(req: Request, res: Response): Promise
 /**
  * POST /video/analyze-video
  * Main endpoint for analyzing a video
- * Request Body: {
- *   base64Data: string, // Required, base64-encoded video data
- *   mimeType: string,   // Required, must be 'video/*' format
- *   preferredLanguage?: string // Optional preferred language
- *   requestId?: string    // Optional client-generated request ID for deduplication
- * }
- */
-router.post('/analyze-video', (async (req: Request, res: Response) => {
+ * Request Body: VideoAnalysisRequest (see videoSchemas) as JSON, or the video as a
+ * multipart or raw upload (see middleware/videoUpload)
+ */
+router.post('/analyze-video', authenticate({ allowAnonymous: true, style: 'successMessage' }), rateLimit('video', { style: 'successMessage' }), receiveVideoUpload({ style: 'successMessage' }), validateRequest(
+  { body: videoAnalysisRequestSchema },
+  { style: 'successMessage' }
+), (async (req: Request, res: Response) => {
   // Set CORS headers to ensure mobile app can access this endpoint
   res.header('Access-Control-Allow-Origin', '*');
   res.header('Access-Control-Allow-Methods', 'POST, OPTIONS');
@@ -402,6 +436,396 @@ router.options('/analyze-video', ((_req: Request, res: Response) => {
   res.sendStatus(200);
 }) as RequestHandler);
 
+const SSE_HEARTBEAT_MS = 15000; // Keeps proxies from closing a quiet stream during the Gemini call
+
+/**
+ * POST /api/video/analyze-video/stream
+ * Analyze a video like /analyze-video, but answer with Server-Sent Events:
+ * a "progress" event when each step of the analysis starts or ends (with timings and,
+ * once parsed, the preliminary ingredients), then a single "result" or "error" event.
+ * Request Body: VideoAnalysisRequest (see videoSchemas)
+ */
+router.post('/analyze-video/stream', authenticate({ allowAnonymous: true, style: 'successMessage' }), rateLimit('video', { style: 'successMessage' }), receiveVideoUpload({ style: 'successMessage' }), validateRequest(
+  { body: videoAnalysisRequestSchema },
+  { style: 'successMessage' }
+), (async (req: Request, res: Response) => {
+  apiStats.requestsReceived++;
+  apiStats.lastRequestTimestamp = new Date().toISOString();
+
+  const request = getVideoAnalysisInput(req);
+  let storedProduct: StoredProduct | null;
+  try {
+    storedProduct = await findReusableProduct(request);
+  } catch (error: any) {
+    logger.error('Error looking up stored product for video stream', { error: error.message });
+    apiStats.requestsFailed++;
+    res.status(500).json({
+      success: false,
+      error: 'Video analysis failed',
+      message: error.message || 'Unknown error'
+    });
+    return;
+  }
+
+  // Invalid requests are answered with JSON before the stream starts
+  const missingField = getMissingVideoField(request, storedProduct);
+  if (missingField) {
+    logger.warn(`Video stream request missing ${missingField} field`);
+    apiStats.requestsFailed++;
+    res.status(400).json({
+      success: false,
+      error: `Missing required field: ${missingField}`
+    });
+    return;
+  }
+  if (rejectDuplicateRequest(request.requestId, res)) {
+    return;
+  }
+
+  // no-transform keeps the compression middleware from buffering the events
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  let clientClosed = false;
+  let eventId = 0;
+  const sendEvent = (event: string, data: unknown): void => {
+    if (!clientClosed) {
+      res.write(`id: ${++eventId}\nevent: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+    }
+  };
+  const heartbeat = setInterval(() => {
+    if (!clientClosed) {
+      res.write(': heartbeat\n\n');
+    }
+  }, SSE_HEARTBEAT_MS);
+  // The analysis cannot be cancelled, so it runs to the end (and is counted) even if the client leaves
+  res.on('close', () => {
+    clientClosed = true;
+    clearInterval(heartbeat);
+  });
+
+  logger.info('Video analysis stream started', {
+    gtin: request.gtin,
+    isRepeatScan: storedProduct !== null,
+    dataSize: request.base64Data?.length || 0,
+    uploadSizeBytes: req.videoUpload?.size,
+    requestId: request.requestId || 'not-provided'
+  });
+
+  claimVideoUpload(req);
+  try {
+    const responseBody = await runVideoAnalysis(request, storedProduct, progress => sendEvent('progress', progress));
+    sendEvent('result', responseBody);
+
+    // Remove the requestId from the deduplication cache after successful processing
+    if (request.requestId) {
+      recentRequests.delete(request.requestId);
+    }
+  } catch (error: any) {
+    logger.error('Error processing video analysis stream', { error: error.message, stack: error.stack });
+    apiStats.requestsFailed++;
+    sendEvent('error', {
+      success: false,
+      error: 'Video analysis failed',
+      message: error.message || 'Unknown error'
+    });
+  } finally {
+    clearInterval(heartbeat);
+    res.end();
+  }
+}) as RequestHandler);
+
+const VIDEO_JOB_RETRY_AFTER_SECONDS = 30; // Suggested wait when the job queue is full
+
+/**
+ * The job as returned to the client (without the owner and callback URL)
+ */
+function toVideoJobResponse(job: VideoJob) {
+  const { id, stage, stages, createdAt, updatedAt, result, error } = job;
+  return { id, stage, stages, createdAt, updatedAt, result, error };
+}
+
+/**
+ * POST /api/video/jobs
+ * Start a video analysis in the background and return the job right away.
+ * Poll GET /api/video/jobs/:id, or pass a callbackUrl to be notified when it is done.
+ * Request Body: VideoJobRequest (see videoSchemas)
+ */
+router.post('/jobs', authenticate({ allowAnonymous: true, style: 'successMessage' }), rateLimit('video', { style: 'successMessage' }), receiveVideoUpload({ style: 'successMessage' }), validateRequest(
+  { body: videoJobRequestSchema },
+  { style: 'successMessage' }
+), (async (req: Request, res: Response) => {
+  apiStats.requestsReceived++;
+  apiStats.lastRequestTimestamp = new Date().toISOString();
+
+  try {
+    const { callbackUrl, ...body } = req.body as VideoJobRequest;
+    const request = getVideoAnalysisInput(req, body);
+    const user = req.user!;
+
+    // The same requestId from the same user returns the existing job instead of analyzing twice
+    const existingJob = request.requestId && !user.isAnonymous
+      ? videoJobService.findByRequestId(user.id, request.requestId)
+      : null;
+    if (existingJob) {
+      logger.info('Returning existing video job for duplicate request', { jobId: existingJob.id, requestId: request.requestId });
+      apiStats.duplicateRequestsBlocked++;
+      res.status(202).location(`${req.baseUrl}/jobs/${existingJob.id}`).json({ success: true, job: toVideoJobResponse(existingJob) });
+      return;
+    }
+
+    const storedProduct = await findReusableProduct(request);
+    const missingField = getMissingVideoField(request, storedProduct);
+    if (missingField) {
+      logger.warn(`Video job request missing ${missingField} field`);
+      apiStats.requestsFailed++;
+      res.status(400).json({
+        success: false,
+        error: `Missing required field: ${missingField}`
+      });
+      return;
+    }
+
+    // Each queued job holds its video in memory, so a full queue turns new jobs away
+    if (videoJobService.isFull()) {
+      logger.warn('Video job queue is full, rejecting job');
+      apiStats.requestsFailed++;
+      res.status(503).set('Retry-After', String(VIDEO_JOB_RETRY_AFTER_SECONDS)).json({
+        success: false,
+        error: 'Video job queue is full',
+        message: 'Too many video analyses are waiting, try again later'
+      });
+      return;
+    }
+
+    // The job removes the uploaded file when it is done
+    claimVideoUpload(req);
+    const job = videoJobService.create({
+      userId: user.id,
+      requestId: request.requestId,
+      callbackUrl
+    }, async (onStage) => {
+      try {
+        return await runVideoAnalysis(request, storedProduct, progress => onStage(progress.stage));
+      } catch (error) {
+        apiStats.requestsFailed++;
+        throw error;
+      }
+    });
+
+    res.status(202).location(`${req.baseUrl}/jobs/${job.id}`).json({ success: true, job: toVideoJobResponse(job) });
+  } catch (error: any) {
+    logger.error('Error creating video job', { error: error.message, stack: error.stack });
+    apiStats.requestsFailed++;
+    res.status(500).json({
+      success: false,
+      error: 'Video analysis failed',
+      message: error.message || 'Unknown error'
+    });
+  }
+}) as RequestHandler);
+
+/**
+ * GET /api/video/jobs/:id
+ * Get the stage of a video analysis job, and the result when it is done
+ */
+router.get('/jobs/:id', authenticate({ allowAnonymous: true, style: 'successMessage' }), validateRequest(
+  { params: videoJobParamsSchema },
+  { style: 'successMessage' }
+), ((req: Request, res: Response) => {
+  const job = videoJobService.get(req.params.id);
+
+  // A signed-in user's job is only shown to that user; the job id is not guessable
+  if (!job || (job.userId !== ANONYMOUS_USER_ID && job.userId !== req.user!.id)) {
+    res.status(404).json({
+      success: false,
+      error: 'Job not found'
+    });
+    return;
+  }
+
+  res.status(200).json({ success: true, job: toVideoJobResponse(job) });
+}) as RequestHandler);
+
+/**
+ * The upload as returned to the client (without the owner and file path)
+ */
+function toVideoUploadResponse(upload: VideoUploadSession) {
+  const { id, mimeType, length, offset, finalized, createdAt, updatedAt, expiresAt } = upload;
+  return { id, mimeType, length, offset, finalized, createdAt, updatedAt, expiresAt };
+}
+
+/**
+ * Send the upload with the tus-style headers that tell the client where to resume
+ */
+function sendVideoUpload(res: Response, status: number, upload: VideoUploadSession): void {
+  res.set({
+    'Upload-Offset': String(upload.offset),
+    'Upload-Length': String(upload.length),
+    'Upload-Expires': new Date(upload.expiresAt).toUTCString(),
+    'Cache-Control': 'no-store'
+  });
+  res.status(status).json({ success: true, upload: toVideoUploadResponse(upload) });
+}
+
+/**
+ * The caller's upload from the :id parameter, or a 404 answer
+ */
+function findVideoUpload(req: Request, res: Response): VideoUploadSession | null {
+  const upload = videoUploadService.get(req.params.id, req.user);
+  if (!upload) {
+    res.status(404).json({
+      success: false,
+      error: 'Upload not found'
+    });
+  }
+  return upload;
+}
+
+/**
+ * Answer an error from the upload service; AppErrors keep their status and details
+ */
+function sendVideoUploadError(req: Request, res: Response, error: any): void {
+  if (res.headersSent || res.destroyed) {
+    return;
+  }
+  if (error instanceof AppError) {
+    if (error.code === 'OFFSET_MISMATCH') {
+      res.set('Upload-Offset', String((error.details as { offset: number }).offset));
+    }
+    res.status(error.statusCode).json(formatRequestValidationError({
+      code: error.code,
+      message: error.message,
+      details: error.details
+    }, 'successMessage'));
+    return;
+  }
+  logger.error('Error handling video upload', { url: req.originalUrl, error: error.message, stack: error.stack });
+  res.status(500).json({
+    success: false,
+    error: 'Video upload failed',
+    message: error.message || 'Unknown error'
+  });
+}
+
+/**
+ * POST /api/video/uploads
+ * Start a resumable upload (in the style of tus.io) for a video that is sent in chunks.
+ * Request Body: VideoUploadRequest (see videoSchemas)
+ */
+router.post('/uploads', authenticate({ allowAnonymous: true, style: 'successMessage' }), rateLimit('upload', { style: 'successMessage' }), validateRequest(
+  { body: videoUploadCreateSchema },
+  { style: 'successMessage' }
+), (async (req: Request, res: Response) => {
+  try {
+    const { length, mimeType } = req.body as VideoUploadCreateRequest;
+    const upload = await videoUploadService.create({ user: req.user, length, mimeType });
+    res.location(`${req.baseUrl}/uploads/${upload.id}`);
+    sendVideoUpload(res, 201, upload);
+  } catch (error: any) {
+    sendVideoUploadError(req, res, error);
+  }
+}) as RequestHandler);
+
+/**
+ * GET (or HEAD) /api/video/uploads/:id
+ * Get how many bytes of the upload have arrived, to resume after an interruption
+ */
+router.get('/uploads/:id', authenticate({ allowAnonymous: true, style: 'successMessage' }), validateRequest(
+  { params: videoUploadParamsSchema },
+  { style: 'successMessage' }
+), ((req: Request, res: Response) => {
+  const upload = findVideoUpload(req, res);
+  if (upload) {
+    sendVideoUpload(res, 200, upload);
+  }
+}) as RequestHandler);
+
+/**
+ * PATCH /api/video/uploads/:id
+ * Append a chunk. The body is the chunk (Content-Type: application/offset+octet-stream)
+ * and the Upload-Offset header must be the offset of the upload.
+ */
+router.patch('/uploads/:id', authenticate({ allowAnonymous: true, style: 'successMessage' }), validateRequest(
+  { params: videoUploadParamsSchema },
+  { style: 'successMessage' }
+), (async (req: Request, res: Response) => {
+  const upload = findVideoUpload(req, res);
+  if (!upload) {
+    return;
+  }
+
+  if (!req.is('application/offset+octet-stream')) {
+    res.status(415).json({
+      success: false,
+      error: 'Content-Type must be application/offset+octet-stream'
+    });
+    return;
+  }
+  const offsetHeader = req.get('Upload-Offset');
+  if (!offsetHeader || !/^\d+$/.test(offsetHeader)) {
+    res.status(400).json({
+      success: false,
+      error: 'Missing or invalid Upload-Offset header'
+    });
+    return;
+  }
+
+  try {
+    await videoUploadService.append(upload, Number(offsetHeader), req);
+    sendVideoUpload(res, 200, upload);
+  } catch (error: any) {
+    // An interrupted chunk is expected on a weak connection; the client resumes from the offset
+    if (req.aborted || req.destroyed) {
+      logger.info('Video upload chunk interrupted', { uploadId: upload.id, offset: upload.offset });
+      return;
+    }
+    sendVideoUploadError(req, res, error);
+  }
+}) as RequestHandler);
+
+/**
+ * POST /api/video/uploads/:id/finalize
+ * Finish an upload that has received all bytes and check the video. The upload is then
+ * analyzed by passing its id as uploadId to /analyze-video, /analyze-video/stream or /jobs.
+ */
+router.post('/uploads/:id/finalize', authenticate({ allowAnonymous: true, style: 'successMessage' }), validateRequest(
+  { params: videoUploadParamsSchema },
+  { style: 'successMessage' }
+), (async (req: Request, res: Response) => {
+  const upload = findVideoUpload(req, res);
+  if (!upload) {
+    return;
+  }
+
+  try {
+    sendVideoUpload(res, 200, await videoUploadService.finalize(upload));
+  } catch (error: any) {
+    sendVideoUploadError(req, res, error);
+  }
+}) as RequestHandler);
+
+/**
+ * DELETE /api/video/uploads/:id
+ * Cancel an upload and remove its file
+ */
+router.delete('/uploads/:id', authenticate({ allowAnonymous: true, style: 'successMessage' }), validateRequest(
+  { params: videoUploadParamsSchema },
+  { style: 'successMessage' }
+), (async (req: Request, res: Response) => {
+  const upload = findVideoUpload(req, res);
+  if (!upload) {
+    return;
+  }
+
+  await videoUploadService.remove(upload.id);
+  res.status(204).end();
+}) as RequestHandler);
+
 /**
  * POST /video/debug-video-api
  * Diagnostic endpoint to check if the video API is working
@@ -515,25 +939,12 @@ router.get('/ingredients', (async (_req: Request, res: Response) => {
  * POST /api/video/ingredients/suggest
  * Suggest a new ingredient classification or update
  */
-router.post('/ingredients/suggest', (async (req: Request, res: Response) => {
+router.post('/ingredients/suggest', validateRequest(
+  { body: ingredientSuggestionSchema },
+  { style: 'successMessage' }
+), (async (req: Request, res: Response) => {
   try {
-    const { ingredient, isVegan, suggestedBy } = req.body;
-    
-    if (!ingredient) {
-      res.status(400).json({
-        success: false,
-        error: 'Missing required field: ingredient'
-      });
-      return;
-    }
-    
-    if (typeof isVegan !== 'boolean') {
-      res.status(400).json({
-        success: false,
-        error: 'Missing or invalid field: isVegan (must be boolean)'
-      });
-      return;
-    }
+    const { ingredient, isVegan, suggestedBy } = req.body as IngredientSuggestion;
     
     // Log the suggestion for later review
     logger.info('Ingredient classification suggestion received', {
@@ -634,81 +1045,8 @@ router.get('/test-full-analysis', async (_req: Request, res: Response) => {
       ingredientCount: result.ingredients.length
     });
 
-    // --- Apply the SAME transformation logic as in processVideoAnalysisRequest ---
-    const declaredIngredients = result.ingredients.filter(ing => ing.source === 'declared');
-    const traceIngredients = result.ingredients.filter(ing => ing.source === 'trace');
-
-    // --- Build watchedIngredients list --- 
-    // TODO: Replace this placeholder with actual user watched keywords logic
-    const userWatchedKeywords = ["vete", "jordnöt", "mjölk"]; // Placeholder for keywords
-    const watchedIngredientsList: any[] = []; // Explicitly type if possible later
-
-    for (const ingredient of result.ingredients) { // Iterate ALL ingredients
-        const lowerCaseName = ingredient.name.toLowerCase();
-        const isWatched = userWatchedKeywords.some(keyword => lowerCaseName.includes(keyword.toLowerCase()));
-
-        if (isWatched) {
-            watchedIngredientsList.push({
-                name: ingredient.name, 
-                // Status and color reflect the ingredient's actual status, not just non-vegan/uncertain
-                status: ingredient.isUncertain 
-                  ? 'uncertain' 
-                  : (ingredient.isVegan === null ? 'unknown' : (ingredient.isVegan ? 'vegan' : 'non-vegan')),
-                statusColor: ingredient.isUncertain 
-                  ? '#FFBF00' 
-                  : (ingredient.isVegan === null ? 'grey' : (ingredient.isVegan ? '#90EE90' : '#FF6347')),
-                // Reason and Description are adjusted based on source
-                reason: ingredient.source === 'trace' 
-                    ? (ingredient.isUncertain ? 'Potentiellt icke-vegansk (spårämne)' : 'Icke-vegansk (spårämne)') 
-                    : (ingredient.isUncertain ? 'Potentiellt icke-vegansk' : (ingredient.isVegan === false ? 'Icke-vegansk' : 'Vegansk')), // Add reason for vegan too
-                description: ingredient.source === 'trace'
-                    ? `Detta ämne nämns endast i "kan innehålla spår av"-varningen.`
-                    : (ingredient.isUncertain 
-                        ? 'Denna ingrediens kan vara antingen växt- eller djurbaserad.'
-                        : (ingredient.isVegan === false ? 'Denna ingrediens är av animaliskt ursprung.' : 'Denna ingrediens är vegansk.')) // Add description for vegan too
-            });
-        }
-    }
-    // --- End Build watchedIngredients list --- 
-
-    const transformedResult = {
-      success: true,
-      status: result.isVegan === null 
-        ? (result.isUncertain ? 'uncertain' : 'unknown') 
-        : (result.isVegan ? 'vegan' : 'non-vegan'),
-      isVegan: result.isVegan,
-      isUncertain: result.isUncertain,
-      confidence: result.confidence,
-      ingredientList: declaredIngredients.map((ingredient) => ({
-        name: ingredient.name,
-        status: ingredient.isUncertain 
-          ? 'uncertain' 
-          : (ingredient.isVegan === null ? 'unknown' : (ingredient.isVegan ? 'vegan' : 'non-vegan')),
-        statusColor: ingredient.isUncertain 
-          ? '#FFBF00' 
-          : (ingredient.isVegan === null ? 'grey' : (ingredient.isVegan ? '#90EE90' : '#FF6347')),
-        description: ingredient.isUncertain 
-          ? `Ingrediensen "${ingredient.name}" kan vara vegansk eller icke-vegansk.`
-          : (ingredient.isVegan === null ? `Status okänd för "${ingredient.name}".` : (ingredient.isVegan ? `Ingrediensen "${ingredient.name}" är vegansk.` : `Ingrediensen "${ingredient.name}" är inte vegansk.`))
-      })),
-      watchedIngredients: watchedIngredientsList,
-      veganIngredients: declaredIngredients
-        .filter(ingredient => ingredient.isVegan === true)
-        .map(ingredient => ingredient.name),
-      nonVeganIngredients: result.nonVeganIngredients, 
-      uncertainIngredients: result.uncertainIngredients,
-      problemIngredient: declaredIngredients.find(ingredient => ingredient.isVegan === false && !ingredient.isUncertain)?.name || null,
-      uncertainReasons: result.uncertainReasons || [],
-      reasoning: result.reasoning || '',
-      usageInfo: result.usageInfo || {
-        analysesUsed: 0,
-        analysesLimit: 10, 
-        remaining: 10,      
-        isPremium: false   
-      },
-      traceIngredients: traceIngredients.map(ingredient => ingredient.name)
-    };
-    // --- End transformation logic ---
+    // Same response format as processVideoAnalysisRequest
+    const transformedResult = toLegacyMediaResponse(createVideoAnalysisResponse(result));
 
     logger.info('Sending test analysis response', { transformedResult });
     res.status(200).json({
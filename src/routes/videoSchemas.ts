@@ -0,0 +1,384 @@
+/**
+ * Scheman för videoroutern (/api/video och /api/analyze-video)
+ */
+import { OpenAPIRegistry, ZodRequestBody } from '@asteasolutions/zod-to-openapi';
+import { jsonRequest, jsonResponse, z } from '../utils/openApi';
+import { analysisResponseSchema } from '../utils/analysisResponse';
+import { legacyMediaEnvelopeSchema } from '../utils/legacyAnalysisResponse';
+import { INVALID_CALLBACK_URL_MESSAGE, isAllowedCallbackUrl } from '../utils/webhook';
+import { VIDEO_ANALYSIS_STEPS } from '../utils/videoAnalysisProgress';
+import {
+  authErrorResponses,
+  dietProfileSchema,
+  errorResponse,
+  optionalGtinSchema,
+  OPTIONAL_BEARER_AUTH,
+  responseVersionSchema,
+  RETRY_AFTER_HEADER,
+  successMessageErrorResponseSchema,
+  rateLimitErrorResponse,
+  tracePolicySchema
+} from './requestSchemas';
+
+// base64Data och mimeType krävs utom för en upprepad skanning, vilket routen avgör
+export const videoAnalysisRequestSchema = z.object({
+  base64Data: z.string().optional().openapi({ description: 'Base64-encoded video' }),
+  uploadId: z.string().optional().openapi({ description: 'A finished resumable upload (see /video/uploads) to analyze instead of base64Data' }),
+  mimeType: z.string()
+    .startsWith('video/', 'Invalid mimeType: Must be a video type (video/*)')
+    .optional(),
+  preferredLanguage: z.string().optional().openapi({ default: 'sv' }),
+  requestId: z.string().optional().openapi({ description: 'Client-generated id; a duplicate within 5 seconds is rejected' }),
+  gtin: optionalGtinSchema.openapi({ description: 'Barcode; a stored product answers a repeat scan without a video' }),
+  dietProfile: dietProfileSchema,
+  tracePolicy: tracePolicySchema,
+  responseVersion: responseVersionSchema
+}).openapi('VideoAnalysisRequest', { description: 'base64Data (or uploadId) and mimeType are required unless gtin identifies a stored product' });
+
+export type VideoAnalysisRequest = z.output<typeof videoAnalysisRequestSchema>;
+
+/**
+ * Förfrågan till en videoanalys: JSON med base64Data (äldre format), en
+ * multipart-uppladdning eller rå video (se middleware/videoUpload)
+ * @param jsonSchema JSON-kroppens schema; multipart-fälten är desamma, utom base64Data
+ */
+function videoUploadRequest(jsonSchema: z.AnyZodObject): ZodRequestBody {
+  return {
+    required: true,
+    description: 'The video can be sent as multipart/form-data (the file in the "video" field), ' +
+      'or as the raw body with Content-Type video/mp4, video/quicktime or video/webm and the other fields ' +
+      'in the query string. JSON with base64Data is the legacy format and keeps the whole video in memory.',
+    content: {
+      'application/json': { schema: jsonSchema },
+      'multipart/form-data': {
+        schema: jsonSchema.omit({ base64Data: true }).extend({
+          video: z.string().openapi({ format: 'binary', description: 'The video file (mp4, mov or webm, at most 50MB)' })
+        })
+      },
+      'video/*': { schema: z.string().openapi({ format: 'binary' }) }
+    }
+  };
+}
+
+// Felsvaren när en uppladdad video avvisas
+const videoUploadErrorResponses = {
+  404: errorResponse('successMessage', 'No resumable upload with the uploadId for this user (UPLOAD_NOT_FOUND)'),
+  409: errorResponse('successMessage', 'The resumable upload is not finished (UPLOAD_NOT_FINISHED)'),
+  413: errorResponse('successMessage', 'The video is larger than 50MB (VIDEO_TOO_LARGE)'),
+  415: errorResponse('successMessage', 'The video type is not mp4, mov or webm (UNSUPPORTED_VIDEO_TYPE)')
+};
+
+// En ny återupptagbar uppladdning (POST /api/video/uploads)
+export const videoUploadCreateSchema = z.object({
+  length: z.number({ errorMap: () => ({ message: 'Missing or invalid field: length (must be a positive integer)' }) })
+    .int('Missing or invalid field: length (must be a positive integer)')
+    .positive('Missing or invalid field: length (must be a positive integer)')
+    .openapi({ description: 'Size of the whole video in bytes (at most 50MB)' }),
+  mimeType: z.string({ errorMap: () => ({ message: 'Missing required field: mimeType' }) })
+    .startsWith('video/', 'Invalid mimeType: Must be a video type (video/*)')
+}).openapi('VideoUploadRequest');
+
+export type VideoUploadCreateRequest = z.output<typeof videoUploadCreateSchema>;
+
+export const videoUploadParamsSchema = z.object({
+  id: z.string().uuid('Invalid upload id')
+});
+
+export const videoUploadSchema = z.object({
+  id: z.string(),
+  mimeType: z.string(),
+  length: z.number().openapi({ description: 'Size of the whole video in bytes' }),
+  offset: z.number().openapi({ description: 'Bytes received so far; the next chunk starts here' }),
+  finalized: z.boolean().openapi({ description: 'All bytes have arrived and the video has been checked' }),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  expiresAt: z.string().openapi({ description: 'When the upload is removed unless it is used again' })
+}).openapi('VideoUpload');
+
+// Huvudena som talar om var uppladdningen ska fortsätta
+const UPLOAD_OFFSET_HEADERS = {
+  'Upload-Offset': { description: 'Bytes received so far', schema: { type: 'integer' as const } },
+  'Upload-Length': { description: 'Size of the whole video in bytes', schema: { type: 'integer' as const } },
+  'Upload-Expires': { description: 'When the upload is removed unless it is used again', schema: { type: 'string' as const } }
+};
+
+export const videoJobRequestSchema = videoAnalysisRequestSchema.extend({
+  callbackUrl: z.string()
+    .refine(isAllowedCallbackUrl, INVALID_CALLBACK_URL_MESSAGE)
+    .optional()
+    .openapi({ description: 'Public https URL that is sent the job (POST) when it is done or has failed' }),
+  requestId: z.string().optional().openapi({ description: 'Client-generated id; the same id returns the existing job' })
+}).openapi('VideoJobRequest', { description: 'A video analysis request, run in the background' });
+
+export type VideoJobRequest = z.output<typeof videoJobRequestSchema>;
+
+export const videoJobParamsSchema = z.object({
+  id: z.string().uuid('Invalid job id')
+});
+
+const videoAnalysisStageSchema = z.enum(['optimizing', 'analyzing', 'enhancing']);
+
+// Data i "progress"-händelserna från /api/video/analyze-video/stream
+export const videoAnalysisProgressSchema = z.object({
+  step: z.enum(VIDEO_ANALYSIS_STEPS),
+  stage: videoAnalysisStageSchema,
+  status: z.enum(['started', 'completed', 'skipped', 'failed']),
+  elapsedMs: z.number().openapi({ description: 'Milliseconds since the analysis started' }),
+  durationMs: z.number().optional().openapi({ description: 'Duration of the step, when it has ended' }),
+  details: z.record(z.unknown()).optional(),
+  ingredients: z.array(z.object({
+    name: z.string(),
+    source: z.enum(['declared', 'trace']),
+    isVegan: z.boolean().nullable(),
+    isUncertain: z.boolean()
+  })).optional().openapi({ description: 'Preliminary ingredients, before the database checks' })
+}).openapi('VideoAnalysisProgress');
+
+const videoJobStageSchema = z.enum(['queued', ...videoAnalysisStageSchema.options, 'done', 'failed']);
+
+export const videoJobSchema = z.object({
+  id: z.string(),
+  stage: videoJobStageSchema,
+  stages: z.array(z.object({ stage: videoJobStageSchema, at: z.string() })),
+  createdAt: z.string(),
+  updatedAt: z.string(),
+  result: z.union([legacyMediaEnvelopeSchema, analysisResponseSchema]).nullable().openapi({
+    description: 'The analysis in the requested response version, when the stage is done'
+  }),
+  error: z.string().nullable()
+}).openapi('VideoJob');
+
+const INVALID_IS_VEGAN_MESSAGE = 'Missing or invalid field: isVegan (must be boolean)';
+
+export const ingredientSuggestionSchema = z.object({
+  ingredient: z.string({ errorMap: () => ({ message: 'Missing required field: ingredient' }) })
+    .min(1, 'Missing required field: ingredient'),
+  isVegan: z.boolean({ errorMap: () => ({ message: INVALID_IS_VEGAN_MESSAGE }) }),
+  suggestedBy: z.string().optional()
+}).openapi('IngredientSuggestion');
+
+export type IngredientSuggestion = z.output<typeof ingredientSuggestionSchema>;
+
+const duplicateRequestResponseSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  retryAfterMs: z.number()
+});
+
+const videoAnalysisFailureSchema = z.object({
+  success: z.literal(false),
+  error: z.string(),
+  message: z.string()
+});
+
+/**
+ * Registrera videorouterns anrop i OpenAPI-dokumentet
+ */
+export function registerVideoPaths(registry: OpenAPIRegistry): void {
+  for (const path of ['/video/analyze-video', '/analyze-video']) {
+    registry.registerPath({
+      method: 'post',
+      path,
+      tags: ['Video'],
+      summary: path === '/analyze-video' ? 'Analyze an ingredient video (alias)' : 'Analyze an ingredient video',
+      security: OPTIONAL_BEARER_AUTH,
+      request: { body: videoUploadRequest(videoAnalysisRequestSchema) },
+      responses: {
+        200: jsonResponse(
+          z.union([legacyMediaEnvelopeSchema, analysisResponseSchema]),
+          'Analysis result in the requested response version'
+        ),
+        400: errorResponse('successMessage', 'Invalid request'),
+        401: authErrorResponses('successMessage')[401],
+        429: {
+          ...jsonResponse(
+            z.union([duplicateRequestResponseSchema, successMessageErrorResponseSchema]),
+            'A request with the same requestId is in progress, or too many requests (RATE_LIMITED)'
+          ),
+          headers: RETRY_AFTER_HEADER
+        },
+        ...videoUploadErrorResponses,
+        500: jsonResponse(videoAnalysisFailureSchema, 'Analysis failed')
+      }
+    });
+  }
+
+  registry.register('VideoAnalysisProgress', videoAnalysisProgressSchema);
+  registry.registerPath({
+    method: 'post',
+    path: '/video/analyze-video/stream',
+    tags: ['Video'],
+    summary: 'Analyze an ingredient video and stream the progress (Server-Sent Events)',
+    security: OPTIONAL_BEARER_AUTH,
+    request: { body: videoUploadRequest(videoAnalysisRequestSchema) },
+    responses: {
+      200: {
+        description: 'An event stream: "progress" events (VideoAnalysisProgress) while the analysis runs, ' +
+          'then one "result" event (the body /video/analyze-video would return) or one "error" event',
+        content: { 'text/event-stream': { schema: z.string() } }
+      },
+      400: errorResponse('successMessage', 'Invalid request'),
+      401: authErrorResponses('successMessage')[401],
+      429: {
+        ...jsonResponse(
+          z.union([duplicateRequestResponseSchema, successMessageErrorResponseSchema]),
+          'A request with the same requestId is in progress, or too many requests (RATE_LIMITED)'
+        ),
+        headers: RETRY_AFTER_HEADER
+      },
+      ...videoUploadErrorResponses
+    }
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/video/jobs',
+    tags: ['Video'],
+    summary: 'Start a video analysis in the background',
+    security: OPTIONAL_BEARER_AUTH,
+    request: { body: videoUploadRequest(videoJobRequestSchema) },
+    responses: {
+      202: {
+        ...jsonResponse(z.object({ success: z.literal(true), job: videoJobSchema }), 'The queued (or existing) job'),
+        headers: { Location: { description: 'URL to poll for the job', schema: { type: 'string' } } }
+      },
+      400: errorResponse('successMessage', 'Invalid request'),
+      401: authErrorResponses('successMessage')[401],
+      ...rateLimitErrorResponse('successMessage'),
+      ...videoUploadErrorResponses,
+      503: {
+        ...errorResponse('successMessage', 'Too many jobs are waiting in the queue'),
+        headers: { 'Retry-After': { description: 'Seconds to wait before trying again', schema: { type: 'integer' } } }
+      }
+    }
+  });
+
+  registry.registerPath({
+    method: 'get',
+    path: '/video/jobs/{id}',
+    tags: ['Video'],
+    summary: 'Get the stage and result of a video analysis job',
+    security: OPTIONAL_BEARER_AUTH,
+    request: { params: videoJobParamsSchema },
+    responses: {
+      200: jsonResponse(z.object({ success: z.literal(true), job: videoJobSchema }), 'The job'),
+      400: errorResponse('successMessage', 'Invalid job id'),
+      401: authErrorResponses('successMessage')[401],
+      404: errorResponse('successMessage', 'No job with the id for this user (jobs are kept for an hour)')
+    }
+  });
+
+  const videoUploadResponse = (description: string) => ({
+    ...jsonResponse(z.object({ success: z.literal(true), upload: videoUploadSchema }), description),
+    headers: UPLOAD_OFFSET_HEADERS
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/video/uploads',
+    tags: ['Video'],
+    summary: 'Start a resumable video upload',
+    security: OPTIONAL_BEARER_AUTH,
+    request: { body: jsonRequest(videoUploadCreateSchema) },
+    responses: {
+      201: {
+        ...videoUploadResponse('The new upload'),
+        headers: { ...UPLOAD_OFFSET_HEADERS, Location: { description: 'URL of the upload', schema: { type: 'string' } } }
+      },
+      400: errorResponse('successMessage', 'Invalid request'),
+      401: authErrorResponses('successMessage')[401],
+      ...rateLimitErrorResponse('successMessage'),
+      413: errorResponse('successMessage', 'The video is larger than 50MB (VIDEO_TOO_LARGE)'),
+      415: errorResponse('successMessage', 'The video type is not mp4, mov or webm (UNSUPPORTED_VIDEO_TYPE)')
+    }
+  });
+
+  const uploadNotFound = errorResponse('successMessage', 'No upload with the id for this user (unused uploads expire after an hour)');
+
+  registry.registerPath({
+    method: 'get',
+    path: '/video/uploads/{id}',
+    tags: ['Video'],
+    summary: 'Get the offset of a resumable upload (also answers HEAD, with the headers only)',
+    security: OPTIONAL_BEARER_AUTH,
+    request: { params: videoUploadParamsSchema },
+    responses: {
+      200: videoUploadResponse('The upload'),
+      400: errorResponse('successMessage', 'Invalid upload id'),
+      401: authErrorResponses('successMessage')[401],
+      404: uploadNotFound
+    }
+  });
+
+  registry.registerPath({
+    method: 'patch',
+    path: '/video/uploads/{id}',
+    tags: ['Video'],
+    summary: 'Append a chunk to a resumable upload',
+    security: OPTIONAL_BEARER_AUTH,
+    request: {
+      params: videoUploadParamsSchema,
+      headers: z.object({
+        'upload-offset': z.string().openapi({ description: 'Where the chunk starts; must be the offset of the upload' })
+      }),
+      body: {
+        required: true,
+        content: { 'application/offset+octet-stream': { schema: z.string().openapi({ format: 'binary' }) } }
+      }
+    },
+    responses: {
+      200: videoUploadResponse('The upload with the new offset'),
+      400: errorResponse('successMessage', 'Invalid upload id or Upload-Offset'),
+      401: authErrorResponses('successMessage')[401],
+      404: uploadNotFound,
+      409: errorResponse('successMessage', 'Upload-Offset is not the offset of the upload (OFFSET_MISMATCH; details.offset ' +
+        'has the right one), or the upload is finished or receiving another chunk'),
+      413: errorResponse('successMessage', 'The chunk goes past Upload-Length (UPLOAD_LENGTH_EXCEEDED)'),
+      415: errorResponse('successMessage', 'Content-Type is not application/offset+octet-stream')
+    }
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/video/uploads/{id}/finalize',
+    tags: ['Video'],
+    summary: 'Finish a resumable upload and check the video',
+    description: 'Analyze the finished upload by passing its id as uploadId to /video/analyze-video, /video/analyze-video/stream or /video/jobs.',
+    security: OPTIONAL_BEARER_AUTH,
+    request: { params: videoUploadParamsSchema },
+    responses: {
+      200: videoUploadResponse('The finished upload'),
+      400: errorResponse('successMessage', 'Invalid upload id, or the video was rejected (INVALID_VIDEO) and removed'),
+      401: authErrorResponses('successMessage')[401],
+      404: uploadNotFound,
+      409: errorResponse('successMessage', 'Bytes are missing (UPLOAD_INCOMPLETE), or a chunk is being written')
+    }
+  });
+
+  registry.registerPath({
+    method: 'delete',
+    path: '/video/uploads/{id}',
+    tags: ['Video'],
+    summary: 'Cancel a resumable upload and remove its file',
+    security: OPTIONAL_BEARER_AUTH,
+    request: { params: videoUploadParamsSchema },
+    responses: {
+      204: { description: 'The upload was removed' },
+      400: errorResponse('successMessage', 'Invalid upload id'),
+      401: authErrorResponses('successMessage')[401],
+      404: uploadNotFound
+    }
+  });
+
+  registry.registerPath({
+    method: 'post',
+    path: '/video/ingredients/suggest',
+    tags: ['Video'],
+    summary: 'Suggest an ingredient classification',
+    request: { body: jsonRequest(ingredientSuggestionSchema) },
+    responses: {
+      200: jsonResponse(z.object({ success: z.literal(true), message: z.string() }), 'Suggestion received'),
+      400: errorResponse('successMessage', 'Invalid request')
+    }
+  });
+}
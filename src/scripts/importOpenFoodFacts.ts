@@ -0,0 +1,63 @@
+/**
+ * Importera produkter från en Open Food Facts-export till produktregistret.
+ *
+ * Användning:
+ *   npm run import:off -- <fil> [--format jsonl|csv] [--diet-profile <profil>] [--store <katalog>] [--force]
+ *
+ * Importen är inkrementell; kör den igen med en ny export för att bara bearbeta
+ * ändrade produkter. Med --force bearbetas alla produkter på nytt.
+ */
+import dotenv from 'dotenv';
+dotenv.config();
+
+import { logger } from '../utils/logger';
+import { INVALID_DIET_PROFILE_MESSAGE, parseDietProfile } from '../utils/dietProfiles';
+import { productStore, ProductStore } from '../services/productStore';
+import { importOpenFoodFacts, OpenFoodFactsFormat } from '../services/openFoodFactsImporter';
+
+const USAGE = 'Usage: npm run import:off -- <file> [--format jsonl|csv] [--diet-profile <profile>] [--store <directory>] [--force]';
+
+async function main(args: string[]): Promise<void> {
+  let filePath: string | undefined;
+  let format: OpenFoodFactsFormat | undefined;
+  let dietProfileValue: string | undefined;
+  let storeDirectory: string | undefined;
+  let force = false;
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+    if (arg === '--format') {
+      const value = args[++i];
+      if (value !== 'jsonl' && value !== 'csv') {
+        throw new Error('Invalid --format: must be jsonl or csv');
+      }
+      format = value;
+    } else if (arg === '--diet-profile') {
+      dietProfileValue = args[++i];
+    } else if (arg === '--store') {
+      storeDirectory = args[++i];
+    } else if (arg === '--force') {
+      force = true;
+    } else if (!arg.startsWith('--') && !filePath) {
+      filePath = arg;
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  if (!filePath) {
+    throw new Error(USAGE);
+  }
+  const dietProfile = parseDietProfile(dietProfileValue);
+  if (!dietProfile) {
+    throw new Error(INVALID_DIET_PROFILE_MESSAGE);
+  }
+
+  const store = storeDirectory ? new ProductStore(storeDirectory) : productStore;
+  await importOpenFoodFacts(filePath, store, { format, dietProfile, force });
+}
+
+main(process.argv.slice(2)).catch(error => {
+  logger.error('Open Food Facts import failed', { error: error.message });
+  process.exitCode = 1;
+});
@@ -35,9 +35,11 @@ import { ANALYSIS_PROMPT, CROPPED_IMAGE_PROMPT } from './config/prompts';
 // import { logger } from './utils/logger';
 // import videoAnalysisRoutes from './routes/videoAnalysis'; 
 // import { handleServerError } from './middleware/errorHandler'; // File does not exist
-// import { authenticate } from './middleware/auth'; // File does not exist
+import { authenticate, requireMatchingUser } from './middleware/auth';
 import apiRoutes from './routes';
 import { TempFileCleaner } from './utils/tempFileCleaner';
+import { videoUploadService } from './services/videoUploadService';
+import { watchIngredientDatabase } from './utils/ingredientsDatabase';
 
 // Import Gemini types
 import { GoogleGenerativeAI, HarmCategory, HarmBlockThreshold, GenerationConfig } from "@google/generative-ai";
@@ -56,6 +58,13 @@ dotenv.config();
 
 const app = express();
 
+// Bakom Fly.io:s proxy är klientens adress den sista i X-Forwarded-For (TRUST_PROXY=1).
+// req.ip används av rate limiting, så utan proxy ska TRUST_PROXY inte sättas.
+if (process.env.TRUST_PROXY) {
+  const trustProxy = process.env.TRUST_PROXY;
+  app.set('trust proxy', /^\d+$/.test(trustProxy) ? Number(trustProxy) : trustProxy);
+}
+
 // Configure security with helmet middleware
 app.use(helmet({
   contentSecurityPolicy: false, // Disable CSP for API server
@@ -68,8 +77,9 @@ app.use(compression());
 // Configure CORS with permissive settings
 const corsOptions = {
   origin: '*', // Allow requests from any origin for API server
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With'],
+  methods: ['GET', 'HEAD', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization', 'X-Requested-With', 'Upload-Offset'],
+  exposedHeaders: ['Location', 'Upload-Offset', 'Upload-Length', 'Upload-Expires'], // Återupptagbara videouppladdningar
   credentials: true,
   maxAge: 86400 // Cache CORS preflight for 24 hours
 };
@@ -79,8 +89,8 @@ app.use(cors(corsOptions));
 app.options('*', (_req, res) => {
   // Set CORS headers for preflight requests
   res.header('Access-Control-Allow-Origin', '*');
-  res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization');
+  res.header('Access-Control-Allow-Methods', 'GET, HEAD, POST, PUT, PATCH, DELETE, OPTIONS');
+  res.header('Access-Control-Allow-Headers', 'Origin, X-Requested-With, Content-Type, Accept, Authorization, Upload-Offset');
   res.header('Access-Control-Max-Age', '86400'); // 24 hours
   res.sendStatus(200);
 });
@@ -129,8 +139,14 @@ app.post('/analyze-video', (req, res, next) => {
   apiRoutes(req, res, next);
 });
 
-// Starta schemalagd rensning av tillfälliga filer
+// Starta schemalagd rensning av tillfälliga filer och övergivna videouppladdningar
 TempFileCleaner.startScheduler();
+videoUploadService.startCleanup();
+
+// Ladda om ingrediensdatabasen automatiskt när CSV-filerna ändras
+if (process.env.INGREDIENT_DB_WATCH === 'true') {
+  watchIngredientDatabase();
+}
 
 // Remove Anthropic client
 // const anthropic = new Anthropic({
@@ -253,13 +269,11 @@ const analyzeImage = async (req: express.Request, res: express.Response, next: e
 // ... existing code ...
 
 // Lägg till en ny endpoint för att kontrollera användarens användningsstatus
-app.get('/usage/:userId', async (req, res) => {
+// Kräver användarens egen åtkomsttoken
+app.get('/usage/:userId', authenticate(), requireMatchingUser(req => req.params.userId), async (req, res) => {
   try {
     const { userId } = req.params;
     
-    // Validera JWT-token skulle göras här i en fullständig implementation
-    // För MVP, vi förenklar genom att endast kräva användar-ID
-    
     const usageInfo = await checkUserLimit(userId);
     
     res.json({
@@ -1,10 +1,24 @@
 import { AIServiceFactory } from './aiServiceFactory';
 import promptManager from '../utils/promptManager';
 import outputParser, { AnalysisResult } from '../utils/outputParser';
+import { AllergenReport, IngredientVerdict } from '../types/analysisTypes';
+import { StoredProduct } from './productStore';
+import { applyVerdictChange, startVerdictTrace } from '../utils/verdictTrace';
 import { logger } from '../utils/logger';
 import { ingredientDB } from './ingredientDatabase';
+import { getIngredientDataset, IngredientDataset, onIngredientDatabaseReload } from '../utils/ingredientsDatabase';
+import { classifyAllergens, extractTraceIngredients } from '../utils/allergenClassifier';
+import { splitTextToIngredients } from '../utils/ingredientText';
+import { DEFAULT_DIET_PROFILE, DietProfile } from '../utils/dietProfiles';
+import {
+  applyTracePolicy,
+  DEFAULT_TRACE_POLICY,
+  getTraceWarnings,
+  isTraceConcern,
+  TracePolicy
+} from '../utils/tracePolicy';
 import languageDetector from '../utils/languageDetector';
-import { loadTextAnalysisPrompts } from '../config/prompts';
+import { loadImageAnalysisPrompts, loadTextAnalysisPrompts } from '../config/prompts';
 import { imageProcessor } from './imageProcessor';
 import { performance } from 'perf_hooks';
 import crypto from 'crypto';
@@ -15,6 +29,9 @@ import path from 'path';
 const PERF_THRESHOLD_WARNING = 5000; // 5 seconds
 const PERF_THRESHOLD_ERROR = 15000;  // 15 seconds
 
+// Larger photos are compressed before they are optimized for analysis
+const MAX_IMAGE_SIZE_BYTES = 4 * 1024 * 1024;
+
 // Cache configuration
 interface CacheConfig {
   enabled: boolean;
@@ -31,6 +48,7 @@ export class AnalysisService {
   constructor() {
     // Load the enhanced text analysis templates
     loadTextAnalysisPrompts(promptManager);
+    loadImageAnalysisPrompts(promptManager);
     
     // Setup cache configuration
     this.cacheConfig = {
@@ -50,13 +68,28 @@ export class AnalysisService {
       }
     }
     
+    // Cached verdicts were made with the previous catalogue; they can no longer be hit, so remove them
+    onIngredientDatabaseReload(() => {
+      this.purgeCache().catch((error: any) => {
+        logger.error('Failed to purge analysis cache after ingredient database reload', { error: error.message });
+      });
+    });
+    
     logger.info('AnalysisService initialized with enhanced prompt templates');
   }
 
   /**
-   * Analyze a list of ingredients to determine if a product is vegan
+   * Analyze a list of ingredients to determine if a product is vegan,
+   * or suitable for another diet profile
+   * @param tracePolicy How non-vegan trace ingredients affect the verdict
+   * @param traceIngredients Ingredients from "kan innehålla spår av" statements (default: found in the list)
    */
-  async analyzeIngredients(ingredients: string[]): Promise<AnalysisResult> {
+  async analyzeIngredients(
+    ingredients: string[],
+    dietProfile: DietProfile = DEFAULT_DIET_PROFILE,
+    tracePolicy: TracePolicy = DEFAULT_TRACE_POLICY,
+    traceIngredients: string[] = extractTraceIngredients(ingredients.join('\n'))
+  ): Promise<AnalysisResult> {
     try {
       // Get the AI service instance
       const aiService = await AIServiceFactory.getService();
@@ -87,7 +120,7 @@ export class AnalysisService {
       let result = outputParser.parseAnalysisResult(response);
       
       // Enhance the result with local validation
-      result = await this.enhanceWithLocalValidation(result, processedIngredients);
+      result = await this.enhanceWithLocalValidation(result, processedIngredients, dietProfile, tracePolicy, traceIngredients);
       
       return result;
     } catch (error: any) {
@@ -97,17 +130,71 @@ export class AnalysisService {
   }
   
   /**
-   * Analyze an image to identify ingredients and determine vegan status
+   * Answer a repeat barcode scan from the product store without calling the AI service.
+   * The stored statuses take the place of the AI's assessment, and the ingredient list
+   * is checked against the current database and trace policy like a new analysis.
    */
-  // Function removed as it is no longer used
-  /*
-  async analyzeImage(imageBase64: string, preferredLanguage?: string): Promise<AnalysisResult> {
+  async analyzeStoredProduct(
+    product: StoredProduct,
+    dietProfile: DietProfile = DEFAULT_DIET_PROFILE,
+    tracePolicy: TracePolicy = DEFAULT_TRACE_POLICY
+  ): Promise<AnalysisResult> {
+    const reason = `Sparad produkt, verifierad ${product.verifiedAt}`;
+    const declared = product.ingredients.filter(ingredient => ingredient.source === 'declared');
+    const ingredientVerdicts: IngredientVerdict[] = declared.map(ingredient => {
+      const verdict: IngredientVerdict = {
+        name: ingredient.name,
+        isVegan: ingredient.isVegan,
+        isUncertain: ingredient.isUncertain,
+        confidence: ingredient.confidence,
+        trace: []
+      };
+      startVerdictTrace(verdict, { source: 'product-store', rule: 'stored-product', reason });
+      return verdict;
+    });
+
+    const result: AnalysisResult = {
+      isVegan: product.isVegan,
+      confidence: product.confidence,
+      productName: product.productName || undefined,
+      ingredientList: declared.map(ingredient => ingredient.name),
+      nonVeganIngredients: declared
+        .filter(ingredient => ingredient.isVegan === false)
+        .map(ingredient => ingredient.name),
+      reasoning: `Ingredienslistan hämtades från produktregistret (verifierad ${product.verifiedAt}).`,
+      ingredientVerdicts
+    };
+    startVerdictTrace(result, { source: 'product-store', rule: 'stored-product', reason });
+
+    logger.info('Analyzing stored product', { gtin: product.gtin, ingredientCount: declared.length });
+
+    const traceIngredients = product.ingredients
+      .filter(ingredient => ingredient.source === 'trace')
+      .map(ingredient => ingredient.name);
+    return this.enhanceWithLocalValidation(result, result.ingredientList, dietProfile, tracePolicy, traceIngredients);
+  }
+  
+  /**
+   * Analyze a photo of the packaging to identify ingredients and determine vegan status,
+   * or suitability for another diet profile
+   * @param imageBase64 Base64-encoded image
+   * @param preferredLanguage Language of the prompt and the response ('sv' or 'en')
+   * @param tracePolicy How non-vegan trace ingredients affect the verdict
+   */
+  async analyzeImage(
+    imageBase64: string,
+    preferredLanguage: string = 'sv',
+    dietProfile: DietProfile = DEFAULT_DIET_PROFILE,
+    tracePolicy: TracePolicy = DEFAULT_TRACE_POLICY
+  ): Promise<AnalysisResult> {
     const startTime = performance.now();
     
     try {
-      // Check for cached result first
+      // Check for cached result first (the verdict also depends on the catalogue version, language, diet profile and trace policy)
       const imageHash = crypto.createHash('md5').update(imageBase64).digest('hex');
-      const cachedResult = await this.getCachedAnalysis(`image_${imageHash}`);
+      const databaseVersion = getIngredientDataset().version;
+      const cacheKey = `image_${imageHash}_${databaseVersion}_${preferredLanguage}_${dietProfile}_${tracePolicy}`;
+      const cachedResult = await this.getCachedAnalysis(cacheKey);
       
       if (cachedResult) {
         logger.info('Using cached image analysis result', { imageHash });
@@ -119,19 +206,19 @@ export class AnalysisService {
       // Get the AI service
       const aiService = await AIServiceFactory.getService();
       
+      // Compress large photos before optimizing them for analysis
+      let image = imageBase64;
+      if (Buffer.byteLength(imageBase64, 'base64') > MAX_IMAGE_SIZE_BYTES) {
+        logger.debug('Compressing large image before analysis', { imageHash });
+        image = await imageProcessor.compressImage(imageBase64);
+      }
+      
       // Optimize image for analysis
       logger.debug('Optimizing image for analysis', { imageHash });
-      const optimizedImage = await imageProcessor.optimizeForOCR(imageBase64);
-      
-      // Choose appropriate prompt template based on preferred language
-      let promptTemplate = 'imageAnalysis';
-      if (preferredLanguage === 'en') {
-        promptTemplate = 'imageAnalysis_en';
-      } else if (preferredLanguage === 'sv') {
-        promptTemplate = 'imageAnalysis_sv';
-      }
+      const optimizedImage = await imageProcessor.optimizeForOCR(image);
       
-      // Get the prompt template text
+      // Choose the prompt template for the preferred language
+      const promptTemplate = preferredLanguage === 'en' ? 'imageAnalysis_en' : 'imageAnalysis_sv';
       const prompt = promptManager.getTemplate(promptTemplate);
       if (!prompt) {
         throw new Error(`Prompt template '${promptTemplate}' not found`);
@@ -139,6 +226,8 @@ export class AnalysisService {
       
       logger.info('Analyzing image with Gemini', { 
         preferredLanguage,
+        dietProfile,
+        tracePolicy,
         template: promptTemplate,
         imageHashSuffix: imageHash.substring(0, 8)
       });
@@ -176,14 +265,10 @@ export class AnalysisService {
       // Parse and validate the result
       let result = outputParser.parseAnalysisResult(response);
       
-      // If the AI found ingredients, enhance with local validation
-      if (result.ingredientList && result.ingredientList.length > 0) {
-        result = await this.enhanceWithLocalValidation(result, result.ingredientList);
-      } 
-      // If quality issues were reported and confidence is low, try enhanced approach
-      else if (
-        (result.imageQualityIssues && result.imageQualityIssues.length > 0) || 
-        result.confidence < 0.5
+      // If no ingredients were found and quality issues were reported or confidence is low, try enhanced approach
+      if (
+        result.ingredientList.length === 0 &&
+        ((result.imageQualityIssues && result.imageQualityIssues.length > 0) || result.confidence < 0.5)
       ) {
         logger.info('Low quality image detected, trying enhanced analysis', {
           qualityIssues: result.imageQualityIssues,
@@ -191,7 +276,7 @@ export class AnalysisService {
         });
         
         // Try with enhanced image processing
-        const enhancedImage = await imageProcessor.enhanceIngredientList(imageBase64);
+        const enhancedImage = await imageProcessor.enhanceIngredientList(image);
         const enhancedPrompt = promptManager.getTemplate('imageAnalysis_enhanced');
         
         if (enhancedPrompt) {
@@ -219,17 +304,22 @@ export class AnalysisService {
             
             // Use enhanced result
             result = enhancedResult;
-            
-            // Enhance with local validation
-            if (result.ingredientList.length > 0) {
-              result = await this.enhanceWithLocalValidation(result, result.ingredientList);
-            }
           }
         }
       }
       
+      // Trace ingredients come from the ingredient list as printed on the packaging
+      const traceIngredients = extractTraceIngredients(result.extractedFrom || result.ingredientList.join('\n'));
+      
+      // If the AI found ingredients, enhance with local validation
+      if (result.ingredientList.length > 0) {
+        result = await this.enhanceWithLocalValidation(result, result.ingredientList, dietProfile, tracePolicy, traceIngredients);
+      } else {
+        this.validateWithoutIngredients(result, dietProfile, tracePolicy, traceIngredients);
+      }
+      
       // Cache the result
-      await this.cacheAnalysisResult(`image_${imageHash}`, result);
+      await this.cacheAnalysisResult(cacheKey, result);
       
       // Track performance
       const perfTime = performance.now() - startTime;
@@ -285,11 +375,18 @@ export class AnalysisService {
   }
   
   /**
-   * Enhance analysis results with local validation
+   * Enhance analysis results with local validation.
+   * For a diet profile other than vegan, ingredients that the database allows for the
+   * profile (e.g. whey for "vegetarian") are no longer counted as non-vegan.
+   * Allergens are classified from the ingredient list and the trace ingredients,
+   * and the trace policy is applied last.
    */
   private async enhanceWithLocalValidation(
     result: AnalysisResult,
-    originalIngredients: string[]
+    originalIngredients: string[],
+    dietProfile: DietProfile = DEFAULT_DIET_PROFILE,
+    tracePolicy: TracePolicy = DEFAULT_TRACE_POLICY,
+    traceIngredients: string[] = []
   ): Promise<AnalysisResult> {
     // If AI couldn't identify ingredients but we have original ones, use those
     if (result.ingredientList.length === 0 && originalIngredients.length > 0) {
@@ -299,11 +396,31 @@ export class AnalysisService {
 
     // Check ingredients against local database
     const locallyIdentifiedNonVegan: string[] = [];
+    const allowedByProfile: string[] = [];
     const enhancedConfidences: number[] = [];
+    const ingredientVerdicts: IngredientVerdict[] = [];
+    // Use one database snapshot for all ingredients, even if it is reloaded meanwhile
+    const ingredientDataset = getIngredientDataset();
     
     // Check each ingredient against the local database
     for (const ingredient of result.ingredientList) {
-      const dbCheck = ingredientDB.checkIngredient(ingredient);
+      const dbCheck = ingredientDB.checkIngredient(ingredient, ingredientDataset, dietProfile);
+      
+      // Record database matches in the ingredient's trace
+      const verdict = this.getIngredientVerdict(result, ingredient);
+      if (dbCheck.matchStrategy !== 'none') {
+        applyVerdictChange(verdict, {
+          isVegan: dbCheck.isUncertain ? null : dbCheck.isVegan,
+          isUncertain: dbCheck.isUncertain,
+          confidence: dbCheck.confidence
+        }, {
+          source: 'database',
+          rule: `database-${dbCheck.matchStrategy}`,
+          reason: dbCheck.description || 'Matchning i ingrediensdatabasen',
+          matchedItem: dbCheck.matchedItem
+        });
+      }
+      ingredientVerdicts.push(verdict);
       
       // If the ingredient is definitely non-vegan according to our database
       if (dbCheck.isVegan === false) {
@@ -314,11 +431,48 @@ export class AnalysisService {
       } else if (dbCheck.confidence > 0.7) {
         // If we have high confidence in the database result
         enhancedConfidences.push(dbCheck.confidence);
+
+        // The AI judges vegan status; the database knows the ingredient is allowed for the profile
+        if (
+          dietProfile !== DEFAULT_DIET_PROFILE &&
+          dbCheck.matchStrategy !== 'none' &&
+          result.nonVeganIngredients.includes(ingredient)
+        ) {
+          allowedByProfile.push(ingredient);
+        }
       }
     }
     
     // Create a new result to avoid mutating the original
-    const enhancedResult = { ...result };
+    const enhancedResult: AnalysisResult = {
+      ...result,
+      databaseVersion: ingredientDataset.version,
+      trace: [...(result.trace || [])],
+      ingredientVerdicts,
+      dietProfile,
+      allergens: this.classifyProductAllergens(result.ingredientList, traceIngredients, ingredientDataset)
+    };
+
+    // Remove ingredients that the diet profile allows
+    if (allowedByProfile.length > 0) {
+      enhancedResult.nonVeganIngredients = result.nonVeganIngredients.filter(
+        ingredient => !allowedByProfile.includes(ingredient)
+      );
+      enhancedResult.reasoning += `\n\nKostprofil: ${allowedByProfile.join(', ')} passar kostprofilen "${dietProfile}".`;
+
+      if (enhancedResult.nonVeganIngredients.length === 0 && enhancedResult.isVegan === false) {
+        applyVerdictChange(enhancedResult, { isVegan: true }, {
+          source: 'database',
+          rule: 'diet-profile',
+          reason: `Alla icke-veganska ingredienser passar kostprofilen "${dietProfile}": ${allowedByProfile.join(', ')}`
+        });
+      }
+
+      logger.info('Removed ingredients allowed by the diet profile', {
+        dietProfile,
+        ingredients: allowedByProfile
+      });
+    }
     
     // Add locally identified non-vegan ingredients
     if (locallyIdentifiedNonVegan.length > 0) {
@@ -341,8 +495,11 @@ export class AnalysisService {
     
     // Rule 1: If we found non-vegan ingredients but AI said product is vegan
     if (enhancedResult.nonVeganIngredients.length > 0 && enhancedResult.isVegan === true) {
-      enhancedResult.isVegan = false;
-      enhancedResult.confidence = Math.max(0.85, result.confidence);
+      applyVerdictChange(enhancedResult, { isVegan: false, confidence: Math.max(0.85, result.confidence) }, {
+        source: 'database',
+        rule: 'local-non-vegan-ingredients',
+        reason: `Innehåller icke-veganska ingredienser: ${enhancedResult.nonVeganIngredients.join(', ')}`
+      });
       enhancedResult.reasoning += '\n\nKorrektion: Produkten markeras som icke-vegansk eftersom den innehåller icke-veganska ingredienser.';
       
       logger.info('Corrected vegan status due to presence of non-vegan ingredients');
@@ -351,14 +508,22 @@ export class AnalysisService {
     // Rule 2: If no non-vegan ingredients found but AI said product is non-vegan
     else if (enhancedResult.nonVeganIngredients.length === 0 && enhancedResult.isVegan === false) {
       // Lower confidence but don't change decision (AI might have good reason)
-      enhancedResult.confidence = Math.min(enhancedResult.confidence, 0.7);
+      applyVerdictChange(enhancedResult, { confidence: Math.min(enhancedResult.confidence, 0.7) }, {
+        source: 'database',
+        rule: 'no-non-vegan-ingredients-found',
+        reason: 'Inga icke-veganska ingredienser hittades men produkten markerades som icke-vegansk'
+      });
       
       logger.info('Reduced confidence due to no non-vegan ingredients found');
     }
     
     // Rule 3: If confidence is very low, set to null (uncertain)
     if (enhancedResult.confidence < 0.4) {
-      enhancedResult.isVegan = null;
+      applyVerdictChange(enhancedResult, { isVegan: null }, {
+        source: 'sanity-check',
+        rule: 'low-confidence',
+        reason: 'Tillförlitligheten är för låg för en definitiv bedömning'
+      });
       enhancedResult.reasoning += '\n\nOBS: Tillförlitligheten är för låg för att göra en definitiv bedömning.';
       
       logger.info('Changed status to uncertain due to low confidence');
@@ -368,7 +533,11 @@ export class AnalysisService {
     if (enhancedConfidences.length > 0) {
       // Calculate average confidence, weighted with the original confidence
       const avgDbConfidence = enhancedConfidences.reduce((sum, val) => sum + val, 0) / enhancedConfidences.length;
-      enhancedResult.confidence = (enhancedResult.confidence + avgDbConfidence) / 2;
+      applyVerdictChange(enhancedResult, { confidence: (enhancedResult.confidence + avgDbConfidence) / 2 }, {
+        source: 'database',
+        rule: 'database-confidence',
+        reason: `Konfidensen vägdes samman med databasens konfidens (${avgDbConfidence.toFixed(2)})`
+      });
       
       logger.debug('Adjusted confidence based on local database', { 
         originalConfidence: result.confidence,
@@ -377,14 +546,108 @@ export class AnalysisService {
       });
     }
     
+    this.applyTracePolicyToResult(enhancedResult, traceIngredients, dietProfile, tracePolicy, ingredientDataset);
+    
     return enhancedResult;
   }
   
+  /**
+   * Complete a result in which the AI found no ingredients: the database version,
+   * the allergens and the trace policy still apply to the trace ingredients
+   */
+  private validateWithoutIngredients(
+    result: AnalysisResult,
+    dietProfile: DietProfile,
+    tracePolicy: TracePolicy,
+    traceIngredients: string[]
+  ): void {
+    const ingredientDataset = getIngredientDataset();
+    result.databaseVersion = ingredientDataset.version;
+    result.dietProfile = dietProfile;
+    result.allergens = this.classifyProductAllergens([], traceIngredients, ingredientDataset);
+    this.applyTracePolicyToResult(result, traceIngredients, dietProfile, tracePolicy, ingredientDataset);
+  }
+  
+  /**
+   * Check the trace ingredients against the database and apply the trace policy:
+   * list non-vegan and uncertain traces as warnings and, for "uncertain", make a
+   * vegan result uncertain.
+   */
+  private applyTracePolicyToResult(
+    result: AnalysisResult,
+    traceIngredients: string[],
+    dietProfile: DietProfile,
+    tracePolicy: TracePolicy,
+    dataset: IngredientDataset
+  ): void {
+    const traceConcerns = traceIngredients.filter(ingredient => {
+      const dbCheck = ingredientDB.checkIngredient(ingredient, dataset, dietProfile);
+      return isTraceConcern(dbCheck.isVegan, dbCheck.isUncertain);
+    });
+    
+    result.traceIngredients = [...traceIngredients];
+    result.tracePolicy = tracePolicy;
+    result.traceWarnings = getTraceWarnings(traceConcerns, tracePolicy);
+    if (result.traceWarnings.length > 0) {
+      result.reasoning += `\n\nKan innehålla spår av: ${result.traceWarnings.join(', ')}.`;
+    }
+    
+    if (applyTracePolicy(result, traceConcerns, tracePolicy)) {
+      result.reasoning += '\n\nSpårpolicy: Produkten markeras som osäker eftersom den kan innehålla spår av icke-veganska ingredienser.';
+      logger.info('Changed status to uncertain due to the trace policy', { traces: traceConcerns });
+    }
+  }
+  
+  /**
+   * Classify the allergens of the declared ingredients and the trace ingredients.
+   * Entries that are themselves trace statements are not counted as declared.
+   */
+  private classifyProductAllergens(
+    ingredientList: string[],
+    traceIngredients: string[],
+    dataset: IngredientDataset
+  ): AllergenReport {
+    const declared = ingredientList
+      .filter(ingredient => extractTraceIngredients(ingredient).length === 0)
+      .map(name => ({ name, source: 'declared' as const }));
+    const traces = traceIngredients.map(name => ({ name, source: 'trace' as const }));
+    return classifyAllergens([...declared, ...traces], dataset);
+  }
+  
+  /**
+   * Get a copy of the AI's verdict for an ingredient, or an unassessed verdict
+   * when the AI did not list the ingredient
+   */
+  private getIngredientVerdict(result: AnalysisResult, ingredient: string): IngredientVerdict {
+    const aiVerdict = result.ingredientVerdicts?.find(verdict => verdict.name === ingredient);
+    if (aiVerdict) {
+      return { ...aiVerdict, trace: [...aiVerdict.trace] };
+    }
+
+    const verdict: IngredientVerdict = {
+      name: ingredient,
+      isVegan: null,
+      isUncertain: false,
+      confidence: 0,
+      trace: []
+    };
+    startVerdictTrace(verdict, {
+      source: 'ai',
+      rule: 'ai-not-assessed',
+      reason: 'AI-tjänsten bedömde inte ingrediensen'
+    });
+    return verdict;
+  }
+  
   /**
    * Analyze a single text that might contain ingredients
    * This is useful for processing unstructured text from images or documents
    */
-  async analyzeText(text: string): Promise<AnalysisResult> {
+  async analyzeText(
+    text: string,
+    dietProfile: DietProfile = DEFAULT_DIET_PROFILE,
+    tracePolicy: TracePolicy = DEFAULT_TRACE_POLICY
+  ): Promise<AnalysisResult> {
     try {
       if (!text || text.trim().length === 0) {
         throw new Error('Empty text provided for analysis');
@@ -393,8 +656,8 @@ export class AnalysisService {
       // If the text appears to be a structured ingredient list
       if (languageDetector.isStructuredIngredientList(text)) {
         // Split by common ingredient separators and analyze as ingredients
-        const ingredients = this.splitTextToIngredients(text);
-        return this.analyzeIngredients(ingredients);
+        const ingredients = splitTextToIngredients(text);
+        return this.analyzeIngredients(ingredients, dietProfile, tracePolicy, extractTraceIngredients(text));
       }
       
       // Otherwise, treat as unstructured text
@@ -411,10 +674,13 @@ export class AnalysisService {
       
       // Parse and validate the result
       let result = outputParser.parseAnalysisResult(response);
+      const traceIngredients = extractTraceIngredients(text);
       
       // If we got ingredients from the text, enhance with local validation
       if (result.ingredientList.length > 0) {
-        result = await this.enhanceWithLocalValidation(result, result.ingredientList);
+        result = await this.enhanceWithLocalValidation(result, result.ingredientList, dietProfile, tracePolicy, traceIngredients);
+      } else {
+        this.validateWithoutIngredients(result, dietProfile, tracePolicy, traceIngredients);
       }
       
       return result;
@@ -424,26 +690,6 @@ export class AnalysisService {
     }
   }
   
-  /**
-   * Split text into ingredients for analysis
-   */
-  private splitTextToIngredients(text: string): string[] {
-    // Remove common headers and "may contain" / "traces of" information
-    // Match patterns like "Kan innehålla:", "Spår av:", "May contain:", "Traces of:" followed by anything until end of line or next main delimiter.
-    const cleanedText = text
-      .replace(/^(?:ing?redien(?:s|t)er|innehåll|inneh[åa]ller|ingredients|contents)\s*:\s*/i, '')
-      .replace(/(?:kan innehålla|spår av|may contain|traces of)\b.*?(?=[,;\n•*\-–—]|$)/gi, '') // Remove the entire "may contain" section
-      .trim();
-    
-    // Split by common ingredient separators
-    const ingredients = cleanedText
-      .split(/\s*[,;]\s*|\s*[•*\-–—]\s*|\s+och\s+|\s+and\s+|\s*\r?\n\s*/)
-      .map(part => part.trim())
-      .filter(part => part.length > 0);
-    
-    return ingredients;
-  }
-  
   /**
    * Cache an analysis result
    */
@@ -491,6 +737,26 @@ export class AnalysisService {
       return null;
     }
   }
+
+  /**
+   * Remove all cached analysis results (also when the cache is disabled)
+   * @returns Number of removed cache files
+   */
+  async purgeCache(): Promise<number> {
+    const files = await fs.promises.readdir(this.cacheConfig.directory).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return [] as string[];
+      throw error;
+    });
+
+    let removed = 0;
+    for (const file of files.filter(name => name.endsWith('.json'))) {
+      await fs.promises.unlink(path.join(this.cacheConfig.directory, file));
+      removed++;
+    }
+
+    logger.info('Purged analysis cache', { removed });
+    return removed;
+  }
 }
 
 // Export a singleton instance for convenience
@@ -0,0 +1,79 @@
+/**
+ * Granskningslogg för admin-åtgärder.
+ *
+ * Varje åtgärd i admin-API:t sparas i Supabase-tabellen admin_audit_log
+ * (se src/data/admin-audit-log.sql) och loggas dessutom med loggern, så att
+ * posten finns kvar i loggfilerna även om databasen inte kan nås.
+ */
+import { supabase } from './supabaseService';
+import { logger } from '../utils/logger';
+import { AdminPrincipal } from '../middleware/adminAuth';
+
+export interface AuditLogEntry {
+  action: string; // T.ex. "stats.reset"
+  actor: AdminPrincipal;
+  target?: string | null; // Det åtgärden gäller, t.ex. ett rapport-ID
+  details?: Record<string, unknown>;
+  success: boolean;
+  ip?: string | null;
+}
+
+export interface StoredAuditLogEntry {
+  id: string;
+  action: string;
+  actor_type: AdminPrincipal['type'];
+  actor_id: string;
+  target: string | null;
+  details: Record<string, unknown>;
+  success: boolean;
+  ip: string | null;
+  created_at: string;
+}
+
+export class AuditLogService {
+  constructor(private readonly table: string = 'admin_audit_log') {}
+
+  /**
+   * Spara en post. Kastar aldrig: åtgärden är redan utförd när den loggas.
+   */
+  async record(entry: AuditLogEntry): Promise<void> {
+    const row = {
+      action: entry.action,
+      actor_type: entry.actor.type,
+      actor_id: entry.actor.id,
+      target: entry.target ?? null,
+      details: entry.details ?? {},
+      success: entry.success,
+      ip: entry.ip ?? null
+    };
+
+    logger.info(`Admin action ${entry.action} by ${entry.actor.type} ${entry.actor.id}`, row);
+
+    try {
+      const { error } = await supabase.from(this.table).insert([row]);
+      if (error) {
+        throw new Error(error.message);
+      }
+    } catch (error: any) {
+      logger.error('Failed to write admin audit log entry', { error: error.message, entry: row });
+    }
+  }
+
+  /**
+   * Senaste posterna, nyast först
+   */
+  async list(limit: number, offset = 0): Promise<StoredAuditLogEntry[]> {
+    const { data, error } = await supabase
+      .from(this.table)
+      .select('*')
+      .order('created_at', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) {
+      throw new Error(`Failed to read admin audit log: ${error.message}`);
+    }
+    return (data || []) as StoredAuditLogEntry[];
+  }
+}
+
+export const auditLog = new AuditLogService();
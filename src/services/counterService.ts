@@ -1,5 +1,6 @@
 // src/services/counterService.ts
 import { supabase } from './supabaseService';
+import { UsageInfo } from '../types/analysisTypes';
 
 // Interface för counter information
 export interface CounterInfo {
@@ -108,6 +109,21 @@ export async function incrementCounter(
   }
 }
 
+/**
+ * Hämtar användningsinformation till ett analyssvar
+ * @param userId Användarens ID
+ * @returns Använda och återstående analyser enligt räknaren 'analysis_count'
+ */
+export async function getUsageInfo(userId: string): Promise<UsageInfo> {
+  const counter = await getCounter(userId, 'analysis_count');
+  return {
+    analysesUsed: counter.value,
+    analysesLimit: counter.limit,
+    remaining: counter.remaining,
+    isPremium: !counter.is_limited
+  };
+}
+
 /**
  * Kontrollerar om en användare har nått sin gräns för en räknare
  * @param userId Användarens ID
@@ -255,6 +255,26 @@ export class ImageProcessor {
     return Math.ceil(imageBase64.length * 0.75);
   }
 
+  /**
+   * Remove all cached, processed images
+   * @returns Number of removed cache files
+   */
+  async purgeCache(): Promise<number> {
+    const files = await fs.promises.readdir(this.cacheDir).catch((error: NodeJS.ErrnoException) => {
+      if (error.code === 'ENOENT') return [] as string[];
+      throw error;
+    });
+
+    let removed = 0;
+    for (const file of files.filter(name => name.endsWith('.jpg'))) {
+      await fs.promises.unlink(path.join(this.cacheDir, file));
+      removed++;
+    }
+
+    logger.info('Purged image cache', { removed });
+    return removed;
+  }
+
   /**
    * Ensure cache directory exists
    */
@@ -1,55 +1,72 @@
 // C:\Projects\koalens-backend\src\services\ingredientDatabase.ts
 // Import the necessary function from utils
-import { checkIngredientStatus as checkStatusFromUtils } from '../utils/ingredientsDatabase'; 
+import { checkIngredientStatus as checkStatusFromUtils, DietProfile, IngredientDataset, IngredientMatchStrategy } from '../utils/ingredientsDatabase'; 
 
 class IngredientDatabase {
   constructor() {
     console.log("[Service] IngredientDatabase initialized. Relies on utils/ingredientsDatabase for data.");
   }
 
-  public checkIngredient(ingredient: string): {
+  public checkIngredient(ingredient: string, dataset?: IngredientDataset, dietProfile?: DietProfile): {
     isVegan: boolean;
+    isUncertain: boolean;
     confidence: number;
     description?: string;
+    matchStrategy: IngredientMatchStrategy;
+    matchedItem?: string; // Namn på katalogposten som matchade
   } {
     if (!ingredient || typeof ingredient !== 'string') {
       console.warn('Invalid ingredient provided to checkIngredient:', ingredient);
       return {
         isVegan: true,
-        confidence: 0.5
+        isUncertain: false,
+        confidence: 0.5,
+        matchStrategy: 'none'
       };
     }
 
     // Delegate the check to the function in utils
-    const statusResult = checkStatusFromUtils(ingredient);
+    const statusResult = checkStatusFromUtils(ingredient, dataset, dietProfile);
+    const match = {
+      matchStrategy: statusResult.matchStrategy,
+      matchedItem: statusResult.matchedItem?.name
+    };
 
     // Adapt the result from checkStatusFromUtils to the expected return type
     if (statusResult.isVegan === false) {
       // Non-vegan
       return {
         isVegan: false,
+        isUncertain: false,
         confidence: 1.0, // High confidence for known non-vegan
-        description: statusResult.reason || statusResult.matchedItem?.description
+        description: statusResult.reason || statusResult.matchedItem?.description,
+        ...match
       };
     } else if (statusResult.isUncertain) {
       // Uncertain
       return {
         isVegan: false, // Treat uncertain as non-vegan for now?
+        isUncertain: true,
         confidence: 0.5, // Low confidence
-        description: statusResult.reason || statusResult.matchedItem?.description
+        description: statusResult.reason || statusResult.matchedItem?.description,
+        ...match
       };
     } else if (statusResult.isVegan === true) {
       // Known vegan
       return {
         isVegan: true,
+        isUncertain: false,
         confidence: 1.0, // High confidence for known vegan
-        description: statusResult.reason || statusResult.matchedItem?.description
+        description: statusResult.reason || statusResult.matchedItem?.description,
+        ...match
       };
     } else {
       // Unknown - default assumption (as per original logic)
       return {
         isVegan: true,
-        confidence: 0.8
+        isUncertain: false,
+        confidence: 0.8,
+        ...match
       };
     }
   }
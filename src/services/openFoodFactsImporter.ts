@@ -0,0 +1,301 @@
+import fs from 'fs';
+import path from 'path';
+import readline from 'readline';
+import { parse } from 'csv-parse';
+import { logger } from '../utils/logger';
+import { normalizeGtin } from '../utils/gtin';
+import { splitTextToIngredients } from '../utils/ingredientText';
+import { extractTraceIngredients } from '../utils/allergenClassifier';
+import { checkIngredientStatus, getIngredientDataset, IngredientDataset } from '../utils/ingredientsDatabase';
+import { DEFAULT_DIET_PROFILE, DietProfile } from '../utils/dietProfiles';
+import { productStore, ProductStore, StoredIngredient, StoredProduct } from './productStore';
+
+/**
+ * Exportformat från Open Food Facts: en JSON-produkt per rad, eller CSV
+ * (Open Food Facts egen CSV-export är tabbseparerad)
+ */
+export type OpenFoodFactsFormat = 'jsonl' | 'csv';
+
+/**
+ * Fälten som importen använder från en produkt i exporten.
+ * I CSV-exporten är alla värden strängar.
+ */
+export interface OpenFoodFactsRecord {
+  code?: string | number;
+  product_name?: string;
+  product_name_sv?: string;
+  product_name_en?: string;
+  ingredients_text_sv?: string;
+  ingredients_text_en?: string;
+  last_modified_t?: string | number;
+}
+
+export interface OpenFoodFactsImportOptions {
+  format?: OpenFoodFactsFormat; // Bestäms annars av filändelsen
+  dietProfile?: DietProfile;
+  force?: boolean; // Bearbeta även oförändrade produkter
+}
+
+export interface OpenFoodFactsImportSummary {
+  read: number; // Produkter i exporten
+  imported: number; // Nya eller ändrade produkter som sparades
+  unchanged: number; // Oförändrade sedan förra importen
+  verified: number; // Redan verifierade av en skanning eller rättade av en admin, behålls
+  undecided: number; // Ingredienser som databasen inte känner till, kräver AI-analys
+  removed: number; // Tidigare importer som inte längre kan avgöras
+  skipped: number; // Ogiltig streckkod, ingen ingredienstext eller trasig rad
+}
+
+// Antal produkter mellan förloppsloggar
+const PROGRESS_INTERVAL = 10000;
+
+/**
+ * Exportformatet för en fil utifrån filändelsen
+ * @returns Formatet, eller null om filändelsen är okänd
+ */
+export function getExportFormat(filePath: string): OpenFoodFactsFormat | null {
+  const extension = path.extname(filePath).toLowerCase();
+  if (extension === '.jsonl' || extension === '.json') {
+    return 'jsonl';
+  }
+  if (extension === '.csv' || extension === '.tsv') {
+    return 'csv';
+  }
+  return null;
+}
+
+/**
+ * Ingredienstexten för en produkt: svenska i första hand, annars engelska.
+ * Open Food Facts markerar allergener med understreck ("_mjölk_pulver"), de tas bort.
+ */
+function getIngredientsText(record: OpenFoodFactsRecord): string | null {
+  const text = [record.ingredients_text_sv, record.ingredients_text_en]
+    .find(value => typeof value === 'string' && value.trim().length > 0);
+  return text ? text.replace(/_/g, '').trim() : null;
+}
+
+/**
+ * Ingrediensnamn utan andelar och avslutande skiljetecken ("socker 20%." -> "socker")
+ */
+function cleanIngredientName(name: string): string {
+  return name
+    .replace(/\s*\d+(?:[.,]\d+)?\s*%/g, '')
+    .replace(/[.:]+$/, '')
+    .trim();
+}
+
+function getProductName(record: OpenFoodFactsRecord): string | null {
+  const name = [record.product_name_sv, record.product_name_en, record.product_name]
+    .find(value => typeof value === 'string' && value.trim().length > 0);
+  return name ? name.trim() : null;
+}
+
+function getLastModified(record: OpenFoodFactsRecord): number | null {
+  const lastModified = Number(record.last_modified_t);
+  return record.last_modified_t !== undefined && record.last_modified_t !== '' && Number.isFinite(lastModified)
+    ? lastModified
+    : null;
+}
+
+/**
+ * Produkt från en post i exporten, bedömd enbart mot ingrediensdatabasen.
+ * En icke-vegansk ingrediens avgör produkten; annars måste databasen känna till
+ * varje ingrediens, eftersom en okänd ingrediens kräver en AI-bedömning.
+ * @returns Produkten, eller null om den saknar ingredienstext eller inte kan avgöras
+ */
+export function createProductFromOpenFoodFacts(
+  gtin: string,
+  record: OpenFoodFactsRecord,
+  dataset: IngredientDataset = getIngredientDataset(),
+  dietProfile: DietProfile = DEFAULT_DIET_PROFILE
+): StoredProduct | null {
+  const text = getIngredientsText(record);
+  if (!text) {
+    return null;
+  }
+
+  let hasUnknownIngredient = false;
+  const names = splitTextToIngredients(text)
+    .map(cleanIngredientName)
+    .filter(name => name.length > 0);
+  const declared: StoredIngredient[] = names.map(name => {
+    const status = checkIngredientStatus(name, dataset, dietProfile);
+    if (status.matchStrategy === 'none') {
+      hasUnknownIngredient = true;
+    }
+    return {
+      name,
+      source: 'declared',
+      isVegan: status.isUncertain ? null : status.isVegan,
+      isUncertain: status.isUncertain,
+      confidence: status.matchStrategy === 'none' ? 0 : status.isUncertain ? 0.5 : 1.0,
+      ...(status.animalCategories.length > 0 ? { animalCategories: status.animalCategories } : {})
+    };
+  });
+  const isNonVegan = declared.some(ingredient => ingredient.isVegan === false);
+  if (declared.length === 0 || (hasUnknownIngredient && !isNonVegan)) {
+    return null;
+  }
+  const isUncertain = !isNonVegan && declared.some(ingredient => ingredient.isUncertain);
+
+  // Spårens status kontrolleras mot databasen vid varje analys
+  const traces: StoredIngredient[] = extractTraceIngredients(text).map(name => ({
+    name,
+    source: 'trace',
+    isVegan: null,
+    isUncertain: false,
+    confidence: 0
+  }));
+  const lastModified = getLastModified(record);
+
+  return {
+    gtin,
+    productName: getProductName(record),
+    ingredients: [...declared, ...traces],
+    isVegan: isNonVegan ? false : isUncertain ? null : true,
+    isUncertain,
+    confidence: isUncertain ? 0.5 : 1.0,
+    dietProfile,
+    analysisType: 'import',
+    databaseVersion: dataset.version,
+    verifiedAt: new Date().toISOString(),
+    ...(lastModified !== null ? { sourceLastModified: lastModified } : {})
+  };
+}
+
+async function* readJsonLines(filePath: string): AsyncGenerator<OpenFoodFactsRecord | null> {
+  const lines = readline.createInterface({ input: fs.createReadStream(filePath, 'utf-8'), crlfDelay: Infinity });
+  let lineNumber = 0;
+  for await (const line of lines) {
+    lineNumber++;
+    if (line.trim().length === 0) {
+      continue;
+    }
+    try {
+      yield JSON.parse(line) as OpenFoodFactsRecord;
+    } catch (error: any) {
+      logger.warn('Skipping invalid JSON line in Open Food Facts export', { line: lineNumber, error: error.message });
+      yield null;
+    }
+  }
+}
+
+/**
+ * Avgränsaren i en CSV-export: tabb om rubrikraden innehåller en tabb, annars komma
+ */
+function detectDelimiter(filePath: string): string {
+  const fd = fs.openSync(filePath, 'r');
+  try {
+    const buffer = Buffer.alloc(64 * 1024);
+    const bytesRead = fs.readSync(fd, buffer, 0, buffer.length, 0);
+    const header = buffer.toString('utf-8', 0, bytesRead).split('\n')[0];
+    return header.includes('\t') ? '\t' : ',';
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+async function* readCsvRecords(filePath: string): AsyncGenerator<OpenFoodFactsRecord | null> {
+  const delimiter = detectDelimiter(filePath);
+  const parser = fs.createReadStream(filePath).pipe(parse({
+    bom: true,
+    columns: true,
+    delimiter,
+    // Den tabbseparerade exporten citerar inte fält, citattecken är en del av texten
+    quote: delimiter === '\t' ? false : '"',
+    relax_column_count: true,
+    skip_empty_lines: true
+  }));
+  for await (const record of parser) {
+    yield record as OpenFoodFactsRecord;
+  }
+}
+
+/**
+ * Läs produkterna i en export rad för rad, utan att läsa in hela filen
+ * @returns Produkterna, null för rader som inte kunde tolkas
+ */
+export function readOpenFoodFactsExport(
+  filePath: string,
+  format: OpenFoodFactsFormat
+): AsyncGenerator<OpenFoodFactsRecord | null> {
+  return format === 'jsonl' ? readJsonLines(filePath) : readCsvRecords(filePath);
+}
+
+/**
+ * Importera en Open Food Facts-export till produktregistret.
+ *
+ * Importen är inkrementell: en produkt som importerats med samma last_modified_t
+ * och kostprofil hoppas över. Produkter som redan verifierats av en skanning skrivs
+ * aldrig över. Produkter som databasen inte kan avgöra sparas inte, och kontrolleras
+ * på nytt vid nästa import eftersom en uppdaterad databas kan avgöra dem.
+ */
+export async function importOpenFoodFacts(
+  filePath: string,
+  store: ProductStore = productStore,
+  options: OpenFoodFactsImportOptions = {}
+): Promise<OpenFoodFactsImportSummary> {
+  const format = options.format || getExportFormat(filePath);
+  if (!format) {
+    throw new Error(`Unknown Open Food Facts export format for ${path.basename(filePath)}: use a .jsonl or .csv file`);
+  }
+  const dietProfile = options.dietProfile || DEFAULT_DIET_PROFILE;
+  // Use one database snapshot for the whole import
+  const dataset = getIngredientDataset();
+  const summary: OpenFoodFactsImportSummary = {
+    read: 0,
+    imported: 0,
+    unchanged: 0,
+    verified: 0,
+    undecided: 0,
+    removed: 0,
+    skipped: 0
+  };
+
+  logger.info('Importing Open Food Facts export', { file: filePath, format, dietProfile, databaseVersion: dataset.version });
+
+  for await (const record of readOpenFoodFactsExport(filePath, format)) {
+    summary.read++;
+    if (summary.read % PROGRESS_INTERVAL === 0) {
+      logger.info('Open Food Facts import progress', { ...summary });
+    }
+
+    const gtin = record ? normalizeGtin(String(record.code ?? '')) : null;
+    if (!record || !gtin || !getIngredientsText(record)) {
+      summary.skipped++;
+      continue;
+    }
+
+    const stored = await store.getProduct(gtin);
+    if (stored && (stored.analysisType !== 'import' || stored.correctedBy !== undefined)) {
+      summary.verified++;
+      continue;
+    }
+    const lastModified = getLastModified(record);
+    if (
+      !options.force &&
+      stored &&
+      lastModified !== null &&
+      stored.sourceLastModified === lastModified &&
+      stored.dietProfile === dietProfile
+    ) {
+      summary.unchanged++;
+      continue;
+    }
+
+    const product = createProductFromOpenFoodFacts(gtin, record, dataset, dietProfile);
+    if (!product) {
+      summary.undecided++;
+      if (stored) {
+        await store.deleteProduct(gtin);
+        summary.removed++;
+      }
+      continue;
+    }
+    await store.saveProduct(product);
+    summary.imported++;
+  }
+
+  logger.info('Open Food Facts import finished', { ...summary });
+  return summary;
+}
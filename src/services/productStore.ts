@@ -0,0 +1,289 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { logger } from '../utils/logger';
+import { IngredientSource, ProductReference, VideoAnalysisResult } from '../types/analysisTypes';
+import { AnimalCategory } from '../utils/ingredientCatalogue';
+import { DEFAULT_DIET_PROFILE, DietProfile } from '../utils/dietProfiles';
+import { AnalysisResult } from '../utils/outputParser';
+
+/**
+ * En ingrediens i en sparad produkt, med status som den verifierades
+ */
+export interface StoredIngredient {
+  name: string;
+  source: IngredientSource;
+  isVegan: boolean | null;
+  isUncertain: boolean;
+  confidence: number;
+  animalCategories?: AnimalCategory[];
+}
+
+/**
+ * En produkts senast verifierade ingredienslista och bedömning, per streckkod
+ */
+export interface StoredProduct {
+  gtin: string; // GTIN-14, se normalizeGtin
+  productName: string | null;
+  ingredients: StoredIngredient[];
+  isVegan: boolean | null;
+  isUncertain: boolean;
+  confidence: number;
+  dietProfile: DietProfile; // Profilen som statusarna gäller
+  analysisType: 'text' | 'image' | 'video' | 'import'; // Flödet som verifierade produkten
+  verifiedBy?: string; // Användaren som verifierade produkten; saknas för importerade och äldre produkter
+  correctedBy?: string; // Admin som rättade produkten; en rättad produkt ersätts inte av analyser eller importer
+  databaseVersion: string;
+  verifiedAt: string; // ISO 8601
+  sourceLastModified?: number; // last_modified_t i Open Food Facts, för importerade produkter
+}
+
+/**
+ * En admins rättelse av en sparad produkt; fält som saknas behålls
+ */
+export interface ProductCorrection {
+  productName?: string | null;
+  ingredients?: {
+    name: string;
+    source: IngredientSource;
+    isVegan: boolean | null; // null för en ingrediens med osäkert ursprung
+  }[];
+}
+
+/**
+ * Produkten som den visas för klienter, utan användaren eller admin som verifierade den
+ */
+export function toPublicProduct(product: StoredProduct): Omit<StoredProduct, 'verifiedBy' | 'correctedBy'> {
+  const { verifiedBy: _verifiedBy, correctedBy: _correctedBy, ...publicProduct } = product;
+  return publicProduct;
+}
+
+/**
+ * Referens till den sparade produkten för ett svar
+ */
+export function toProductReference(product: StoredProduct, fromStore: boolean): ProductReference {
+  return { gtin: product.gtin, fromStore, verifiedAt: product.verifiedAt };
+}
+
+/**
+ * Produkt från ett resultat i text- eller bildflödet
+ * @returns Produkten, eller null om resultatet saknar ingredienser
+ */
+export function createProductFromAnalysis(
+  gtin: string,
+  result: AnalysisResult,
+  analysisType: 'text' | 'image' = 'text'
+): StoredProduct | null {
+  if (result.ingredientList.length === 0) {
+    return null;
+  }
+  const declared: StoredIngredient[] = result.ingredientList.map(name => {
+    const verdict = result.ingredientVerdicts?.find(ingredientVerdict => ingredientVerdict.name === name);
+    return {
+      name,
+      source: 'declared',
+      isVegan: verdict ? verdict.isVegan : null,
+      isUncertain: verdict ? verdict.isUncertain : true,
+      confidence: verdict ? verdict.confidence : 0
+    };
+  });
+  // Spårens status kontrolleras mot databasen vid varje analys
+  const traces: StoredIngredient[] = (result.traceIngredients || []).map(name => ({
+    name,
+    source: 'trace',
+    isVegan: null,
+    isUncertain: false,
+    confidence: 0
+  }));
+
+  return {
+    gtin,
+    productName: result.productName || null,
+    ingredients: [...declared, ...traces],
+    isVegan: result.isVegan,
+    isUncertain: result.isVegan === null,
+    confidence: result.confidence,
+    dietProfile: result.dietProfile || DEFAULT_DIET_PROFILE,
+    analysisType,
+    databaseVersion: result.databaseVersion || '',
+    verifiedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Produkt från ett resultat i videoflödet
+ * @returns Produkten, eller null om resultatet saknar deklarerade ingredienser
+ */
+export function createProductFromVideoAnalysis(gtin: string, result: VideoAnalysisResult): StoredProduct | null {
+  if (!result.ingredients.some(ingredient => ingredient.source === 'declared')) {
+    return null;
+  }
+  return {
+    gtin,
+    productName: null,
+    ingredients: result.ingredients.map(ingredient => ({
+      name: ingredient.name,
+      source: ingredient.source,
+      isVegan: ingredient.isVegan,
+      isUncertain: ingredient.isUncertain,
+      confidence: ingredient.confidence,
+      ...(ingredient.animalCategories ? { animalCategories: ingredient.animalCategories } : {})
+    })),
+    isVegan: result.isVegan,
+    isUncertain: result.isUncertain === true,
+    confidence: result.confidence,
+    dietProfile: result.dietProfile || DEFAULT_DIET_PROFILE,
+    analysisType: 'video',
+    databaseVersion: result.databaseVersion || '',
+    verifiedAt: new Date().toISOString()
+  };
+}
+
+/**
+ * Lokalt produktregister: en JSON-fil per streckkod.
+ * Analysflödena sparar en lyckad analys här när klienten skickar med en streckkod,
+ * och en ny skanning av samma produkt kan då besvaras utan att anropa AI-tjänsten.
+ */
+export class ProductStore {
+  private directory: string;
+
+  constructor(directory: string = process.env.PRODUCT_STORE_DIR || path.join(process.cwd(), 'data', 'products')) {
+    this.directory = directory;
+  }
+
+  private getFilePath(gtin: string): string {
+    return path.join(this.directory, `${gtin}.json`);
+  }
+
+  /**
+   * Hämta en sparad produkt
+   * @param gtin Normaliserad streckkod
+   * @returns Produkten, eller null om den inte finns eller inte kan läsas
+   */
+  async getProduct(gtin: string): Promise<StoredProduct | null> {
+    try {
+      const content = await fs.promises.readFile(this.getFilePath(gtin), 'utf-8');
+      return JSON.parse(content) as StoredProduct;
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        logger.error('Failed to read stored product', { gtin, error: error.message });
+      }
+      return null;
+    }
+  }
+
+  /**
+   * Spara eller ersätt en produkt.
+   * Filen skrivs först under ett tillfälligt namn, så att en samtidig läsning aldrig
+   * ser en halvskriven produkt. Namnet är unikt per skrivning, så att två samtidiga
+   * sparningar av samma produkt inte skriver i samma fil.
+   */
+  async saveProduct(product: StoredProduct): Promise<void> {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const filePath = this.getFilePath(product.gtin);
+    const tempPath = `${filePath}.${crypto.randomUUID()}.tmp`;
+    await fs.promises.writeFile(tempPath, JSON.stringify(product, null, 2));
+    await fs.promises.rename(tempPath, filePath);
+    logger.info('Saved product to the product store', {
+      gtin: product.gtin,
+      ingredientCount: product.ingredients.length,
+      isVegan: product.isVegan,
+      analysisType: product.analysisType
+    });
+  }
+
+  /**
+   * Ta bort en produkt. En produkt som inte finns ignoreras.
+   */
+  async deleteProduct(gtin: string): Promise<void> {
+    try {
+      await fs.promises.unlink(this.getFilePath(gtin));
+      logger.info('Removed product from the product store', { gtin });
+    } catch (error: any) {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Rätta en sparad produkt. Med nya ingredienser räknas bedömningen om från de
+   * deklarerade ingredienserna. Rättelsen behålls tills en admin rättar eller tar
+   * bort produkten igen.
+   * @param correctedBy Admin som rättade produkten, t.ex. "apiKey:monitor"
+   * @returns Den rättade produkten, eller null om ingen produkt finns för streckkoden
+   */
+  async correctProduct(gtin: string, correction: ProductCorrection, correctedBy: string): Promise<StoredProduct | null> {
+    const existing = await this.getProduct(gtin);
+    if (!existing) {
+      return null;
+    }
+
+    let verdict: Pick<StoredProduct, 'ingredients' | 'isVegan' | 'isUncertain' | 'confidence'> = existing;
+    if (correction.ingredients) {
+      const ingredients: StoredIngredient[] = correction.ingredients.map(ingredient => ({
+        name: ingredient.name,
+        source: ingredient.source,
+        isVegan: ingredient.isVegan,
+        isUncertain: ingredient.isVegan === null,
+        confidence: 1
+      }));
+      const declared = ingredients.filter(ingredient => ingredient.source === 'declared');
+      const isVegan = declared.some(ingredient => ingredient.isVegan === false)
+        ? false
+        : declared.some(ingredient => ingredient.isVegan === null) ? null : true;
+      verdict = { ingredients, isVegan, isUncertain: isVegan === null, confidence: 1 };
+    }
+
+    const product: StoredProduct = {
+      ...existing,
+      productName: correction.productName !== undefined ? correction.productName : existing.productName,
+      ingredients: verdict.ingredients,
+      isVegan: verdict.isVegan,
+      isUncertain: verdict.isUncertain,
+      confidence: verdict.confidence,
+      correctedBy,
+      verifiedAt: new Date().toISOString()
+    };
+    await this.saveProduct(product);
+    return product;
+  }
+
+  /**
+   * Spara en lyckad analys av en inloggad användare. Den sparade produkten besvarar
+   * andra användares skanningar, så en anonym analys sparas inte. Den senaste
+   * analysen ersätter den sparade produkten, så att ett felaktigt resultat rättas av
+   * nästa skanning, utom när en admin har rättat produkten.
+   * Ett fel loggas men stoppar inte svaret till klienten.
+   * @param verifiedBy Den inloggade användarens ID, eller null för anonyma förfrågningar
+   * @returns Referens till den sparade produkten, eller undefined om inget sparades
+   */
+  async saveVerifiedProduct(product: StoredProduct | null, verifiedBy: string | null): Promise<ProductReference | undefined> {
+    if (!product || !verifiedBy) {
+      return undefined;
+    }
+    try {
+      const existing = await this.getProduct(product.gtin);
+      if (existing?.correctedBy !== undefined) {
+        logger.info('Kept the stored product corrected by an admin', { gtin: product.gtin });
+        return undefined;
+      }
+      await this.saveProduct({ ...product, verifiedBy });
+      return toProductReference(product, false);
+    } catch (error: any) {
+      logger.error('Failed to save product to the product store', { gtin: product.gtin, error: error.message });
+      return undefined;
+    }
+  }
+
+  /**
+   * Kan den sparade produkten besvara en ny skanning?
+   * Statusarna gäller profilen de verifierades med, så en annan profil kräver en ny analys.
+   */
+  isReusable(product: StoredProduct, dietProfile: DietProfile): boolean {
+    return product.dietProfile === dietProfile && product.ingredients.some(ingredient => ingredient.source === 'declared');
+  }
+}
+
+// Export a singleton instance
+export const productStore = new ProductStore();
@@ -4,9 +4,25 @@ import {
   DEFINITELY_NON_VEGAN, 
   POTENTIALLY_NON_VEGAN, 
   ANIMAL_INDICATORS,
-  SAFE_EXCEPTIONS 
+  SAFE_EXCEPTIONS,
+  CATALOGUE_TERMS
 } from '../constants/veganIngredients';
+import { IngredientAlias, IngredientLanguage, IngredientStatus } from '../utils/ingredientCatalogue';
+import { IngredientVerdict, VerdictTraceStep } from '../types/analysisTypes';
+import { CompoundAnalysis, findCompound, getIngredientDataset } from '../utils/ingredientsDatabase';
+import { describeCompound } from '../utils/compoundSplitter';
+import {
+  DEFAULT_DIET_PROFILE,
+  DietProfile,
+  describeAnimalCategories,
+  getCompoundProfileStatus,
+  getItemProfileStatus
+} from '../utils/dietProfiles';
+import { parseENumber } from '../utils/eNumberParser';
 import { logger } from '../utils/logger';
+import { normalizeString } from '../utils/textNormalizer';
+import { containsWord } from '../utils/wordMatcher';
+import { applyVerdictChange, startVerdictTrace, TraceableVerdict } from '../utils/verdictTrace';
 
 // Definiera threshold
 const FUZZY_MATCH_THRESHOLD = 0.8;
@@ -17,33 +33,33 @@ export interface ValidationResult {
   nonVeganIngredients: string[];
   uncertainIngredients: string[];
   reasoning: string;
+  ingredients: IngredientVerdict[]; // Bedömning per ingrediens med regeln som avgjorde den
+  trace: VerdictTraceStep[]; // Regler som ändrade den samlade bedömningen, i ordning
+  dietProfile: DietProfile; // Kostprofil som isVegan gäller för ("passar profilen")
   debug?: {
-    fuzzyMatches?: Array<{
-      ingredient: string;
-      matchedWith: string;
-      similarity: number;
-    }>;
+    fuzzyMatches?: Array<FuzzyMatchInfo>;
+    compoundMatches?: Array<CompoundAnalysis>; // Sammansatta ord som klassificerades utifrån sina leder
   };
 }
 
-/**
- * Normaliserar en sträng genom att hantera svenska tecken och formatering
- */
-// Exportera funktionen så att den kan återanvändas
-export function normalizeString(str: string): string {
-  return str
-    .toLowerCase()
-    .trim()
-    // Remove common formatting characters (like bold markers)
-    .replace(/[*_~]/g, '') 
-    .replace(/å/g, 'a')
-    .replace(/ä/g, 'a')
-    .replace(/ö/g, 'o')
-    .replace(/é/g, 'e')
-    .replace(/è/g, 'e')
-    .replace(/ë/g, 'e');
+export interface FuzzyMatchInfo {
+  ingredient: string;
+  matchedWith: string;
+  similarity: number;
+  matchedIngredient?: string; // Katalogpostens namn
+  language?: IngredientLanguage; // Språket för namnet/aliaset som matchade (saknas för E-nummer)
+}
+
+export interface BestMatchResult {
+  match: string | null;
+  similarity: number;
+  matchedIngredient?: string; // Katalogpost som termen tillhör
+  matchedAlias?: IngredientAlias; // Namnet/aliaset som matchade, med språk
 }
 
+// normalizeString har flyttats till utils/textNormalizer men exporteras härifrån som tidigare
+export { normalizeString };
+
 /**
  * Jämför två strängar med fuzzy matching och stöd för svenska tecken
  */
@@ -65,30 +81,51 @@ export function fuzzyMatch(input: string, target: string, threshold: number = 0.
 }
 
 /**
- * Hittar bästa matchningen i en uppsättning av strängar
+ * Lägg till katalogpost och alias (med språk) för en matchad term
  */
-export function findBestMatch(input: string, targets: Set<string>, isStrict: boolean = false): { match: string | null; similarity: number } {
+function withCatalogueSource(result: { match: string | null; similarity: number }): BestMatchResult {
+  const source = result.match ? CATALOGUE_TERMS.get(normalizeString(result.match)) : undefined;
+  if (!source) {
+    return result;
+  }
+  return { ...result, matchedIngredient: source.ingredient, matchedAlias: source.alias };
+}
+
+/**
+ * Hittar bästa matchningen i en uppsättning av strängar.
+ * Om termen kommer från ingredienskatalogen anges även vilken post och vilket
+ * namn/alias (och språk) som matchade.
+ */
+export function findBestMatch(input: string, targets: Set<string>, isStrict: boolean = false): BestMatchResult {
   const normalizedInput = normalizeString(input);
   let bestMatch: string | null = '';
   let bestSimilarity = -1;
 
   // Exact match first (high performance skip)
   if (targets.has(input) || targets.has(normalizedInput)) {
-    return { match: input, similarity: 1.0 };
+    return withCatalogueSource({ match: input, similarity: 1.0 });
   }
 
   // Om vi letar efter exakta matchningar (för sammansatta ord)
   if (isStrict) {
     for (const target of targets) {
       if (normalizeString(target) === normalizedInput) {
-        return { match: target, similarity: 1.0 };
+        return withCatalogueSource({ match: target, similarity: 1.0 });
       }
     }
   }
 
+  // E-nummer jämförs bara exakt: "e105" och "e1105" skiljer sig med en siffra men är olika ämnen
+  if (parseENumber(normalizedInput)) {
+    return { match: bestMatch, similarity: bestSimilarity };
+  }
+
   // Annars gör fuzzy matching
   for (const target of targets) {
     const normalizedTarget = normalizeString(target);
+    if (parseENumber(normalizedTarget)) {
+      continue;
+    }
     const similarity = 1 - (distance(normalizedInput, normalizedTarget) / Math.max(normalizedInput.length, normalizedTarget.length));
     
     if (similarity > bestSimilarity && similarity >= 0.8) {
@@ -97,29 +134,87 @@ export function findBestMatch(input: string, targets: Set<string>, isStrict: boo
     }
   }
 
-  return { match: bestMatch, similarity: bestSimilarity };
+  return withCatalogueSource({ match: bestMatch, similarity: bestSimilarity });
+}
+
+/**
+ * Skapa debug-information för en matchning
+ */
+function toFuzzyMatchInfo(ingredient: string, result: BestMatchResult): FuzzyMatchInfo {
+  return {
+    ingredient,
+    matchedWith: result.match as string,
+    similarity: result.similarity,
+    matchedIngredient: result.matchedIngredient,
+    language: result.matchedAlias?.language
+  };
 }
 
 /**
- * Validerar en lista med ingredienser och avgör om de är veganska
+ * Validerar en lista med ingredienser och avgör om de är veganska,
+ * eller om de passar en annan kostprofil (t.ex. "vegetarian")
  */
-export function validateIngredients(ingredients: string[]): ValidationResult {
+export function validateIngredients(ingredients: string[], dietProfile: DietProfile = DEFAULT_DIET_PROFILE): ValidationResult {
   const nonVeganFound: string[] = [];
   const uncertainFound: string[] = [];
   let confidence = 1.0;
   const debugInfo: string[] = [];
-  const fuzzyMatches: Array<{ ingredient: string; matchedWith: string; similarity: number }> = [];
+  const fuzzyMatches: FuzzyMatchInfo[] = [];
+  const compoundMatches: CompoundAnalysis[] = [];
+  const ingredientVerdicts: IngredientVerdict[] = [];
+
+  // Samlad bedömning medan reglerna tillämpas (utgångsläge: vegansk, full konfidens)
+  const productVerdict: TraceableVerdict = { isVegan: true, isUncertain: false, confidence, trace: [] };
+
+  // Sänk konfidensen till högst confidenceLimit och spara regeln om bedömningen ändrades
+  const updateProductVerdict = (rule: string, reason: string, confidenceLimit: number = confidence): void => {
+    confidence = Math.min(confidence, confidenceLimit);
+    applyVerdictChange(productVerdict, {
+      isVegan: nonVeganFound.length === 0,
+      isUncertain: uncertainFound.length > 0,
+      confidence
+    }, { source: 'validator', rule, reason });
+  };
+
+  // Spara bedömningen av en ingrediens och regeln som avgjorde den
+  const recordIngredientVerdict = (
+    name: string,
+    status: IngredientStatus,
+    ingredientConfidence: number,
+    rule: string,
+    reason: string,
+    matchedItem?: string
+  ): void => {
+    const verdict: IngredientVerdict = {
+      name,
+      isVegan: status === 'vegan' ? true : status === 'non-vegan' ? false : null,
+      isUncertain: status === 'uncertain',
+      confidence: ingredientConfidence,
+      trace: []
+    };
+    startVerdictTrace(verdict, { source: 'validator', rule, reason, matchedItem });
+    ingredientVerdicts.push(verdict);
+  };
 
   // Handle empty ingredient list as a special case - may indicate a problem with image recognition
   if (!ingredients || ingredients.length === 0) {
+    applyVerdictChange(productVerdict, { isVegan: null, confidence: 0.3 }, {
+      source: 'validator',
+      rule: 'empty-ingredient-list',
+      reason: 'Inga ingredienser kunde identifieras'
+    });
     return {
       isVegan: null,
       confidence: 0.3,
       nonVeganIngredients: [],
       uncertainIngredients: [],
       reasoning: 'Inga ingredienser kunde identifieras, vilket kan indikera problem med bildkvaliteten.',
+      ingredients: [],
+      trace: productVerdict.trace || [],
+      dietProfile,
       debug: {
-        fuzzyMatches: []
+        fuzzyMatches: [],
+        compoundMatches: []
       }
     };
   }
@@ -136,19 +231,20 @@ export function validateIngredients(ingredients: string[]): ValidationResult {
   const partialWordPatterns = ingredients.some(ingredient => {
     // Check for words followed by parentheses indicating partial reading
     return /\w+\s*\([^)]*\)/.test(ingredient) || 
-           // Check for short words (likely partial readings)
-           (ingredient.length <= 4 && !/salt|mjöl|olja|ris|kli|malt|ägg|soja|vax|jäst|miso|tofu/i.test(ingredient));
+           // Check for short words (likely partial readings); E-nummer är korta men inte fragment
+           (ingredient.length <= 4 && !/salt|mjöl|olja|ris|kli|malt|ägg|soja|vax|jäst|miso|tofu/i.test(ingredient) &&
+            !parseENumber(normalizeString(ingredient)));
   });
   
   // If we have suspicious patterns that indicate text misreading
   if (suspiciousIngredients || partialWordPatterns) {
-    confidence = Math.min(confidence, 0.4); // Significantly lower confidence
+    updateProductVerdict('suspected-misreading', 'Misstänkta läsfel detekterade i ingredienslistan.', 0.4); // Significantly lower confidence
     debugInfo.push('Misstänkta läsfel detekterade i ingredienslistan.');
   }
 
   // If we have too few ingredients (likely image recognition error)
   if (ingredients.length <= 2) {
-    confidence = Math.min(confidence, 0.7); // Lower confidence for very short lists
+    updateProductVerdict('short-ingredient-list', 'Väldigt få ingredienser identifierade - möjligt att vissa saknas.', 0.7); // Lower confidence for very short lists
     debugInfo.push('Väldigt få ingredienser identifierade - möjligt att vissa saknas.');
   }
 
@@ -160,10 +256,33 @@ export function validateIngredients(ingredients: string[]): ValidationResult {
   );
   
   if (hasInconsistentLengths) {
-    confidence = Math.min(confidence, 0.6);
+    updateProductVerdict('inconsistent-lengths', 'Ingrediensnamnen har inkonsekvent längd, vilket kan indikera läsfel.', 0.6);
     debugInfo.push('Ingrediensnamnen har inkonsekvent längd, vilket kan indikera läsfel.');
   }
 
+  // Samma databas för alla ingredienser i analysen
+  const dataset = getIngredientDataset();
+
+  // Förklaring om kostprofilen tillåter den matchade katalogposten, annars null
+  const getProfileAllowance = (ingredient: string, itemName?: string): string | null => {
+    const item = itemName ? dataset.entries.find(entry => entry.name === itemName) : undefined;
+    if (dietProfile === DEFAULT_DIET_PROFILE || !item || getItemProfileStatus(item, dietProfile) !== 'vegan') {
+      return null;
+    }
+    return `${ingredient} (${item.name}) passar kostprofilen "${dietProfile}": ${describeAnimalCategories(item.animalCategories || [])} är tillåtet`;
+  };
+
+  // Samma förklaring för ett sammansatt ord, där alla icke-veganska eller osäkra leder måste vara tillåtna
+  const getCompoundProfileAllowance = (ingredient: string, compound: CompoundAnalysis): string | null => {
+    if (dietProfile === DEFAULT_DIET_PROFILE || compound.status === 'vegan' || getCompoundProfileStatus(compound, dietProfile) !== 'vegan') {
+      return null;
+    }
+    const categories = [...new Set(compound.parts.flatMap(part =>
+      part.item && !part.qualifiedBy ? part.item.animalCategories || [] : []
+    ))];
+    return `${ingredient} passar kostprofilen "${dietProfile}": ${describeAnimalCategories(categories)} är tillåtet`;
+  };
+
   // Detect nonsensical ingredients that are not even close to any known ingredients
   const possibleGibberish = ingredients.filter(ingredient => {
     // Normalize for checking
@@ -171,6 +290,12 @@ export function validateIngredients(ingredients: string[]): ValidationResult {
     
     // Skip very short ingredients
     if (normalized.length <= 2) return false;
+
+    // E-nummer jämförs inte med fuzzy matching, så ett okänt E-nummer är inte ett läsfel
+    if (parseENumber(normalized)) return false;
+
+    // Ett sammansatt ord av kända leder är inte ett läsfel
+    if (findCompound(normalized, dataset)) return false;
     
     // Check against all known ingredients (both safe and non-vegan)
     const allKnownIngredients = new Set<string>([
@@ -187,7 +312,7 @@ export function validateIngredients(ingredients: string[]): ValidationResult {
   });
   
   if (possibleGibberish.length > 0) {
-    confidence = Math.min(confidence, 0.5);
+    updateProductVerdict('possible-gibberish', `Potentiellt fellästa ingredienser: ${possibleGibberish.join(', ')}`, 0.5);
     debugInfo.push(`Potentiellt fellästa ingredienser: ${possibleGibberish.join(', ')}`);
   }
 
@@ -202,14 +327,26 @@ export function validateIngredients(ingredients: string[]): ValidationResult {
          ingredient.includes('???')) || 
         (ingredient.length <= 3 && !/ris|kli|olja|ägg|vax|soja/i.test(ingredient))) {
       
+      const partialReadReason = `${ingredient} ser ut att vara ofullständigt avläst och har markerats som osäker`;
       uncertainFound.push(ingredient);
-      confidence = Math.min(confidence, 0.5);
-      debugInfo.push(`${ingredient} ser ut att vara ofullständigt avläst och har markerats som osäker`);
+      updateProductVerdict('partial-read', partialReadReason, 0.5);
+      recordIngredientVerdict(ingredient, 'uncertain', 0.5, 'partial-read', partialReadReason);
+      debugInfo.push(partialReadReason);
       continue;
     }
     
     const normalizedIngredient = normalizeString(ingredient);
 
+    // Ett exakt säkert undantag (t.ex. "laktas" eller "e105") ska inte fuzzy-matchas mot något annat
+    const exactSafeMatch = findBestMatch(normalizedIngredient, SAFE_EXCEPTIONS, true);
+    if (exactSafeMatch.match && exactSafeMatch.similarity === 1) {
+      const safeReason = `${ingredient} är ett känt säkert undantag: ${exactSafeMatch.match}`;
+      fuzzyMatches.push(toFuzzyMatchInfo(normalizedIngredient, exactSafeMatch));
+      recordIngredientVerdict(ingredient, 'vegan', 1, 'safe-exception', safeReason, exactSafeMatch.matchedIngredient);
+      debugInfo.push(safeReason);
+      continue;
+    }
+
     // Kontrollera först mot POTENTIALLY_NON_VEGAN (osäkra) ingredienser
     const uncertainMatch = findBestMatch(normalizedIngredient, POTENTIALLY_NON_VEGAN);
     
@@ -226,24 +363,30 @@ export function validateIngredients(ingredients: string[]): ValidationResult {
         // Om det matchar ett säkert undantag starkare eller lika starkt, behandla som säkert.
         const safeCheck = findBestMatch(normalizedIngredient, SAFE_EXCEPTIONS);
         if (safeCheck.match && safeCheck.similarity >= uncertainMatch.similarity) {
-            fuzzyMatches.push({
-              ingredient: normalizedIngredient,
-              matchedWith: safeCheck.match,
-              similarity: safeCheck.similarity
-            });
-            debugInfo.push(`${ingredient} matchade potentiellt osäker (${uncertainMatch.match}) men starkare mot säkert undantag: ${safeCheck.match}`);
+            const saferReason = `${ingredient} matchade potentiellt osäker (${uncertainMatch.match}) men starkare mot säkert undantag: ${safeCheck.match}`;
+            fuzzyMatches.push(toFuzzyMatchInfo(normalizedIngredient, safeCheck));
+            recordIngredientVerdict(ingredient, 'vegan', safeCheck.similarity, 'safe-exception', saferReason, safeCheck.matchedIngredient);
+            debugInfo.push(saferReason);
             continue; // Fortsätt till nästa ingrediens
         }
         
+        // Osäker för vegan men tillåten av kostprofilen (t.ex. lecitin för "vegetarian")
+        const uncertainAllowance = getProfileAllowance(ingredient, uncertainMatch.matchedIngredient);
+        if (uncertainAllowance) {
+            fuzzyMatches.push(toFuzzyMatchInfo(normalizedIngredient, uncertainMatch));
+            recordIngredientVerdict(ingredient, 'vegan', uncertainMatch.similarity, 'diet-profile', uncertainAllowance, uncertainMatch.matchedIngredient);
+            debugInfo.push(uncertainAllowance);
+            continue;
+        }
+
         // Annars, markera som osäker
+        const uncertainReason = `${ingredient} matchade osäker ingrediens: ${uncertainMatch.match} (${(uncertainMatch.similarity * 100).toFixed(1)}% likhet)`;
         uncertainFound.push(ingredient);
         // Ingen sänkning av confidence här, osäkerhet är förväntat
-        fuzzyMatches.push({
-            ingredient: normalizedIngredient,
-            matchedWith: uncertainMatch.match,
-            similarity: uncertainMatch.similarity
-        });
-        debugInfo.push(`${ingredient} matchade osäker ingrediens: ${uncertainMatch.match} (${(uncertainMatch.similarity * 100).toFixed(1)}% likhet)`);
+        updateProductVerdict('uncertain-match', uncertainReason);
+        fuzzyMatches.push(toFuzzyMatchInfo(normalizedIngredient, uncertainMatch));
+        recordIngredientVerdict(ingredient, 'uncertain', uncertainMatch.similarity, 'uncertain-match', uncertainReason, uncertainMatch.matchedIngredient);
+        debugInfo.push(uncertainReason);
         continue; // Gå vidare till nästa ingrediens efter osäker match
     }
     
@@ -262,58 +405,113 @@ export function validateIngredients(ingredients: string[]): ValidationResult {
         );
       });
 
+      // Kostprofilen tillåter ingrediensen (t.ex. vassle för "vegetarian"), även om den är felläst
+      const nonVeganAllowance = isCompoundException ? null : getProfileAllowance(ingredient, nonVeganMatch.matchedIngredient);
+      if (nonVeganAllowance) {
+          fuzzyMatches.push(toFuzzyMatchInfo(normalizedIngredient, nonVeganMatch));
+          recordIngredientVerdict(ingredient, 'vegan', nonVeganMatch.similarity, 'diet-profile', nonVeganAllowance, nonVeganMatch.matchedIngredient);
+          debugInfo.push(nonVeganAllowance);
+          continue;
+      }
+
       if (!isCompoundException) {
           // Om vi misstänker felläsning, markera som osäker istället för icke-vegansk
           if (suspiciousIngredients || partialWordPatterns || possibleGibberish.includes(ingredient)) {
+              const misreadReason = `${ingredient} matchade icke-vegansk ingrediens (${nonVeganMatch.match}) men misstänks vara felläst -> osäker`;
               uncertainFound.push(ingredient);
-              confidence = Math.min(confidence, 0.5);
-              debugInfo.push(`${ingredient} matchade icke-vegansk ingrediens (${nonVeganMatch.match}) men misstänks vara felläst -> osäker`);
+              updateProductVerdict('suspected-misread', misreadReason, 0.5);
+              recordIngredientVerdict(ingredient, 'uncertain', 0.5, 'suspected-misread', misreadReason, nonVeganMatch.matchedIngredient);
+              debugInfo.push(misreadReason);
           } else {
               // Annars, markera som icke-vegansk
+              const nonVeganReason = `${ingredient} matchade icke-vegansk ingrediens: ${nonVeganMatch.match} (${(nonVeganMatch.similarity * 100).toFixed(1)}% likhet)`;
               nonVeganFound.push(ingredient);
-              confidence = Math.min(confidence, 0.9); // Hög konfidensgrad för definitiv match
-              fuzzyMatches.push({
-                  ingredient: normalizedIngredient,
-                  matchedWith: nonVeganMatch.match,
-                  similarity: nonVeganMatch.similarity
-              });
-              debugInfo.push(`${ingredient} matchade icke-vegansk ingrediens: ${nonVeganMatch.match} (${(nonVeganMatch.similarity * 100).toFixed(1)}% likhet)`);
+              updateProductVerdict('non-vegan-match', nonVeganReason, 0.9); // Hög konfidensgrad för definitiv match
+              fuzzyMatches.push(toFuzzyMatchInfo(normalizedIngredient, nonVeganMatch));
+              recordIngredientVerdict(ingredient, 'non-vegan', nonVeganMatch.similarity, 'non-vegan-match', nonVeganReason, nonVeganMatch.matchedIngredient);
+              debugInfo.push(nonVeganReason);
           }
           continue; // Gå vidare till nästa ingrediens efter icke-vegansk match/undantag
       } else {
           // Logga att ett undantag hittades även om det matchade non-vegan listan
-          debugInfo.push(`${ingredient} matchade icke-vegansk (${nonVeganMatch.match}) men identifierades som säkert undantag/sammansatt ord.`);
+          const exceptionReason = `${ingredient} matchade icke-vegansk (${nonVeganMatch.match}) men identifierades som säkert undantag/sammansatt ord.`;
+          recordIngredientVerdict(ingredient, 'vegan', 0.9, 'compound-exception', exceptionReason);
+          debugInfo.push(exceptionReason);
           // Låt den falla igenom till nästa steg (eller fortsätt om det var meningen)
           // Fortsätt för att säkerställa att den inte fångas av ANIMAL_INDICATORS nedan
           continue;
       }
     }
 
-    // Kontrollera animaliska indikatorer i ingrediensnamnet
+    // Sammansatta ord som inte finns i katalogen (t.ex. "kycklingbuljongpulver") klassificeras utifrån sina leder
+    const compound = findCompound(normalizedIngredient, dataset);
+    if (compound) {
+      compoundMatches.push(compound);
+      const explanation = describeCompound(compound);
+      const compoundReason = `${ingredient} är ett sammansatt ord där ${explanation}`;
+      const compoundItem = compound.trigger.qualifiedBy ? undefined : compound.trigger.item?.name;
+      const compoundAllowance = getCompoundProfileAllowance(ingredient, compound);
+      if (compoundAllowance) {
+        recordIngredientVerdict(ingredient, 'vegan', 0.9, 'diet-profile', compoundAllowance, compoundItem);
+        debugInfo.push(compoundAllowance);
+        continue;
+      }
+      if (compound.status === 'non-vegan') {
+        if (suspiciousIngredients || partialWordPatterns || possibleGibberish.includes(ingredient)) {
+          const misreadReason = `${compoundReason}, men misstänks vara felläst -> osäker`;
+          uncertainFound.push(ingredient);
+          updateProductVerdict('suspected-misread', misreadReason, 0.5);
+          recordIngredientVerdict(ingredient, 'uncertain', 0.5, 'suspected-misread', misreadReason, compoundItem);
+          debugInfo.push(misreadReason);
+        } else {
+          nonVeganFound.push(ingredient);
+          updateProductVerdict('compound', compoundReason, 0.9);
+          recordIngredientVerdict(ingredient, 'non-vegan', 0.9, 'compound', compoundReason, compoundItem);
+          debugInfo.push(compoundReason);
+        }
+        continue;
+      }
+      if (compound.status === 'uncertain') {
+        uncertainFound.push(ingredient);
+        updateProductVerdict('compound', compoundReason);
+      }
+      recordIngredientVerdict(ingredient, compound.status, 0.9, 'compound', compoundReason, compoundItem);
+      debugInfo.push(compoundReason);
+      continue;
+    }
+
+    // Kontrollera animaliska indikatorer i ingrediensnamnet, som ord eller sammansättningsled
+    // (så att "ost" inte hittas i "rostad" eller "nöt" i "hasselnötter")
     const hasAnimalIndicator = Array.from(ANIMAL_INDICATORS).some((indicator: unknown) =>
-      normalizedIngredient.includes(normalizeString(indicator as string))
+      containsWord(normalizedIngredient, normalizeString(indicator as string), dataset.compoundParts)
     );
     if (hasAnimalIndicator) {
-      confidence = Math.min(confidence, 0.8);
-      debugInfo.push(`${ingredient} innehåller en animalisk indikator`);
+      const indicatorReason = `${ingredient} innehåller en animalisk indikator`;
+      updateProductVerdict('animal-indicator', indicatorReason, 0.8);
+      recordIngredientVerdict(ingredient, 'vegan', 0.8, 'animal-indicator', indicatorReason);
+      debugInfo.push(indicatorReason);
+    } else {
+      recordIngredientVerdict(ingredient, 'vegan', 1, 'no-match', `${ingredient} matchade ingen icke-vegansk eller osäker ingrediens`);
     }
   }
 
   // If we have a lot of uncertain ingredients, this is a problem
   if (uncertainFound.length > 2 || uncertainFound.length > ingredients.length * 0.3) {
-    confidence = Math.min(confidence, 0.5);
+    updateProductVerdict('many-uncertain-ingredients', `${uncertainFound.length} av ${ingredients.length} ingredienser är osäkra`, 0.5);
   }
 
   // Reduce confidence if we found image quality or reading issues
   if (suspiciousIngredients || partialWordPatterns || hasInconsistentLengths || possibleGibberish.length > 0) {
-    confidence = Math.min(confidence, 0.6);
+    updateProductVerdict('reading-issues', 'Möjliga läsfel i ingredienslistan', 0.6);
   }
 
   // Bygg resonemang
   const reasoningParts: string[] = [];
   
   if (nonVeganFound.length > 0) {
-    reasoningParts.push(`Följande ingredienser är inte veganska: ${nonVeganFound.join(', ')}.`);
+    reasoningParts.push(dietProfile === DEFAULT_DIET_PROFILE
+      ? `Följande ingredienser är inte veganska: ${nonVeganFound.join(', ')}.`
+      : `Följande ingredienser passar inte kostprofilen "${dietProfile}": ${nonVeganFound.join(', ')}.`);
   }
   
   if (uncertainFound.length > 0) {
@@ -336,6 +534,11 @@ export function validateIngredients(ingredients: string[]): ValidationResult {
   // If confidence is too low, we can't make a reliable determination
   if (confidence < 0.5) {
     isVegan = null;
+    applyVerdictChange(productVerdict, { isVegan: null }, {
+      source: 'validator',
+      rule: 'low-confidence',
+      reason: 'Konfidensen är för låg för en säker bedömning'
+    });
     reasoningParts.unshift('Osäker analys av ingredienslistan. Fler detaljer behövs för en säker bedömning.');
   }
 
@@ -344,9 +547,15 @@ export function validateIngredients(ingredients: string[]): ValidationResult {
     confidence: confidence,
     nonVeganIngredients: nonVeganFound,
     uncertainIngredients: uncertainFound,
-    reasoning: reasoningParts.join('\n\n') || 'Alla ingredienser bedöms som veganska.',
+    reasoning: reasoningParts.join('\n\n') || (dietProfile === DEFAULT_DIET_PROFILE
+      ? 'Alla ingredienser bedöms som veganska.'
+      : `Alla ingredienser bedöms passa kostprofilen "${dietProfile}".`),
+    ingredients: ingredientVerdicts,
+    trace: productVerdict.trace || [],
+    dietProfile,
     debug: {
-      fuzzyMatches
+      fuzzyMatches,
+      compoundMatches
     }
   };
 }
@@ -4,7 +4,24 @@ import os from 'os';
 import { VideoOptimizer } from '../utils/videoOptimizer';
 import geminiService from './geminiService';
 import { logger } from '../utils/logger';
-import { checkIngredientStatus } from '../utils/ingredientsDatabase';
+import { checkIngredientStatus, getIngredientDataset } from '../utils/ingredientsDatabase';
+import { applyVerdictChange, startVerdictTrace, VerdictChange } from '../utils/verdictTrace';
+import { ANIMAL_CATEGORIES } from '../utils/ingredientCatalogue';
+import {
+  DEFAULT_DIET_PROFILE,
+  DietProfile,
+  describeAnimalCategories,
+  getProfileStatus
+} from '../utils/dietProfiles';
+import { classifyAllergens } from '../utils/allergenClassifier';
+import {
+  DEFAULT_TRACE_POLICY,
+  getTraceWarnings,
+  isMadeUncertainByTraces,
+  isTraceConcern,
+  TRACE_UNCERTAIN_CONFIDENCE,
+  TracePolicy
+} from '../utils/tracePolicy';
 import { z } from 'zod';
 import {
   logVideoAnalysisRequest,
@@ -20,8 +37,11 @@ import {
 // Import types from analysisTypes.ts
 import { 
   UsageInfo,
-  IngredientAnalysisResult
+  IngredientAnalysisResult,
+  VideoAnalysisResult
 } from '../types/analysisTypes';
+import { StoredProduct } from './productStore';
+import { VideoAnalysisProgressListener, VideoAnalysisProgressReporter } from '../utils/videoAnalysisProgress';
 
 // Type definitions (borrowed from ../types/analysisTypes.ts)
 // interface IngredientAnalysisResult {
@@ -31,21 +51,6 @@ import {
 //   confidence: number;
 // }
 
-export interface VideoAnalysisResult {
-  ingredients: IngredientAnalysisResult[];
-  isVegan: boolean | null;
-  isUncertain?: boolean;
-  confidence: number;
-  reasoning?: string;
-  uncertainReasons?: string[];
-  videoProcessed?: boolean;
-  preferredLanguage?: string;
-  uncertainIngredients: string[];
-  nonVeganIngredients: string[];
-  usageInfo?: UsageInfo;
-  mayContainIngredients?: string[];
-}
-
 // -- Start: Define Zod Schema --
 const ingredientAnalysisArgsSchema = z.object({
   product_status: z.enum(["sannolikt vegansk", "sannolikt icke-vegansk", "oklart"]),
@@ -56,7 +61,8 @@ const ingredientAnalysisArgsSchema = z.object({
     status: z.enum(["vegansk", "icke-vegansk", "osäker"]),
     reasoning: z.string().optional(),
     confidence: z.number().min(0).max(1),
-    source: z.enum(["declared", "trace"])
+    source: z.enum(["declared", "trace"]),
+    animal_categories: z.array(z.enum(ANIMAL_CATEGORIES)).optional()
   })).min(0),
   usageInfo: z.object({
       analysesUsed: z.number(),
@@ -78,6 +84,7 @@ type IngredientAnalysisArgs = {
     reasoning?: string;
     confidence: number;
     source: "declared" | "trace";
+    animal_categories?: typeof ANIMAL_CATEGORIES[number][];
   }[];
   usageInfo?: UsageInfo;
 };
@@ -104,10 +111,28 @@ function isFirstAnalysisRun(): boolean {
   return false;
 }
 
+/**
+ * Confidence between 0 and 1. The text fallbacks copy the AI's number as-is,
+ * which is sometimes a percentage (85) or missing.
+ */
+function normalizeConfidence(confidence: unknown): number {
+  if (typeof confidence !== 'number' || !Number.isFinite(confidence)) {
+    return 0.5;
+  }
+  const fraction = confidence > 1 ? confidence / 100 : confidence;
+  return Math.min(Math.max(fraction, 0), 1);
+}
+
 /**
  * Service class to handle video analysis using Gemini
  * Manages temporary storage, optimization, and analysis of video files
  */
+/**
+ * The video to analyze: base64 data from a JSON request, or a file that an upload
+ * has already written to disk (the caller removes the file)
+ */
+export type VideoInput = { base64Data: string } | { filePath: string };
+
 export class VideoAnalysisService {
   private readonly tempDir: string;
   private readonly videoOptimizer: VideoOptimizer;
@@ -148,23 +173,101 @@ export class VideoAnalysisService {
     return this.videoOptimizer.isFfmpegInstalled();
   }
   
+  /**
+   * Answer a repeat barcode scan from the product store without calling Gemini.
+   * The stored ingredients and statuses take the place of the AI's result and go
+   * through the same database checks and trace policy as a new analysis.
+   * @param product The stored product
+   * @param dietProfile Diet profile to compute the verdict against
+   * @param tracePolicy How non-vegan trace ingredients affect the verdict
+   */
+  analyzeStoredProduct(
+    product: StoredProduct,
+    dietProfile: DietProfile = DEFAULT_DIET_PROFILE,
+    tracePolicy: TracePolicy = DEFAULT_TRACE_POLICY
+  ): VideoAnalysisResult {
+    logger.info('Analyzing stored product', { gtin: product.gtin, ingredientCount: product.ingredients.length });
+
+    const reason = `Sparad produkt, verifierad ${product.verifiedAt}`;
+    const ingredients: IngredientAnalysisResult[] = product.ingredients.map(ingredient => {
+      const result: IngredientAnalysisResult = {
+        name: ingredient.name,
+        isVegan: ingredient.isVegan,
+        isUncertain: ingredient.isUncertain,
+        confidence: ingredient.confidence,
+        reason,
+        source: ingredient.source,
+        animalCategories: ingredient.animalCategories
+      };
+      startVerdictTrace(result, { source: 'product-store', rule: 'stored-product', reason });
+      return result;
+    });
+
+    const result = this.enhanceAnalysisResult({
+      ingredients,
+      isVegan: product.isVegan,
+      isUncertain: product.isUncertain,
+      confidence: product.confidence,
+      uncertainIngredients: [],
+      nonVeganIngredients: []
+    }, dietProfile, tracePolicy);
+    result.videoProcessed = false; // No video was analyzed
+    return result;
+  }
+
   /**
    * Analyze a video to identify ingredients
-   * @param base64Data Base64 encoded video data
+   * @param video Base64 encoded video data, or the path of an uploaded video file
    * @param mimeType MIME type of the video
    * @param preferredLanguage Preferred language for the response
+   * @param dietProfile Diet profile to compute the verdict against
+   * @param tracePolicy How non-vegan trace ingredients affect the verdict
+   * @param onProgress Called when a step of the analysis starts or ends (see utils/videoAnalysisProgress)
    * @returns Analysis result with ingredients
    */
   async analyzeVideo(
-    base64Data: string, 
+    video: VideoInput, 
     mimeType: string,
-    preferredLanguage: string = 'sv'
+    preferredLanguage: string = 'sv',
+    dietProfile: DietProfile = DEFAULT_DIET_PROFILE,
+    tracePolicy: TracePolicy = DEFAULT_TRACE_POLICY,
+    onProgress?: VideoAnalysisProgressListener
   ): Promise<VideoAnalysisResult> {
     const startTime = Date.now();
+    const progress = new VideoAnalysisProgressReporter(onProgress, startTime);
+    // Every parsing path ends with the database checks
+    const enhance = (preliminaryResult: VideoAnalysisResult): VideoAnalysisResult => {
+      progress.start('enhance');
+      const result = this.enhanceAnalysisResult(preliminaryResult, dietProfile, tracePolicy);
+      progress.finish('enhance', 'completed', { isVegan: result.isVegan, isUncertain: result.isUncertain });
+      return result;
+    };
+    // Regex parsing of the response text, when there is no usable function call
+    const parseText = (rawText: string, reason: string): VideoAnalysisResult => {
+      progress.finish('functionCall', 'failed', { reason });
+      progress.start('regexFallback');
+      const preliminaryResult = this.parseAnalysisResult(rawText);
+      progress.finish('regexFallback', 'completed', {
+        ingredientCount: preliminaryResult.ingredients.length
+      }, preliminaryResult.ingredients);
+      return preliminaryResult;
+    };
+    const uploadedFilePath = 'filePath' in video ? video.filePath : null;
+    // The original video as base64; an uploaded file is only read if it is sent as is
+    let originalBase64 = 'base64Data' in video ? video.base64Data : null;
+    const getOriginalBase64 = (): string => {
+      if (originalBase64 === null) {
+        originalBase64 = fs.readFileSync(uploadedFilePath!).toString('base64');
+      }
+      return originalBase64;
+    };
     logger.info('Video analysis request received', {
-      dataSize: base64Data.length,
+      dataSize: originalBase64?.length,
+      uploadedFilePath,
       mimeType,
       preferredLanguage,
+      dietProfile,
+      tracePolicy,
       hasApiKey: !!process.env.GEMINI_API_KEY,
       model: process.env.GEMINI_MODEL || 'gemini-2.0-flash'
     });
@@ -172,7 +275,7 @@ export class VideoAnalysisService {
     logVideoAnalysisRequest({
       mimeType,
       preferredLanguage,
-      dataSize: base64Data.length
+      dataSize: originalBase64?.length ?? 0
     });
     
     let tempVideoPath = '';
@@ -180,8 +283,10 @@ export class VideoAnalysisService {
     let useOriginalVideo = false;
     
     try {
+      progress.start('sizeCheck');
+
       // Validate video data
-      if (!base64Data || !mimeType.startsWith('video/')) {
+      if (!(originalBase64 || uploadedFilePath) || !mimeType.startsWith('video/')) {
         logger.error('Invalid video data or MIME type', { mimeType });
         throw new Error('Invalid video data or MIME type');
       }
@@ -193,7 +298,9 @@ export class VideoAnalysisService {
       }
       
       // OPTIMIZATION: Check video size and recommend smaller size if too large
-      const videoSizeBytes = Buffer.from(base64Data, 'base64').length;
+      const videoSizeBytes = uploadedFilePath
+        ? fs.statSync(uploadedFilePath).size
+        : Buffer.byteLength(originalBase64!, 'base64');
       const videoSizeMB = videoSizeBytes / (1024 * 1024);
       if (videoSizeBytes > this.maxVideoSizeBytes * 4) { // 4x buffer because we can optimize
         logger.warn('Video size exceeds maximum allowed size', { 
@@ -214,11 +321,10 @@ export class VideoAnalysisService {
         logger.info('Skipping optimization for small video', { videoSizeMB });
         useOriginalVideo = true;
       }
+      progress.finish('sizeCheck', 'completed', { sizeMB: Math.round(videoSizeMB * 10) / 10, isSmallVideo });
       
       // OPTIMIZATION: Use a more efficient ID generation for better performance
       const videoId = Date.now().toString(36) + Math.random().toString(36).substring(2, 7);
-      tempVideoPath = path.join(this.tempDir, `${videoId}-original.${this.getFileExtension(mimeType)}`);
-      const buffer = Buffer.from(base64Data, 'base64');
       
       // OPTIMIZATION: Fire-and-forget file cleanup after 30 minutes to handle edge cases
       setTimeout(() => {
@@ -229,22 +335,36 @@ export class VideoAnalysisService {
         }
       }, 30 * 60 * 1000);
       
-      try {
-        fs.writeFileSync(tempVideoPath, buffer);
-        logger.debug('Saved video to temporary file', { 
-          tempVideoPath, 
-          sizeBytes: buffer.length 
-        });
-      } catch (fsError) {
-        logger.error('Failed to save video to temp file, using in-memory video instead', {
-          error: fsError instanceof Error ? fsError.message : String(fsError),
-          tempDir: this.tempDir
-        });
-        useOriginalVideo = true;
+      // An uploaded video is already on disk; base64 data is written to a temp file for ffmpeg
+      let sourceVideoPath = uploadedFilePath || '';
+      if (uploadedFilePath) {
+        progress.finish('tempWrite', 'skipped', { reason: 'uploaded file' });
+      } else {
+        tempVideoPath = path.join(this.tempDir, `${videoId}-original.${this.getFileExtension(mimeType)}`);
+        const buffer = Buffer.from(originalBase64!, 'base64');
+        
+        progress.start('tempWrite');
+        try {
+          fs.writeFileSync(tempVideoPath, buffer);
+          logger.debug('Saved video to temporary file', { 
+            tempVideoPath, 
+            sizeBytes: buffer.length 
+          });
+          progress.finish('tempWrite', 'completed', { sizeBytes: buffer.length });
+          sourceVideoPath = tempVideoPath;
+        } catch (fsError) {
+          logger.error('Failed to save video to temp file, using in-memory video instead', {
+            error: fsError instanceof Error ? fsError.message : String(fsError),
+            tempDir: this.tempDir
+          });
+          progress.finish('tempWrite', 'failed', { error: fsError instanceof Error ? fsError.message : String(fsError) });
+          useOriginalVideo = true;
+        }
       }
       
       // OPTIMIZATION: Process in parallel - start with original and optimize in background
-      let videoOptimizationPromise: Promise<string> | null = null;
+      // Resolves to the optimized video as base64, or null if the original video should be used
+      let videoOptimizationPromise: Promise<string | null> | null = null;
       
       // Start video optimization in parallel if needed (non-small videos)
       if (!useOriginalVideo && !isSmallVideo) {
@@ -255,12 +375,16 @@ export class VideoAnalysisService {
           logger.info('Using aggressive video optimization for large video', { videoSizeMB, targetResolution });
         }
         
+        // Använd snabb optimering för mellanstor video (6-20MB), standard för stora videos (>20MB)
+        const optimizationMethod = videoSizeMB > 6 && videoSizeMB <= 20 ? 'optimizeFast' : 'optimize';
+        progress.start('optimization', { method: optimizationMethod, targetResolution, timeoutMs: 8000 });
+        
         // Start optimization in background
         videoOptimizationPromise = (async () => {
           try {
             if (!this.videoOptimizer.isFfmpegInstalled()) {
               logger.warn('FFMPEG not installed, skipping optimization and using original video');
-              return base64Data;
+              return null;
             }
             
             logger.debug('Starting video optimization in background');
@@ -268,17 +392,16 @@ export class VideoAnalysisService {
             // Välj optimeringsmetod baserat på filstorlek
             let optimizedPath;
             
-            // Använd snabb optimering för mellanstor video (6-20MB)
-            if (videoSizeMB > 6 && videoSizeMB <= 20) {
+            if (optimizationMethod === 'optimizeFast') {
               logger.info('Using FAST optimization method for medium video', { videoSizeMB });
               optimizedPath = await this.videoOptimizer.optimizeFast(
-                tempVideoPath, 
+                sourceVideoPath, 
                 path.join(this.tempDir, `${videoId}-optimized-fast.mp4`)
               );
             } else {
               // Standard optimering för stora videos (>20MB)
               optimizedPath = await this.videoOptimizer.optimize(
-                tempVideoPath, 
+                sourceVideoPath, 
                 path.join(this.tempDir, `${videoId}-optimized.mp4`)
               );
             }
@@ -288,7 +411,7 @@ export class VideoAnalysisService {
             // Log compression ratio
             try {
               const optimizedStats = fs.statSync(optimizedPath);
-              const originalStats = fs.statSync(tempVideoPath);
+              const originalStats = fs.statSync(sourceVideoPath);
               const compressionRatio = (originalStats.size / optimizedStats.size).toFixed(2);
               const originalSizeMB = (originalStats.size / (1024 * 1024)).toFixed(2);
               const optimizedSizeMB = (optimizedStats.size / (1024 * 1024)).toFixed(2);
@@ -312,13 +435,13 @@ export class VideoAnalysisService {
               logger.error('Failed to read optimized video, falling back to original', {
                 error: readError instanceof Error ? readError.message : String(readError)
               });
-              return base64Data;
+              return null;
             }
           } catch (error: any) {
             logger.error('Video optimization failed, will use original video', { 
               error: error.message 
             });
-            return base64Data;
+            return null;
           }
         })();
       }
@@ -337,36 +460,49 @@ export class VideoAnalysisService {
       let videoForAnalysis: string;
       
       if (useOriginalVideo || isSmallVideo) {
-        videoForAnalysis = base64Data;
+        videoForAnalysis = getOriginalBase64();
         logger.info('Using original video for analysis (skipped optimization)', { 
           useOriginalVideo,
           isSmallVideo
         });
+        progress.finish('optimization', 'skipped', { reason: isSmallVideo ? 'small video' : 'no temp file' });
       } else {
         // Wait for the optimization to complete or timeout
         try {
           // Set a timeout to ensure we don't wait too long for optimization
-          const timeoutPromise = new Promise<string>((resolve) => {
-            setTimeout(() => {
+          let optimizationTimedOut = false;
+          let optimizationTimer: NodeJS.Timeout | undefined;
+          const timeoutPromise = new Promise<null>((resolve) => {
+            optimizationTimer = setTimeout(() => {
+              optimizationTimedOut = true;
               logger.warn('Video optimization timed out, using original video');
-              resolve(base64Data);
+              resolve(null);
             }, 8000); // 8 second timeout (tidigare 10 sekunder)
           });
           
           // Race between optimization and timeout
-          videoForAnalysis = await Promise.race([
-            videoOptimizationPromise as Promise<string>,
+          const optimizedVideo = await Promise.race([
+            videoOptimizationPromise as Promise<string | null>,
             timeoutPromise
           ]);
+          clearTimeout(optimizationTimer);
+          // The original video is used if the optimization failed or timed out
+          videoForAnalysis = optimizedVideo ?? getOriginalBase64();
+          progress.finish('optimization', optimizedVideo !== null ? 'completed' : 'failed', {
+            timedOut: optimizationTimedOut
+          });
         } catch (error) {
           logger.warn('Error waiting for video optimization, using original video', {
             error: error instanceof Error ? error.message : String(error)
           });
-          videoForAnalysis = base64Data;
+          progress.finish('optimization', 'failed', { error: error instanceof Error ? error.message : String(error) });
+          videoForAnalysis = getOriginalBase64();
         }
       }
       
       try {
+        progress.start('gemini', { promptLength: prompt.length, videoSize: videoForAnalysis.length });
+
         // PERFORMANCE: Log processing time at key stages
         const beforeGeminiTime = Date.now();
         
@@ -386,6 +522,7 @@ export class VideoAnalysisService {
         );
         
         const afterGeminiTime = Date.now();
+        progress.finish('gemini', 'completed');
         // DETAILED LOGGING ADDED HERE
         logger.info('Raw result object from geminiService.generateContentFromVideo:', JSON.stringify(result, null, 2));
         if (result && result.response) {
@@ -403,6 +540,7 @@ export class VideoAnalysisService {
         
         const response = result.response;
         
+        progress.start('functionCall');
         // --- CORRECTED FUNCTION CALL EXTRACTION V2 ---
         let extractedFunctionCalls: any[] = [];
         try {
@@ -434,7 +572,7 @@ export class VideoAnalysisService {
           });
           
           // Parse the raw text with regex
-          const preliminaryResult = this.parseAnalysisResult(rawText);
+          const preliminaryResult = parseText(rawText, 'No function call in the response');
           
           // PERFORMANCE: Track finishing stats
           const processingTimeMs = Date.now() - startTime;
@@ -444,7 +582,7 @@ export class VideoAnalysisService {
           });
           
           // Enhance the result with database checks
-          return this.enhanceAnalysisResult(preliminaryResult);
+          return enhance(preliminaryResult);
         }
         
         // Process the function call
@@ -455,8 +593,8 @@ export class VideoAnalysisService {
           logger.warn('Function calls array exists but first element is undefined');
           // Fallback to text-based response
           const rawText = response.text();
-          const preliminaryResult = this.parseAnalysisResult(rawText);
-          return this.enhanceAnalysisResult(preliminaryResult);
+          const preliminaryResult = parseText(rawText, 'No function call in the response');
+          return enhance(preliminaryResult);
         }
         
         // Validate that it's the expected function
@@ -488,9 +626,12 @@ export class VideoAnalysisService {
                 
                 // Create preliminary result from extractRecipeData response
                 const preliminaryResult = this.mapFunctionArgsToPreliminaryResult(args as IngredientAnalysisArgs);
+                progress.finish('functionCall', 'completed', {
+                  functionName: functionCall.name
+                }, preliminaryResult.ingredients);
                 
                 // Enhance the result with database checks
-                return this.enhanceAnalysisResult(preliminaryResult);
+                return enhance(preliminaryResult);
               } else {
                 logger.error('Invalid extractRecipeData response format', { args });
                 throw new Error('Invalid extractRecipeData response format');
@@ -533,8 +674,8 @@ export class VideoAnalysisService {
             // Fallback to text-based response if available
             if (response.text) {
               const rawText = response.text();
-              const preliminaryResult = this.parseAnalysisResult(rawText);
-              return this.enhanceAnalysisResult(preliminaryResult);
+              const preliminaryResult = parseText(rawText, 'Invalid function call arguments');
+              return enhance(preliminaryResult);
             }
             
             throw new Error('Failed to parse ingredient analysis result: ' + validationError.message);
@@ -542,9 +683,12 @@ export class VideoAnalysisService {
           
           // Convert from function call format to our internal format
           const preliminaryResult = this.mapFunctionArgsToPreliminaryResult(validatedArgs);
+          progress.finish('functionCall', 'completed', {
+            functionName: functionCall.name
+          }, preliminaryResult.ingredients);
           
           // Enhance the result with database checks
-          return this.enhanceAnalysisResult(preliminaryResult);
+          return enhance(preliminaryResult);
         } catch (parseError: any) {
           logger.error('Error parsing function call arguments', { 
             error: parseError.message,
@@ -554,8 +698,8 @@ export class VideoAnalysisService {
           // Fallback to text-based response if available
           if (response.text) {
             const rawText = response.text();
-            const preliminaryResult = this.parseAnalysisResult(rawText);
-            return this.enhanceAnalysisResult(preliminaryResult);
+            const preliminaryResult = parseText(rawText, 'Function call arguments could not be parsed');
+            return enhance(preliminaryResult);
           }
           
           throw new Error('Failed to parse ingredient analysis result: ' + parseError.message);
@@ -567,6 +711,7 @@ export class VideoAnalysisService {
           error: aiError.message,
           processingTimeMs
         });
+        progress.failStarted({ error: aiError.message });
         
         // Try fallback with simpler prompt if it's a specific type of error
         if (aiError.message.includes('too large') || 
@@ -579,14 +724,16 @@ export class VideoAnalysisService {
           const fallbackPrompt = this.buildSimplifiedRetryPrompt();
           
           try {
+            progress.start('gemini', { simplifiedPrompt: true });
             const fallbackResult = await geminiService.generateContentFromMedia(
               fallbackPrompt, 
               videoForAnalysis, 
               mimeType
             );
+            progress.finish('gemini', 'completed');
             
-            const preliminaryResult = this.parseAnalysisResult(fallbackResult);
-            return this.enhanceAnalysisResult(preliminaryResult);
+            const preliminaryResult = parseText(fallbackResult, 'Simplified prompt without function calling');
+            return enhance(preliminaryResult);
           } catch (fallbackError: any) {
             logger.error('Fallback approach also failed', { 
               error: fallbackError.message 
@@ -599,12 +746,14 @@ export class VideoAnalysisService {
         throw new Error(`Gemini video analysis failed: ${aiError.message}`);
       }
     } catch (error: any) {
+      progress.failStarted({ error: error.message });
       // Log with detailed diagnostic information
       logger.error('Video analysis failed', { 
         error: error.message,
         stack: error.stack,
         mimeType,
-        dataSize: base64Data.length,
+        dataSize: originalBase64?.length,
+        uploadedFilePath,
         tempFileCreated: !!tempVideoPath && fs.existsSync(tempVideoPath),
         optimizedFileCreated: !!optimizedVideoPath && optimizedVideoPath !== tempVideoPath && fs.existsSync(optimizedVideoPath),
         apiKeyConfigured: !!process.env.GEMINI_API_KEY,
@@ -686,7 +835,7 @@ export class VideoAnalysisService {
             isVegan: item.status === "vegansk",
             isUncertain: item.status === "osäker",
             confidence: item.confidence || 0.5,
-            reasoning: item.reasoning || ""
+            reason: item.reasoning || undefined
           };
         });
         
@@ -781,8 +930,7 @@ export class VideoAnalysisService {
         uncertainReasons: parsedResult.uncertainReasons || [],
         videoProcessed: true,
         uncertainIngredients: [],
-        nonVeganIngredients: [],
-        mayContainIngredients: parsedResult.mayContainIngredients || []
+        nonVeganIngredients: []
       };
 
     } catch (error: any) {
@@ -800,8 +948,7 @@ export class VideoAnalysisService {
         uncertainReasons: ['Tekniskt fel vid analys'],
         videoProcessed: true,
         uncertainIngredients: [],
-        nonVeganIngredients: [],
-        mayContainIngredients: []
+        nonVeganIngredients: []
       };
     }
   }
@@ -935,9 +1082,15 @@ export class VideoAnalysisService {
    * Enhances the preliminary AI result by validating against the database,
    * determining final vegan/uncertain status, and generating reasoning.
    * @param preliminaryResult The preliminary result object (from function call mapping or text parsing).
+   * @param dietProfile Diet profile that isVegan refers to; ingredients allowed by the profile count as vegan.
+   * @param tracePolicy How non-vegan or uncertain trace ingredients affect the final status.
    * @returns The final, enhanced VideoAnalysisResult.
    */
-  private enhanceAnalysisResult(preliminaryResult: VideoAnalysisResult): VideoAnalysisResult {
+  private enhanceAnalysisResult(
+    preliminaryResult: VideoAnalysisResult,
+    dietProfile: DietProfile = DEFAULT_DIET_PROFILE,
+    tracePolicy: TracePolicy = DEFAULT_TRACE_POLICY
+  ): VideoAnalysisResult {
     logger.debug('Enhancing preliminary analysis result with database checks and final status determination.');
     
     const isFirstTimeRun = isFirstAnalysisRun();
@@ -948,9 +1101,18 @@ export class VideoAnalysisService {
     const finalIngredients: IngredientAnalysisResult[] = [];
     const nonVeganDeclaredIngredients: string[] = [];
     const uncertainDeclaredIngredients: string[] = [];
+    const traceConcerns: string[] = []; // Non-vegan or uncertain trace ingredients
+    
+    // Use one database snapshot for the whole analysis, even if it is reloaded meanwhile
+    const ingredientDataset = getIngredientDataset();
     
     // 1. Process ingredients, validate against DB, and separate based on source
     for (const ingredient of preliminaryResult.ingredients) {
+      // Ingredients from the text fallbacks have no source and may lack a valid confidence
+      ingredient.source = ingredient.source === 'trace' ? 'trace' : 'declared';
+      ingredient.isUncertain = ingredient.isUncertain === true;
+      ingredient.confidence = normalizeConfidence(ingredient.confidence);
+
       const originalIsVegan = ingredient.isVegan;
       const originalIsUncertain = ingredient.isUncertain;
       const ingredientNameForLog = ingredient.name.substring(0, 40) + (ingredient.name.length > 40 ? '...' : '');
@@ -962,7 +1124,16 @@ export class VideoAnalysisService {
           initialSource: ingredient.source
       });
 
-      const dbStatus = checkIngredientStatus(ingredient.name);
+      // The AI's status is the first step in the ingredient's trace
+      if (!ingredient.trace) {
+        startVerdictTrace(ingredient, {
+          source: 'ai',
+          rule: 'ai-status',
+          reason: ingredient.reason || 'Status från AI-analysen'
+        });
+      }
+
+      const dbStatus = checkIngredientStatus(ingredient.name, ingredientDataset, dietProfile);
 
       logger.debug(`[Enhance Loop DB Check] DB Result for "${ingredientNameForLog}"`, {
           dbIsVegan: dbStatus.isVegan,
@@ -974,15 +1145,24 @@ export class VideoAnalysisService {
       let statusChanged = false;
       if (dbStatus.matchedItem) {
         // Apply DB status
+        let dbChange: VerdictChange | null = null;
         if (dbStatus.isVegan === false) {
           if (ingredient.isVegan !== false || ingredient.isUncertain === true) statusChanged = true;
-          ingredient.isVegan = false; ingredient.isUncertain = false; ingredient.confidence = 0.98;
+          dbChange = { isVegan: false, isUncertain: false, confidence: 0.98 };
         } else if (dbStatus.isVegan === true) {
           if (ingredient.isVegan !== true || ingredient.isUncertain === true) statusChanged = true;
-           ingredient.isVegan = true; ingredient.isUncertain = false; ingredient.confidence = 0.98;
+          dbChange = { isVegan: true, isUncertain: false, confidence: 0.98 };
         } else if (dbStatus.isUncertain) {
           if (!ingredient.isUncertain) statusChanged = true;
-          ingredient.isVegan = null; ingredient.isUncertain = true; ingredient.confidence = 0.5;
+          dbChange = { isVegan: null, isUncertain: true, confidence: 0.5 };
+        }
+        if (dbChange) {
+          applyVerdictChange(ingredient, dbChange, {
+            source: 'database',
+            rule: `database-${dbStatus.matchStrategy}`,
+            reason: dbStatus.reason || 'Based on database match',
+            matchedItem: dbStatus.matchedItem.name
+          });
         }
         if (statusChanged) {
              logIngredientCorrection({
@@ -995,6 +1175,18 @@ export class VideoAnalysisService {
               confidence: ingredient.confidence
             });
         }
+      } else if (
+        dietProfile !== DEFAULT_DIET_PROFILE &&
+        ingredient.isVegan !== true &&
+        ingredient.animalCategories &&
+        getProfileStatus(ingredient.isUncertain ? 'uncertain' : 'non-vegan', ingredient.animalCategories, dietProfile) === 'vegan'
+      ) {
+        // No DB match, but the animal origin reported by the AI is allowed for the profile
+        applyVerdictChange(ingredient, { isVegan: true, isUncertain: false }, {
+          source: 'ai',
+          rule: 'diet-profile',
+          reason: `Passar kostprofilen "${dietProfile}": ${describeAnimalCategories(ingredient.animalCategories)} är tillåtet`
+        });
       } else {
         logger.warn(`[Enhance Loop No Match] No DB match for: "${ingredientNameForLog}". Keeping AI status.`);
       }
@@ -1016,6 +1208,8 @@ export class VideoAnalysisService {
               const nonVeganIndex = nonVeganDeclaredIngredients.indexOf(ingredient.name);
               if (nonVeganIndex !== -1) nonVeganDeclaredIngredients.splice(nonVeganIndex, 1);
           }
+      } else if (isTraceConcern(ingredient.isVegan, ingredient.isUncertain) && !traceConcerns.includes(ingredient.name)) {
+          traceConcerns.push(ingredient.name);
       }
 
       logger.debug(`[Enhance Loop End] Status for "${ingredientNameForLog}" after DB check:`, {
@@ -1051,17 +1245,34 @@ export class VideoAnalysisService {
         finalConfidence = 0.98;
         logger.debug('[Enhance Step 2] Determined status (declared only): Vegan');
     }
+
+    // 2b. Apply the trace policy: with "uncertain", non-vegan traces make a vegan product uncertain
+    const madeUncertainByTraces = isMadeUncertainByTraces(finalIsVegan, traceConcerns, tracePolicy);
+    if (madeUncertainByTraces) {
+        finalIsVegan = null;
+        finalIsUncertain = true;
+        finalConfidence = Math.min(finalConfidence, TRACE_UNCERTAIN_CONFIDENCE);
+        logger.debug('[Enhance Step 2b] Status changed by trace policy: Uncertain', { traceConcerns });
+    }
     
     // 3. Generate reasoning based on the final status
     let reasoning = '';
     let uncertainReasons: string[] = [];
+    const isDefaultProfile = dietProfile === DEFAULT_DIET_PROFILE;
     if (finalIsVegan === true) {
-        reasoning = 'Produkt analyserad (baserat på deklarerade ingredienser): vegan';
+        reasoning = isDefaultProfile
+          ? 'Produkt analyserad (baserat på deklarerade ingredienser): vegan'
+          : `Produkt analyserad (baserat på deklarerade ingredienser): passar kostprofilen "${dietProfile}"`;
     } else if (finalIsVegan === false) {
-        reasoning = 'Produkt analyserad (baserat på deklarerade ingredienser): icke-vegan';
+        reasoning = isDefaultProfile
+          ? 'Produkt analyserad (baserat på deklarerade ingredienser): icke-vegan'
+          : `Produkt analyserad (baserat på deklarerade ingredienser): passar inte kostprofilen "${dietProfile}"`;
         if (finalIsUncertain) {
              uncertainReasons.push('Innehåller deklarerade icke-veganska ingredienser samt deklarerade ingredienser med osäker status.');
         }
+    } else if (madeUncertainByTraces) {
+        reasoning = 'Produkt analyserad (inklusive spårämnen): oklar status';
+        uncertainReasons.push(`Kan innehålla spår av ${traceConcerns.join(', ')}; spår räknas som osäkra enligt spårpolicyn.`);
     } else { 
         reasoning = 'Produkt analyserad (baserat på deklarerade ingredienser): oklar status';
         uncertainReasons.push('Status är osäker på grund av en eller flera deklarerade ingredienser med okänt ursprung.'); 
@@ -1079,6 +1290,11 @@ export class VideoAnalysisService {
       uncertainIngredients: uncertainDeclaredIngredients, // List of uncertain declared names
       nonVeganIngredients: nonVeganDeclaredIngredients, // List of non-vegan declared names
       // mayContainIngredients field is removed
+      databaseVersion: ingredientDataset.version,
+      dietProfile,
+      allergens: classifyAllergens(finalIngredients, ingredientDataset), // Trace ingredients only in mayContain
+      tracePolicy,
+      traceWarnings: getTraceWarnings(traceConcerns, tracePolicy)
     };
     
     logger.info('Successfully enhanced analysis result', {
@@ -1091,6 +1307,7 @@ export class VideoAnalysisService {
       videoProcessed: finalResult.videoProcessed,
       uncertainIngredients: finalResult.uncertainIngredients,
       nonVeganIngredients: finalResult.nonVeganIngredients,
+      databaseVersion: finalResult.databaseVersion,
     });
     
     return finalResult;
@@ -1131,6 +1348,7 @@ INSTRUKTIONER:
 3.  För VARJE ingrediens i den returnerade "ingredients"-listan, sätt fältet "source" till "declared" om den kommer från huvudlistan, eller "trace" om den ENDAST kommer från en "kan innehålla spår av"-varning.
 4.  Basera den övergripande "product_status" ENDAST på ingredienser med "source": "declared".
 5.  Alla ingrediensnamn i "translated_name" MÅSTE vara på svenska.
+6.  För ingredienser med status "icke-vegansk" eller "osäker", ange i "animal_categories" vilket animaliskt ursprung ingrediensen har eller kan ha: "dairy", "egg", "meat", "fish", "insect" eller "bee".
 
 HANTERING AV INGREDIENSER PÅ FLERA SPRÅK:
 1.  Om produkten har ingredienslistor på flera språk (t.ex. svenska, norska, finska), PRIORITERA ALLTID den svenska versionen.
@@ -1174,6 +1392,7 @@ INSTRUKTIONER:
 4.  Basera den övergripande "product_status" ENDAST på ingredienser med "source": "declared".
 5.  Inkludera ALLA identifierade ingredienser i "ingredients"-listan.
 6.  Alla ingrediensnamn i "translated_name" MÅSTE vara på svenska.
+7.  För ingredienser med status "icke-vegansk" eller "osäker", ange i "animal_categories" vilket animaliskt ursprung ingrediensen har eller kan ha: "dairy", "egg", "meat", "fish", "insect" eller "bee".
 
 HANTERING AV INGREDIENSER PÅ FLERA SPRÅK:
 1.  Om produkten har ingredienslistor på flera språk (t.ex. svenska, norska, finska), PRIORITERA ALLTID den svenska versionen.
@@ -1246,6 +1465,16 @@ Analysera nu den aktuella videon enligt dessa instruktioner och exempel.`;
                       enum: ["declared", "trace"],
                       format: 'enum',
                       description: "'declared' if from main list, 'trace' if ONLY from 'may contain traces' warning."
+                    },
+                    animal_categories: {
+                      type: SchemaType.ARRAY,
+                      items: {
+                        type: SchemaType.STRING,
+                        enum: [...ANIMAL_CATEGORIES],
+                        format: 'enum'
+                      },
+                      description: "Animal origin of a non-vegan or uncertain ingredient: what it contains or may contain. Empty for vegan ingredients.",
+                      nullable: true
                     }
                   },
                   required: ['name', 'translated_name', 'status', 'confidence', 'source']
@@ -1265,7 +1494,9 @@ Analysera nu den aktuella videon enligt dessa instruktioner och exempel.`;
       isVegan: ing.status === 'vegansk' ? true : ing.status === 'icke-vegansk' ? false : null,
       isUncertain: ing.status === 'osäker',
       confidence: ing.confidence,
-      source: ing.source
+      source: ing.source,
+      reason: ing.reasoning,
+      animalCategories: ing.animal_categories
     }));
 
     const result: VideoAnalysisResult = {
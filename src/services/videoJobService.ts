@@ -0,0 +1,186 @@
+/**
+ * Asynkrona videoanalysjobb.
+ *
+ * Ett jobb skapas direkt och körs i bakgrunden, högst VIDEO_JOB_CONCURRENCY åt
+ * gången; klienten hämtar steget och resultatet med jobbets ID, och en eventuell
+ * callback-URL anropas när jobbet är klart eller har misslyckats.
+ * Varje köat jobb håller sin video i minnet, så kön rymmer högst
+ * VIDEO_JOB_QUEUE_LIMIT jobb; därefter avvisas nya jobb tills kön har minskat.
+ *
+ * Jobben finns bara i minnet på maskinen som tog emot dem och tas bort en
+ * timme efter att de blev klara.
+ */
+import crypto from 'crypto';
+import { AppError } from '../utils/errorHandling';
+import { logger } from '../utils/logger';
+import { deliverWebhook } from '../utils/webhook';
+import type { VideoAnalysisStage } from '../utils/videoAnalysisProgress';
+
+export type VideoJobStage = 'queued' | VideoAnalysisStage | 'done' | 'failed';
+
+export interface VideoJob {
+  id: string;
+  userId: string;
+  requestId: string | null; // Klientens requestId; samma ID ger samma jobb
+  callbackUrl: string | null;
+  stage: VideoJobStage;
+  stages: { stage: VideoJobStage; at: string }[];
+  createdAt: string;
+  updatedAt: string;
+  result: unknown; // Svaret i den begärda svarsversionen, när jobbet är klart
+  error: string | null;
+}
+
+/**
+ * Analysen som jobbet kör
+ * @param onStage Ska anropas när analysen går in i ett nytt steg
+ * @returns Svaret som klienten ska få
+ */
+export type VideoJobTask = (onStage: (stage: VideoAnalysisStage) => void) => Promise<unknown>;
+
+export interface CreateVideoJobOptions {
+  userId: string;
+  requestId?: string | null;
+  callbackUrl?: string | null;
+}
+
+const DEFAULT_CONCURRENCY = 2;
+const DEFAULT_RETENTION_MS = 60 * 60 * 1000;
+const DEFAULT_QUEUE_LIMIT = 10;
+
+export class VideoJobService {
+  private readonly jobs = new Map<string, VideoJob>();
+  private readonly queue: { job: VideoJob; task: VideoJobTask }[] = [];
+  private running = 0;
+
+  constructor(
+    private readonly concurrency: number = Number(process.env.VIDEO_JOB_CONCURRENCY) || DEFAULT_CONCURRENCY,
+    private readonly retentionMs: number = DEFAULT_RETENTION_MS,
+    private readonly queueLimit: number = Number(process.env.VIDEO_JOB_QUEUE_LIMIT) || DEFAULT_QUEUE_LIMIT
+  ) {}
+
+  /**
+   * Är kön full, så att ett nytt jobb skulle avvisas?
+   */
+  isFull(): boolean {
+    return this.queue.length >= this.queueLimit;
+  }
+
+  /**
+   * Skapa ett jobb och köa analysen
+   * @throws AppError 503 QUEUE_FULL om kön är full
+   */
+  create(options: CreateVideoJobOptions, task: VideoJobTask): VideoJob {
+    this.prune();
+    if (this.isFull()) {
+      throw new AppError('The video job queue is full, try again later', 503, 'QUEUE_FULL', {
+        queueLength: this.queue.length
+      });
+    }
+
+    const now = new Date().toISOString();
+    const job: VideoJob = {
+      id: crypto.randomUUID(),
+      userId: options.userId,
+      requestId: options.requestId || null,
+      callbackUrl: options.callbackUrl || null,
+      stage: 'queued',
+      stages: [{ stage: 'queued', at: now }],
+      createdAt: now,
+      updatedAt: now,
+      result: null,
+      error: null
+    };
+    this.jobs.set(job.id, job);
+    this.queue.push({ job, task });
+    logger.info('Video job queued', { jobId: job.id, userId: job.userId, queueLength: this.queue.length });
+
+    this.startNext();
+    return job;
+  }
+
+  get(id: string): VideoJob | null {
+    this.prune();
+    return this.jobs.get(id) || null;
+  }
+
+  /**
+   * Ett jobb som inte har misslyckats med samma requestId från samma användare
+   */
+  findByRequestId(userId: string, requestId: string): VideoJob | null {
+    this.prune();
+    for (const job of this.jobs.values()) {
+      if (job.userId === userId && job.requestId === requestId && job.stage !== 'failed') {
+        return job;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Vänta tills alla köade och pågående jobb är klara (används av testerna)
+   */
+  async idle(): Promise<void> {
+    while (this.running > 0 || this.queue.length > 0) {
+      await new Promise(resolve => setTimeout(resolve, 10));
+    }
+  }
+
+  private setStage(job: VideoJob, stage: VideoJobStage): void {
+    if (job.stage === stage) {
+      return;
+    }
+    const now = new Date().toISOString();
+    job.stage = stage;
+    job.stages.push({ stage, at: now });
+    job.updatedAt = now;
+  }
+
+  private startNext(): void {
+    while (this.running < this.concurrency && this.queue.length > 0) {
+      const { job, task } = this.queue.shift()!;
+      this.running++;
+      this.execute(job, task).finally(() => {
+        this.running--;
+        this.startNext();
+      });
+    }
+  }
+
+  private async execute(job: VideoJob, task: VideoJobTask): Promise<void> {
+    const startTime = Date.now();
+    try {
+      job.result = await task(stage => this.setStage(job, stage));
+      this.setStage(job, 'done');
+      logger.info('Video job done', { jobId: job.id, processingTimeMs: Date.now() - startTime });
+    } catch (error: any) {
+      job.error = error.message || 'Video analysis failed';
+      this.setStage(job, 'failed');
+      logger.error('Video job failed', { jobId: job.id, error: job.error });
+    }
+
+    // Webhooken väntas inte in, så att omförsök inte upptar en plats i kön
+    if (job.callbackUrl) {
+      void deliverWebhook(job.callbackUrl, {
+        jobId: job.id,
+        stage: job.stage,
+        result: job.result,
+        error: job.error
+      });
+    }
+  }
+
+  /**
+   * Ta bort jobb som blev klara för mer än retentionMs sedan
+   */
+  private prune(): void {
+    const cutoff = Date.now() - this.retentionMs;
+    for (const [id, job] of this.jobs) {
+      if ((job.stage === 'done' || job.stage === 'failed') && Date.parse(job.updatedAt) < cutoff) {
+        this.jobs.delete(id);
+      }
+    }
+  }
+}
+
+export const videoJobService = new VideoJobService();
@@ -0,0 +1,246 @@
+/**
+ * Återupptagbara videouppladdningar i delar, i stil med tus.io.
+ *
+ * Klienten skapar en uppladdning med videons storlek och typ och skickar sedan
+ * delarna i ordning, var och en med byte-positionen där den börjar (Upload-Offset).
+ * Efter ett avbrott frågar klienten efter positionen och fortsätter därifrån i
+ * stället för att börja om. När alla byte har kommit fram avslutas uppladdningen,
+ * videon kontrolleras med VideoValidator och kan analyseras med sitt uploadId.
+ *
+ * Filen skrivs i den temporära katalogen (koalens-videos). Uppladdningarna finns
+ * bara i minnet på maskinen som tog emot dem; en uppladdning som inte har använts
+ * på VIDEO_UPLOAD_EXPIRY_SECONDS (standard en timme) tas bort med sin fil, och
+ * filer som blev kvar efter en omstart tas av TempFileCleaner.
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import { logger } from '../utils/logger';
+import { AppError } from '../utils/errorHandling';
+import { VideoValidator } from '../utils/videoValidator';
+import { createVideoUploadPath, removeVideoUpload, videoTooLargeError, writeVideoStream } from '../utils/videoFiles';
+import type { AuthenticatedUser } from '../middleware/auth';
+
+export interface VideoUploadSession {
+  id: string;
+  userId: string | null; // null för anonyma uppladdningar, som bara skyddas av sitt ID
+  mimeType: string;
+  length: number; // Videons storlek i byte (Upload-Length)
+  offset: number; // Antalet mottagna byte (Upload-Offset)
+  path: string;
+  finalized: boolean; // Alla byte har kommit fram och videon är kontrollerad
+  createdAt: string;
+  updatedAt: string;
+  expiresAt: string;
+}
+
+export interface CreateVideoUploadOptions {
+  user?: AuthenticatedUser;
+  mimeType: string;
+  length: number;
+}
+
+const DEFAULT_EXPIRY_MS = 60 * 60 * 1000;
+const CLEANUP_INTERVAL_MS = 10 * 60 * 1000;
+
+export class VideoUploadService {
+  private readonly uploads = new Map<string, VideoUploadSession>();
+  private readonly writing = new Set<string>(); // Uppladdningar som tar emot en del just nu
+  private cleanupTimer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly expiryMs: number = Number(process.env.VIDEO_UPLOAD_EXPIRY_SECONDS) * 1000 || DEFAULT_EXPIRY_MS
+  ) {}
+
+  /**
+   * Skapa en uppladdning och en tom fil för den
+   * @throws AppError (413) om videon är för stor, (415) om typen inte stöds
+   */
+  async create(options: CreateVideoUploadOptions): Promise<VideoUploadSession> {
+    if (options.length > VideoValidator.MAX_VIDEO_SIZE) {
+      throw videoTooLargeError();
+    }
+    const filePath = createVideoUploadPath(options.mimeType, 'chunked');
+    await fs.promises.writeFile(filePath, '');
+
+    const now = new Date();
+    const upload: VideoUploadSession = {
+      id: crypto.randomUUID(),
+      userId: getOwnerId(options.user),
+      mimeType: options.mimeType,
+      length: options.length,
+      offset: 0,
+      path: filePath,
+      finalized: false,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      expiresAt: new Date(now.getTime() + this.expiryMs).toISOString()
+    };
+    this.uploads.set(upload.id, upload);
+    logger.info('Video upload created', { uploadId: upload.id, mimeType: upload.mimeType, length: upload.length });
+    return upload;
+  }
+
+  /**
+   * Uppladdningen med ID:t, om den inte har gått ut. En inloggad användares
+   * uppladdning visas bara för den användaren.
+   */
+  get(id: string, user?: AuthenticatedUser): VideoUploadSession | null {
+    const upload = this.uploads.get(id);
+    if (!upload) {
+      return null;
+    }
+    if (this.isExpired(upload)) {
+      void this.remove(id);
+      return null;
+    }
+    return upload.userId === null || upload.userId === getOwnerId(user) ? upload : null;
+  }
+
+  /**
+   * Lägg till en del i slutet av uppladdningen. Efteråt är positionen det som
+   * faktiskt finns i filen, även om strömmen avbröts halvvägs.
+   * @param offset Positionen där delen börjar; måste vara uppladdningens position
+   * @throws AppError (409) om positionen inte stämmer, uppladdningen redan är
+   * avslutad eller tar emot en annan del; (413) om delen går förbi videons slut
+   */
+  async append(upload: VideoUploadSession, offset: number, source: NodeJS.ReadableStream): Promise<VideoUploadSession> {
+    if (upload.finalized) {
+      throw new AppError('The upload is already finished', 409, 'UPLOAD_FINALIZED');
+    }
+    if (this.writing.has(upload.id)) {
+      throw new AppError('Another chunk is being written to the upload', 409, 'UPLOAD_BUSY', { offset: upload.offset });
+    }
+    if (offset !== upload.offset) {
+      throw new AppError(
+        `Upload-Offset ${offset} does not match the upload, which has received ${upload.offset} bytes`,
+        409,
+        'OFFSET_MISMATCH',
+        { offset: upload.offset }
+      );
+    }
+
+    this.writing.add(upload.id);
+    try {
+      await writeVideoStream(source, upload.path, upload.length - upload.offset, { append: true });
+    } catch (error) {
+      if (error instanceof AppError && error.code === 'VIDEO_TOO_LARGE') {
+        throw new AppError('The chunk goes past the end of the upload (Upload-Length)', 413, 'UPLOAD_LENGTH_EXCEEDED');
+      }
+      throw error;
+    } finally {
+      upload.offset = await getFileSize(upload.path);
+      this.touch(upload);
+      this.writing.delete(upload.id);
+    }
+    return upload;
+  }
+
+  /**
+   * Avsluta en uppladdning som har tagit emot alla byte och kontrollera videon.
+   * En video som inte godkänns tas bort.
+   * @throws AppError (409) om byte saknas, (400) om videon inte godkänns
+   */
+  async finalize(upload: VideoUploadSession): Promise<VideoUploadSession> {
+    if (upload.finalized) {
+      return upload;
+    }
+    if (this.writing.has(upload.id)) {
+      throw new AppError('Another chunk is being written to the upload', 409, 'UPLOAD_BUSY', { offset: upload.offset });
+    }
+    if (upload.offset < upload.length) {
+      throw new AppError(
+        `The upload is incomplete: ${upload.offset} of ${upload.length} bytes received`,
+        409,
+        'UPLOAD_INCOMPLETE',
+        { offset: upload.offset, length: upload.length }
+      );
+    }
+
+    try {
+      await VideoValidator.validate(upload.path);
+    } catch (error: any) {
+      await this.remove(upload.id);
+      throw new AppError(error.message, 400, 'INVALID_VIDEO');
+    }
+    upload.finalized = true;
+    this.touch(upload);
+    logger.info('Video upload finished', { uploadId: upload.id, length: upload.length });
+    return upload;
+  }
+
+  /**
+   * Glöm uppladdningen utan att ta bort filen, när analysen tar över den
+   */
+  release(id: string): void {
+    this.uploads.delete(id);
+  }
+
+  /**
+   * Ta bort uppladdningen och dess fil
+   */
+  async remove(id: string): Promise<void> {
+    const upload = this.uploads.get(id);
+    if (!upload) {
+      return;
+    }
+    this.uploads.delete(id);
+    await removeVideoUpload(upload.path);
+  }
+
+  /**
+   * Ta bort uppladdningar som har gått ut, med deras filer
+   * @returns Antalet borttagna uppladdningar
+   */
+  async removeExpired(): Promise<number> {
+    const expired = [...this.uploads.values()].filter(upload => this.isExpired(upload));
+    for (const upload of expired) {
+      await this.remove(upload.id);
+    }
+    if (expired.length > 0) {
+      logger.info('Removed abandoned video uploads', { count: expired.length, remaining: this.uploads.size });
+    }
+    return expired.length;
+  }
+
+  /**
+   * Rensa övergivna uppladdningar regelbundet
+   */
+  startCleanup(): void {
+    if (this.cleanupTimer) {
+      return;
+    }
+    this.cleanupTimer = setInterval(() => {
+      this.removeExpired().catch(error => {
+        logger.error('Error removing abandoned video uploads', { error: error.message });
+      });
+    }, CLEANUP_INTERVAL_MS);
+    this.cleanupTimer.unref();
+  }
+
+  private isExpired(upload: VideoUploadSession): boolean {
+    return !this.writing.has(upload.id) && Date.parse(upload.expiresAt) <= Date.now();
+  }
+
+  private touch(upload: VideoUploadSession): void {
+    const now = new Date();
+    upload.updatedAt = now.toISOString();
+    upload.expiresAt = new Date(now.getTime() + this.expiryMs).toISOString();
+  }
+}
+
+/**
+ * Ägaren som en uppladdning sparas med; null för anonyma användare
+ */
+function getOwnerId(user?: AuthenticatedUser): string | null {
+  return user && !user.isAnonymous ? user.id : null;
+}
+
+async function getFileSize(filePath: string): Promise<number> {
+  try {
+    return (await fs.promises.stat(filePath)).size;
+  } catch {
+    return 0;
+  }
+}
+
+export const videoUploadService = new VideoUploadService();
@@ -1,3 +1,7 @@
+import { AllergenCode, AnimalCategory } from '../utils/ingredientCatalogue';
+import { DietProfile } from '../utils/dietProfiles';
+import { TracePolicy } from '../utils/tracePolicy';
+
 /**
  * Interface for a single ingredient analysis result
  */
@@ -8,7 +12,64 @@ export interface IngredientAnalysisResult {
   confidence: number;
   reason?: string;
   usageInfo?: UsageInfo;
-  source: "declared" | "trace";
+  source: IngredientSource;
+  trace?: VerdictTraceStep[]; // Ordered steps that set or changed the status, first step first
+  animalCategories?: AnimalCategory[]; // Animal origin reported by the AI, used for diet profiles
+}
+
+/**
+ * Where an ingredient was listed: the ingredient list itself, or only a
+ * "kan innehålla spår av" (may contain traces of) statement
+ */
+export type IngredientSource = 'declared' | 'trace';
+
+/**
+ * Interface for one allergen found in an ingredient
+ */
+export interface AllergenDetection {
+  allergen: AllergenCode;
+  ingredient: string; // Ingredient name as listed
+  source: IngredientSource;
+  matchedItem: string; // Catalogue entry tagged with the allergen
+}
+
+/**
+ * Interface for the allergens of a product (the 14 EU allergens)
+ */
+export interface AllergenReport {
+  contains: AllergenCode[]; // Found in declared ingredients
+  mayContain: AllergenCode[]; // Found only in trace statements
+  detections: AllergenDetection[];
+}
+
+/**
+ * Analysis layer that set or changed a verdict
+ */
+export type VerdictTraceSource = 'ai' | 'database' | 'validator' | 'sanity-check' | 'product-store';
+
+/**
+ * Interface for one step in a verdict trace.
+ * Status and confidence are the values after the step was applied.
+ */
+export interface VerdictTraceStep {
+  source: VerdictTraceSource;
+  rule: string; // Rule id, e.g. "database-exact-name" or "short-ingredient-list"
+  isVegan: boolean | null;
+  isUncertain: boolean;
+  confidence: number;
+  reason: string;
+  matchedItem?: string; // Catalogue entry the step was based on
+}
+
+/**
+ * Interface for the verdict on a single ingredient in results that otherwise only list names
+ */
+export interface IngredientVerdict {
+  name: string;
+  isVegan: boolean | null;
+  isUncertain: boolean;
+  confidence: number;
+  trace: VerdictTraceStep[];
 }
 
 /**
@@ -36,6 +97,21 @@ export interface VideoAnalysisResult {
   usageInfo?: UsageInfo;
   videoProcessed?: boolean;
   preferredLanguage?: string;
+  databaseVersion?: string; // Version of the ingredient database used for the verdict
+  dietProfile?: DietProfile; // Diet profile that isVegan refers to (default: vegan)
+  allergens?: AllergenReport; // EU allergens in declared ingredients and traces
+  tracePolicy?: TracePolicy; // How trace ingredients affected isVegan (default: warn)
+  traceWarnings?: string[]; // Non-vegan or uncertain trace ingredients, empty for the "ignore" policy
+  product?: ProductReference; // Set when the request had a gtin
+}
+
+/**
+ * Interface for the product store entry of a barcode (GTIN) scan
+ */
+export interface ProductReference {
+  gtin: string; // Normalized to GTIN-14
+  fromStore: boolean; // true when answered from the stored ingredient list without a new AI analysis
+  verifiedAt: string; // When the stored ingredient list was verified (ISO 8601)
 }
 
 /**
@@ -46,21 +122,3 @@ export interface MediaAnalysisRequest {
   mimeType: string;
   preferredLanguage?: string;
 }
-
-/**
- * Interface for image analysis result
- */
-export interface ImageAnalysisResult {
-  ingredients: IngredientAnalysisResult[];
-  isVegan: boolean | null;
-  isUncertain: boolean;
-  confidence: number;
-  reason?: string;
-  uncertainIngredients?: IngredientAnalysisResult[];
-  nonVeganIngredients?: IngredientAnalysisResult[];
-}
-
-/**
- * Union type for any analysis result
- */
-export type AnalysisResult = VideoAnalysisResult | ImageAnalysisResult; 
\ No newline at end of file
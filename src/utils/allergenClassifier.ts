@@ -0,0 +1,180 @@
+/**
+ * Allergen detection for the 14 EU allergens, on the same catalogue as the vegan status.
+ * Catalogue entries are tagged with the allergens they are or contain ("Vetemjöl": gluten,
+ * "Vassle": milk). Every catalogue term is searched for in the ingredient name as a word or
+ * compound part, so "rostade hasselnötter" and "vetemjölsblandning" are found as well.
+ * Declared ingredients and "kan innehålla spår av" traces are reported separately.
+ */
+import { AllergenDetection, AllergenReport, IngredientSource } from '../types/analysisTypes';
+import { AllergenCode, EU_ALLERGENS, IngredientData } from './ingredientCatalogue';
+import { PLANT_COMPOUND_PARTS } from './compoundSplitter';
+import { parseENumbers } from './eNumberParser';
+import { getIngredientDataset, IngredientDataset, resolveENumber } from './ingredientsDatabase';
+import { normalizeString } from './textNormalizer';
+import { isWordMatch } from './wordMatcher';
+
+// Allergenernas namn i förklaringar, som i EU:s förordning
+const ALLERGEN_LABELS: Record<AllergenCode, string> = {
+  gluten: 'spannmål som innehåller gluten',
+  crustaceans: 'kräftdjur',
+  eggs: 'ägg',
+  fish: 'fisk',
+  peanuts: 'jordnötter',
+  soybeans: 'sojabönor',
+  milk: 'mjölk',
+  nuts: 'nötter',
+  celery: 'selleri',
+  mustard: 'senap',
+  sesame: 'sesamfrön',
+  sulphites: 'svaveldioxid och sulfiter',
+  lupin: 'lupin',
+  molluscs: 'blötdjur'
+};
+
+// "Kan innehålla spår av nötter och sesam", "Spår av: mjölk", "May contain traces of milk"
+const TRACE_STATEMENT_PATTERN = /(?:kan innehålla(?:\s+spår\s+av)?|spår\s+av|may contain(?:\s+traces\s+of)?|traces\s+of)\s*:?\s*([^.;\n]*)/gi;
+
+/**
+ * En ingrediensens allergen och katalogposten det kommer från
+ */
+export interface IngredientAllergenMatch {
+  allergen: AllergenCode;
+  matchedItem: string;
+}
+
+interface TermOccurrence {
+  start: number;
+  end: number;
+  item: IngredientData;
+}
+
+export function getAllergenLabel(allergen: AllergenCode): string {
+  return ALLERGEN_LABELS[allergen];
+}
+
+/**
+ * Katalogposter vars namn eller alias förekommer som ord eller sammansättningsled.
+ * En förekomst inuti en längre träff räknas inte: "mjölksyra" är inte mjölk och
+ * "kakaosmör" är inte smör.
+ */
+function findTermOccurrences(normalizedName: string, dataset: IngredientDataset): TermOccurrence[] {
+  const occurrences: TermOccurrence[] = [];
+  dataset.compoundTerms.forEach(({ item }, term) => {
+    for (let start = normalizedName.indexOf(term); start !== -1; start = normalizedName.indexOf(term, start + 1)) {
+      const end = start + term.length;
+      if (isWordMatch(normalizedName, start, end, dataset.compoundParts)) {
+        occurrences.push({ start, end, item });
+      }
+    }
+  });
+
+  return occurrences.filter(occurrence => !occurrences.some(other =>
+    other.start <= occurrence.start &&
+    other.end >= occurrence.end &&
+    other.end - other.start > occurrence.end - occurrence.start
+  ));
+}
+
+/**
+ * Står förekomsten direkt efter en växtbaserad förled i samma ord?
+ * "havregräddpulver" innehåller inte grädde, på samma sätt som i compoundSplitter.
+ * Spannmål efter ett annat glutenspannmål räknas ändå: "fullkornshavre" är havre,
+ * men "majskorn" är inte korn.
+ */
+function isPlantQualified(normalizedName: string, occurrence: TermOccurrence, dataset: IngredientDataset): boolean {
+  if (!/[a-z]/.test(normalizedName[occurrence.start - 1] || '')) {
+    return false;
+  }
+  const before = normalizedName.substring(0, occurrence.start);
+  const isGlutenCereal = (part: string): boolean => hasGluten(dataset.compoundTerms.get(part)?.item);
+  return PLANT_COMPOUND_PARTS.some(part =>
+    (before.endsWith(part) || before.endsWith(`${part}s`)) &&
+    !(hasGluten(occurrence.item) && isGlutenCereal(part))
+  );
+}
+
+function hasGluten(item: IngredientData | undefined): boolean {
+  return item?.allergens?.includes('gluten') === true;
+}
+
+/**
+ * Hitta EU-allergenerna i ett ingrediensnamn, i förordningens ordning
+ * @param name Ingrediensens namn som det står på förpackningen
+ * @param dataset Databas att använda (standard: aktuell databas)
+ */
+export function classifyIngredientAllergens(
+  name: string,
+  dataset: IngredientDataset = getIngredientDataset()
+): IngredientAllergenMatch[] {
+  const normalizedName = normalizeString(name);
+  const items = findTermOccurrences(normalizedName, dataset)
+    .filter(occurrence => !isPlantQualified(normalizedName, occurrence, dataset))
+    .map(occurrence => occurrence.item);
+
+  // E-nummer i namnet, t.ex. "konserveringsmedel (E220)"
+  for (const parsed of parseENumbers(name)) {
+    const { matchedItem } = resolveENumber(parsed, dataset);
+    if (matchedItem) {
+      items.push(matchedItem);
+    }
+  }
+
+  const matches = new Map<AllergenCode, IngredientAllergenMatch>();
+  for (const item of items) {
+    for (const allergen of item.allergens || []) {
+      if (!matches.has(allergen)) {
+        matches.set(allergen, { allergen, matchedItem: item.name });
+      }
+    }
+  }
+  return EU_ALLERGENS
+    .filter(allergen => matches.has(allergen))
+    .map(allergen => matches.get(allergen) as IngredientAllergenMatch);
+}
+
+/**
+ * Sammanställ allergenerna för en produkt.
+ * Ett allergen i en deklarerad ingrediens hamnar i contains; ett allergen som bara
+ * finns bland spårämnena hamnar i mayContain.
+ * @param ingredients Ingredienser med källa (standard: declared)
+ */
+export function classifyAllergens(
+  ingredients: Array<{ name: string; source?: IngredientSource }>,
+  dataset: IngredientDataset = getIngredientDataset()
+): AllergenReport {
+  const detections: AllergenDetection[] = [];
+  for (const ingredient of ingredients) {
+    for (const match of classifyIngredientAllergens(ingredient.name, dataset)) {
+      detections.push({
+        allergen: match.allergen,
+        ingredient: ingredient.name,
+        source: ingredient.source || 'declared',
+        matchedItem: match.matchedItem
+      });
+    }
+  }
+
+  const isFoundIn = (allergen: AllergenCode, source: IngredientSource): boolean =>
+    detections.some(detection => detection.allergen === allergen && detection.source === source);
+  const contains = EU_ALLERGENS.filter(allergen => isFoundIn(allergen, 'declared'));
+  const mayContain = EU_ALLERGENS.filter(allergen => !contains.includes(allergen) && isFoundIn(allergen, 'trace'));
+
+  return { contains, mayContain, detections };
+}
+
+/**
+ * Ingredienser som nämns i "kan innehålla spår av"-meningar i en text
+ */
+export function extractTraceIngredients(text: string): string[] {
+  const pattern = new RegExp(TRACE_STATEMENT_PATTERN);
+  const traces: string[] = [];
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    match[1]
+      .split(/\s*,\s*|\s+(?:och|eller|and|or)\s+/i)
+      .map(trace => trace.trim())
+      .filter(trace => trace.length > 0 && !traces.includes(trace))
+      .forEach(trace => traces.push(trace));
+  }
+  return traces;
+}
@@ -0,0 +1,258 @@
+/**
+ * Gemensamt svarsformat för text-, bild- och videoanalysen.
+ *
+ * Formatet är versionerat och valideras med Zod innan det skickas. Klienter väljer
+ * version med "responseVersion" i förfrågan; version 1 är de äldre formaten per
+ * flöde, som byggs från det gemensamma svaret (se legacyAnalysisResponse).
+ */
+import { z } from './openApi';
+import { IngredientAnalysisResult, UsageInfo, VideoAnalysisResult } from '../types/analysisTypes';
+import { AnalysisResult } from './outputParser';
+import { ANIMAL_CATEGORIES, EU_ALLERGENS } from './ingredientCatalogue';
+import { checkIngredientStatus, getIngredientDataset, IngredientDataset } from './ingredientsDatabase';
+import { classifyAllergens, extractTraceIngredients } from './allergenClassifier';
+import { DEFAULT_DIET_PROFILE, DIET_PROFILES } from './dietProfiles';
+import { DEFAULT_TRACE_POLICY, TRACE_POLICIES } from './tracePolicy';
+
+// Den senaste versionen av svarsformatet
+export const ANALYSIS_RESPONSE_VERSION = 2;
+
+export const RESPONSE_VERSIONS = [1, ANALYSIS_RESPONSE_VERSION] as const;
+
+export type ResponseVersion = typeof RESPONSE_VERSIONS[number];
+
+// Äldre appversioner skickar ingen version och får formatet de förväntar sig
+export const DEFAULT_RESPONSE_VERSION: ResponseVersion = 1;
+
+export const ANALYSIS_TYPES = ['text', 'image', 'video'] as const;
+
+export type AnalysisType = typeof ANALYSIS_TYPES[number];
+
+export const verdictTraceStepSchema = z.object({
+  source: z.enum(['ai', 'database', 'validator', 'sanity-check', 'product-store']),
+  rule: z.string(),
+  isVegan: z.boolean().nullable(),
+  isUncertain: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  reason: z.string(),
+  matchedItem: z.string().optional()
+}).openapi('VerdictTraceStep');
+
+const ingredientSchema = z.object({
+  name: z.string().min(1),
+  source: z.enum(['declared', 'trace']),
+  isVegan: z.boolean().nullable(),
+  isUncertain: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  reason: z.string().nullable(),
+  animalCategories: z.array(z.enum(ANIMAL_CATEGORIES)),
+  trace: z.array(verdictTraceStepSchema) // Steps that set the status, first step first
+}).openapi('AnalysisResponseIngredient');
+
+export const allergenReportSchema = z.object({
+  contains: z.array(z.enum(EU_ALLERGENS)),
+  mayContain: z.array(z.enum(EU_ALLERGENS)),
+  detections: z.array(z.object({
+    allergen: z.enum(EU_ALLERGENS),
+    ingredient: z.string(),
+    source: z.enum(['declared', 'trace']),
+    matchedItem: z.string()
+  }))
+}).openapi('AllergenReport');
+
+export const usageInfoSchema = z.object({
+  analysesUsed: z.number(),
+  analysesLimit: z.number(),
+  remaining: z.number(),
+  isPremium: z.boolean().optional()
+}).openapi('UsageInfo');
+
+export const productReferenceSchema = z.object({
+  gtin: z.string(),
+  fromStore: z.boolean(),
+  verifiedAt: z.string()
+}).openapi('ProductReference');
+
+export const analysisResponseSchema = z.object({
+  responseVersion: z.literal(ANALYSIS_RESPONSE_VERSION),
+  analysisType: z.enum(ANALYSIS_TYPES),
+  status: z.enum(['vegan', 'non-vegan', 'uncertain', 'unknown']),
+  isVegan: z.boolean().nullable(),
+  isUncertain: z.boolean(),
+  confidence: z.number().min(0).max(1),
+  productName: z.string().nullable(),
+  ingredients: z.array(ingredientSchema), // Declared ingredients first, then traces
+  nonVeganIngredients: z.array(z.string()),
+  uncertainIngredients: z.array(z.string()),
+  traceWarnings: z.array(z.string()),
+  reasoning: z.string(),
+  uncertainReasons: z.array(z.string()),
+  imageQualityIssues: z.array(z.string()),
+  trace: z.array(verdictTraceStepSchema), // Steps that set the product verdict
+  dietProfile: z.enum(DIET_PROFILES),
+  tracePolicy: z.enum(TRACE_POLICIES),
+  databaseVersion: z.string(),
+  allergens: allergenReportSchema,
+  product: productReferenceSchema.nullable(),
+  usageInfo: usageInfoSchema.nullable(),
+  preferredLanguage: z.string().nullable()
+}).openapi('AnalysisResponse');
+
+export type AnalysisResponse = z.infer<typeof analysisResponseSchema>;
+
+export type AnalysisResponseIngredient = AnalysisResponse['ingredients'][number];
+
+export interface AnalysisResponseOptions {
+  preferredLanguage?: string;
+  usageInfo?: UsageInfo;
+}
+
+/**
+ * Tolka en svarsversion från en förfrågan (tal eller sträng)
+ * @returns Versionen, standardversionen om värdet saknas, eller null om värdet är ogiltigt
+ */
+export function parseResponseVersion(value: unknown): ResponseVersion | null {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_RESPONSE_VERSION;
+  }
+  const version = typeof value === 'string' ? Number(value) : value;
+  return (RESPONSE_VERSIONS as readonly unknown[]).includes(version) ? version as ResponseVersion : null;
+}
+
+// Felmeddelande för ett ogiltigt värde
+export const INVALID_RESPONSE_VERSION_MESSAGE = `Invalid responseVersion: must be one of ${RESPONSE_VERSIONS.join(', ')}`;
+
+function getStatus(isVegan: boolean | null, isUncertain: boolean): AnalysisResponse['status'] {
+  return isVegan === null
+    ? (isUncertain ? 'uncertain' : 'unknown')
+    : (isVegan ? 'vegan' : 'non-vegan');
+}
+
+function toResponseIngredient(ingredient: IngredientAnalysisResult): AnalysisResponseIngredient {
+  return {
+    name: ingredient.name,
+    source: ingredient.source,
+    isVegan: ingredient.isVegan,
+    isUncertain: ingredient.isUncertain,
+    confidence: ingredient.confidence,
+    reason: ingredient.reason || null,
+    animalCategories: ingredient.animalCategories || [],
+    trace: ingredient.trace || []
+  };
+}
+
+/**
+ * Svar för text- eller bildanalysen. Resultatet listar ingredienserna som namn med
+ * en bedömning per namn; spårämnena kontrolleras mot databasen och blir egna ingredienser.
+ * @throws ZodError om svaret inte följer schemat
+ */
+export function createAnalysisResponse(
+  result: AnalysisResult,
+  analysisType: 'text' | 'image',
+  options: AnalysisResponseOptions = {},
+  dataset: IngredientDataset = getIngredientDataset()
+): AnalysisResponse {
+  const dietProfile = result.dietProfile || DEFAULT_DIET_PROFILE;
+
+  // Entries that are themselves trace statements are not declared ingredients
+  const declared: IngredientAnalysisResult[] = result.ingredientList
+    .filter(name => extractTraceIngredients(name).length === 0)
+    .map(name => {
+      const verdict = result.ingredientVerdicts?.find(ingredientVerdict => ingredientVerdict.name === name);
+      return {
+        name,
+        isVegan: verdict ? verdict.isVegan : null,
+        isUncertain: verdict ? verdict.isUncertain : true,
+        confidence: verdict ? verdict.confidence : 0,
+        source: 'declared',
+        trace: verdict ? verdict.trace : []
+      };
+    });
+  const traces: IngredientAnalysisResult[] = (result.traceIngredients || []).map(name => {
+    const status = checkIngredientStatus(name, dataset, dietProfile);
+    return {
+      name,
+      isVegan: status.isUncertain ? null : status.isVegan,
+      isUncertain: status.isUncertain,
+      confidence: status.matchStrategy === 'none' ? 0 : 1.0,
+      source: 'trace',
+      ...(status.animalCategories.length > 0 ? { animalCategories: status.animalCategories } : {})
+    };
+  });
+  const ingredients = [...declared, ...traces];
+  const uncertainIngredients = declared
+    .filter(ingredient => ingredient.isUncertain)
+    .map(ingredient => ingredient.name);
+  const tracePolicy = result.tracePolicy || DEFAULT_TRACE_POLICY;
+  const traceWarnings = result.traceWarnings || [];
+
+  const uncertainReasons: string[] = [];
+  if (result.isVegan === null) {
+    if (uncertainIngredients.length > 0) {
+      uncertainReasons.push(`Innehåller ingredienser med osäkert ursprung: ${uncertainIngredients.join(', ')}.`);
+    }
+    if (tracePolicy === 'uncertain' && traceWarnings.length > 0) {
+      uncertainReasons.push(`Kan innehålla spår av ${traceWarnings.join(', ')}; spår räknas som osäkra enligt spårpolicyn.`);
+    }
+    uncertainReasons.push(...(result.imageQualityIssues || []));
+  }
+
+  return analysisResponseSchema.parse({
+    responseVersion: ANALYSIS_RESPONSE_VERSION,
+    analysisType,
+    status: getStatus(result.isVegan, result.isVegan === null),
+    isVegan: result.isVegan,
+    isUncertain: result.isVegan === null,
+    confidence: result.confidence,
+    productName: result.productName || null,
+    ingredients: ingredients.map(toResponseIngredient),
+    nonVeganIngredients: result.nonVeganIngredients,
+    uncertainIngredients,
+    traceWarnings,
+    reasoning: result.reasoning || '',
+    uncertainReasons,
+    imageQualityIssues: result.imageQualityIssues || [],
+    trace: result.trace || [],
+    dietProfile,
+    tracePolicy,
+    databaseVersion: result.databaseVersion || dataset.version,
+    allergens: result.allergens || classifyAllergens(ingredients, dataset),
+    product: result.product || null,
+    usageInfo: options.usageInfo || null,
+    preferredLanguage: options.preferredLanguage || null
+  });
+}
+
+/**
+ * Svar för videoanalysen
+ * @throws ZodError om svaret inte följer schemat
+ */
+export function createVideoAnalysisResponse(
+  result: VideoAnalysisResult,
+  options: AnalysisResponseOptions = {}
+): AnalysisResponse {
+  return analysisResponseSchema.parse({
+    responseVersion: ANALYSIS_RESPONSE_VERSION,
+    analysisType: 'video',
+    status: getStatus(result.isVegan, result.isUncertain),
+    isVegan: result.isVegan,
+    isUncertain: result.isUncertain,
+    confidence: result.confidence,
+    productName: null,
+    ingredients: result.ingredients.map(toResponseIngredient),
+    nonVeganIngredients: result.nonVeganIngredients,
+    uncertainIngredients: result.uncertainIngredients,
+    traceWarnings: result.traceWarnings || [],
+    reasoning: result.reasoning || '',
+    uncertainReasons: result.uncertainReasons || [],
+    imageQualityIssues: [],
+    trace: [],
+    dietProfile: result.dietProfile || DEFAULT_DIET_PROFILE,
+    tracePolicy: result.tracePolicy || DEFAULT_TRACE_POLICY,
+    databaseVersion: result.databaseVersion || getIngredientDataset().version,
+    allergens: result.allergens || classifyAllergens(result.ingredients),
+    product: result.product || null,
+    usageInfo: options.usageInfo || result.usageInfo || null,
+    preferredLanguage: options.preferredLanguage || result.preferredLanguage || null
+  });
+}
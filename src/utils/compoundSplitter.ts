@@ -0,0 +1,250 @@
+/**
+ * Splitting and classification of Swedish compound words.
+ * "skummjölkspulver" = skummjölk + s + pulver, "äggvitepulver" = äggvit(a) + e + pulver.
+ * The last part is the head (what the ingredient is), earlier parts are modifiers
+ * (what it is made from or flavoured with). A compound is classified from the
+ * catalogue status of its parts, so unseen compounds need no catalogue row of their own.
+ * All functions expect strings normalized with normalizeString.
+ */
+import { IngredientAlias, IngredientData, IngredientStatus, getIngredientNames } from './ingredientCatalogue';
+import { normalizeString } from './textNormalizer';
+
+// Fogemorfem som kan stå mellan två leder: "honung-s-sirap", "äggvit-e-pulver"
+export const LINKING_MORPHEMES = ['s', 'e'];
+
+// Kortare delar än så räknas inte som ord (annars blir "a" + "rom" en sammansättning)
+export const MIN_PART_LENGTH = 3;
+
+// Förleder som anger ett växtbaserat ursprung: "sojamjölk" är inte mjölk
+const PLANT_WORDS = [
+  'soja', 'havre', 'kokos', 'mandel', 'ris', 'majs', 'vete', 'råg', 'korn', 'ärt', 'potatis',
+  'raps', 'solros', 'palm', 'kakao', 'vanilj', 'frukt', 'bär', 'grönsak', 'växt', 'jordnöt'
+];
+
+export const PLANT_COMPOUND_PARTS = PLANT_WORDS.map(normalizeString);
+
+/**
+ * En led i ett sammansatt ord
+ */
+export interface CompoundSegment {
+  text: string; // Leden som den står i ordet, t.ex. "aggvit"
+  part: string; // Ordets grundform, t.ex. "aggvita"
+  linker: string | null; // Fogemorfem efter leden, t.ex. "s"
+}
+
+export interface CompoundSplitOptions {
+  openStart?: boolean; // Ordet får börja med ett fogemorfem (segmentet står efter en annan led)
+  openEnd?: boolean; // Sista leden får ha fogemorfem eller stympad form (ordet fortsätter)
+}
+
+interface SplitStep {
+  cost: number;
+  previous: number;
+  segment: CompoundSegment | null;
+}
+
+/**
+ * Dela upp ett ord i kända delar med så få leder som möjligt.
+ * En del som slutar på -a får tappa sitt -a före nästa led ("äggvit-e-pulver").
+ * @returns Lederna i ordning, eller null om ordet inte kan delas upp helt
+ */
+export function splitCompound(
+  word: string,
+  parts: ReadonlySet<string>,
+  options: CompoundSplitOptions = {}
+): CompoundSegment[] | null {
+  const length = word.length;
+  if (length < MIN_PART_LENGTH) {
+    return null;
+  }
+
+  // steps[i]: billigaste uppdelningen av word.substring(0, i)
+  const steps: Array<SplitStep | undefined> = new Array(length + 1);
+  steps[0] = { cost: 0, previous: -1, segment: null };
+  if (options.openStart && LINKING_MORPHEMES.includes(word[0])) {
+    steps[1] = { cost: 1, previous: 0, segment: null };
+  }
+
+  const relax = (position: number, step: SplitStep): void => {
+    const current = steps[position];
+    if (!current || step.cost < current.cost) {
+      steps[position] = step;
+    }
+  };
+
+  for (let start = 0; start < length; start++) {
+    const from = steps[start];
+    if (!from) {
+      continue;
+    }
+
+    for (let end = start + MIN_PART_LENGTH; end <= length; end++) {
+      const text = word.substring(start, end);
+      const continues = end < length || options.openEnd === true;
+      // Fler leder kostar mest, stympade former och fogemorfem lite
+      let part: string | null = null;
+      let cost = from.cost + 4;
+      if (parts.has(text)) {
+        part = text;
+      } else if (continues && parts.has(`${text}a`)) {
+        part = `${text}a`;
+        cost += 2;
+      }
+      if (part === null) {
+        continue;
+      }
+
+      relax(end, { cost, previous: start, segment: { text, part, linker: null } });
+
+      const linker = word[end];
+      if (linker && LINKING_MORPHEMES.includes(linker) && (end + 1 < length || options.openEnd)) {
+        relax(end + 1, { cost: cost + 1, previous: start, segment: { text, part, linker } });
+      }
+    }
+  }
+
+  if (!steps[length]) {
+    return null;
+  }
+
+  const segments: CompoundSegment[] = [];
+  for (let position = length; position > 0;) {
+    const step = steps[position] as SplitStep;
+    if (step.segment) {
+      segments.unshift(step.segment);
+    }
+    position = step.previous;
+  }
+  return segments;
+}
+
+/**
+ * Katalogpost och namn/alias som en del av ett sammansatt ord motsvarar
+ */
+export interface CatalogueTerm {
+  item: IngredientData;
+  alias: IngredientAlias;
+}
+
+/**
+ * Uppslag från normaliserat namn/alias till katalogpost, för alla poster oavsett status
+ */
+export function buildCatalogueTermMap(entries: IngredientData[]): Map<string, CatalogueTerm> {
+  const terms = new Map<string, CatalogueTerm>();
+  for (const item of entries) {
+    for (const alias of getIngredientNames(item)) {
+      const term = normalizeString(alias.name);
+      if (!terms.has(term)) {
+        terms.set(term, { item, alias });
+      }
+    }
+  }
+  return terms;
+}
+
+export type CompoundRole = 'modifier' | 'head';
+
+export interface CompoundPart extends CompoundSegment {
+  role: CompoundRole;
+  status: IngredientStatus | null; // Ledens effektiva status (null = neutral led, t.ex. "pulver")
+  isPlantSource: boolean;
+  item?: IngredientData;
+  alias?: IngredientAlias;
+  qualifiedBy?: string; // Växtbaserad förled som gör leden vegansk, t.ex. "soja" i "sojamjölk"
+}
+
+/**
+ * Ledens namn för visning, med svenska tecken när det är känt ("äggvita", inte "aggvita")
+ */
+export function getPartLabel(part: CompoundPart): string {
+  const plantIndex = PLANT_COMPOUND_PARTS.indexOf(part.part);
+  if (plantIndex >= 0) {
+    return PLANT_WORDS[plantIndex];
+  }
+  return part.alias ? part.alias.name.toLowerCase() : part.part;
+}
+
+export interface CompoundAnalysis {
+  word: string;
+  parts: CompoundPart[];
+  status: IngredientStatus;
+  trigger: CompoundPart; // Leden som avgjorde klassificeringen
+}
+
+// Striktast först
+const STATUS_STRICTNESS: IngredientStatus[] = ['non-vegan', 'uncertain', 'vegan'];
+
+/**
+ * Klassificera ett sammansatt ord utifrån dess leder.
+ * - En led med katalogstatus ger ordet den statusen; den striktaste leden avgör.
+ * - En icke-vegansk eller osäker led direkt efter en växtbaserad förled läses som
+ *   den växtbaserade varianten ("sojamjölk", "havregrädde", "sojalecitin") och räknas som vegansk.
+ * - Vid lika status förklaras klassificeringen med huvudleden, annars med första avgörande led.
+ * @returns Analysen, eller null om ordet inte är sammansatt eller saknar leder med känd status
+ */
+export function analyzeCompound(
+  word: string,
+  parts: ReadonlySet<string>,
+  terms: ReadonlyMap<string, CatalogueTerm>
+): CompoundAnalysis | null {
+  const segments = splitCompound(word, parts);
+  if (!segments || segments.length < 2) {
+    return null;
+  }
+
+  const compoundParts: CompoundPart[] = segments.map((segment, position) => {
+    const term = terms.get(segment.part);
+    const status = term?.item.status ?? null;
+    return {
+      ...segment,
+      role: position === segments.length - 1 ? 'head' : 'modifier',
+      status,
+      isPlantSource: PLANT_COMPOUND_PARTS.includes(segment.part),
+      item: term?.item,
+      alias: term?.alias
+    };
+  });
+
+  compoundParts.forEach((part, position) => {
+    const previous = compoundParts[position - 1];
+    if (previous?.isPlantSource && (part.status === 'non-vegan' || part.status === 'uncertain')) {
+      part.status = 'vegan';
+      part.qualifiedBy = getPartLabel(previous);
+    }
+  });
+
+  const status = STATUS_STRICTNESS.find(candidate => compoundParts.some(part => part.status === candidate));
+  if (!status) {
+    return null;
+  }
+
+  const head = compoundParts[compoundParts.length - 1];
+  const trigger = head.status === status
+    ? head
+    : compoundParts.find(part => part.status === status) as CompoundPart;
+
+  return { word, parts: compoundParts, status, trigger };
+}
+
+/**
+ * Förklara vilken led som avgjorde klassificeringen, t.ex.
+ * `förleden "kyckling" (Kycklingkött) är inte vegansk`
+ */
+export function describeCompound(analysis: CompoundAnalysis): string {
+  const { trigger } = analysis;
+  const role = trigger.role === 'head' ? 'huvudleden' : 'förleden';
+  const label = getPartLabel(trigger);
+  const source = trigger.item && trigger.item.name.toLowerCase() !== label ? ` (${trigger.item.name})` : '';
+
+  if (trigger.qualifiedBy) {
+    return `${role} "${label}" föregås av den växtbaserade förleden "${trigger.qualifiedBy}"`;
+  }
+  switch (analysis.status) {
+    case 'non-vegan':
+      return `${role} "${label}"${source} är inte vegansk`;
+    case 'uncertain':
+      return `${role} "${label}"${source} har osäker status`;
+    default:
+      return `${role} "${label}"${source} är vegansk`;
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * RFC 4180 CSV reader for the data files in src/data.
+ * Handles quoted fields, embedded commas and quotes, BOMs and CRLF line endings,
+ * and reports problems per row with the line number in the source file.
+ */
+import * as fs from 'fs';
+import * as path from 'path';
+import { parse, CsvError } from 'csv-parse/sync';
+
+export interface CsvRow {
+  line: number; // Radnummer i källfilen (1-baserat, rubrikraden är rad 1)
+  values: Record<string, string>;
+}
+
+export interface CsvRowError {
+  line: number;
+  message: string;
+}
+
+/**
+ * Thrown when a CSV file cannot be parsed or fails validation.
+ * Contains every row error found, not just the first one.
+ */
+export class CsvValidationError extends Error {
+  readonly file: string;
+  readonly errors: CsvRowError[];
+
+  constructor(file: string, errors: CsvRowError[]) {
+    const summary = errors
+      .slice(0, 5)
+      .map(error => `line ${error.line}: ${error.message}`)
+      .join('; ');
+    const more = errors.length > 5 ? ` (and ${errors.length - 5} more)` : '';
+    super(`Invalid CSV file ${path.basename(file)}: ${summary}${more}`);
+    this.name = 'CsvValidationError';
+    this.file = file;
+    this.errors = errors;
+  }
+}
+
+/**
+ * Parse CSV content with a required header row.
+ * @param content CSV-text
+ * @param expectedColumns Kolumnnamn som rubrikraden måste innehålla, i ordning
+ * @param source Filnamn som används i felmeddelanden
+ * @returns Rader med värden per kolumnnamn (trimmade)
+ * @throws CsvValidationError vid syntaxfel, fel rubrikrad eller fel antal fält
+ */
+export function parseCsv(content: string, expectedColumns: string[], source = 'input'): CsvRow[] {
+  let records: Array<{ record: string[]; info: { lines: number } }>;
+
+  try {
+    records = parse(content, {
+      bom: true,
+      info: true,
+      trim: true,
+      skip_empty_lines: true,
+      // Antalet fält kontrolleras nedan så att vi kan rapportera alla felaktiga rader
+      relax_column_count: true
+    });
+  } catch (error) {
+    if (error instanceof CsvError) {
+      throw new CsvValidationError(source, [{ line: Number(error.lines) || 0, message: error.message }]);
+    }
+    throw error;
+  }
+
+  if (records.length === 0) {
+    throw new CsvValidationError(source, [{ line: 1, message: 'File is empty, expected a header row' }]);
+  }
+
+  const [header, ...dataRecords] = records;
+  const headerColumns = header.record.map(column => column.toLowerCase());
+  const headerMatches = headerColumns.length === expectedColumns.length &&
+    headerColumns.every((column, index) => column === expectedColumns[index]);
+  if (!headerMatches) {
+    throw new CsvValidationError(source, [{
+      line: header.info.lines,
+      message: `Expected header columns ${JSON.stringify(expectedColumns)} but found ${JSON.stringify(header.record)}`
+    }]);
+  }
+
+  const rows: CsvRow[] = [];
+  const errors: CsvRowError[] = [];
+
+  for (const { record, info } of dataRecords) {
+    if (record.length !== expectedColumns.length) {
+      errors.push({
+        line: info.lines,
+        message: `Expected ${expectedColumns.length} fields but found ${record.length}`
+      });
+      continue;
+    }
+
+    const values: Record<string, string> = {};
+    expectedColumns.forEach((column, index) => {
+      values[column] = record[index];
+    });
+    rows.push({ line: info.lines, values });
+  }
+
+  if (errors.length > 0) {
+    throw new CsvValidationError(source, errors);
+  }
+
+  return rows;
+}
+
+/**
+ * Läs och tolka en CSV-fil från disk
+ * @see parseCsv
+ */
+export function readCsvFile(filePath: string, expectedColumns: string[]): CsvRow[] {
+  const content = fs.readFileSync(filePath, 'utf8');
+  return parseCsv(content, expectedColumns, filePath);
+}
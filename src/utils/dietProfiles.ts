@@ -0,0 +1,110 @@
+/**
+ * Diet profiles beyond strict vegan.
+ * Every catalogue entry is tagged with the animal categories it contains (non-vegan)
+ * or may contain (uncertain). A profile lists the categories a user accepts, and a
+ * verdict is computed against it: "Honung" is fine for "honey-ok", "Vassle" for
+ * "vegetarian". The default profile "vegan" accepts nothing and leaves every status unchanged.
+ */
+import { AnimalCategory, IngredientData, IngredientStatus } from './ingredientCatalogue';
+import { CompoundAnalysis } from './compoundSplitter';
+
+export const DIET_PROFILES = ['vegan', 'honey-ok', 'lacto-ovo', 'vegetarian', 'pescetarian'] as const;
+
+export type DietProfile = typeof DIET_PROFILES[number];
+
+export const DEFAULT_DIET_PROFILE: DietProfile = 'vegan';
+
+// Animaliska kategorier som varje profil accepterar ("vegetarian" är samma som "lacto-ovo")
+const ALLOWED_CATEGORIES: Record<DietProfile, readonly AnimalCategory[]> = {
+  'vegan': [],
+  'honey-ok': ['bee'],
+  'lacto-ovo': ['dairy', 'egg', 'bee'],
+  'vegetarian': ['dairy', 'egg', 'bee'],
+  'pescetarian': ['dairy', 'egg', 'bee', 'fish']
+};
+
+// Kategoriernas namn i förklaringar
+const CATEGORY_LABELS: Record<AnimalCategory, string> = {
+  dairy: 'mejeri',
+  egg: 'ägg',
+  meat: 'kött',
+  fish: 'fisk',
+  insect: 'insekter',
+  bee: 'biprodukter'
+};
+
+export function isDietProfile(value: unknown): value is DietProfile {
+  return typeof value === 'string' && (DIET_PROFILES as readonly string[]).includes(value);
+}
+
+/**
+ * Tolka en kostprofil från en förfrågan
+ * @returns Profilen, standardprofilen om värdet saknas, eller null om värdet är ogiltigt
+ */
+export function parseDietProfile(value: unknown): DietProfile | null {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_DIET_PROFILE;
+  }
+  return isDietProfile(value) ? value : null;
+}
+
+// Felmeddelande för ett ogiltigt värde
+export const INVALID_DIET_PROFILE_MESSAGE = `Invalid dietProfile: must be one of ${DIET_PROFILES.join(', ')}`;
+
+/**
+ * Animaliska kategorier som profilen accepterar
+ */
+export function getAllowedCategories(profile: DietProfile): readonly AnimalCategory[] {
+  return ALLOWED_CATEGORIES[profile];
+}
+
+/**
+ * Kategoriernas namn för visning, t.ex. "mejeri och ägg"
+ */
+export function describeAnimalCategories(categories: readonly AnimalCategory[]): string {
+  const labels = categories.map(category => CATEGORY_LABELS[category]);
+  return labels.length > 1
+    ? `${labels.slice(0, -1).join(', ')} och ${labels[labels.length - 1]}`
+    : labels.join('');
+}
+
+/**
+ * Status för en katalogstatus mot en profil.
+ * En icke-vegansk eller osäker status blir vegansk ("passar profilen") om profilen
+ * accepterar alla kategorier som ingrediensen innehåller eller kan innehålla.
+ * En osäker post utan kategorier har okänt ursprung och förblir osäker.
+ */
+export function getProfileStatus(
+  status: IngredientStatus,
+  animalCategories: readonly AnimalCategory[],
+  profile: DietProfile
+): IngredientStatus {
+  if (status === 'vegan' || animalCategories.length === 0) {
+    return status;
+  }
+  const allowed = ALLOWED_CATEGORIES[profile];
+  return animalCategories.every(category => allowed.includes(category)) ? 'vegan' : status;
+}
+
+/**
+ * Katalogpostens status mot en profil
+ */
+export function getItemProfileStatus(item: IngredientData, profile: DietProfile): IngredientStatus {
+  return getProfileStatus(item.status || 'uncertain', item.animalCategories || [], profile);
+}
+
+// Striktast först
+const STATUS_STRICTNESS: IngredientStatus[] = ['non-vegan', 'uncertain', 'vegan'];
+
+/**
+ * Ett sammansatt ords status mot en profil: den striktaste leden avgör.
+ * Leder som en växtbaserad förled gjort veganska ("sojamjölk") förblir veganska.
+ */
+export function getCompoundProfileStatus(compound: CompoundAnalysis, profile: DietProfile): IngredientStatus {
+  const statuses = compound.parts
+    .filter(part => part.status !== null)
+    .map(part => part.item && !part.qualifiedBy
+      ? getProfileStatus(part.status as IngredientStatus, part.item.animalCategories || [], profile)
+      : part.status as IngredientStatus);
+  return STATUS_STRICTNESS.find(status => statuses.includes(status)) || compound.status;
+}
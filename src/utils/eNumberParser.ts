@@ -0,0 +1,77 @@
+/**
+ * Parser for E-numbers in ingredient text.
+ * Finds every E-code in a string, in the forms labels actually use:
+ * "E471", "e471", "E 471", "E-471", letter variants ("E150d") and
+ * parenthesised Roman-numeral sub-classes ("E160a(i)", "E450 (iii)").
+ */
+
+export interface ParsedENumber {
+  code: string; // Normaliserad kod, t.ex. "E160a(i)"
+  base: string; // Grundnummer, t.ex. "E160"
+  variant: string | null; // Bokstavsvariant i gemener, t.ex. "a"
+  subclass: string | null; // Romersk underklass i gemener, t.ex. "i"
+  text: string; // Koden som den stod i texten
+  index: number; // Position i texten
+}
+
+// E, valfritt mellanslag/bindestreck, 3-4 siffror, valfri bokstav och valfri romersk underklass.
+// Bokstaven får inte följas av fler bokstäver så att "E471 och" inte tolkas som "E471o".
+const E_NUMBER_REGEX = /\be\s?-?\s?(\d{3,4})(?!\d)([a-z](?![a-z]))?(?:\s?\(\s?(iv|v|i{1,3})\s?\))?/gi;
+
+/**
+ * Bygg normaliserad kod av delarna
+ */
+export function formatENumber(base: string, variant: string | null = null, subclass: string | null = null): string {
+  return `${base}${variant ?? ''}${subclass ? `(${subclass})` : ''}`;
+}
+
+/**
+ * Nyckel för jämförelser mellan koder (versaler, t.ex. "E160A(I)")
+ */
+export function eNumberKey(code: string): string {
+  return code.toUpperCase();
+}
+
+/**
+ * Hitta alla E-nummer i en text, i den ordning de förekommer.
+ * Samma kod rapporteras bara en gång.
+ */
+export function parseENumbers(text: string): ParsedENumber[] {
+  const results: ParsedENumber[] = [];
+  const seen = new Set<string>();
+
+  const regex = new RegExp(E_NUMBER_REGEX.source, E_NUMBER_REGEX.flags);
+  let match: RegExpExecArray | null;
+
+  while ((match = regex.exec(text)) !== null) {
+    const base = `E${match[1]}`;
+    const variant = match[2] ? match[2].toLowerCase() : null;
+    const subclass = match[3] ? match[3].toLowerCase() : null;
+    const code = formatENumber(base, variant, subclass);
+
+    if (seen.has(eNumberKey(code))) {
+      continue;
+    }
+    seen.add(eNumberKey(code));
+
+    results.push({
+      code,
+      base,
+      variant,
+      subclass,
+      text: match[0],
+      index: match.index
+    });
+  }
+
+  return results;
+}
+
+/**
+ * Tolka en enskild kod, t.ex. från katalogen
+ * @returns Koden, eller null om strängen inte är exakt ett E-nummer
+ */
+export function parseENumber(code: string): ParsedENumber | null {
+  const [parsed] = parseENumbers(code.trim());
+  return parsed && parsed.text === code.trim() ? parsed : null;
+}
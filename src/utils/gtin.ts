@@ -0,0 +1,43 @@
+/**
+ * Barcodes (GTIN): EAN-8, UPC-A (GTIN-12), EAN-13 and GTIN-14.
+ * A barcode is validated with its check digit and normalized to 14 digits, so the
+ * UPC-A "012345678905" and the EAN-13 "0012345678905" are the same product.
+ */
+
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+// Felmeddelande för en ogiltig streckkod
+export const INVALID_GTIN_MESSAGE = 'Invalid gtin: must be an EAN-8, UPC-A, EAN-13 or GTIN-14 barcode with a valid check digit';
+
+/**
+ * Kontrollsiffran för en streckkod utan kontrollsiffra (GS1 modulo 10)
+ */
+function computeCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    // Vikten 3 för siffran närmast kontrollsiffran, sedan varannan 1 och 3
+    const weight = (digits.length - i) % 2 === 1 ? 3 : 1;
+    sum += Number(digits[i]) * weight;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/**
+ * Tolka en streckkod från en förfrågan
+ * @param value Streckkoden; mellanslag och bindestreck ignoreras
+ * @returns Streckkoden som GTIN-14, eller null om den är ogiltig
+ */
+export function normalizeGtin(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const digits = value.replace(/[\s-]/g, '');
+  if (!/^\d+$/.test(digits) || !GTIN_LENGTHS.includes(digits.length)) {
+    return null;
+  }
+  const checkDigit = Number(digits[digits.length - 1]);
+  if (computeCheckDigit(digits.slice(0, -1)) !== checkDigit) {
+    return null;
+  }
+  return digits.padStart(14, '0');
+}
@@ -0,0 +1,279 @@
+/**
+ * Ingredient catalogue - the single source of truth for ingredient knowledge.
+ * Both the database lookups (checkIngredientStatus) and the rule-based
+ * validator (validateIngredients) are derived from src/data/ingredients.csv.
+ */
+import * as path from 'path';
+import { logger } from './logger';
+import { normalizeString } from './textNormalizer';
+import { readCsvFile, CsvRowError, CsvValidationError } from './csvReader';
+
+/**
+ * Klassificering av en ingrediens i katalogen
+ */
+export type IngredientStatus = 'vegan' | 'non-vegan' | 'uncertain';
+
+/**
+ * Hur en katalogpost matchar ett ingrediensnamn
+ * - contains: postens namn/alias får förekomma i ingrediensnamnet som ord eller
+ *   sammansättningsled ("vasslepulver"), se wordMatcher
+ * - exact: namnet/aliaset får förekomma i ingrediensnamnet som hela ord, men inte
+ *   inuti ett längre ord (för korta ord som annars ger falska träffar, t.ex. "ost"
+ *   i "rostad"); "riven ost" matchar
+ * - name: ingrediensnamnet måste vara identiskt med namnet/aliaset (för generella
+ *   ord där ett tillägg anger ursprunget, t.ex. "olja" i "vegetabilisk olja")
+ */
+export type IngredientMatchMode = 'contains' | 'exact' | 'name';
+
+// Tillåtna kategorier i katalogen
+export const INGREDIENT_CATEGORIES = [
+  'mejeri', 'ägg', 'bi', 'kött', 'fisk', 'skaldjur', 'insekt', 'djurdel', 'djurfett',
+  'tillsats', 'vitamin', 'enzym', 'livsmedel'
+] as const;
+
+export type IngredientCategory = typeof INGREDIENT_CATEGORIES[number];
+
+// Animaliska kategorier som en post innehåller (icke-vegansk) eller kan innehålla (osäker).
+// Kostprofilerna anger vilka av dem användaren accepterar, se dietProfiles.
+export const ANIMAL_CATEGORIES = ['dairy', 'egg', 'meat', 'fish', 'insect', 'bee'] as const;
+
+export type AnimalCategory = typeof ANIMAL_CATEGORIES[number];
+
+// De 14 allergenerna som ska märkas ut enligt EU:s förordning 1169/2011, bilaga II
+export const EU_ALLERGENS = [
+  'gluten', 'crustaceans', 'eggs', 'fish', 'peanuts', 'soybeans', 'milk',
+  'nuts', 'celery', 'mustard', 'sesame', 'sulphites', 'lupin', 'molluscs'
+] as const;
+
+export type AllergenCode = typeof EU_ALLERGENS[number];
+
+// Språk som alias kan anges på (ISO 639-1)
+export const INGREDIENT_LANGUAGES = ['sv', 'en', 'de', 'fi', 'da', 'no'] as const;
+
+export type IngredientLanguage = typeof INGREDIENT_LANGUAGES[number];
+
+// Katalogens primära namn är på svenska
+export const PRIMARY_LANGUAGE: IngredientLanguage = 'sv';
+
+/**
+ * Ett namn för en ingrediens på ett visst språk
+ */
+export interface IngredientAlias {
+  name: string;
+  language: IngredientLanguage;
+}
+
+export interface IngredientData {
+  name: string;
+  eNumber?: string;
+  description?: string;
+  status?: IngredientStatus;
+  category?: IngredientCategory;
+  animalCategories?: AnimalCategory[];
+  allergens?: AllergenCode[]; // EU-allergener som ingrediensen är eller innehåller
+  matchMode?: IngredientMatchMode; // Standard: contains
+  aliases?: IngredientAlias[];
+}
+
+// Kolumner i ingredients.csv
+const CATALOGUE_COLUMNS = ['name', 'e_number', 'status', 'category', 'animal', 'allergens', 'match', 'aliases', 'description'];
+
+// Giltigt E-nummer, t.ex. E100, E1105, E472a eller E160a(ii)
+const E_NUMBER_PATTERN = /^E[0-9]{3,4}[a-z]?(\((i{1,3}|iv|v)\))?$/i;
+
+const STATUSES: IngredientStatus[] = ['vegan', 'non-vegan', 'uncertain'];
+const MATCH_MODES: IngredientMatchMode[] = ['contains', 'exact', 'name'];
+
+// Standardfil för katalogen i src/data
+export const CATALOGUE_FILE = 'ingredients.csv';
+
+/**
+ * Tolka ett alias på formen "en:shellac"
+ * @returns Aliaset, eller null om språket saknas eller är okänt
+ */
+function parseAlias(value: string): IngredientAlias | null {
+  const separator = value.indexOf(':');
+  const language = value.substring(0, separator).trim().toLowerCase() as IngredientLanguage;
+  const name = value.substring(separator + 1).trim();
+  if (separator < 0 || !name || !INGREDIENT_LANGUAGES.includes(language)) {
+    return null;
+  }
+  return { name, language };
+}
+
+/**
+ * Läs och validera ingredienskatalogen.
+ * Varje rad måste ha ett namn, en giltig status, kategori och matchningstyp samt
+ * ett giltigt (eller tomt) E-nummer. Animaliska kategorier anges separerade med "|",
+ * t.ex. "dairy|egg"; en icke-vegansk post måste ha minst en och en vegansk post ingen.
+ * Allergener (EU:s 14) anges på samma sätt, t.ex. "crustaceans|molluscs". Namn och alias (efter normalisering) och
+ * E-nummer får inte förekomma mer än en gång i hela katalogen. Alias anges som
+ * "språk:namn" separerade med "|", t.ex. "en:shellac|de:schellack".
+ * @param fileName Filnamn i datakatalogen, eller en absolut sökväg
+ * @throws CsvValidationError med radnummer för alla fel som hittades
+ */
+export function readIngredientCatalogue(fileName: string = CATALOGUE_FILE): IngredientData[] {
+  // Use __dirname to construct path relative to the compiled file location
+  // (an absolute fileName is used as-is)
+  const filePath = path.resolve(__dirname, '..', 'data', fileName);
+  logger.info(`[Utils] Attempting to load: ${filePath}`);
+
+  const rows = readCsvFile(filePath, CATALOGUE_COLUMNS);
+  const entries: IngredientData[] = [];
+  const errors: CsvRowError[] = [];
+  const termLines = new Map<string, number>();
+  const eNumberLines = new Map<string, number>();
+
+  for (const { line, values } of rows) {
+    const name = values.name;
+    const eNumber = values.e_number;
+    const status = values.status as IngredientStatus;
+    const category = values.category as IngredientCategory;
+    const matchMode = values.match as IngredientMatchMode;
+    const animalCategories = values.animal
+      ? values.animal.split('|').map(value => value.trim()).filter(Boolean) as AnimalCategory[]
+      : [];
+    const allergens = values.allergens
+      ? values.allergens.split('|').map(value => value.trim()).filter(Boolean) as AllergenCode[]
+      : [];
+    const aliasValues = values.aliases
+      ? values.aliases.split('|').map(alias => alias.trim()).filter(Boolean)
+      : [];
+
+    if (!name) {
+      errors.push({ line, message: 'Missing ingredient name' });
+      continue;
+    }
+    if (eNumber && !E_NUMBER_PATTERN.test(eNumber)) {
+      errors.push({ line, message: `Invalid E-number "${eNumber}" for ${name}` });
+      continue;
+    }
+    if (!STATUSES.includes(status)) {
+      errors.push({ line, message: `Invalid status "${values.status}" for ${name}` });
+      continue;
+    }
+    if (!(INGREDIENT_CATEGORIES as readonly string[]).includes(category)) {
+      errors.push({ line, message: `Invalid category "${values.category}" for ${name}` });
+      continue;
+    }
+    if (!MATCH_MODES.includes(matchMode)) {
+      errors.push({ line, message: `Invalid match mode "${values.match}" for ${name}` });
+      continue;
+    }
+    const invalidAnimalCategory = animalCategories.find(value => !(ANIMAL_CATEGORIES as readonly string[]).includes(value));
+    if (invalidAnimalCategory !== undefined) {
+      errors.push({ line, message: `Invalid animal category "${invalidAnimalCategory}" for ${name}` });
+      continue;
+    }
+    if (status === 'non-vegan' && animalCategories.length === 0) {
+      errors.push({ line, message: `Missing animal category for non-vegan ${name}` });
+      continue;
+    }
+    if (status === 'vegan' && animalCategories.length > 0) {
+      errors.push({ line, message: `Vegan ${name} cannot have animal categories` });
+      continue;
+    }
+    const invalidAllergen = allergens.find(value => !(EU_ALLERGENS as readonly string[]).includes(value));
+    if (invalidAllergen !== undefined) {
+      errors.push({ line, message: `Invalid allergen "${invalidAllergen}" for ${name}` });
+      continue;
+    }
+
+    const aliases: IngredientAlias[] = [];
+    let invalidAlias: string | null = null;
+    for (const value of aliasValues) {
+      const alias = parseAlias(value);
+      if (alias) {
+        aliases.push(alias);
+      } else if (invalidAlias === null) {
+        invalidAlias = value;
+      }
+    }
+    if (invalidAlias !== null) {
+      errors.push({
+        line,
+        message: `Invalid alias "${invalidAlias}" for ${name}, expected <language>:<name> with language ${INGREDIENT_LANGUAGES.join('/')}`
+      });
+      continue;
+    }
+
+    for (const term of [name, ...aliases.map(alias => alias.name)]) {
+      const normalizedTerm = normalizeString(term);
+      const firstLine = termLines.get(normalizedTerm);
+      if (firstLine !== undefined) {
+        const kind = term === name ? 'name' : 'alias';
+        errors.push({ line, message: `Duplicate ${kind} "${term}" (first defined on line ${firstLine})` });
+      } else {
+        termLines.set(normalizedTerm, line);
+      }
+    }
+
+    if (eNumber) {
+      const firstENumberLine = eNumberLines.get(eNumber.toUpperCase());
+      if (firstENumberLine !== undefined) {
+        errors.push({ line, message: `Duplicate E-number ${eNumber} (first defined on line ${firstENumberLine})` });
+      } else {
+        eNumberLines.set(eNumber.toUpperCase(), line);
+      }
+    }
+
+    entries.push({
+      name,
+      eNumber: eNumber || undefined,
+      description: values.description || undefined,
+      status,
+      category,
+      animalCategories,
+      allergens,
+      matchMode,
+      aliases
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new CsvValidationError(filePath, errors);
+  }
+
+  return entries;
+}
+
+/**
+ * Ladda katalogen och logga eventuella valideringsfel per rad
+ * @returns Katalogposter, eller null om filen inte kunde laddas
+ */
+export function loadIngredientCatalogue(fileName: string = CATALOGUE_FILE): IngredientData[] | null {
+  try {
+    const entries = readIngredientCatalogue(fileName);
+    logger.info(`Loaded ${entries.length} ingredients from catalogue ${fileName}`);
+    return entries;
+  } catch (error) {
+    if (error instanceof CsvValidationError) {
+      logger.error(`Failed to load ingredient catalogue: ${fileName} has ${error.errors.length} invalid row(s)`);
+      error.errors.forEach(rowError => {
+        logger.error(`  ${fileName}:${rowError.line} ${rowError.message}`);
+      });
+    } else {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Failed to load ingredient catalogue: ${errorMessage}`, { error });
+    }
+    return null;
+  }
+}
+
+/**
+ * Postens namn på alla språk: primärnamnet (svenska) följt av alias i katalogordning
+ */
+export function getIngredientNames(entry: IngredientData): IngredientAlias[] {
+  return [{ name: entry.name, language: PRIMARY_LANGUAGE }, ...(entry.aliases || [])];
+}
+
+/**
+ * Alla söktermer för en katalogpost i gemener: namn, alias och E-nummer
+ */
+export function getCatalogueTerms(entry: IngredientData): string[] {
+  const terms = getIngredientNames(entry).map(alias => alias.name);
+  if (entry.eNumber) {
+    terms.push(entry.eNumber);
+  }
+  return terms.map(term => term.toLowerCase());
+}
@@ -0,0 +1,229 @@
+/**
+ * In-memory index over an ingredient list.
+ * Replaces the linear `.find` scans in checkIngredientStatus with lookups that
+ * are independent of the list size, while returning exactly the same item:
+ * the first item (in list order) that matches the query by name or alias
+ * (as a substring, as whole words for items with matchMode 'exact', or exactly
+ * for items with matchMode 'name'), or whose
+ * E-number equals one of the query's E-numbers.
+ * When built with compound parts, a name found inside a longer word only matches
+ * on word and compound boundaries (see wordMatcher).
+ */
+import { normalizeString } from './textNormalizer';
+import { isWholeWordMatch, isWordMatch } from './wordMatcher';
+import { IngredientAlias, IngredientData, getIngredientNames } from './ingredientCatalogue';
+
+interface AhoCorasickNode {
+  children: Map<string, number>;
+  fail: number;
+  // Mönstret (lägst listindex) som slutar exakt i denna nod
+  output: TermMatch;
+  // Samma för poster med matchMode 'exact', som bara matchar hela ord
+  wholeWordOutput: TermMatch;
+  // Närmaste nod längs fail-länkarna som har ett eget mönster (0 = ingen)
+  outputLink: number;
+}
+
+interface TermMatch {
+  index: number;
+  term: string; // Normaliserat namn eller alias
+  alias: IngredientAlias;
+}
+
+const NO_MATCH: TermMatch = { index: Infinity, term: '', alias: { name: '', language: 'sv' } };
+
+export interface IngredientIndexMatch {
+  item: IngredientData;
+  index: number;
+  isExactName: boolean;
+  isNameMatch: boolean;
+  matchedAlias?: IngredientAlias; // Namnet eller aliaset som matchade, med språk (saknas vid E-nummermatch)
+}
+
+export class IngredientIndex {
+  private readonly items: IngredientData[];
+  private readonly exactNameMap = new Map<string, number>();
+  // Namn och alias för poster som bara ska matcha hela ingrediensnamnet
+  private readonly exactTermMap = new Map<string, TermMatch>();
+  private readonly eNumberMap = new Map<string, number>();
+  private readonly nodes: AhoCorasickNode[] = [];
+  // Ett namn som normaliseras till tom sträng matchar alla frågor (som `includes('')`)
+  private emptyNameMatch: TermMatch = NO_MATCH;
+  // Kända orddelar för ordgränskontroll; utan dem räcker en delsträngsträff
+  private readonly compoundParts?: ReadonlySet<string>;
+
+  constructor(items: IngredientData[], compoundParts?: ReadonlySet<string>) {
+    this.items = items;
+    this.compoundParts = compoundParts;
+    this.nodes.push(this.createNode());
+
+    items.forEach((item, index) => {
+      const normalizedName = normalizeString(item.name);
+      if (!this.exactNameMap.has(normalizedName)) {
+        this.exactNameMap.set(normalizedName, index);
+      }
+
+      const eNumber = item.eNumber?.toUpperCase();
+      if (eNumber && !this.eNumberMap.has(eNumber)) {
+        this.eNumberMap.set(eNumber, index);
+      }
+
+      for (const alias of getIngredientNames(item)) {
+        const termMatch: TermMatch = { index, term: normalizeString(alias.name), alias };
+        if (item.matchMode === 'name') {
+          if (!this.exactTermMap.has(termMatch.term)) {
+            this.exactTermMap.set(termMatch.term, termMatch);
+          }
+        } else if (termMatch.term === '') {
+          if (item.matchMode !== 'exact' && index < this.emptyNameMatch.index) {
+            this.emptyNameMatch = termMatch;
+          }
+        } else {
+          this.insertPattern(termMatch, item.matchMode === 'exact');
+        }
+      }
+    });
+
+    this.buildFailureLinks();
+  }
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  /**
+   * Hitta första matchande ingrediens för ett redan normaliserat namn
+   * @param normalizedName Namn normaliserat med normalizeString
+   * @param eNumbers E-nummer i versaler (t.ex. "E471", "E160A(I)")
+   */
+  find(normalizedName: string, eNumbers: string[] = []): IngredientIndexMatch | null {
+    let nameMatch = this.searchPatterns(normalizedName);
+    if (this.emptyNameMatch.index < nameMatch.index) {
+      nameMatch = this.emptyNameMatch;
+    }
+    const exactMatch = this.exactTermMap.get(normalizedName) ?? NO_MATCH;
+    if (exactMatch.index < nameMatch.index) {
+      nameMatch = exactMatch;
+    }
+
+    const eNumberIndex = Math.min(Infinity, ...eNumbers.map(eNumber => this.eNumberMap.get(eNumber) ?? Infinity));
+    const index = Math.min(nameMatch.index, eNumberIndex);
+
+    if (index === Infinity) {
+      return null;
+    }
+
+    const isNameMatch = index === nameMatch.index;
+    return {
+      item: this.items[index],
+      index,
+      isExactName: isNameMatch && nameMatch.term === normalizedName,
+      isNameMatch,
+      matchedAlias: isNameMatch ? nameMatch.alias : undefined
+    };
+  }
+
+  /**
+   * Slå upp en ingrediens på exakt (normaliserat) namn
+   */
+  findExact(normalizedName: string): IngredientData | undefined {
+    const index = this.exactNameMap.get(normalizedName);
+    return index === undefined ? undefined : this.items[index];
+  }
+
+  private createNode(): AhoCorasickNode {
+    return { children: new Map(), fail: 0, output: NO_MATCH, wholeWordOutput: NO_MATCH, outputLink: 0 };
+  }
+
+  private hasOutput(node: AhoCorasickNode): boolean {
+    return node.output !== NO_MATCH || node.wholeWordOutput !== NO_MATCH;
+  }
+
+  private insertPattern(termMatch: TermMatch, wholeWord: boolean): void {
+    let current = 0;
+    for (let position = 0; position < termMatch.term.length; position++) {
+      const char = termMatch.term[position];
+      let next = this.nodes[current].children.get(char);
+      if (next === undefined) {
+        next = this.nodes.length;
+        this.nodes.push(this.createNode());
+        this.nodes[current].children.set(char, next);
+      }
+      current = next;
+    }
+    const node = this.nodes[current];
+    if (wholeWord) {
+      if (termMatch.index < node.wholeWordOutput.index) {
+        node.wholeWordOutput = termMatch;
+      }
+    } else if (termMatch.index < node.output.index) {
+      node.output = termMatch;
+    }
+  }
+
+  private buildFailureLinks(): void {
+    // Bredden först så att fail-länkens nod alltid är färdigbehandlad
+    const queue: number[] = [];
+    for (const child of this.nodes[0].children.values()) {
+      queue.push(child);
+    }
+
+    for (let head = 0; head < queue.length; head++) {
+      const nodeIndex = queue[head];
+      const node = this.nodes[nodeIndex];
+
+      for (const [char, child] of node.children) {
+        let fail = node.fail;
+        while (fail !== 0 && !this.nodes[fail].children.has(char)) {
+          fail = this.nodes[fail].fail;
+        }
+        const candidate = this.nodes[fail].children.get(char);
+        const childNode = this.nodes[child];
+        childNode.fail = candidate !== undefined && candidate !== child ? candidate : 0;
+        const failNode = this.nodes[childNode.fail];
+        childNode.outputLink = this.hasOutput(failNode) ? childNode.fail : failNode.outputLink;
+        queue.push(child);
+      }
+    }
+  }
+
+  /**
+   * Lägsta listindex bland alla mönster som förekommer i texten
+   * (på ord- eller sammansättningsgräns om orddelar angetts; exakta poster som hela ord)
+   */
+  private searchPatterns(text: string): TermMatch {
+    let best = NO_MATCH;
+    let current = 0;
+
+    for (let position = 0; position < text.length; position++) {
+      const char = text[position];
+      while (current !== 0 && !this.nodes[current].children.has(char)) {
+        current = this.nodes[current].fail;
+      }
+      current = this.nodes[current].children.get(char) ?? 0;
+
+      // Gå igenom alla mönster som slutar här, från längst till kortast
+      for (
+        let nodeIndex = this.hasOutput(this.nodes[current]) ? current : this.nodes[current].outputLink;
+        nodeIndex !== 0;
+        nodeIndex = this.nodes[nodeIndex].outputLink
+      ) {
+        const { output, wholeWordOutput } = this.nodes[nodeIndex];
+        // Båda mönstren i en nod är samma sträng
+        const start = position + 1 - (output !== NO_MATCH ? output : wholeWordOutput).term.length;
+        if (output.index < best.index && this.isWordMatch(text, start, position + 1)) {
+          best = output;
+        }
+        if (wholeWordOutput.index < best.index && isWholeWordMatch(text, start, position + 1)) {
+          best = wholeWordOutput;
+        }
+      }
+    }
+
+    return best;
+  }
+
+  private isWordMatch(text: string, start: number, end: number): boolean {
+    return !this.compoundParts || isWordMatch(text, start, end, this.compoundParts);
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Uppdelning av en ingredienstext ("Ingredienser: vetemjöl, socker, ...") i
+ * enskilda ingredienser. Används av textanalysen och av importen från Open Food Facts.
+ */
+
+/**
+ * Dela upp en ingredienstext i ingredienser.
+ * Rubriker som "Ingredienser:" och "kan innehålla"-meningar tas bort; spårämnen
+ * hämtas separat med extractTraceIngredients.
+ */
+export function splitTextToIngredients(text: string): string[] {
+  // Remove common headers and "may contain" / "traces of" information
+  // Match patterns like "Kan innehålla:", "Spår av:", "May contain:", "Traces of:" followed by anything until end of line or next main delimiter.
+  const cleanedText = text
+    .replace(/^(?:ing?redien(?:s|t)er|innehåll|inneh[åa]ller|ingredients|contents)\s*:\s*/i, '')
+    .replace(/(?:kan innehålla|spår av|may contain|traces of)\b.*?(?=[,;\n•*\-–—]|$)/gi, '') // Remove the entire "may contain" section
+    .trim();
+
+  // Split by common ingredient separators
+  return cleanedText
+    .split(/\s*[,;]\s*|\s*[•*\-–—]\s*|\s+och\s+|\s+and\s+|\s*\r?\n\s*/)
+    .map(part => part.trim())
+    .filter(part => part.length > 0);
+}
@@ -2,200 +2,496 @@
  * Database of known vegan and non-vegan ingredients with translations
  * Used for validating and correcting AI-generated ingredient classifications
  */
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { logger } from './logger';
-import { normalizeString } from '../services/veganValidator';
+import { normalizeString } from './textNormalizer';
+import { IngredientIndex, IngredientIndexMatch } from './ingredientIndex';
+import { ParsedENumber, eNumberKey, formatENumber, parseENumber, parseENumbers } from './eNumberParser';
+import { buildCompoundParts } from './wordMatcher';
+import { CatalogueTerm, CompoundAnalysis, analyzeCompound, buildCatalogueTermMap, describeCompound } from './compoundSplitter';
+import {
+  DEFAULT_DIET_PROFILE,
+  DietProfile,
+  describeAnimalCategories,
+  getCompoundProfileStatus,
+  getItemProfileStatus
+} from './dietProfiles';
+import {
+  AnimalCategory,
+  IngredientAlias,
+  IngredientData,
+  IngredientStatus,
+  CATALOGUE_FILE,
+  readIngredientCatalogue,
+  loadIngredientCatalogue,
+  getIngredientNames
+} from './ingredientCatalogue';
 
-interface IngredientData {
-  name: string;
-  eNumber?: string;
-  description?: string;
+export {
+  AllergenCode,
+  AnimalCategory,
+  IngredientAlias,
+  IngredientData,
+  IngredientStatus,
+  IngredientCategory,
+  IngredientLanguage,
+  IngredientMatchMode
+} from './ingredientCatalogue';
+
+export { CompoundAnalysis, CompoundPart, CompoundRole } from './compoundSplitter';
+export { DietProfile } from './dietProfiles';
+
+/**
+ * Hur en ingrediens matchades mot databasen
+ * - exact-name: normaliserat namn är identiskt med databasens namn
+ * - name-substring: databasens namn förekommer i ingrediensnamnet
+ * - e-number: E-numret i ingrediensnamnet matchade databasens E-nummer
+ * - compound: ett sammansatt ord klassificerades utifrån sina leder (se compound)
+ * - none: ingen match
+ */
+export type IngredientMatchStrategy = 'exact-name' | 'name-substring' | 'e-number' | 'compound' | 'none';
+
+/**
+ * Hur ett E-nummer i ingrediensnamnet kopplades till katalogen
+ * - exact: koden finns i katalogen
+ * - parent: en överordnad kod finns (E160a(i) -> E160a, E471a -> E471)
+ * - variants: bara bokstavsvarianter finns (E472 -> E472a-f), den striktaste används
+ * - none: koden finns inte i katalogen
+ */
+export type ENumberResolution = 'exact' | 'parent' | 'variants' | 'none';
+
+export interface ENumberStatusResult {
+  code: string; // Normaliserad kod från ingrediensnamnet, t.ex. "E160a(i)"
+  isVegan: boolean | null;
+  isUncertain: boolean;
+  resolvedBy: ENumberResolution;
+  matchedItem?: IngredientData;
 }
 
-// Cache for CSV data
-let nonVeganCache: IngredientData[] | null = null;
-let uncertainCache: IngredientData[] | null = null;
-let veganCache: IngredientData[] | null = null; // Cache for vegan ingredients
+export interface IngredientStatusResult {
+  isVegan: boolean | null;
+  isUncertain: boolean;
+  reason?: string;
+  matchedItem?: IngredientData; // Add matched item for better reasoning
+  matchStrategy: IngredientMatchStrategy;
+  matchedAlias?: IngredientAlias; // Namn eller alias (med språk) som matchade, saknas vid E-nummermatch
+  eNumbers: ENumberStatusResult[]; // Ett resultat per E-nummer i ingrediensnamnet
+  compound?: CompoundAnalysis; // Leder och avgörande led när matchStrategy är 'compound'
+  dietProfile: DietProfile; // Kostprofil som isVegan/isUncertain gäller för
+  animalCategories: AnimalCategory[]; // Animaliska kategorier i de matchade posterna
+  databaseVersion: string; // Version av databasen som gav svaret
+}
 
-// Known vegan ingredients, including processed soy products and plant-based foods
-// export const knownVeganIngredients: string[] = [...];
+// Resultat mot katalogens (veganska) status, innan en kostprofil tillämpas
+type CatalogueStatusResult = Omit<IngredientStatusResult, 'dietProfile' | 'animalCategories'>;
 
-// Known non-vegan ingredients, including animal products and derivatives
-// export const knownNonVeganIngredients: string[] = [...];
+/**
+ * En komplett, oföränderlig uppsättning ingredienslistor.
+ * Byts ut i sin helhet vid omladdning så att en analys aldrig ser en blandning
+ * av gamla och nya listor.
+ */
+export interface IngredientDataset {
+  version: string; // Kort sha256-hash av innehållet
+  loadedAt: string;
+  entries: IngredientData[]; // Hela katalogen i filordning
+  nonVegan: IngredientData[];
+  uncertain: IngredientData[];
+  vegan: IngredientData[];
+  // Kända orddelar (katalogens enordsnamn och vanliga leder) för matchning i sammansatta ord
+  compoundParts: ReadonlySet<string>;
+  // Normaliserat namn/alias -> katalogpost, för klassificering av leder
+  compoundTerms: ReadonlyMap<string, CatalogueTerm>;
+}
+
+// Aktuell databas (laddas vid första användning)
+let currentDataset: IngredientDataset | null = null;
+
+// Lyssnare som anropas när en ny databasversion har laddats
+const reloadListeners = new Set<(dataset: IngredientDataset) => void>();
+
+// Index per laddad lista, byggs en gång första gången listan används
+const indexCache = new WeakMap<IngredientData[], IngredientIndex>();
 
 /**
- * Ladda icke-veganska ingredienser från CSV-filen
- * @returns Lista med icke-veganska ingredienser
+ * Hämta (eller bygg) indexet för en ingredienslista
+ * @param compoundParts Orddelar för ordgränskontroll (används när indexet byggs)
  */
-export function loadNonVeganIngredients(): IngredientData[] {
-  if (nonVeganCache !== null) {
-    return nonVeganCache;
+export function getIngredientIndex(list: IngredientData[], compoundParts?: ReadonlySet<string>): IngredientIndex {
+  let index = indexCache.get(list);
+  if (!index) {
+    const startTime = Date.now();
+    index = new IngredientIndex(list, compoundParts);
+    indexCache.set(list, index);
+    logger.debug(`Built ingredient index for ${list.length} items in ${Date.now() - startTime}ms`);
   }
+  return index;
+}
+
+interface ENumberCatalogue {
+  byCode: Map<string, IngredientData>;
+  // Poster med bokstavsvariant eller underklass per grundnummer, t.ex. "E472" -> E472a-f
+  variantsByBase: Map<string, IngredientData[]>;
+}
+
+// E-nummeruppslag per laddad katalog
+const eNumberCache = new WeakMap<IngredientData[], ENumberCatalogue>();
+
+// Striktast först
+const STATUS_STRICTNESS: IngredientStatus[] = ['non-vegan', 'uncertain', 'vegan'];
+
+/**
+ * Är status a striktare än b? En okänd status (null) är minst strikt.
+ */
+function isStricter(a: IngredientStatus | null, b: IngredientStatus | null): boolean {
+  const rank = (status: IngredientStatus | null) => status === null ? STATUS_STRICTNESS.length : STATUS_STRICTNESS.indexOf(status);
+  return rank(a) < rank(b);
+}
+
+function toStatus(isVegan: boolean | null, isUncertain: boolean): IngredientStatus | null {
+  if (isVegan === false) {
+    return 'non-vegan';
+  }
+  if (isUncertain) {
+    return 'uncertain';
+  }
+  return isVegan === true ? 'vegan' : null;
+}
 
-  try {
-    // Use __dirname to construct path relative to the compiled file location
-    const filePath = path.join(__dirname, '..', 'data', 'non-vegan.csv');
-    logger.info(`[Utils] Attempting to load: ${filePath}`);
-    const content = fs.readFileSync(filePath, 'utf8');
-    
-    const rows = content.split('\n').filter(row => row.trim() && !row.startsWith('"name,e_number'));
-    const ingredients: IngredientData[] = [];
-    
-    for (const row of rows) {
-      const fields = row.split(','); // Dela direkt
-      if (fields.length >= 1) { // Behöver minst ett namn-fält
-          const name = fields[0]?.replace(/^"|"$/g, '').trim() || '';
-          const eNumber = fields[1]?.replace(/^"|"$/g, '').trim() || ''; // Hantera fält 1 (kan vara tomt)
-          const description = fields[2]?.replace(/^"|"$/g, '').trim() || ''; // Hantera fält 2 (kan vara tomt)
-
-          if (name) {
-              ingredients.push({ name, eNumber, description });
-          } else {
-               logger.warn(`Skipping row with empty name in non-vegan.csv: ${row}`); 
-          }
-      } else {
-          logger.warn(`Skipping invalid row in non-vegan.csv: ${row}`); 
+function getENumberCatalogue(entries: IngredientData[]): ENumberCatalogue {
+  let catalogue = eNumberCache.get(entries);
+  if (!catalogue) {
+    catalogue = { byCode: new Map(), variantsByBase: new Map() };
+    for (const entry of entries) {
+      const parsed = entry.eNumber ? parseENumber(entry.eNumber) : null;
+      if (!parsed) {
+        continue;
+      }
+      if (!catalogue.byCode.has(eNumberKey(parsed.code))) {
+        catalogue.byCode.set(eNumberKey(parsed.code), entry);
+      }
+      if (parsed.variant || parsed.subclass) {
+        const variants = catalogue.variantsByBase.get(eNumberKey(parsed.base)) || [];
+        variants.push(entry);
+        catalogue.variantsByBase.set(eNumberKey(parsed.base), variants);
       }
     }
-    
-    nonVeganCache = ingredients;
-    logger.info(`Loaded ${ingredients.length} non-vegan ingredients from database`);
-    return ingredients;
-  } catch (error) {
-    logger.error('Failed to load non-vegan ingredients database', { error });
-    return [];
+    eNumberCache.set(entries, catalogue);
   }
+  return catalogue;
 }
 
 /**
- * Ladda osäkra ingredienser från CSV-filen
- * @returns Lista med osäkra ingredienser
+ * Koppla ett E-nummer till katalogen: exakt kod, annars närmaste överordnade kod,
+ * annars (för en kod utan variant) den striktaste av kodens varianter
  */
-export function loadUncertainIngredients(): IngredientData[] {
-  if (uncertainCache !== null) {
-    return uncertainCache;
+export function resolveENumber(
+  parsed: ParsedENumber,
+  dataset: IngredientDataset = getIngredientDataset()
+): ENumberStatusResult {
+  const catalogue = getENumberCatalogue(dataset.entries);
+
+  const candidates = [parsed.code];
+  if (parsed.subclass) {
+    candidates.push(formatENumber(parsed.base, parsed.variant));
+  }
+  if (parsed.variant) {
+    candidates.push(parsed.base);
   }
 
-  try {
-    // Use __dirname to construct path relative to the compiled file location
-    const filePath = path.join(__dirname, '..', 'data', 'uncertain.csv');
-    logger.info(`[Utils] Attempting to load: ${filePath}`);
-    const content = fs.readFileSync(filePath, 'utf8');
-    
-    // Debug log the entire file for debugging purposes
-    logger.debug(`[loadUncertainIngredients] Content: ${content}`);
-    
-    // More robust CSV parsing - support both CRLF and LF line endings
-    const lines = content.replace(/\r\n/g, '\n').split('\n');
-    const rows = lines.filter(row => row.trim() && !row.startsWith('"name,e_number'));
-    
-    logger.info(`[loadUncertainIngredients] Found ${rows.length} total rows in uncertain.csv`);
-    
-    const ingredients: IngredientData[] = [];
-    
-    for (let i = 0; i < rows.length; i++) {
-      const row = rows[i];
-      // More robust CSV parsing - handle quotes correctly
-      const fields = row.split(',').map(field => field.replace(/^"|"$/g, '').trim());
-
-      if (fields.length >= 3) {
-        const name = fields[0];
-        const eNumber = fields[1];
-        const description = fields[2];
-
-        // Special handling for E304 to debug
-        if (eNumber === 'E304') {
-          logger.info(`[loadUncertainIngredients] Found E304 in uncertain.csv: ${name}, ${eNumber}, ${description}`);
-        }
-
-        if (name) {
-          ingredients.push({
-            name,
-            eNumber: eNumber || undefined,
-            description: description || undefined
-          });
-        } else {
-          logger.warn(`Skipping row with empty name in uncertain.csv: ${row}`);
-        }
-      } else {
-        logger.warn(`Skipping invalid row in uncertain.csv - expected at least 3 fields, got ${fields.length}: ${row}`);
-      }
+  let matchedItem: IngredientData | undefined;
+  let resolvedBy: ENumberResolution = 'none';
+
+  for (const [position, candidate] of candidates.entries()) {
+    matchedItem = catalogue.byCode.get(eNumberKey(candidate));
+    if (matchedItem) {
+      resolvedBy = position === 0 ? 'exact' : 'parent';
+      break;
+    }
+  }
+
+  if (!matchedItem && !parsed.variant && !parsed.subclass) {
+    const variants = catalogue.variantsByBase.get(eNumberKey(parsed.base)) || [];
+    matchedItem = STATUS_STRICTNESS
+      .map(status => variants.find(variant => variant.status === status))
+      .find(variant => variant !== undefined);
+    if (matchedItem) {
+      resolvedBy = 'variants';
+    }
+  }
+
+  return {
+    code: parsed.code,
+    isVegan: matchedItem?.status === 'vegan' ? true : matchedItem?.status === 'non-vegan' ? false : null,
+    isUncertain: matchedItem?.status === 'uncertain',
+    resolvedBy,
+    matchedItem
+  };
+}
+
+/**
+ * Beräkna en kort versionshash för katalogens innehåll
+ */
+function computeDatasetVersion(entries: IngredientData[]): string {
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify(entries))
+    .digest('hex')
+    .substring(0, 12);
+}
+
+/**
+ * Skapa en databas av katalogposterna och bygg indexen i förväg.
+ * Listorna delas upp per status men behåller katalogens ordning.
+ */
+function createDataset(entries: IngredientData[]): IngredientDataset {
+  const dataset: IngredientDataset = {
+    version: computeDatasetVersion(entries),
+    loadedAt: new Date().toISOString(),
+    entries,
+    nonVegan: entries.filter(entry => entry.status === 'non-vegan'),
+    uncertain: entries.filter(entry => entry.status === 'uncertain'),
+    vegan: entries.filter(entry => entry.status === 'vegan'),
+    compoundParts: buildCompoundParts(entries.flatMap(entry => getIngredientNames(entry).map(alias => alias.name))),
+    compoundTerms: buildCatalogueTermMap(entries)
+  };
+  getIngredientIndex(dataset.nonVegan, dataset.compoundParts);
+  getIngredientIndex(dataset.uncertain, dataset.compoundParts);
+  getIngredientIndex(dataset.vegan, dataset.compoundParts);
+  return dataset;
+}
+
+/**
+ * Hämta aktuell ingrediensdatabas. Laddas från katalogen vid första anropet.
+ * En katalog som inte kan laddas, eller är tom, ger en tom databas som inte
+ * sparas, så att nästa anrop försöker ladda katalogen igen.
+ */
+export function getIngredientDataset(): IngredientDataset {
+  if (currentDataset === null) {
+    const entries = loadIngredientCatalogue();
+    if (!entries || entries.length === 0) {
+      logger.error('Ingredient database is unavailable, using an empty database until the catalogue loads', {
+        reason: entries ? 'empty catalogue' : 'load failed'
+      });
+      return createDataset([]);
     }
-    
-    // Log all ingredients with E-numbers for debugging
-    const eNumberIngredients = ingredients.filter(ing => ing.eNumber);
-    logger.info(`[loadUncertainIngredients] Loaded ${eNumberIngredients.length} ingredients with E-numbers`);
-    eNumberIngredients.forEach(ing => {
-      logger.debug(`  - ${ing.name}: ${ing.eNumber}`);
+    currentDataset = createDataset(entries);
+    logger.info(`Ingredient database version ${currentDataset.version} loaded`, {
+      nonVegan: currentDataset.nonVegan.length,
+      uncertain: currentDataset.uncertain.length,
+      vegan: currentDataset.vegan.length
     });
-    
-    uncertainCache = ingredients;
-    logger.info(`Loaded ${ingredients.length} uncertain ingredients from database`);
-    return ingredients;
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : String(error);
-    logger.error(`Failed to load uncertain ingredients database: ${errorMessage}`, { error });
-    return [];
   }
+  return currentDataset;
 }
 
 /**
- * Ladda veganska ingredienser från CSV-filen
- * @returns Lista med veganska ingredienser
+ * Registrera en funktion som anropas varje gång en ny databasversion har laddats
+ * @returns Funktion som avregistrerar lyssnaren
  */
-export function loadVeganIngredients(): IngredientData[] {
-  if (veganCache !== null) {
-    return veganCache;
+export function onIngredientDatabaseReload(listener: (dataset: IngredientDataset) => void): () => void {
+  reloadListeners.add(listener);
+  return () => {
+    reloadListeners.delete(listener);
+  };
+}
+
+/**
+ * Ladda om katalogen och byt ut databasen atomärt.
+ * Om katalogen är ogiltig behålls den nuvarande databasen oförändrad.
+ * @returns Den nya (eller oförändrade) databasen
+ * @throws CsvValidationError eller filsystemsfel om katalogen inte kan laddas
+ */
+export function reloadIngredientDatabase(): IngredientDataset {
+  const previousVersion = currentDataset?.version ?? null;
+
+  const dataset = createDataset(readIngredientCatalogue());
+
+  if (dataset.version === previousVersion && currentDataset !== null) {
+    logger.info(`Ingredient database reloaded, version ${dataset.version} unchanged`);
+    return currentDataset;
   }
 
-  try {
-    // Use __dirname to construct path relative to the compiled file location
-    const filePath = path.join(__dirname, '..', 'data', 'vegan - vegan.csv'); // Ensure correct filename
-    logger.info(`[Utils] Attempting to load: ${filePath}`);
-    const content = fs.readFileSync(filePath, 'utf8');
-    
-    const rows = content.split('\n').filter(row => row.trim() && !row.startsWith('"name,e_number'));
-    const ingredients: IngredientData[] = [];
-    
-    for (const row of rows) {
-      const fields = row.split(','); // Dela direkt
-      if (fields.length >= 1) { // Behöver minst ett namn-fält
-          const name = fields[0]?.replace(/^"|"$/g, '').trim() || '';
-          const eNumber = fields[1]?.replace(/^"|"$/g, '').trim() || ''; // Hantera fält 1 (kan vara tomt)
-          const description = fields[2]?.replace(/^"|"$/g, '').trim() || ''; // Hantera fält 2 (kan vara tomt)
-
-          if (name) {
-              ingredients.push({ name, eNumber, description });
-          } else {
-               logger.warn(`Skipping row with empty name in vegan - vegan.csv: ${row}`); 
-          }
-      } else {
-          logger.warn(`Skipping invalid row in vegan - vegan.csv: ${row}`); 
+  currentDataset = dataset;
+  logger.info(`Ingredient database reloaded: ${previousVersion ?? 'none'} -> ${dataset.version}`, {
+    nonVegan: dataset.nonVegan.length,
+    uncertain: dataset.uncertain.length,
+    vegan: dataset.vegan.length
+  });
+
+  reloadListeners.forEach(listener => {
+    try {
+      listener(dataset);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logger.error(`Ingredient database reload listener failed: ${errorMessage}`);
+    }
+  });
+  return dataset;
+}
+
+/**
+ * Bevaka katalogfilen och ladda om databasen när den ändras
+ * @param debounceMs Väntetid efter senaste ändringen innan omladdning
+ * @returns Funktion som stoppar bevakningen
+ */
+export function watchIngredientDatabase(debounceMs = 500): () => void {
+  const dataDirectory = path.resolve(__dirname, '..', 'data');
+  let reloadTimer: NodeJS.Timeout | null = null;
+
+  const watcher = fs.watch(dataDirectory, (_eventType, fileName) => {
+    if (!fileName || fileName.toString() !== CATALOGUE_FILE) {
+      return;
+    }
+
+    // Editorer skriver ofta filer i flera steg, så vänta tills det blir tyst
+    if (reloadTimer) {
+      clearTimeout(reloadTimer);
+    }
+    reloadTimer = setTimeout(() => {
+      reloadTimer = null;
+      try {
+        reloadIngredientDatabase();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        logger.error(`Ingredient database reload failed, keeping version ${currentDataset?.version}: ${errorMessage}`);
       }
+    }, debounceMs);
+  });
+
+  logger.info(`Watching ingredient catalogue ${CATALOGUE_FILE} in ${dataDirectory}`);
+
+  return () => {
+    if (reloadTimer) {
+      clearTimeout(reloadTimer);
+    }
+    watcher.close();
+  };
+}
+
+/**
+ * Ladda icke-veganska ingredienser från katalogen
+ * @returns Lista med icke-veganska ingredienser
+ */
+export function loadNonVeganIngredients(): IngredientData[] {
+  return getIngredientDataset().nonVegan;
+}
+
+/**
+ * Ladda osäkra ingredienser från katalogen
+ * @returns Lista med osäkra ingredienser
+ */
+export function loadUncertainIngredients(): IngredientData[] {
+  return getIngredientDataset().uncertain;
+}
+
+/**
+ * Ladda veganska ingredienser från katalogen
+ * @returns Lista med veganska ingredienser
+ */
+export function loadVeganIngredients(): IngredientData[] {
+  return getIngredientDataset().vegan;
+}
+
+/**
+ * Dela upp ingrediensnamnets ord i leder och klassificera de sammansatta ord som inte
+ * själva finns i katalogen, t.ex. "kycklingbuljongpulver" eller "havremjölkpulver"
+ * @param normalizedName Namn normaliserat med normalizeString
+ * @returns Det striktaste sammansatta ordet, eller null om inget ord kunde klassificeras
+ */
+export function findCompound(
+  normalizedName: string,
+  dataset: IngredientDataset = getIngredientDataset()
+): CompoundAnalysis | null {
+  let strictest: CompoundAnalysis | null = null;
+  for (const word of normalizedName.split(/[^a-z]+/)) {
+    if (!word || dataset.compoundTerms.has(word)) {
+      continue;
+    }
+    const analysis = analyzeCompound(word, dataset.compoundParts, dataset.compoundTerms);
+    if (analysis && (!strictest || isStricter(analysis.status, strictest.status))) {
+      strictest = analysis;
     }
-    
-    veganCache = ingredients;
-    logger.info(`Loaded ${ingredients.length} vegan ingredients from database`);
-    return ingredients;
-  } catch (error) {
-    logger.error('Failed to load vegan ingredients database', { error });
-    return [];
   }
+  return strictest;
 }
 
 /**
  * Kontrollera om en ingrediens är vegansk, icke-vegansk eller osäker baserat på databaser.
  * Ordning: Icke-vegansk -> Osäker -> Vegansk
  * @param ingredientName Ingrediensens namn att kontrollera
- * @returns Objekt med {isVegan, isUncertain, reason, matchedItem}
+ * @param dataset Databas att kontrollera mot (standard: aktuell databas). Skicka in samma
+ *   databas för alla ingredienser i en analys så att en omladdning inte ger blandade svar.
+ * @param profile Kostprofil att bedöma mot (standard: vegan). För andra profiler betyder
+ *   isVegan att ingrediensen passar profilen.
+ * @returns Objekt med {isVegan, isUncertain, reason, matchedItem, matchStrategy, eNumbers, dietProfile, databaseVersion}
+ */
+export function checkIngredientStatus(
+  ingredientName: string,
+  dataset: IngredientDataset = getIngredientDataset(),
+  profile: DietProfile = DEFAULT_DIET_PROFILE
+): IngredientStatusResult {
+  const result = checkCatalogueStatus(ingredientName, dataset);
+  const animalCategories = [...new Set(getMatchedItems(result).flatMap(item => item.animalCategories || []))];
+  const profileResult: IngredientStatusResult = { ...result, dietProfile: profile, animalCategories };
+  return profile === DEFAULT_DIET_PROFILE ? profileResult : applyDietProfile(ingredientName, profileResult, profile);
+}
+
+/**
+ * Katalogposter som avgjorde resultatet: namnträffen (eller de klassificerade lederna
+ * i ett sammansatt ord) och posterna för ingrediensnamnets E-nummer
+ */
+function getMatchedItems(result: CatalogueStatusResult): IngredientData[] {
+  const nameItems = result.compound
+    ? result.compound.parts.filter(part => part.item && !part.qualifiedBy).map(part => part.item as IngredientData)
+    : result.matchedItem ? [result.matchedItem] : [];
+  const eNumberItems = result.eNumbers
+    .map(eNumber => eNumber.matchedItem)
+    .filter((item): item is IngredientData => item !== undefined);
+  return [...new Set([...nameItems, ...eNumberItems])];
+}
+
+function fromStatus(status: IngredientStatus): { isVegan: boolean | null; isUncertain: boolean } {
+  return {
+    isVegan: status === 'vegan' ? true : status === 'non-vegan' ? false : null,
+    isUncertain: status === 'uncertain'
+  };
+}
+
+/**
+ * Bedöm ett resultat mot en annan kostprofil än vegan. Namnträffen och varje E-nummer
+ * bedöms mot profilen och den striktaste statusen avgör, precis som för vegan.
+ */
+function applyDietProfile(ingredientName: string, result: IngredientStatusResult, profile: DietProfile): IngredientStatusResult {
+  const eNumbers = result.eNumbers.map(eNumber => eNumber.matchedItem
+    ? { ...eNumber, ...fromStatus(getItemProfileStatus(eNumber.matchedItem, profile)) }
+    : eNumber);
+  const nameStatus = result.compound
+    ? getCompoundProfileStatus(result.compound, profile)
+    : result.matchedItem ? getItemProfileStatus(result.matchedItem, profile) : null;
+  const status = eNumbers
+    .map(eNumber => toStatus(eNumber.isVegan, eNumber.isUncertain))
+    .reduce<IngredientStatus | null>((strictest, eNumberStatus) => isStricter(eNumberStatus, strictest) ? eNumberStatus : strictest, nameStatus);
+
+  if (status === null || status === toStatus(result.isVegan, result.isUncertain)) {
+    return { ...result, eNumbers };
+  }
+
+  const categories = describeAnimalCategories(result.animalCategories);
+  const reason = status === 'vegan'
+    ? `${ingredientName.trim()} passar kostprofilen "${profile}": ${categories} är tillåtet`
+    : `${ingredientName.trim()} har osäker status för kostprofilen "${profile}": ursprunget kan vara ${categories}`;
+  return { ...result, ...fromStatus(status), reason, eNumbers };
+}
+
+/**
+ * Kontrollera ingrediensen mot katalogens status (vegan)
  */
-export function checkIngredientStatus(ingredientName: string): { 
-  isVegan: boolean | null,
-  isUncertain: boolean,
-  reason?: string,
-  matchedItem?: IngredientData // Add matched item for better reasoning
-} {
+function checkCatalogueStatus(
+  ingredientName: string,
+  dataset: IngredientDataset
+): CatalogueStatusResult {
   // Add debug for E304 - for testing the issue
   const isE304Check = ingredientName.toUpperCase().includes('E304');
   if (isE304Check) {
@@ -205,23 +501,18 @@ export function checkIngredientStatus(ingredientName: string): {
   // Normalisera namn för jämförelse med den delade funktionen
   const normalizedName = normalizeString(ingredientName);
   
-  // Kontrollera efter E-nummer
-  const eNumberMatch = normalizedName.match(/e([0-9]{3,4}[a-z]?)/i);
-  let eNumber: string | null = null;
+  // Kontrollera efter E-nummer, vart och ett kopplas till katalogen separat
+  const eNumbers = parseENumbers(ingredientName).map(parsed => resolveENumber(parsed, dataset));
+  const eNumberKeys = eNumbers
+    .filter(result => result.matchedItem?.eNumber)
+    .map(result => eNumberKey(result.matchedItem!.eNumber!));
   
-  if (eNumberMatch) {
-    eNumber = `E${eNumberMatch[1].toUpperCase()}`; // Normalize E-number format
-    
-    // Add debug for E304
-    if (eNumber === 'E304') {
-      logger.info(`[checkIngredientStatus] Detected E304 in pattern matching: ${ingredientName} => ${eNumber}`);
-    }
+  // Add debug for E304
+  if (eNumbers.some(result => result.code === 'E304')) {
+    logger.info(`[checkIngredientStatus] Detected E304 in pattern matching: ${ingredientName} => ${eNumbers.map(result => result.code).join(', ')}`);
   }
   
-  // Ladda databaser (cache hanteras inuti funktionerna)
-  const nonVeganList = loadNonVeganIngredients();
-  const uncertainList = loadUncertainIngredients();
-  const veganList = loadVeganIngredients(); // Ladda nya veganska listan
+  const { nonVegan: nonVeganList, uncertain: uncertainList, vegan: veganList } = dataset;
   
   // DEBUG: For E304 testing, log the uncertain list
   if (isE304Check) {
@@ -229,13 +520,60 @@ export function checkIngredientStatus(ingredientName: string): {
     logger.info(`[checkIngredientStatus] E304 found in uncertain list: ${!!e304InUncertain}, details: ${JSON.stringify(e304InUncertain)}`);
   }
   
-  // 1. Kontrollera om ingrediensen är känd icke-vegansk
-  const nonVeganMatch = nonVeganList.find(item => 
-    normalizedName.includes(normalizeString(item.name)) ||
-    (eNumber && item.eNumber && item.eNumber.toUpperCase() === eNumber)
-  );
+  // Avgör vilken strategi som gav träffen (namn prioriteras före E-nummer)
+  const getMatchStrategy = (match: IngredientIndexMatch): IngredientMatchStrategy => {
+    if (match.isExactName) {
+      return 'exact-name';
+    }
+    return match.isNameMatch ? 'name-substring' : 'e-number';
+  };
+  
+  let nonVeganIndexMatch = getIngredientIndex(nonVeganList, dataset.compoundParts).find(normalizedName, eNumberKeys);
+  let uncertainIndexMatch = getIngredientIndex(uncertainList, dataset.compoundParts).find(normalizedName, eNumberKeys);
+  let veganIndexMatch = getIngredientIndex(veganList, dataset.compoundParts).find(normalizedName, eNumberKeys);
+
+  // En post vars namn är exakt ingrediensnamnet går före delträffar i striktare listor,
+  // så att t.ex. "Esterar av fettsyror" inte klassas via "Fettsyror"
+  const hasExactName = [nonVeganIndexMatch, uncertainIndexMatch, veganIndexMatch].some(match => match?.isExactName);
+  if (hasExactName) {
+    nonVeganIndexMatch = nonVeganIndexMatch?.isExactName ? nonVeganIndexMatch : null;
+    uncertainIndexMatch = uncertainIndexMatch?.isExactName ? uncertainIndexMatch : null;
+    veganIndexMatch = veganIndexMatch?.isExactName ? veganIndexMatch : null;
+  }
+
+  // Sammansatta ord som inte finns i katalogen klassificeras utifrån sina leder. Analysen
+  // används om den är striktare än indexträffen, eller om indexträffen är en av orden leder
+  // (den förstår då ordet bättre, t.ex. "sojalecitin"). E-nummer kan aldrig mildras.
+  const compound = hasExactName ? null : findCompound(normalizedName, dataset);
+  if (compound) {
+    const indexMatch = nonVeganIndexMatch ?? uncertainIndexMatch ?? veganIndexMatch;
+    const indexStatus: IngredientStatus | null = nonVeganIndexMatch ? 'non-vegan' : uncertainIndexMatch ? 'uncertain' : veganIndexMatch ? 'vegan' : null;
+    const explainsIndexMatch = !!indexMatch?.isNameMatch && compound.parts.some(part => part.item === indexMatch.item);
+    const eNumberStatus = eNumbers
+      .map(result => toStatus(result.isVegan, result.isUncertain))
+      .reduce<IngredientStatus | null>((strictest, status) => isStricter(status, strictest) ? status : strictest, null);
+
+    if ((isStricter(compound.status, indexStatus) || explainsIndexMatch) && !isStricter(eNumberStatus, compound.status)) {
+      const { trigger } = compound;
+      const verdict = compound.status === 'non-vegan' ? 'är inte veganskt' : compound.status === 'uncertain' ? 'har osäker status' : 'är veganskt';
+      return {
+        isVegan: compound.status === 'vegan' ? true : compound.status === 'non-vegan' ? false : null,
+        isUncertain: compound.status === 'uncertain',
+        reason: `${ingredientName.trim()} ${verdict}: ${describeCompound(compound)}`,
+        // En växtbaserad variant ("sojamjölk") har ingen egen katalogpost
+        matchedItem: trigger.qualifiedBy ? undefined : trigger.item,
+        matchStrategy: 'compound',
+        matchedAlias: trigger.qualifiedBy ? undefined : trigger.alias,
+        eNumbers,
+        compound,
+        databaseVersion: dataset.version
+      };
+    }
+  }
   
-  if (nonVeganMatch) {
+  // 1. Kontrollera om ingrediensen är känd icke-vegansk
+  if (nonVeganIndexMatch) {
+    const nonVeganMatch = nonVeganIndexMatch.item;
     if (isE304Check) {
       logger.info(`[checkIngredientStatus] E304 matched as non-vegan: ${JSON.stringify(nonVeganMatch)}`);
     }
@@ -243,17 +581,17 @@ export function checkIngredientStatus(ingredientName: string): {
       isVegan: false, 
       isUncertain: false,
       reason: `${nonVeganMatch.name} är inte veganskt${nonVeganMatch.description ? `: ${nonVeganMatch.description}` : ''}`,
-      matchedItem: nonVeganMatch
+      matchedItem: nonVeganMatch,
+      matchStrategy: getMatchStrategy(nonVeganIndexMatch),
+      matchedAlias: nonVeganIndexMatch.matchedAlias,
+      eNumbers,
+      databaseVersion: dataset.version
     };
   }
   
   // 2. Kontrollera om ingrediensen är osäker
-  const uncertainMatch = uncertainList.find(item => 
-    normalizedName.includes(normalizeString(item.name)) ||
-    (eNumber && item.eNumber && item.eNumber.toUpperCase() === eNumber)
-  );
-  
-  if (uncertainMatch) {
+  if (uncertainIndexMatch) {
+    const uncertainMatch = uncertainIndexMatch.item;
     if (isE304Check) {
       logger.info(`[checkIngredientStatus] E304 matched as uncertain: ${JSON.stringify(uncertainMatch)}`);
     }
@@ -261,17 +599,17 @@ export function checkIngredientStatus(ingredientName: string): {
       isVegan: null, // Explicitly null as it's not confirmed either way
       isUncertain: true,
       reason: `${uncertainMatch.name} har osäker status${uncertainMatch.description ? `: ${uncertainMatch.description}` : ''}`,
-      matchedItem: uncertainMatch
+      matchedItem: uncertainMatch,
+      matchStrategy: getMatchStrategy(uncertainIndexMatch),
+      matchedAlias: uncertainIndexMatch.matchedAlias,
+      eNumbers,
+      databaseVersion: dataset.version
     };
   }
 
   // 3. Kontrollera om ingrediensen är känd vegansk
-  const veganMatch = veganList.find(item => 
-    normalizedName.includes(normalizeString(item.name)) ||
-    (eNumber && item.eNumber && item.eNumber.toUpperCase() === eNumber)
-  );
-
-  if (veganMatch) {
+  if (veganIndexMatch) {
+    const veganMatch = veganIndexMatch.item;
     if (isE304Check) {
       logger.info(`[checkIngredientStatus] E304 matched as vegan: ${JSON.stringify(veganMatch)}`);
     }
@@ -279,7 +617,11 @@ export function checkIngredientStatus(ingredientName: string): {
       isVegan: true,
       isUncertain: false,
       reason: `${veganMatch.name} är veganskt${veganMatch.description ? `: ${veganMatch.description}` : ''}`,
-      matchedItem: veganMatch
+      matchedItem: veganMatch,
+      matchStrategy: getMatchStrategy(veganIndexMatch),
+      matchedAlias: veganIndexMatch.matchedAlias,
+      eNumbers,
+      databaseVersion: dataset.version
     };
   }
   
@@ -287,10 +629,8 @@ export function checkIngredientStatus(ingredientName: string): {
   if (isE304Check) {
     logger.info(`[checkIngredientStatus] E304 not matched in any list`);
   }
-  return { isVegan: null, isUncertain: false };
+  return { isVegan: null, isUncertain: false, matchStrategy: 'none', eNumbers, databaseVersion: dataset.version };
 }
 
-// Initialisera databaserna vid start
-loadNonVeganIngredients();
-loadUncertainIngredients();
-loadVeganIngredients(); // Ladda veganska listan vid start
\ No newline at end of file
+// Initialisera databasen och dess index vid start
+getIngredientDataset();
\ No newline at end of file
@@ -0,0 +1,209 @@
+/**
+ * Svarsformat version 1, för appversioner som inte skickar "responseVersion".
+ * Textanalysen svarade med AnalysisResult; bild- och videoanalysen med ett format
+ * byggt för appens resultatvy. Båda byggs från det gemensamma svaret (se analysisResponse).
+ */
+import { UsageInfo } from '../types/analysisTypes';
+import { AnalysisResult } from './outputParser';
+import { z } from './openApi';
+import {
+  allergenReportSchema,
+  AnalysisResponse,
+  AnalysisResponseIngredient,
+  productReferenceSchema,
+  usageInfoSchema,
+  verdictTraceStepSchema
+} from './analysisResponse';
+import { DIET_PROFILES } from './dietProfiles';
+import { TRACE_POLICIES } from './tracePolicy';
+
+// Användningsinformation när analysen saknar egen
+const DEFAULT_USAGE_INFO: UsageInfo = {
+  analysesUsed: 0,
+  analysesLimit: 10,
+  remaining: 10,
+  isPremium: false
+};
+
+const statusSchema = z.enum(['vegan', 'non-vegan', 'uncertain', 'unknown']);
+
+// Scheman för OpenAPI-dokumentet; svaren byggs av funktionerna nedan
+export const legacyTextResponseSchema = z.object({
+  isVegan: z.boolean().nullable(),
+  confidence: z.number(),
+  productName: z.string().optional(),
+  ingredientList: z.array(z.string()),
+  nonVeganIngredients: z.array(z.string()),
+  reasoning: z.string(),
+  imageQualityIssues: z.array(z.string()),
+  databaseVersion: z.string(),
+  trace: z.array(verdictTraceStepSchema),
+  ingredientVerdicts: z.array(z.object({
+    name: z.string(),
+    isVegan: z.boolean().nullable(),
+    isUncertain: z.boolean(),
+    confidence: z.number(),
+    trace: z.array(verdictTraceStepSchema)
+  })),
+  dietProfile: z.enum(DIET_PROFILES),
+  allergens: allergenReportSchema,
+  tracePolicy: z.enum(TRACE_POLICIES),
+  traceWarnings: z.array(z.string()),
+  traceIngredients: z.array(z.string()),
+  product: productReferenceSchema.optional()
+}).openapi('LegacyTextAnalysisResponse', { description: 'Response version 1 of the text analysis' });
+
+const legacyIngredientSchema = z.object({
+  name: z.string(),
+  status: statusSchema,
+  statusColor: z.string(),
+  description: z.string()
+});
+
+export const legacyMediaResponseSchema = z.object({
+  success: z.literal(true),
+  status: statusSchema,
+  isVegan: z.boolean().nullable(),
+  isUncertain: z.boolean(),
+  confidence: z.number(),
+  ingredientList: z.array(legacyIngredientSchema.extend({ trace: z.array(verdictTraceStepSchema) })),
+  watchedIngredients: z.array(legacyIngredientSchema.extend({ reason: z.string() })),
+  veganIngredients: z.array(z.string()),
+  nonVeganIngredients: z.array(z.string()),
+  uncertainIngredients: z.array(z.string()),
+  problemIngredient: z.string().nullable(),
+  uncertainReasons: z.array(z.string()),
+  reasoning: z.string(),
+  usageInfo: usageInfoSchema,
+  traceIngredients: z.array(z.string()),
+  databaseVersion: z.string(),
+  dietProfile: z.enum(DIET_PROFILES),
+  allergens: allergenReportSchema,
+  tracePolicy: z.enum(TRACE_POLICIES),
+  traceWarnings: z.array(z.string()),
+  product: productReferenceSchema.nullable()
+}).openapi('LegacyMediaAnalysisResult', { description: 'Response version 1 of the image and video analysis (app result view)' });
+
+export const legacyMediaEnvelopeSchema = z.object({
+  success: z.literal(true),
+  result: legacyMediaResponseSchema
+}).openapi('LegacyMediaAnalysisResponse');
+
+// TODO: Replace this placeholder with actual user watched keywords logic
+const USER_WATCHED_KEYWORDS = ['vete', 'jordnöt', 'mjölk'];
+
+function getIngredientStatus(ingredient: AnalysisResponseIngredient): string {
+  return ingredient.isUncertain
+    ? 'uncertain'
+    : (ingredient.isVegan === null ? 'unknown' : (ingredient.isVegan ? 'vegan' : 'non-vegan'));
+}
+
+function getStatusColor(ingredient: AnalysisResponseIngredient): string {
+  return ingredient.isUncertain
+    ? '#FFBF00'
+    : (ingredient.isVegan === null ? 'grey' : (ingredient.isVegan ? '#90EE90' : '#FF6347'));
+}
+
+/**
+ * Bevakade ingredienser: alla ingredienser (även spår) som innehåller ett bevakat ord
+ */
+function getWatchedIngredients(ingredients: AnalysisResponseIngredient[]): any[] {
+  return ingredients
+    .filter(ingredient => {
+      const lowerCaseName = ingredient.name.toLowerCase();
+      return USER_WATCHED_KEYWORDS.some(keyword => lowerCaseName.includes(keyword.toLowerCase()));
+    })
+    .map(ingredient => ({
+      name: ingredient.name,
+      // Status and color reflect the ingredient's actual status, not just non-vegan/uncertain
+      status: getIngredientStatus(ingredient),
+      statusColor: getStatusColor(ingredient),
+      // Reason and Description are adjusted based on source
+      reason: ingredient.source === 'trace'
+        ? (ingredient.isUncertain ? 'Potentiellt icke-vegansk (spårämne)' : 'Icke-vegansk (spårämne)')
+        : (ingredient.isUncertain ? 'Potentiellt icke-vegansk' : (ingredient.isVegan === false ? 'Icke-vegansk' : 'Vegansk')),
+      description: ingredient.source === 'trace'
+        ? `Detta ämne nämns endast i "kan innehålla spår av"-varningen.`
+        : (ingredient.isUncertain
+            ? 'Denna ingrediens kan vara antingen växt- eller djurbaserad.'
+            : (ingredient.isVegan === false ? 'Denna ingrediens är av animaliskt ursprung.' : 'Denna ingrediens är vegansk.'))
+    }));
+}
+
+/**
+ * Textanalysens format version 1 (AnalysisResult)
+ */
+export function toLegacyTextResponse(response: AnalysisResponse): AnalysisResult {
+  const declaredIngredients = response.ingredients.filter(ingredient => ingredient.source === 'declared');
+  const legacy: AnalysisResult = {
+    isVegan: response.isVegan,
+    confidence: response.confidence,
+    ...(response.productName ? { productName: response.productName } : {}),
+    ingredientList: declaredIngredients.map(ingredient => ingredient.name),
+    nonVeganIngredients: response.nonVeganIngredients,
+    reasoning: response.reasoning,
+    imageQualityIssues: response.imageQualityIssues,
+    databaseVersion: response.databaseVersion,
+    trace: response.trace,
+    ingredientVerdicts: declaredIngredients.map(ingredient => ({
+      name: ingredient.name,
+      isVegan: ingredient.isVegan,
+      isUncertain: ingredient.isUncertain,
+      confidence: ingredient.confidence,
+      trace: ingredient.trace
+    })),
+    dietProfile: response.dietProfile,
+    allergens: response.allergens,
+    tracePolicy: response.tracePolicy,
+    traceWarnings: response.traceWarnings,
+    traceIngredients: response.ingredients
+      .filter(ingredient => ingredient.source === 'trace')
+      .map(ingredient => ingredient.name)
+  };
+  if (response.product) {
+    legacy.product = response.product;
+  }
+  return legacy;
+}
+
+/**
+ * Bild- och videoanalysens format version 1 (appens resultatvy)
+ */
+export function toLegacyMediaResponse(response: AnalysisResponse) {
+  const declaredIngredients = response.ingredients.filter(ingredient => ingredient.source === 'declared');
+  const traceIngredients = response.ingredients.filter(ingredient => ingredient.source === 'trace');
+
+  return {
+    success: true,
+    status: response.status,
+    isVegan: response.isVegan,
+    isUncertain: response.isUncertain,
+    confidence: response.confidence,
+    ingredientList: declaredIngredients.map(ingredient => ({
+      name: ingredient.name,
+      status: getIngredientStatus(ingredient),
+      statusColor: getStatusColor(ingredient),
+      description: ingredient.isUncertain
+        ? `Ingrediensen "${ingredient.name}" kan vara vegansk eller icke-vegansk.`
+        : (ingredient.isVegan === null ? `Status okänd för "${ingredient.name}".` : (ingredient.isVegan ? `Ingrediensen "${ingredient.name}" är vegansk.` : `Ingrediensen "${ingredient.name}" är inte vegansk.`)),
+      trace: ingredient.trace // Steps (AI, database) that set the status, in order
+    })),
+    watchedIngredients: getWatchedIngredients(response.ingredients),
+    veganIngredients: declaredIngredients
+      .filter(ingredient => ingredient.isVegan === true)
+      .map(ingredient => ingredient.name),
+    nonVeganIngredients: response.nonVeganIngredients,
+    uncertainIngredients: response.uncertainIngredients,
+    problemIngredient: declaredIngredients.find(ingredient => ingredient.isVegan === false && !ingredient.isUncertain)?.name || null,
+    uncertainReasons: response.uncertainReasons,
+    reasoning: response.reasoning,
+    usageInfo: response.usageInfo || DEFAULT_USAGE_INFO,
+    traceIngredients: traceIngredients.map(ingredient => ingredient.name),
+    databaseVersion: response.databaseVersion,
+    dietProfile: response.dietProfile,
+    allergens: response.allergens,
+    tracePolicy: response.tracePolicy,
+    traceWarnings: response.traceWarnings,
+    product: response.product
+  };
+}
@@ -0,0 +1,32 @@
+/**
+ * Zod med stöd för OpenAPI-metadata (.openapi()).
+ * Scheman som ingår i OpenAPI-dokumentet importerar z härifrån, så att tillägget
+ * är installerat innan modulerna som använder det läses in.
+ */
+import { z, ZodTypeAny } from 'zod';
+import { extendZodWithOpenApi, ResponseConfig, ZodRequestBody } from '@asteasolutions/zod-to-openapi';
+
+extendZodWithOpenApi(z);
+
+export { z };
+
+/**
+ * En JSON-förfrågan för ett OpenAPI-anrop
+ */
+export function jsonRequest(schema: ZodTypeAny, description?: string): ZodRequestBody {
+  return {
+    ...(description ? { description } : {}),
+    required: true,
+    content: { 'application/json': { schema } }
+  };
+}
+
+/**
+ * Ett JSON-svar för ett OpenAPI-anrop
+ */
+export function jsonResponse(schema: ZodTypeAny, description: string): ResponseConfig {
+  return {
+    description,
+    content: { 'application/json': { schema } }
+  };
+}
@@ -1,4 +1,8 @@
 import { logger } from './logger';
+import { AllergenReport, IngredientVerdict, ProductReference, VerdictTraceStep } from '../types/analysisTypes';
+import { applyVerdictChange, startVerdictTrace, VerdictTraceEvent } from './verdictTrace';
+import { DietProfile } from './dietProfiles';
+import { TracePolicy } from './tracePolicy';
 
 export interface AnalysisResult {
   isVegan: boolean | null;
@@ -9,7 +13,15 @@ export interface AnalysisResult {
   reasoning: string;
   imageQualityIssues?: string[];
   extractedFrom?: string;
-  [key: string]: any; // Allow additional fields
+  databaseVersion?: string; // Version of the ingredient database used for local validation
+  trace?: VerdictTraceStep[]; // Steps that set or changed the product verdict
+  ingredientVerdicts?: IngredientVerdict[]; // Verdict and trace per entry in ingredientList
+  dietProfile?: DietProfile; // Diet profile that isVegan refers to (default: vegan)
+  allergens?: AllergenReport; // EU allergens in the ingredients and in "kan innehålla spår av"
+  tracePolicy?: TracePolicy; // How trace ingredients affected isVegan (default: warn)
+  traceWarnings?: string[]; // Non-vegan or uncertain trace ingredients, empty for the "ignore" policy
+  traceIngredients?: string[]; // Ingredients from "kan innehålla spår av" statements
+  product?: ProductReference; // Set when the request had a gtin
 }
 
 /**
@@ -95,13 +107,20 @@ export class OutputParser {
     if (!extractedJson) {
       // Return a default response when extraction fails
       logger.warn('Using default analysis result due to JSON extraction failure');
-      return {
+      const defaultResult: AnalysisResult = {
         isVegan: null,
         confidence: 0,
         ingredientList: [],
         nonVeganIngredients: [],
-        reasoning: 'Could not interpret the response from the AI service.'
+        reasoning: 'Could not interpret the response from the AI service.',
+        ingredientVerdicts: []
       };
+      startVerdictTrace(defaultResult, {
+        source: 'ai',
+        rule: 'ai-response-unreadable',
+        reason: 'Svaret från AI-tjänsten kunde inte tolkas'
+      });
+      return defaultResult;
     }
     
     // Create a new result with default values
@@ -163,6 +182,14 @@ export class OutputParser {
     result.ingredientList = this.normalizeIngredientList(result.ingredientList);
     result.nonVeganIngredients = this.normalizeIngredientList(result.nonVeganIngredients);
     
+    // Record the AI's verdict as the first step, before any checks adjust it
+    startVerdictTrace(result, {
+      source: 'ai',
+      rule: 'ai-response',
+      reason: 'Bedömning från AI-tjänsten'
+    });
+    result.ingredientVerdicts = result.ingredientList.map(ingredient => this.createIngredientVerdict(ingredient, result));
+    
     // Apply additional validation and sanity checks
     this.applySanityChecks(result);
     
@@ -200,6 +227,34 @@ export class OutputParser {
     return Array.from(normalizedMap.values());
   }
   
+  /**
+   * Create the AI's verdict for a single ingredient. The AI only lists the
+   * non-vegan ingredients, so every other ingredient follows the product verdict.
+   */
+  private createIngredientVerdict(ingredient: string, result: AnalysisResult): IngredientVerdict {
+    const ingredientLower = ingredient.toLowerCase();
+    const isListedAsNonVegan = result.nonVeganIngredients.some(nonVegan =>
+      this.isSameIngredient(ingredientLower, nonVegan.toLowerCase())
+    );
+    const isVegan = isListedAsNonVegan ? false : result.isVegan === null ? null : true;
+
+    const verdict: IngredientVerdict = {
+      name: ingredient,
+      isVegan,
+      isUncertain: isVegan === null,
+      confidence: result.confidence,
+      trace: []
+    };
+    startVerdictTrace(verdict, {
+      source: 'ai',
+      rule: isListedAsNonVegan ? 'ai-non-vegan-ingredient' : 'ai-product-verdict',
+      reason: isListedAsNonVegan
+        ? 'AI-tjänsten angav ingrediensen som icke-vegansk'
+        : 'AI-tjänsten angav inte ingrediensen som icke-vegansk'
+    });
+    return verdict;
+  }
+
   /**
    * Determine if a string has better casing (more proper nouns, less all caps)
    */
@@ -234,8 +289,11 @@ export class OutputParser {
         isVegan: result.isVegan
       });
       // Correct the contradiction
-      result.isVegan = false;
-      result.confidence = Math.min(result.confidence, 0.7);
+      applyVerdictChange(result, { isVegan: false, confidence: Math.min(result.confidence, 0.7) }, {
+        source: 'sanity-check',
+        rule: 'non-vegan-ingredients-contradiction',
+        reason: 'Icke-veganska ingredienser angavs men produkten markerades som vegansk'
+      });
       result.reasoning += '\n\nNOTE: Result corrected due to contradiction. Non-vegan ingredients present but product was initially marked as vegan.';
     }
 
@@ -243,7 +301,11 @@ export class OutputParser {
     if (result.nonVeganIngredients.length === 0 && result.isVegan === false) {
       logger.warn('Contradiction in analysis result: no nonVeganIngredients but isVegan=false');
       // Lower confidence but don't change the result in this case - there might be reasons not in the list
-      result.confidence = Math.min(result.confidence, 0.6);
+      applyVerdictChange(result, { confidence: Math.min(result.confidence, 0.6) }, {
+        source: 'sanity-check',
+        rule: 'missing-non-vegan-ingredients',
+        reason: 'Produkten markerades som icke-vegansk utan att några icke-veganska ingredienser angavs'
+      });
     }
 
     // Check for very short ingredient lists that might indicate incomplete analysis
@@ -252,7 +314,11 @@ export class OutputParser {
         ingredientCount: result.ingredientList.length,
         confidence: result.confidence
       });
-      result.confidence = 0.5;
+      applyVerdictChange(result, { confidence: 0.5 }, {
+        source: 'sanity-check',
+        rule: 'short-ingredient-list',
+        reason: `Misstänkt kort ingredienslista (${result.ingredientList.length} ingredienser) med hög konfidens`
+      });
     }
 
     // Check for uncertainty phrases in reasoning
@@ -279,16 +345,22 @@ export class OutputParser {
         uncertaintyPhrases: foundUncertaintyPhrases
       });
       
+      const uncertaintyEvent: VerdictTraceEvent = {
+        source: 'sanity-check',
+        rule: 'uncertainty-phrases',
+        reason: `Resonemanget innehåller osäkerhetsfraser: ${foundUncertaintyPhrases.join(', ')}`
+      };
+      
       // If there's uncertainty in the reasoning but isVegan is definite, adjust confidence
       if (result.isVegan !== null) {
         // More phrases = lower confidence
         const confidenceReduction = Math.min(0.1 * foundUncertaintyPhrases.length, 0.3);
-        result.confidence = Math.max(0.3, result.confidence - confidenceReduction);
+        applyVerdictChange(result, { confidence: Math.max(0.3, result.confidence - confidenceReduction) }, uncertaintyEvent);
       }
       
       // If confidence is very low, set isVegan to null
       if (result.confidence < 0.4) {
-        result.isVegan = null;
+        applyVerdictChange(result, { isVegan: null }, uncertaintyEvent);
       }
     }
     
@@ -313,12 +385,18 @@ export class OutputParser {
         imageQualityIssues
       });
       
+      const qualityEvent: VerdictTraceEvent = {
+        source: 'sanity-check',
+        rule: 'image-quality',
+        reason: 'Problem med bildkvaliteten upptäcktes'
+      };
+      
       // Reduce confidence based on image quality issues
-      result.confidence = Math.min(result.confidence, 0.6);
+      applyVerdictChange(result, { confidence: Math.min(result.confidence, 0.6) }, qualityEvent);
       
       // If confidence is very low due to image quality, set isVegan to null
       if (result.confidence < 0.4) {
-        result.isVegan = null;
+        applyVerdictChange(result, { isVegan: null }, qualityEvent);
         result.reasoning += '\n\nImage quality issues detected, making the analysis unreliable.';
       }
     }
@@ -329,15 +407,17 @@ export class OutputParser {
       const nonVeganLower = nonVegan.toLowerCase();
       
       // Check if the ingredient or a similar one is in the ingredientList
-      return result.ingredientList.some(ingredient => {
-        const ingredientLower = ingredient.toLowerCase();
-        return ingredientLower.includes(nonVeganLower) || 
-               nonVeganLower.includes(ingredientLower) ||
-               this.areIngredientsAlmostEqual(ingredientLower, nonVeganLower);
-      });
+      return result.ingredientList.some(ingredient => this.isSameIngredient(ingredient.toLowerCase(), nonVeganLower));
     });
   }
   
+  /**
+   * Check if two lowercased ingredient names refer to the same ingredient
+   */
+  private isSameIngredient(a: string, b: string): boolean {
+    return a.includes(b) || b.includes(a) || this.areIngredientsAlmostEqual(a, b);
+  }
+  
   /**
    * Check if two ingredients are very similar (accounting for minor differences)
    */
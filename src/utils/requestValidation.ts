@@ -0,0 +1,123 @@
+/**
+ * Validering av förfrågningar mot Zod-scheman, som middleware före en route.
+ * Samma scheman beskriver förfrågningarna i OpenAPI-dokumentet.
+ */
+import { NextFunction, Request, RequestHandler, Response } from 'express';
+import { defaultErrorMap, ZodErrorMap, ZodIssue, ZodTypeAny } from 'zod';
+import { logger } from './logger';
+
+export interface RequestSchemas {
+  params?: ZodTypeAny;
+  query?: ZodTypeAny;
+  body?: ZodTypeAny;
+}
+
+/**
+ * Felsvarets format; routrarna har haft olika format och klienterna förväntar sig dem:
+ * - "code": { error: KOD, message }
+ * - "successCode": { success: false, error: KOD, message }
+ * - "successMessage": { success: false, error: meddelande }
+ */
+export type ValidationErrorStyle = 'code' | 'successCode' | 'successMessage';
+
+export interface RequestValidationOptions {
+  style: ValidationErrorStyle;
+  errorCodes?: Record<string, string>; // Felkod per fält (första ledet i sökvägen)
+}
+
+// Felkod för fält utan egen felkod
+export const INVALID_REQUEST_CODE = 'INVALID_REQUEST';
+
+export interface RequestValidationError {
+  code: string;
+  message: string;
+  details?: unknown;
+}
+
+const REQUEST_LOCATIONS = ['params', 'query', 'body'] as const;
+
+// Zods standardmeddelanden ("Required") säger inte vilket fält som är fel; schemanas egna meddelanden gör det
+const fieldErrorMap: ZodErrorMap = (issue, ctx) => {
+  const isZodMessage = ctx.defaultError === defaultErrorMap(issue, ctx).message;
+  return {
+    message: issue.path.length > 0 && isZodMessage ? `Invalid ${issue.path.join('.')}: ${ctx.defaultError}` : ctx.defaultError
+  };
+};
+
+/**
+ * Felet för det första problemet i en förfrågan.
+ * Ett eget problem (refine) kan ange felkod och detaljer i params.
+ */
+export function getRequestValidationError(
+  issue: ZodIssue,
+  errorCodes: Record<string, string> = {}
+): RequestValidationError {
+  const params = issue.code === 'custom' ? issue.params || {} : {};
+  const field = String(issue.path[0] ?? '');
+  return {
+    code: params.code || errorCodes[field] || INVALID_REQUEST_CODE,
+    message: issue.message,
+    ...(params.details !== undefined ? { details: params.details } : {})
+  };
+}
+
+/**
+ * Felsvaret i routerns format
+ */
+export function formatRequestValidationError(error: RequestValidationError, style: ValidationErrorStyle): object {
+  const details = error.details !== undefined ? { details: error.details } : {};
+  if (style === 'code') {
+    return { error: error.code, message: error.message, ...details };
+  }
+  if (style === 'successCode') {
+    return { success: false, error: error.code, message: error.message, ...details };
+  }
+  return { success: false, error: error.message, ...details };
+}
+
+/**
+ * Ersätt en del av förfrågan med de tolkade värdena
+ */
+function setRequestValues(req: Request, location: typeof REQUEST_LOCATIONS[number], data: unknown): void {
+  switch (location) {
+    case 'params':
+      req.params = data as Request['params'];
+      break;
+    case 'query':
+      req.query = data as Request['query'];
+      break;
+    case 'body':
+      req.body = data;
+      break;
+  }
+}
+
+/**
+ * Validera parametrar, query och body. De tolkade värdena (med standardvärden och
+ * normaliseringar) ersätter de ursprungliga, så routen får giltiga och typade värden.
+ * En ogiltig förfrågan besvaras med status 400 och når aldrig routen.
+ */
+export function validateRequest(schemas: RequestSchemas, options: RequestValidationOptions): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    for (const location of REQUEST_LOCATIONS) {
+      const schema = schemas[location];
+      if (!schema) {
+        continue;
+      }
+      const result = schema.safeParse(req[location] ?? {}, { errorMap: fieldErrorMap });
+      if (!result.success) {
+        const error = getRequestValidationError(result.error.issues[0], options.errorCodes);
+        logger.warn('Request validation failed', {
+          url: req.originalUrl,
+          location,
+          code: error.code,
+          issues: result.error.issues.map(issue => ({ path: issue.path.join('.'), message: issue.message }))
+        });
+        res.status(400).json(formatRequestValidationError(error, options.style));
+        return;
+      }
+      setRequestValues(req, location, result.data);
+    }
+    next();
+  };
+}
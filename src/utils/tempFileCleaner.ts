@@ -8,7 +8,7 @@ import { logger } from './logger';
  * Provides methods for scheduled cleanup of old temporary files
  */
 export class TempFileCleaner {
-  private static readonly TEMP_DIR = path.join(os.tmpdir(), 'koalens-videos');
+  static readonly TEMP_DIR = path.join(os.tmpdir(), 'koalens-videos');
   private static readonly MAX_AGE_MS = 24 * 60 * 60 * 1000; // 24 hours
   
   /**
@@ -0,0 +1,24 @@
+/**
+ * Gemensam normalisering av ingrediensnamn, används av både veganValidator
+ * och ingrediensdatabasen så att de jämför strängar på samma sätt
+ */
+
+/**
+ * Normaliserar en sträng genom att hantera svenska och övriga nordiska/europeiska
+ * tecken och formatering, så att t.ex. "mjölk", "mælk" och "Milch" jämförs utan
+ * diakritiska tecken
+ */
+export function normalizeString(str: string): string {
+  return str
+    .toLowerCase()
+    .trim()
+    // Remove common formatting characters (like bold markers)
+    .replace(/[*_~]/g, '') 
+    // Dela upp bokstäver med diakritiska tecken (å, ä, ö, é, ü ...) och ta bort tecknen
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // Bokstäver som inte har någon uppdelad form
+    .replace(/æ/g, 'a')
+    .replace(/ø/g, 'o')
+    .replace(/ß/g, 'ss');
+}
@@ -0,0 +1,91 @@
+/**
+ * Policy for "kan innehålla spår av" (trace) ingredients.
+ * The verdict is always computed from the declared ingredients; the policy decides what
+ * a non-vegan or uncertain trace does on top of that:
+ * - "ignore": nothing, traces are not reported as warnings
+ * - "warn": the verdict is unchanged and the traces are listed as warnings (default)
+ * - "uncertain": a product that is vegan from its declared ingredients becomes uncertain
+ */
+import { applyVerdictChange, TraceableVerdict, VerdictChange } from './verdictTrace';
+
+export const TRACE_POLICIES = ['ignore', 'warn', 'uncertain'] as const;
+
+export type TracePolicy = typeof TRACE_POLICIES[number];
+
+export const DEFAULT_TRACE_POLICY: TracePolicy = 'warn';
+
+// Högsta konfidens för en produkt som blivit osäker på grund av spår
+export const TRACE_UNCERTAIN_CONFIDENCE = 0.5;
+
+export function isTracePolicy(value: unknown): value is TracePolicy {
+  return typeof value === 'string' && (TRACE_POLICIES as readonly string[]).includes(value);
+}
+
+/**
+ * Tolka en spårpolicy från en förfrågan
+ * @returns Policyn, standardpolicyn om värdet saknas, eller null om värdet är ogiltigt
+ */
+export function parseTracePolicy(value: unknown): TracePolicy | null {
+  if (value === undefined || value === null || value === '') {
+    return DEFAULT_TRACE_POLICY;
+  }
+  return isTracePolicy(value) ? value : null;
+}
+
+// Felmeddelande för ett ogiltigt värde
+export const INVALID_TRACE_POLICY_MESSAGE = `Invalid tracePolicy: must be one of ${TRACE_POLICIES.join(', ')}`;
+
+/**
+ * Är ett spårämne en varning? Icke-veganska och osäkra spår är det; veganska
+ * och okända (ingen status) är det inte.
+ */
+export function isTraceConcern(isVegan: boolean | null, isUncertain: boolean | undefined): boolean {
+  return isVegan === false || isUncertain === true;
+}
+
+/**
+ * Spårämnen som ska visas som varningar enligt policyn
+ * @param traceConcerns Icke-veganska och osäkra spårämnen
+ */
+export function getTraceWarnings(traceConcerns: string[], policy: TracePolicy): string[] {
+  return policy === 'ignore' ? [] : [...traceConcerns];
+}
+
+/**
+ * Gör spåren produkten osäker? Med "uncertain" blir en vegansk produkt med
+ * varningsspår osäker; en icke-vegansk eller redan osäker produkt ändras inte.
+ */
+export function isMadeUncertainByTraces(
+  isVegan: boolean | null,
+  traceConcerns: string[],
+  policy: TracePolicy
+): boolean {
+  return policy === 'uncertain' && isVegan === true && traceConcerns.length > 0;
+}
+
+/**
+ * Tillämpa policyn på en spårad bedömning; ändringen sparas i spårningen
+ * @returns true om bedömningen ändrades
+ */
+export function applyTracePolicy(
+  verdict: TraceableVerdict,
+  traceConcerns: string[],
+  policy: TracePolicy
+): boolean {
+  if (!isMadeUncertainByTraces(verdict.isVegan, traceConcerns, policy)) {
+    return false;
+  }
+  // Resultat utan isUncertain (analysresultat) uttrycker osäkerhet med isVegan null
+  const change: VerdictChange = {
+    isVegan: null,
+    confidence: Math.min(verdict.confidence, TRACE_UNCERTAIN_CONFIDENCE)
+  };
+  if (verdict.isUncertain !== undefined) {
+    change.isUncertain = true;
+  }
+  return applyVerdictChange(verdict, change, {
+    source: 'sanity-check',
+    rule: 'trace-policy-uncertain',
+    reason: `Kan innehålla spår av ${traceConcerns.join(', ')}; spår räknas som osäkra enligt spårpolicyn`
+  });
+}
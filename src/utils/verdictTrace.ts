@@ -0,0 +1,80 @@
+/**
+ * Trace of how a verdict (status and confidence) changes through the analysis layers:
+ * the AI's status, database corrections, validator rules and sanity checks.
+ * Every layer records a step when it changes something, so a client can show
+ * "AI said vegan, database corrected to non-vegan" without reading the logs.
+ */
+import { VerdictTraceStep } from '../types/analysisTypes';
+
+/**
+ * En bedömning som kan spåras: en ingrediens eller ett helt analysresultat
+ */
+export interface TraceableVerdict {
+  isVegan: boolean | null;
+  isUncertain?: boolean;
+  confidence: number;
+  trace?: VerdictTraceStep[];
+}
+
+// Vem som ändrade bedömningen och varför
+export type VerdictTraceEvent = Pick<VerdictTraceStep, 'source' | 'rule' | 'reason' | 'matchedItem'>;
+
+// Nya värden; utelämnade fält behålls
+export type VerdictChange = Partial<Pick<VerdictTraceStep, 'isVegan' | 'isUncertain' | 'confidence'>>;
+
+/**
+ * Ögonblicksbild av bedömningen efter ett steg.
+ * Resultat utan isUncertain räknas som osäkra när isVegan är null.
+ */
+function toTraceStep(verdict: TraceableVerdict, event: VerdictTraceEvent): VerdictTraceStep {
+  const step: VerdictTraceStep = {
+    source: event.source,
+    rule: event.rule,
+    isVegan: verdict.isVegan,
+    isUncertain: verdict.isUncertain ?? verdict.isVegan === null,
+    confidence: verdict.confidence,
+    reason: event.reason
+  };
+  if (event.matchedItem) {
+    step.matchedItem = event.matchedItem;
+  }
+  return step;
+}
+
+/**
+ * Starta spårningen med bedömningens nuvarande värden som första steg
+ */
+export function startVerdictTrace(verdict: TraceableVerdict, event: VerdictTraceEvent): void {
+  verdict.trace = [toTraceStep(verdict, event)];
+}
+
+/**
+ * Ändra bedömningen och lägg till ett steg i spårningen.
+ * Inget steg läggs till om ändringen inte ändrar något.
+ * @returns true om status eller konfidens ändrades
+ */
+export function applyVerdictChange(
+  verdict: TraceableVerdict,
+  change: VerdictChange,
+  event: VerdictTraceEvent
+): boolean {
+  const isVeganChanged = change.isVegan !== undefined && change.isVegan !== verdict.isVegan;
+  const isUncertainChanged = change.isUncertain !== undefined && change.isUncertain !== verdict.isUncertain;
+  const confidenceChanged = change.confidence !== undefined && change.confidence !== verdict.confidence;
+  if (!isVeganChanged && !isUncertainChanged && !confidenceChanged) {
+    return false;
+  }
+
+  if (change.isVegan !== undefined) {
+    verdict.isVegan = change.isVegan;
+  }
+  if (change.isUncertain !== undefined) {
+    verdict.isUncertain = change.isUncertain;
+  }
+  if (change.confidence !== undefined) {
+    verdict.confidence = change.confidence;
+  }
+
+  verdict.trace = [...(verdict.trace || []), toTraceStep(verdict, event)];
+  return true;
+}
@@ -0,0 +1,131 @@
+/**
+ * Förloppet för en videoanalys (VideoAnalysisService.analyzeVideo).
+ *
+ * Analysen går igenom stegen nedan; varje steg rapporteras när det startar och
+ * när det är klart, hoppas över eller misslyckas, med tider i millisekunder.
+ * När ingredienserna har tolkats (ur funktionsanropet eller med regex) skickas
+ * de preliminärt, innan databaskontrollerna i enhanceAnalysisResult.
+ */
+import { logger } from './logger';
+import { IngredientAnalysisResult } from '../types/analysisTypes';
+
+/**
+ * Analysens övergripande steg (visas t.ex. för videojobb)
+ */
+export type VideoAnalysisStage = 'optimizing' | 'analyzing' | 'enhancing';
+
+export const VIDEO_ANALYSIS_STEPS = [
+  'sizeCheck', // Validering och storlekskontroll
+  'tempWrite', // Videon skrivs till den temporära katalogen
+  'optimization', // optimizeFast/optimize mot tidsgränsen på 8 sekunder
+  'gemini', // Anropet till Gemini
+  'functionCall', // Funktionsanropet tas ut ur svaret och tolkas
+  'regexFallback', // Svaret tolkas som text när funktionsanropet saknas eller är ogiltigt
+  'enhance' // Databaskontroller och dom (enhanceAnalysisResult)
+] as const;
+
+export type VideoAnalysisStep = typeof VIDEO_ANALYSIS_STEPS[number];
+
+const STEP_STAGES: Record<VideoAnalysisStep, VideoAnalysisStage> = {
+  sizeCheck: 'optimizing',
+  tempWrite: 'optimizing',
+  optimization: 'optimizing',
+  gemini: 'analyzing',
+  functionCall: 'analyzing',
+  regexFallback: 'analyzing',
+  enhance: 'enhancing'
+};
+
+export type VideoAnalysisStepStatus = 'started' | 'completed' | 'skipped' | 'failed';
+
+/**
+ * En ingrediens som den tolkades, före databaskontrollerna
+ */
+export type PartialIngredient = Pick<IngredientAnalysisResult, 'name' | 'source' | 'isVegan' | 'isUncertain'>;
+
+export interface VideoAnalysisProgress {
+  step: VideoAnalysisStep;
+  stage: VideoAnalysisStage;
+  status: VideoAnalysisStepStatus;
+  elapsedMs: number; // Sedan analysen startade
+  durationMs?: number; // Stegets längd, när det är klart eller har misslyckats
+  details?: Record<string, unknown>;
+  ingredients?: PartialIngredient[];
+}
+
+export type VideoAnalysisProgressListener = (progress: VideoAnalysisProgress) => void;
+
+/**
+ * Rapporterar stegen för en analys till en lyssnare. Ett steg avslutas bara en
+ * gång, så flera felvägar kan avsluta samma steg utan dubbla händelser.
+ */
+export class VideoAnalysisProgressReporter {
+  private readonly startedAt = new Map<VideoAnalysisStep, number>();
+
+  constructor(
+    private readonly listener?: VideoAnalysisProgressListener,
+    private readonly startTime: number = Date.now()
+  ) {}
+
+  start(step: VideoAnalysisStep, details?: Record<string, unknown>): void {
+    this.startedAt.set(step, Date.now());
+    this.emit({ step, status: 'started', details });
+  }
+
+  /**
+   * Avsluta ett startat steg. Ett steg som inte har startats kan bara hoppas över.
+   * @param ingredients Ingredienserna som steget tolkade
+   */
+  finish(
+    step: VideoAnalysisStep,
+    status: Exclude<VideoAnalysisStepStatus, 'started'>,
+    details?: Record<string, unknown>,
+    ingredients?: IngredientAnalysisResult[]
+  ): void {
+    const startedAt = this.startedAt.get(step);
+    if (startedAt === undefined && status !== 'skipped') {
+      return;
+    }
+    this.startedAt.delete(step);
+    this.emit({
+      step,
+      status,
+      durationMs: startedAt === undefined ? undefined : Date.now() - startedAt,
+      details,
+      ingredients: ingredients?.map(ingredient => ({
+        name: ingredient.name,
+        source: ingredient.source,
+        isVegan: ingredient.isVegan,
+        isUncertain: ingredient.isUncertain
+      }))
+    });
+  }
+
+  /**
+   * Markera alla startade steg som misslyckade, när analysen avbryts av ett fel
+   */
+  failStarted(details?: Record<string, unknown>): void {
+    for (const step of [...this.startedAt.keys()]) {
+      this.finish(step, 'failed', details);
+    }
+  }
+
+  private emit(progress: Omit<VideoAnalysisProgress, 'stage' | 'elapsedMs'>): void {
+    if (!this.listener) {
+      return;
+    }
+    // Tomma fält tas bort så att händelserna blir kompakta
+    const event = Object.fromEntries(Object.entries({
+      ...progress,
+      stage: STEP_STAGES[progress.step],
+      elapsedMs: Date.now() - this.startTime
+    }).filter(([, value]) => value !== undefined)) as unknown as VideoAnalysisProgress;
+
+    // En trasig lyssnare får inte avbryta analysen
+    try {
+      this.listener(event);
+    } catch (error: any) {
+      logger.warn('Video analysis progress listener failed', { step: progress.step, error: error.message });
+    }
+  }
+}
@@ -0,0 +1,92 @@
+/**
+ * Uppladdade videofiler i den temporära katalogen (koalens-videos, som
+ * TempFileCleaner rensar). Används av uppladdningsmiddlewaren och av de
+ * återupptagbara uppladdningarna (VideoUploadService).
+ */
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { logger } from './logger';
+import { AppError } from './errorHandling';
+import { TempFileCleaner } from './tempFileCleaner';
+import { VideoValidator } from './videoValidator';
+
+// Filändelser för videotyperna som VideoValidator godtar
+export const VIDEO_UPLOAD_EXTENSIONS: Record<string, string> = {
+  'video/mp4': 'mp4',
+  'video/quicktime': 'mov',
+  'video/webm': 'webm'
+};
+
+/**
+ * En ny sökväg i den temporära katalogen för en video av typen mimeType
+ * @param suffix Filnamnets slut före filändelsen, t.ex. "upload" eller "chunked"
+ * @throws AppError (415) om typen inte stöds
+ */
+export function createVideoUploadPath(mimeType: string, suffix: string = 'upload'): string {
+  const extension = VIDEO_UPLOAD_EXTENSIONS[mimeType];
+  if (!extension) {
+    throw new AppError(
+      `Unsupported video type: ${mimeType || 'missing'}. Supported types: ${Object.keys(VIDEO_UPLOAD_EXTENSIONS).join(', ')}`,
+      415,
+      'UNSUPPORTED_VIDEO_TYPE'
+    );
+  }
+  fs.mkdirSync(TempFileCleaner.TEMP_DIR, { recursive: true });
+  return path.join(TempFileCleaner.TEMP_DIR, `${crypto.randomUUID()}-${suffix}.${extension}`);
+}
+
+export function videoTooLargeError(): AppError {
+  const maxMB = Math.round(VideoValidator.MAX_VIDEO_SIZE / (1024 * 1024));
+  return new AppError(`Video file too large. Maximum size is ${maxMB}MB`, 413, 'VIDEO_TOO_LARGE');
+}
+
+/**
+ * Ta bort en uppladdad fil; en fil som redan är borta är inget fel
+ */
+export async function removeVideoUpload(filePath: string): Promise<void> {
+  try {
+    await fs.promises.unlink(filePath);
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') {
+      logger.warn('Could not remove uploaded video', { filePath, error: error.message });
+    }
+  }
+}
+
+export interface WriteVideoStreamOptions {
+  append?: boolean; // Lägg till i slutet av filen; det som hann skrivas behålls vid fel
+}
+
+/**
+ * Skriv en ström till filePath, högst maxBytes
+ * @returns Antalet skrivna byte
+ * @throws AppError (413) om strömmen är större än maxBytes; filen tas då bort,
+ * utom när strömmen läggs till i en befintlig fil
+ */
+export async function writeVideoStream(
+  source: NodeJS.ReadableStream,
+  filePath: string,
+  maxBytes: number,
+  options: WriteVideoStreamOptions = {}
+): Promise<number> {
+  let size = 0;
+  const limiter = new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      size += chunk.length;
+      callback(size > maxBytes ? videoTooLargeError() : null, chunk);
+    }
+  });
+
+  try {
+    await pipeline(source, limiter, fs.createWriteStream(filePath, { flags: options.append ? 'a' : 'w' }));
+  } catch (error) {
+    if (!options.append) {
+      await removeVideoUpload(filePath);
+    }
+    throw error;
+  }
+  return size;
+}
@@ -0,0 +1,199 @@
+/**
+ * Webhook-anrop till klientens callback-URL (t.ex. när ett videojobb är klart).
+ *
+ * Bara publika https-adresser tillåts, så att en klient inte kan få servern att
+ * anropa interna tjänster. Adressen kontrolleras när förfrågan görs (isAllowedCallbackUrl
+ * ser bara själva URL:en): värdnamnet slås upp, alla adresser det pekar på måste vara
+ * publika, och anslutningen görs till den kontrollerade adressen, så att ett namn som
+ * byter adress mellan kontrollen och anropet (DNS rebinding) inte når interna tjänster.
+ * Om WEBHOOK_SECRET är satt signeras kroppen med HMAC-SHA256 i huvudet
+ * X-KoaLens-Signature ("sha256=<hex>").
+ */
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { logger } from './logger';
+
+export const WEBHOOK_SIGNATURE_HEADER = 'X-KoaLens-Signature';
+
+export const INVALID_CALLBACK_URL_MESSAGE = 'Invalid callbackUrl: must be a public https URL';
+
+const WEBHOOK_TIMEOUT_MS = 5000;
+const WEBHOOK_RETRY_DELAYS_MS = [1000, 5000]; // Väntetid före andra och tredje försöket
+
+// Felkoden när callback-värden pekar på en privat adress; ett sådant fel försöks inte igen
+const PRIVATE_ADDRESS_ERROR = 'ERR_WEBHOOK_PRIVATE_ADDRESS';
+
+/**
+ * Om en IPv4- eller IPv6-adress är privat, lokal eller reserverad
+ */
+function isPrivateAddress(address: string): boolean {
+  if (net.isIPv4(address)) {
+    const [a, b, c] = address.split('.').map(Number);
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) || // Carrier-grade NAT
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 192 && b === 0 && (c === 0 || c === 2)) || // IETF-protokoll och TEST-NET-1
+      (a === 198 && (b === 18 || b === 19)) || // Prestandatester
+      (a === 198 && b === 51 && c === 100) ||
+      (a === 203 && b === 0 && c === 113);
+  }
+  const normalized = address.toLowerCase();
+  if (normalized.startsWith('::ffff:')) {
+    // IPv4-mappad adress; URL skriver om "::ffff:192.168.1.1" till "::ffff:c0a8:101"
+    const mapped = normalized.slice(7);
+    if (net.isIPv4(mapped)) {
+      return isPrivateAddress(mapped);
+    }
+    const [high, low] = mapped.split(':').map(group => parseInt(group, 16));
+    return isPrivateAddress([high >> 8, high & 255, low >> 8, low & 255].join('.'));
+  }
+  // NAT64 (64:ff9b::/96 och 64:ff9b:1::/48) kan leda vidare till vilken IPv4-adress som helst
+  return normalized === '::' || normalized === '::1' ||
+    normalized.startsWith('64:ff9b::') || normalized.startsWith('64:ff9b:1:') ||
+    normalized.startsWith('fc') || normalized.startsWith('fd') || normalized.startsWith('fe80');
+}
+
+/**
+ * Om adressen får användas som callback-URL. Utanför produktion tillåts även http.
+ */
+export function isAllowedCallbackUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+
+  const allowHttp = process.env.NODE_ENV !== 'production';
+  if (url.protocol !== 'https:' && !(allowHttp && url.protocol === 'http:')) {
+    return false;
+  }
+  if (url.username || url.password) {
+    return false;
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (hostname === 'localhost' || /\.(localhost|local|internal)$/.test(hostname)) {
+    return false;
+  }
+  return !net.isIP(hostname) || !isPrivateAddress(hostname);
+}
+
+/**
+ * Slå upp värdnamnet och kontrollera att alla dess adresser är publika
+ * @returns Adressen som anslutningen ska göras till
+ * @throws Error om namnet inte kan slås upp eller pekar på en privat adress
+ */
+export async function resolvePublicAddress(hostname: string): Promise<dns.LookupAddress> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = net.isIP(host)
+    ? [{ address: host, family: net.isIP(host) }]
+    : await dns.promises.lookup(host, { all: true });
+
+  if (addresses.length === 0) {
+    throw new Error(`Callback host ${host} has no addresses`);
+  }
+  const privateAddress = addresses.find(({ address }) => isPrivateAddress(address));
+  if (privateAddress) {
+    const error: NodeJS.ErrnoException = new Error(
+      `Callback host ${host} resolves to a private address (${privateAddress.address})`
+    );
+    error.code = PRIVATE_ADDRESS_ERROR;
+    throw error;
+  }
+  return addresses[0];
+}
+
+/**
+ * En lookup för http.request som bara ger ut kontrollerade adresser
+ */
+function publicLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  resolvePublicAddress(hostname).then(
+    resolved => options.all
+      ? callback(null, [resolved])
+      : callback(null, resolved.address, resolved.family),
+    error => callback(error, '')
+  );
+}
+
+/**
+ * POST:a body till url utan att följa omdirigeringar (de kunde leda till en intern adress)
+ * @returns Svarets statuskod
+ */
+function postWebhook(url: URL, headers: Record<string, string>, body: string): Promise<number> {
+  const client = url.protocol === 'https:' ? https : http;
+  return new Promise((resolve, reject) => {
+    const request = client.request(url, {
+      method: 'POST',
+      headers: { ...headers, 'Content-Length': String(Buffer.byteLength(body)) },
+      lookup: publicLookup as typeof dns.lookup,
+      timeout: WEBHOOK_TIMEOUT_MS
+    }, response => {
+      response.resume();
+      resolve(response.statusCode || 0);
+    });
+    request.on('timeout', () => request.destroy(new Error(`Timed out after ${WEBHOOK_TIMEOUT_MS}ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * Signaturen av en webhook-kropp
+ */
+export function signWebhookPayload(body: string, secret: string): string {
+  return `sha256=${crypto.createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Skicka payload som JSON till url. Försöker tre gånger vid nätverksfel eller
+ * 5xx-svar; kastar aldrig.
+ * @returns Om mottagaren svarade med 2xx
+ */
+export async function deliverWebhook(url: string, payload: unknown): Promise<boolean> {
+  if (!isAllowedCallbackUrl(url)) {
+    logger.warn('Webhook URL is not allowed', { url });
+    return false;
+  }
+  const target = new URL(url);
+  const body = JSON.stringify(payload);
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (process.env.WEBHOOK_SECRET) {
+    headers[WEBHOOK_SIGNATURE_HEADER] = signWebhookPayload(body, process.env.WEBHOOK_SECRET);
+  }
+
+  for (let attempt = 0; attempt <= WEBHOOK_RETRY_DELAYS_MS.length; attempt++) {
+    if (attempt > 0) {
+      await new Promise(resolve => setTimeout(resolve, WEBHOOK_RETRY_DELAYS_MS[attempt - 1]));
+    }
+
+    try {
+      const status = await postWebhook(target, headers, body);
+      if (status >= 200 && status < 300) {
+        return true;
+      }
+      logger.warn('Webhook was rejected', { url, status, attempt: attempt + 1 });
+      if (status < 500) {
+        return false;
+      }
+    } catch (error: any) {
+      if (error.code === PRIVATE_ADDRESS_ERROR) {
+        logger.warn('Webhook host is not public', { url, error: error.message });
+        return false;
+      }
+      logger.warn('Webhook could not be delivered', { url, error: error.message, attempt: attempt + 1 });
+    }
+  }
+
+  logger.error('Giving up on webhook', { url });
+  return false;
+}
@@ -0,0 +1,104 @@
+/**
+ * Word- and compound-aware matching of ingredient terms.
+ * A term found inside a longer word only counts when the rest of the word is made
+ * of known word parts, so "vasslepulver" (vassle + pulver) matches "vassle" while
+ * "arom" does not match "rom" and "rostad" does not match "ost".
+ * All functions expect strings normalized with normalizeString.
+ */
+import { normalizeString } from './textNormalizer';
+import { MIN_PART_LENGTH, PLANT_COMPOUND_PARTS, splitCompound } from './compoundSplitter';
+
+// Vanliga för- och efterleder i ingrediensnamn som inte själva finns i katalogen
+// (utöver de växtbaserade förlederna i compoundSplitter).
+// Avsiktligt utan "fri", så att t.ex. "äggfri" inte matchar "ägg".
+export const COMMON_COMPOUND_PARTS = [
+  // Form och beredning
+  'pulver', 'koncentrat', 'extrakt', 'isolat', 'hydrolysat', 'buljong', 'fond', 'sås',
+  'massa', 'pasta', 'puré', 'kräm', 'bitar', 'flingor', 'kross', 'mjöl', 'stärkelse',
+  'fiber', 'blandning', 'ersättning', 'smak', 'sirap', 'socker', 'salt', 'krydda', 'kryddor',
+  'choklad', 'glass', 'fett', 'protein',
+  // Vanliga förleder
+  'malto', 'nöt', 'vilt', 'räk', 'skum', 'hel', 'lätt',
+  // Spannmål: "fullkornsvetemjöl", "durumvete", "havregryn", "kornmaltextrakt"
+  'fullkorn', 'durum', 'gryn', 'malt',
+  // Salter och kemiska förleder (natriumkaseinat, kalciumstearat)
+  'natrium', 'kalcium', 'kalium', 'magnesium', 'ammonium', 'järn'
+].map(normalizeString);
+
+/**
+ * Bygg ordlistan med kända orddelar av katalogens termer och de vanliga lederna.
+ * Bara termer som består av ett enda ord tas med.
+ */
+export function buildCompoundParts(terms: Iterable<string>): Set<string> {
+  const parts = new Set<string>([...COMMON_COMPOUND_PARTS, ...PLANT_COMPOUND_PARTS]);
+  for (const term of terms) {
+    const normalizedTerm = normalizeString(term);
+    if (normalizedTerm.length >= MIN_PART_LENGTH && /^[a-z]+$/.test(normalizedTerm)) {
+      parts.add(normalizedTerm);
+    }
+  }
+  return parts;
+}
+
+function isLetter(char: string | undefined): boolean {
+  return char !== undefined && char >= 'a' && char <= 'z';
+}
+
+/**
+ * Kan ett ordsegment delas upp helt i kända orddelar (med fogemorfem)?
+ */
+export function splitsIntoParts(segment: string, parts: ReadonlySet<string>): boolean {
+  return splitCompound(segment, parts) !== null;
+}
+
+/**
+ * Är förekomsten text[start, end) ett helt ord, utan bokstäver direkt före eller efter?
+ * Används för katalogposter med matchMode 'exact', så att "mjolk" hittas i
+ * "laktosfri mjolk" men inte i "mjolkfri".
+ */
+export function isWholeWordMatch(text: string, start: number, end: number): boolean {
+  return !(isLetter(text[start]) && isLetter(text[start - 1])) && !(isLetter(text[end - 1]) && isLetter(text[end]));
+}
+
+/**
+ * Är förekomsten text[start, end) ett eget ord eller en del av en sammansättning?
+ * Resten av ordet på var sida måste i så fall bestå av kända orddelar.
+ */
+export function isWordMatch(text: string, start: number, end: number, parts: ReadonlySet<string>): boolean {
+  if (isLetter(text[start]) && isLetter(text[start - 1])) {
+    let wordStart = start;
+    while (isLetter(text[wordStart - 1])) {
+      wordStart--;
+    }
+    if (!splitCompound(text.substring(wordStart, start), parts, { openEnd: true })) {
+      return false;
+    }
+  }
+
+  if (isLetter(text[end - 1]) && isLetter(text[end])) {
+    let wordEnd = end;
+    while (isLetter(text[wordEnd])) {
+      wordEnd++;
+    }
+    if (!splitCompound(text.substring(end, wordEnd), parts, { openStart: true })) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Förekommer termen som ord eller sammansättningsled någonstans i texten?
+ */
+export function containsWord(text: string, term: string, parts: ReadonlySet<string>): boolean {
+  if (!term) {
+    return false;
+  }
+  for (let start = text.indexOf(term); start !== -1; start = text.indexOf(term, start + 1)) {
+    if (isWordMatch(text, start, start + term.length, parts)) {
+      return true;
+    }
+  }
+  return false;
+}